@@ -0,0 +1,72 @@
+// app/api/admin/abuse/[userId]/route.ts
+// One user's DRM abuse history - review it and clear the flags
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRole } from '@/lib/authz';
+import { clearAbuseFlags, getAbuseScore, getStreamEnforcement } from '@/lib/drm/abuse';
+
+// GET - Signals (newest first), current score and enforcement
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  const auth = await requireRole(request, 'admin');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: params.userId },
+      select: { id: true, username: true, walletAddress: true, email: true, role: true, createdAt: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const [signals, score, enforcement] = await Promise.all([
+      prisma.abuseSignal.findMany({
+        where: { userId: user.id },
+        orderBy: { createdAt: 'desc' },
+        take: 100,
+      }),
+      getAbuseScore(user.id),
+      getStreamEnforcement(user.id),
+    ]);
+
+    return NextResponse.json({ user, score, enforcement, signals });
+  } catch (error) {
+    console.error('Abuse history error:', error);
+    return NextResponse.json({ error: 'Failed to load abuse history' }, { status: 500 });
+  }
+}
+
+// PATCH - { status: "cleared", note? } clears every open signal and lifts throttles/suspensions
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  const auth = await requireRole(request, 'admin');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { status, note } = await request.json();
+
+    if (status !== 'cleared') {
+      return NextResponse.json({ error: 'status must be "cleared"' }, { status: 400 });
+    }
+
+    const exists = await prisma.user.findUnique({ where: { id: params.userId }, select: { id: true } });
+    if (!exists) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const cleared = await clearAbuseFlags(params.userId, auth.user.id, typeof note === 'string' ? note : undefined);
+    console.log(`[DRM] Admin ${auth.user.id} cleared ${cleared} signal(s) for user ${params.userId}`);
+
+    return NextResponse.json({ success: true, cleared });
+  } catch (error) {
+    console.error('Abuse clear error:', error);
+    return NextResponse.json({ error: 'Failed to clear flags' }, { status: 500 });
+  }
+}
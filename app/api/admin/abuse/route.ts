@@ -0,0 +1,66 @@
+// app/api/admin/abuse/route.ts
+// DRM abuse review queue - users with open signals, their score and current enforcement
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRole } from '@/lib/authz';
+import { getEscalationPolicy, getStreamEnforcement } from '@/lib/drm/abuse';
+
+// GET - Users with open signals (?flagged=true for those escalated to review only)
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(request, 'admin');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const flaggedOnly = searchParams.get('flagged') === 'true';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const groups = await prisma.abuseSignal.groupBy({
+      by: ['userId'],
+      where: {
+        status: 'open',
+        ...(flaggedOnly && { user: { abuseSignals: { some: { status: 'open', action: 'review' } } } }),
+      },
+      _count: { _all: true },
+      _max: { createdAt: true, score: true },
+      orderBy: { _max: { createdAt: 'desc' } },
+      take: limit,
+      skip: offset,
+    });
+
+    const userIds = groups.map(g => g.userId);
+    const [users, flagged] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, username: true, walletAddress: true, email: true, role: true },
+      }),
+      prisma.abuseSignal.findMany({
+        where: { userId: { in: userIds }, status: 'open', action: 'review' },
+        select: { userId: true },
+        distinct: ['userId'],
+      }),
+    ]);
+    const usersById = new Map(users.map(u => [u.id, u]));
+    const flaggedIds = new Set(flagged.map(f => f.userId));
+
+    const queue = await Promise.all(groups.map(async (group) => ({
+      user: usersById.get(group.userId) ?? { id: group.userId },
+      openSignals: group._count._all,
+      peakScore: group._max.score,
+      lastSignalAt: group._max.createdAt,
+      flaggedForReview: flaggedIds.has(group.userId),
+      enforcement: await getStreamEnforcement(group.userId),
+    })));
+
+    return NextResponse.json({
+      queue,
+      policy: getEscalationPolicy(),
+      pagination: { limit, offset, hasMore: groups.length === limit },
+    });
+  } catch (error) {
+    console.error('Abuse queue error:', error);
+    return NextResponse.json({ error: 'Failed to load abuse queue' }, { status: 500 });
+  }
+}
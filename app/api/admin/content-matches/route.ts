@@ -0,0 +1,78 @@
+// app/api/admin/content-matches/route.ts
+// Content match moderation queue - uploads held or blocked by the fingerprint screen
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRole } from '@/lib/authz';
+import { resolveContentMatch } from '@/lib/media/fingerprint';
+
+const TRACK_SELECT = {
+  id: true,
+  title: true,
+  status: true,
+  audioUrl: true,
+  createdAt: true,
+  artist: { select: { id: true, name: true, isVerified: true } },
+};
+
+// GET - Matches by status (default pending), strongest first
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(request, 'admin');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'pending';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const [matches, total] = await Promise.all([
+      prisma.contentMatch.findMany({
+        where: { status },
+        include: {
+          track: { select: TRACK_SELECT },
+          matchedTrack: { select: TRACK_SELECT },
+        },
+        orderBy: [{ score: 'desc' }, { createdAt: 'asc' }],
+        take: limit,
+        skip: offset,
+      }),
+      prisma.contentMatch.count({ where: { status } }),
+    ]);
+
+    return NextResponse.json({
+      matches,
+      pagination: { limit, offset, total, hasMore: offset + matches.length < total },
+    });
+  } catch (error) {
+    console.error('Content match queue error:', error);
+    return NextResponse.json({ error: 'Failed to load content matches' }, { status: 500 });
+  }
+}
+
+// PATCH - { matchId, decision: "approved" | "rejected" } settles a match on the original artist's behalf
+export async function PATCH(request: NextRequest) {
+  const auth = await requireRole(request, 'admin');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { matchId, decision } = await request.json();
+
+    if (!matchId || (decision !== 'approved' && decision !== 'rejected')) {
+      return NextResponse.json({ error: 'matchId and decision ("approved" or "rejected") required' }, { status: 400 });
+    }
+
+    const existing = await prisma.contentMatch.findUnique({ where: { id: matchId }, select: { status: true } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Content match not found' }, { status: 404 });
+    }
+
+    const { match, trackStatus } = await resolveContentMatch(matchId, decision, auth.user.id);
+    console.log(`[FINGERPRINT] Admin ${auth.user.id} ${decision} content match ${matchId}`);
+
+    return NextResponse.json({ success: true, match, trackStatus });
+  } catch (error) {
+    console.error('Content match decision error:', error);
+    return NextResponse.json({ error: 'Failed to decide content match' }, { status: 500 });
+  }
+}
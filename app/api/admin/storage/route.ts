@@ -0,0 +1,61 @@
+// app/api/admin/storage/route.ts
+// Storage report from the last reconciliation - usage per artist and tracks with missing objects
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRole } from '@/lib/authz';
+
+// GET - Largest artists by storage and every track flagged with missing objects
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(request, 'admin');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const [artists, totals, missing] = await Promise.all([
+      prisma.artist.findMany({
+        where: { storageObjects: { gt: 0 } },
+        select: { id: true, name: true, storageBytes: true, storageObjects: true, storageUsageAt: true },
+        orderBy: { storageBytes: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.artist.aggregate({
+        _sum: { storageBytes: true, storageObjects: true },
+        _max: { storageUsageAt: true },
+      }),
+      prisma.track.findMany({
+        where: { missingObjects: { not: null } },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          missingObjects: true,
+          missingObjectsAt: true,
+          artist: { select: { id: true, name: true } },
+        },
+        orderBy: { missingObjectsAt: 'asc' },
+      }),
+    ]);
+
+    return NextResponse.json({
+      usage: artists,
+      totals: {
+        bytes: totals._sum.storageBytes ?? 0,
+        objects: totals._sum.storageObjects ?? 0,
+        measuredAt: totals._max.storageUsageAt,
+      },
+      missing: missing.map(track => ({
+        ...track,
+        missingObjects: JSON.parse(track.missingObjects!),
+      })),
+      pagination: { limit, offset, hasMore: artists.length === limit },
+    });
+  } catch (error) {
+    console.error('Storage report error:', error);
+    return NextResponse.json({ error: 'Failed to load storage report' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+// app/api/admin/watermarks/trace/route.ts
+// Leak tracing - read the forensic watermark from a leaked audio file and report whose copy it was
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireRole } from '@/lib/authz';
+import { traceWatermark } from '@/lib/media/watermark';
+
+const MAX_AUDIO_SIZE = 100 * 1024 * 1024; // 100MB - same limit as /api/upload
+
+// POST - Trace the multipart `audio` file (nothing is stored)
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(request, 'admin');
+  if (!auth.ok) return auth.response;
+
+  try {
+    const formData = await request.formData();
+    const audioFile = formData.get('audio') as File | null;
+
+    if (!audioFile) {
+      return NextResponse.json({ error: 'Missing required field: audio' }, { status: 400 });
+    }
+
+    if (audioFile.size > MAX_AUDIO_SIZE) {
+      return NextResponse.json({ error: 'Audio file too large. Maximum: 100MB' }, { status: 400 });
+    }
+
+    const { detection, match } = await traceWatermark(Buffer.from(await audioFile.arrayBuffer()));
+
+    if (!detection) {
+      return NextResponse.json({ error: 'Audio too short to carry a full watermark (~15s needed)' }, { status: 422 });
+    }
+
+    if (!match) {
+      return NextResponse.json({
+        detected: false,
+        code: detection.code,
+        syncScore: detection.syncScore,
+        message: 'No issued watermark matches this file',
+      });
+    }
+
+    const { watermark, bitErrors } = match;
+    const [user, track] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: watermark.userId },
+        select: { id: true, username: true, walletAddress: true, email: true, role: true, createdAt: true },
+      }),
+      prisma.track.findUnique({
+        where: { id: watermark.trackId },
+        select: { id: true, title: true, artist: { select: { id: true, name: true } } },
+      }),
+    ]);
+
+    console.warn(`[DRM] Leak traced to user ${watermark.userId} (track ${watermark.trackId}, ${watermark.purpose}) by admin ${auth.user.id}`);
+
+    return NextResponse.json({
+      detected: true,
+      code: watermark.code,
+      readCode: detection.code,
+      bitErrors,
+      syncScore: detection.syncScore,
+      copy: {
+        purpose: watermark.purpose,
+        format: watermark.format,
+        bitrate: watermark.bitrate || null,
+        issuedAt: watermark.createdAt,
+        lastServedAt: watermark.lastServedAt,
+        servedCount: watermark.servedCount,
+      },
+      user,
+      track,
+    });
+  } catch (error) {
+    console.error('Watermark trace error:', error);
+    return NextResponse.json({ error: 'Failed to trace watermark' }, { status: 500 });
+  }
+}
@@ -3,27 +3,34 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireScope, checkArtistAccess } from '@/lib/authz';
 
 // GET - Get comprehensive artist analytics
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const walletAddress = searchParams.get('wallet');
+  const artistId = searchParams.get('artistId');
   const period = searchParams.get('period') || '30d'; // '7d' | '30d' | '90d' | '1y' | 'all'
 
-  if (!walletAddress) {
-    return NextResponse.json({ error: 'Wallet address required' }, { status: 400 });
-  }
-
   try {
-    // Get artist
-    const artist = await prisma.artist.findFirst({
-      where: { wallet: walletAddress },
-    });
+    // Session or an API key with read:analytics
+    const auth = await requireScope(request, 'read:analytics');
+    if (!auth.ok) return auth.response;
+
+    // Get artist (defaults to the caller's own profile)
+    const artist = artistId || walletAddress
+      ? await prisma.artist.findFirst({
+          where: artistId ? { id: artistId } : { wallet: walletAddress },
+        })
+      : auth.user.artist;
 
     if (!artist) {
       return NextResponse.json({ error: 'Artist not found' }, { status: 404 });
     }
 
+    const access = await checkArtistAccess(auth.user, artist.id, 'analytics');
+    if (!access.ok) return access.response;
+
     // Calculate date range
     const now = new Date();
     let startDate: Date;
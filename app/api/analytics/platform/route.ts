@@ -3,15 +3,15 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRole } from '@/lib/authz';
 
 // GET - Get platform-wide analytics
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const period = searchParams.get('period') || '30d';
-  const adminKey = request.headers.get('x-admin-key');
 
-  // Basic admin check (in production, use proper auth)
-  const isAdmin = adminKey === process.env.ADMIN_API_KEY;
+  const auth = await requireRole(request, 'admin');
+  if (!auth.ok) return auth.response;
 
   try {
     // Calculate date range
@@ -207,31 +207,28 @@ export async function GET(request: NextRequest) {
     const calcGrowth = (current: number, previous: number) => 
       previous > 0 ? Math.round(((current - previous) / previous) * 100) : current > 0 ? 100 : 0;
 
-    // System health (if admin)
-    let systemHealth = null;
-    if (isAdmin) {
-      const [
-        failedTracks,
-        pendingPurchases,
-        recentErrors,
-      ] = await Promise.all([
-        prisma.track.count({ where: { status: 'failed' } }),
-        prisma.purchase.count({ where: { status: 'PENDING' } }),
-        prisma.track.count({ 
-          where: { 
-            processingError: { not: null },
-            updatedAt: { gte: new Date(now.getTime() - 24 * 60 * 60 * 1000) },
-          },
-        }),
-      ]);
+    // System health
+    const [
+      failedTracks,
+      pendingPurchases,
+      recentErrors,
+    ] = await Promise.all([
+      prisma.track.count({ where: { status: 'failed' } }),
+      prisma.purchase.count({ where: { status: 'PENDING' } }),
+      prisma.track.count({ 
+        where: { 
+          processingError: { not: null },
+          updatedAt: { gte: new Date(now.getTime() - 24 * 60 * 60 * 1000) },
+        },
+      }),
+    ]);
 
-      systemHealth = {
-        failedTracks,
-        pendingPurchases,
-        recentErrors,
-        status: failedTracks + recentErrors < 5 ? 'healthy' : 'warning',
-      };
-    }
+    const systemHealth = {
+      failedTracks,
+      pendingPurchases,
+      recentErrors,
+      status: failedTracks + recentErrors < 5 ? 'healthy' : 'warning',
+    };
 
     return NextResponse.json({
       period,
@@ -291,8 +288,8 @@ export async function GET(request: NextRequest) {
       // Chart data
       chartData: chartData.slice(-30), // Last 30 days
 
-      // System health (admin only)
-      ...(systemHealth ? { systemHealth } : {}),
+      // System health
+      systemHealth,
     });
 
   } catch (error) {
@@ -3,18 +3,19 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireArtistAccess } from '@/lib/authz';
 
 // GET - Get collaboration invites and active collaborations
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const artistId = searchParams.get('artistId');
   const type = searchParams.get('type') || 'all'; // 'sent' | 'received' | 'active' | 'all'
 
-  if (!artistId) {
-    return NextResponse.json({ error: 'Artist ID required' }, { status: 400 });
-  }
-
   try {
+    // Own profile, or ?artistId= for team members with catalog access
+    const auth = await requireArtistAccess(request, searchParams.get('artistId'), 'catalog');
+    if (!auth.ok) return auth.response;
+
+    const { artistId } = auth;
     const conditions: any[] = [];
 
     if (type === 'sent' || type === 'all') {
@@ -80,7 +81,6 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const {
-      inviterId,
       inviteeId,
       trackId,
       message,
@@ -88,12 +88,21 @@ export async function POST(request: NextRequest) {
       royaltyShare = 50, // Default 50/50 split
     } = body;
 
-    if (!inviterId || !inviteeId) {
+    const auth = await requireArtistAccess(request, body.inviterId, 'catalog');
+    if (!auth.ok) return auth.response;
+
+    const inviterId = auth.artistId;
+
+    if (!inviteeId) {
       return NextResponse.json({
-        error: 'Inviter and invitee artist IDs required',
+        error: 'Invitee artist ID required',
       }, { status: 400 });
     }
 
+    if (inviteeId === inviterId) {
+      return NextResponse.json({ error: 'Cannot collaborate with yourself' }, { status: 400 });
+    }
+
     // Validate artists exist
     const [inviter, invitee] = await Promise.all([
       prisma.artist.findUnique({ where: { id: inviterId } }),
@@ -161,17 +170,21 @@ export async function PATCH(request: NextRequest) {
     const body = await request.json();
     const {
       collaborationId,
-      artistId,
       action, // 'accept' | 'decline'
       royaltyShare, // Can renegotiate on accept
     } = body;
 
-    if (!collaborationId || !artistId || !action) {
+    if (!collaborationId || !action) {
       return NextResponse.json({
-        error: 'Collaboration ID, artist ID, and action required',
+        error: 'Collaboration ID and action required',
       }, { status: 400 });
     }
 
+    const auth = await requireArtistAccess(request, body.artistId, 'catalog');
+    if (!auth.ok) return auth.response;
+
+    const { artistId } = auth;
+
     // Verify this is the invitee
     const collaboration = await prisma.collaboration.findFirst({
       where: {
@@ -268,14 +281,19 @@ export async function PATCH(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const body = await request.json();
-    const { collaborationId, artistId } = body;
+    const { collaborationId } = body;
 
-    if (!collaborationId || !artistId) {
+    if (!collaborationId) {
       return NextResponse.json({
-        error: 'Collaboration ID and artist ID required',
+        error: 'Collaboration ID required',
       }, { status: 400 });
     }
 
+    const auth = await requireArtistAccess(request, body.artistId, 'catalog');
+    if (!auth.ok) return auth.response;
+
+    const { artistId } = auth;
+
     // Verify inviter
     const collaboration = await prisma.collaboration.findFirst({
       where: {
@@ -0,0 +1,154 @@
+// app/api/artist/content-matches/route.ts
+// Fingerprint matches between an artist's uploads and other artists' tracks - exception requests and decisions
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireArtistAccess } from '@/lib/authz';
+import { EXCEPTION_TYPES, ExceptionType, resolveContentMatch } from '@/lib/media/fingerprint';
+
+const TRACK_SELECT = {
+  id: true,
+  title: true,
+  coverUrl: true,
+  status: true,
+  processingError: true,
+  artist: { select: { id: true, name: true, avatarUrl: true } },
+};
+
+// GET - Matches against the artist's tracks (received), on their uploads (sent), or both
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get('type') || 'all'; // 'received' | 'sent' | 'all'
+  const status = searchParams.get('status'); // 'pending' | 'approved' | 'rejected'
+
+  try {
+    // Own profile, or ?artistId= for team members with catalog access
+    const auth = await requireArtistAccess(request, searchParams.get('artistId'), 'catalog');
+    if (!auth.ok) return auth.response;
+
+    const { artistId } = auth;
+    const conditions: Prisma.ContentMatchWhereInput[] = [];
+
+    if (type === 'received' || type === 'all') {
+      conditions.push({ matchedTrack: { artistId } });
+    }
+    if (type === 'sent' || type === 'all') {
+      conditions.push({ track: { artistId } });
+    }
+
+    const matches = await prisma.contentMatch.findMany({
+      where: {
+        OR: conditions,
+        ...(status && { status }),
+      },
+      include: {
+        track: { select: TRACK_SELECT },
+        matchedTrack: { select: TRACK_SELECT },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json({
+      received: matches.filter(m => m.matchedTrack.artist.id === artistId),
+      sent: matches.filter(m => m.track.artist.id === artistId),
+      total: matches.length,
+    });
+  } catch (error) {
+    console.error('Get content matches error:', error);
+    return NextResponse.json({ error: 'Failed to get content matches' }, { status: 500 });
+  }
+}
+
+// PATCH - Uploader requests an exception; the original artist approves or rejects it
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      matchId,
+      action, // 'request_exception' | 'approve' | 'reject'
+      exceptionType, // 'remaster' | 'remix' | 'license' | 'other'
+      note,
+    } = body;
+
+    if (!matchId || !action) {
+      return NextResponse.json({ error: 'Match ID and action required' }, { status: 400 });
+    }
+
+    const auth = await requireArtistAccess(request, body.artistId, 'catalog');
+    if (!auth.ok) return auth.response;
+
+    const { artistId } = auth;
+
+    const match = await prisma.contentMatch.findUnique({
+      where: { id: matchId },
+      include: {
+        track: { select: { id: true, title: true, artistId: true, artist: { select: { name: true } } } },
+        matchedTrack: { select: { id: true, title: true, artistId: true, artist: { select: { userId: true } } } },
+      },
+    });
+
+    if (!match) {
+      return NextResponse.json({ error: 'Content match not found' }, { status: 404 });
+    }
+
+    if (match.status !== 'pending') {
+      return NextResponse.json({ error: `Content match already ${match.status}` }, { status: 400 });
+    }
+
+    if (action === 'request_exception') {
+      if (match.track.artistId !== artistId) {
+        return NextResponse.json({ error: 'Not your upload' }, { status: 403 });
+      }
+      if (!EXCEPTION_TYPES.includes(exceptionType)) {
+        return NextResponse.json({ error: `exceptionType must be one of: ${EXCEPTION_TYPES.join(', ')}` }, { status: 400 });
+      }
+
+      const updated = await prisma.contentMatch.update({
+        where: { id: matchId },
+        data: {
+          exceptionType,
+          exceptionNote: typeof note === 'string' ? note.slice(0, 1000) : null,
+          requestedAt: new Date(),
+        },
+      });
+
+      await prisma.notification.create({
+        data: {
+          userId: match.matchedTrack.artist.userId,
+          type: 'system',
+          title: 'Exception requested',
+          message: `${match.track.artist.name} says "${match.track.title}" is a ${exceptionType} of "${match.matchedTrack.title}"`,
+          data: JSON.stringify({ trackId: match.matchedTrack.id, matchId, actionUrl: '/artist/dashboard' }),
+        },
+      });
+
+      return NextResponse.json({ success: true, match: updated, message: 'Exception requested' });
+    }
+
+    if (action === 'approve' || action === 'reject') {
+      if (match.matchedTrack.artistId !== artistId) {
+        return NextResponse.json({ error: 'Only the original artist can decide' }, { status: 403 });
+      }
+
+      const { match: resolved, trackStatus } = await resolveContentMatch(
+        matchId,
+        action === 'approve' ? 'approved' : 'rejected',
+        auth.user.id,
+        EXCEPTION_TYPES.includes(exceptionType) ? exceptionType as ExceptionType : undefined
+      );
+
+      return NextResponse.json({
+        success: true,
+        match: resolved,
+        trackStatus,
+        message: action === 'approve' ? 'Exception granted' : 'Upload stays blocked',
+      });
+    }
+
+    return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+  } catch (error) {
+    console.error('Content match action error:', error);
+    return NextResponse.json({ error: 'Failed to update content match' }, { status: 500 });
+  }
+}
@@ -3,41 +3,25 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { PublicKey } from '@solana/web3.js';
+import { requireArtistAccess } from '@/lib/authz';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const walletAddress = searchParams.get('wallet');
     const period = searchParams.get('period') || '30d';
 
-    if (!walletAddress) {
-      return NextResponse.json({ error: 'Wallet address required' }, { status: 400 });
-    }
-
-    // Validate wallet address
-    try {
-      new PublicKey(walletAddress);
-    } catch {
-      return NextResponse.json({ error: 'Invalid wallet address' }, { status: 400 });
-    }
+    // Caller's own dashboard, or ?artistId= for team members with analytics access
+    const auth = await requireArtistAccess(request, searchParams.get('artistId'), 'analytics');
+    if (!auth.ok) return auth.response;
 
-    // Get user and artist profile
-    const user = await prisma.user.findUnique({
-      where: { walletAddress },
-      include: { artist: true }
+    const artist = await prisma.artist.findUnique({
+      where: { id: auth.artistId },
     });
 
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    if (!artist) {
+      return NextResponse.json({ error: 'Artist not found' }, { status: 404 });
     }
 
-    if (!user.artist) {
-      return NextResponse.json({ error: 'Not an artist account' }, { status: 403 });
-    }
-
-    const artist = user.artist;
-
     // Calculate date range
     const now = new Date();
     let startDate: Date;
@@ -122,7 +106,7 @@ export async function GET(request: NextRequest) {
 
     // Get follower count
     const followers = await prisma.follow.count({
-      where: { followingId: user.id }
+      where: { followingId: artist.userId }
     });
 
     // Calculate earnings (simplified - in production this would come from on-chain data)
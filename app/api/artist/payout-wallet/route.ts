@@ -0,0 +1,88 @@
+// app/api/artist/payout-wallet/route.ts
+// Artist payout wallet - changes need a second factor and wait out a cooling-off period
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireArtist, requireArtistAccess, requireSecondFactor } from '@/lib/authz';
+import {
+  PAYOUT_WALLET_COOLOFF_HOURS,
+  cancelPayoutWalletChange,
+  getPayoutWallet,
+  requestPayoutWalletChange,
+} from '@/lib/payouts';
+
+// GET - Current payout wallet and any pending change
+export async function GET(request: NextRequest) {
+  try {
+    // Own wallet, or ?artistId= for team members with finance access
+    const auth = await requireArtistAccess(request, new URL(request.url).searchParams.get('artistId'), 'finance');
+    if (!auth.ok) return auth.response;
+
+    const wallet = await getPayoutWallet(auth.artistId);
+    const artist = await prisma.artist.findUnique({
+      where: { id: auth.artistId },
+      select: { pendingWallet: true, pendingWalletAt: true, walletChangedAt: true },
+    });
+
+    return NextResponse.json({
+      wallet,
+      pendingWallet: artist?.pendingWallet ?? null,
+      pendingWalletAt: artist?.pendingWalletAt ?? null,
+      walletChangedAt: artist?.walletChangedAt ?? null,
+      cooloffHours: PAYOUT_WALLET_COOLOFF_HOURS,
+    });
+  } catch (error) {
+    console.error('Get payout wallet error:', error);
+    return NextResponse.json({ error: 'Failed to get payout wallet' }, { status: 500 });
+  }
+}
+
+// POST - Request a payout wallet change (owner-only, requires 2FA)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireArtist(request);
+    if (!auth.ok) return auth.response;
+
+    const { wallet, code } = await request.json();
+
+    if (!wallet) {
+      return NextResponse.json({ error: 'wallet required' }, { status: 400 });
+    }
+
+    const factor = await requireSecondFactor(auth.user, code);
+    if (!factor.ok) return factor.response;
+
+    const result = await requestPayoutWalletChange(auth.artistId, wallet);
+    if (!result.scheduled) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      pendingWallet: wallet,
+      effectiveAt: result.effectiveAt,
+      message: `Your payout wallet will change in ${PAYOUT_WALLET_COOLOFF_HOURS} hours`,
+    });
+  } catch (error) {
+    console.error('Change payout wallet error:', error);
+    return NextResponse.json({ error: 'Failed to change payout wallet' }, { status: 500 });
+  }
+}
+
+// DELETE - Cancel a pending payout wallet change (owner-only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireArtist(request);
+    if (!auth.ok) return auth.response;
+
+    const canceled = await cancelPayoutWalletChange(auth.artistId);
+    if (!canceled) {
+      return NextResponse.json({ error: 'No pending payout wallet change' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Cancel payout wallet change error:', error);
+    return NextResponse.json({ error: 'Failed to cancel payout wallet change' }, { status: 500 });
+  }
+}
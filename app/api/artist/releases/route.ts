@@ -3,6 +3,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { enqueueEmail, newReleaseEmail } from '@/lib/email';
+import { requireArtistAccess, requireArtistOwner } from '@/lib/authz';
+import { MODERATED_TRACK_STATUSES } from '@/lib/media/fingerprint';
+import { coverVariantKeys, isArtistCoverKey } from '@/lib/media/artwork';
+import { deleteFile, getPublicUrl } from '@/lib/storage';
 
 // GET - List artist releases
 export async function GET(request: NextRequest) {
@@ -17,8 +22,12 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    // Drafts and scheduled releases are only visible to the artist and their team
+    const access = await requireArtistAccess(request, artistId, 'releases');
+
     const where: any = { artistId };
     if (status) where.status = status;
+    if (!access.ok) where.status = 'published';
 
     const [releases, total] = await Promise.all([
       prisma.release.findMany({
@@ -88,29 +97,38 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const {
-      artistId,
       title,
       type = 'album',
       description,
       coverUrl,
+      coverKey, // From GET /api/upload?type=cover - variants and palette are rendered by the media-jobs cron
       genre,
       releaseDate,
       scheduledAt,
     } = body;
 
-    if (!artistId || !title) {
+    // Own profile, or body.artistId for team members with release access
+    const auth = await requireArtistAccess(request, body.artistId, 'releases');
+    if (!auth.ok) return auth.response;
+
+    if (!title) {
       return NextResponse.json({
-        error: 'Artist ID and title required',
+        error: 'Title required',
       }, { status: 400 });
     }
 
+    if (coverKey && !isArtistCoverKey(auth.artistId, coverKey)) {
+      return NextResponse.json({ error: 'Invalid cover key' }, { status: 400 });
+    }
+
     const release = await prisma.release.create({
       data: {
-        artistId,
+        artistId: auth.artistId,
         title,
         type,
         description,
-        coverUrl,
+        coverUrl: coverKey ? getPublicUrl(coverKey) : coverUrl,
+        coverKey,
         genre,
         releaseDate: releaseDate ? new Date(releaseDate) : null,
         scheduledAt: scheduledAt ? new Date(scheduledAt) : null,
@@ -135,26 +153,18 @@ export async function PATCH(request: NextRequest) {
     const body = await request.json();
     const {
       releaseId,
-      artistId,
       action,
       ...updates
     } = body;
 
-    if (!releaseId || !artistId) {
+    if (!releaseId) {
       return NextResponse.json({
-        error: 'Release ID and artist ID required',
+        error: 'Release ID required',
       }, { status: 400 });
     }
 
-    // Verify ownership
-    const release = await prisma.release.findFirst({
-      where: { id: releaseId, artistId },
-      include: { tracks: true },
-    });
-
-    if (!release) {
-      return NextResponse.json({ error: 'Release not found' }, { status: 404 });
-    }
+    const auth = await requireArtistOwner(request, 'release', releaseId);
+    if (!auth.ok) return auth.response;
 
     let updateData: any = {};
 
@@ -173,7 +183,7 @@ export async function PATCH(request: NextRequest) {
         
         // Update all tracks to scheduled
         await prisma.track.updateMany({
-          where: { releaseId },
+          where: { releaseId, status: { notIn: MODERATED_TRACK_STATUSES } },
           data: {
             scheduledReleaseAt: new Date(updates.scheduledAt),
             status: 'scheduled',
@@ -190,7 +200,7 @@ export async function PATCH(request: NextRequest) {
         
         // Update all tracks to published
         await prisma.track.updateMany({
-          where: { releaseId },
+          where: { releaseId, status: { notIn: MODERATED_TRACK_STATUSES } },
           data: {
             status: 'published',
             publishedAt: new Date(),
@@ -206,7 +216,7 @@ export async function PATCH(request: NextRequest) {
         };
         
         await prisma.track.updateMany({
-          where: { releaseId },
+          where: { releaseId, status: { notIn: MODERATED_TRACK_STATUSES } },
           data: {
             status: 'ready',
             publishedAt: null,
@@ -217,21 +227,43 @@ export async function PATCH(request: NextRequest) {
       case 'archive':
         updateData = { status: 'archived' };
         await prisma.track.updateMany({
-          where: { releaseId },
+          where: { releaseId, status: { notIn: MODERATED_TRACK_STATUSES } },
           data: { status: 'archived' },
         });
         break;
 
       default:
         // General update
-        const { title, description, coverUrl, genre, releaseDate } = updates;
+        const { title, description, coverUrl, coverKey, genre, releaseDate } = updates;
         updateData = {
           ...(title && { title }),
           ...(description !== undefined && { description }),
-          ...(coverUrl && { coverUrl }),
+          ...(coverUrl && { coverUrl, coverKey: null }),
           ...(genre && { genre }),
           ...(releaseDate && { releaseDate: new Date(releaseDate) }),
         };
+
+        // A new cover drops the old renders; uploaded ones are re-rendered by the media-jobs cron
+        if (coverUrl || coverKey) {
+          if (coverKey && !isArtistCoverKey(auth.artistId, coverKey)) {
+            return NextResponse.json({ error: 'Invalid cover key' }, { status: 400 });
+          }
+
+          const current = await prisma.release.findUnique({
+            where: { id: releaseId },
+            select: { coverKey: true, coverVariants: true },
+          });
+          for (const key of coverVariantKeys(current?.coverVariants)) {
+            await deleteFile(key).catch(err => console.error('Failed to delete cover variant:', err));
+          }
+
+          updateData.coverVariants = null;
+          updateData.coverPalette = null;
+          if (coverKey) {
+            updateData.coverKey = coverKey;
+            updateData.coverUrl = getPublicUrl(coverKey);
+          }
+        }
     }
 
     const updated = await prisma.release.update({
@@ -239,6 +271,11 @@ export async function PATCH(request: NextRequest) {
       data: updateData,
     });
 
+    // Let followers know by email (queued - delivered by the email-queue cron)
+    if (action === 'publish') {
+      await notifyFollowersByEmail(updated.id);
+    }
+
     return NextResponse.json({
       success: true,
       release: updated,
@@ -255,22 +292,20 @@ export async function PATCH(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const body = await request.json();
-    const { releaseId, artistId } = body;
+    const { releaseId } = body;
 
-    if (!releaseId || !artistId) {
+    if (!releaseId) {
       return NextResponse.json({
-        error: 'Release ID and artist ID required',
+        error: 'Release ID required',
       }, { status: 400 });
     }
 
-    // Verify ownership
-    const release = await prisma.release.findFirst({
-      where: { id: releaseId, artistId },
-    });
+    const auth = await requireArtistOwner(request, 'release', releaseId);
+    if (!auth.ok) return auth.response;
 
-    if (!release) {
-      return NextResponse.json({ error: 'Release not found' }, { status: 404 });
-    }
+    const release = await prisma.release.findUniqueOrThrow({
+      where: { id: releaseId },
+    });
 
     // Delete all tracks first (cascade will handle related records)
     await prisma.track.deleteMany({
@@ -284,7 +319,7 @@ export async function DELETE(request: NextRequest) {
 
     // Update artist track count
     await prisma.artist.update({
-      where: { id: artistId },
+      where: { id: auth.artistId },
       data: {
         totalTracks: { decrement: release.trackCount },
       },
@@ -300,3 +335,33 @@ export async function DELETE(request: NextRequest) {
     return NextResponse.json({ error: 'Failed to delete release' }, { status: 500 });
   }
 }
+
+// Helper: Queue new-release emails for the artist's followers
+async function notifyFollowersByEmail(releaseId: string) {
+  const release = await prisma.release.findUnique({
+    where: { id: releaseId },
+    include: { artist: { select: { name: true, userId: true } } },
+  });
+
+  if (!release) return;
+
+  const followers = await prisma.follow.findMany({
+    where: {
+      followingId: release.artist.userId,
+      follower: { email: { not: null } },
+    },
+    select: { follower: { select: { email: true } } },
+  });
+
+  const email = newReleaseEmail({
+    artistName: release.artist.name,
+    releaseTitle: release.title,
+    releaseType: release.type,
+    releaseId: release.id,
+    coverUrl: release.coverUrl,
+  });
+
+  for (const { follower } of followers) {
+    await enqueueEmail(follower.email!, email);
+  }
+}
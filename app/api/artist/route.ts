@@ -3,7 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { PublicKey } from '@solana/web3.js';
+import { requireUser, requireArtistAccess } from '@/lib/authz';
 
 // GET - Fetch artist by ID or wallet
 export async function GET(request: NextRequest) {
@@ -51,12 +51,15 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Create artist profile
+// POST - Create artist profile for the signed-in user
 export async function POST(request: NextRequest) {
   try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const { user } = auth;
     const body = await request.json();
     const { 
-      walletAddress, 
       name, 
       bio, 
       genre,
@@ -67,25 +70,8 @@ export async function POST(request: NextRequest) {
       soundcloudUrl,
     } = body;
 
-    if (!walletAddress || !name) {
-      return NextResponse.json({ error: 'Wallet address and name required' }, { status: 400 });
-    }
-
-    // Validate wallet address
-    try {
-      new PublicKey(walletAddress);
-    } catch {
-      return NextResponse.json({ error: 'Invalid wallet address' }, { status: 400 });
-    }
-
-    // Check user exists
-    const user = await prisma.user.findUnique({
-      where: { walletAddress },
-      include: { artist: true }
-    });
-
-    if (!user) {
-      return NextResponse.json({ error: 'User not found. Connect wallet first.' }, { status: 404 });
+    if (!name) {
+      return NextResponse.json({ error: 'Name required' }, { status: 400 });
     }
 
     if (user.artist) {
@@ -113,14 +99,17 @@ export async function POST(request: NextRequest) {
         genre,
         links: JSON.stringify(socialLinks),
         userId: user.id,
+        wallet: user.walletAddress, // Payout wallet - later changes go through /api/artist/payout-wallet
       }
     });
 
-    // Update user role
-    await prisma.user.update({
-      where: { id: user.id },
-      data: { role: 'artist' }
-    });
+    // Update user role (admins keep theirs)
+    if (user.role !== 'admin') {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { role: 'artist' }
+      });
+    }
 
     return NextResponse.json(artist, { status: 201 });
   } catch (error) {
@@ -133,21 +122,11 @@ export async function POST(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { walletAddress, ...updates } = body;
-
-    if (!walletAddress) {
-      return NextResponse.json({ error: 'Wallet address required' }, { status: 400 });
-    }
+    const { artistId, ...updates } = body;
 
-    // Verify ownership
-    const user = await prisma.user.findUnique({
-      where: { walletAddress },
-      include: { artist: true }
-    });
-
-    if (!user?.artist) {
-      return NextResponse.json({ error: 'Artist profile not found' }, { status: 404 });
-    }
+    // Owner, or a team member with profile access (defaults to the caller's own profile)
+    const auth = await requireArtistAccess(request, artistId, 'profile');
+    if (!auth.ok) return auth.response;
 
     // Filter allowed updates
     const allowedFields = ['name', 'bio', 'genre', 'avatarUrl', 'bannerUrl', 'links'];
@@ -161,7 +140,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     const artist = await prisma.artist.update({
-      where: { id: user.artist.id },
+      where: { id: auth.artistId },
       data: filteredUpdates,
     });
 
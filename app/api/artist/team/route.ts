@@ -0,0 +1,273 @@
+// app/api/artist/team/route.ts
+// Artist team management - invite managers/labels and scope what they can do
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { findUserByWallet } from '@/lib/accounts';
+import {
+  TEAM_PERMISSIONS,
+  TeamPermission,
+  forbidden,
+  parseTeamPermissions,
+  requireUser,
+  requireArtistAccess,
+} from '@/lib/authz';
+
+// Validate a permissions list from a request body
+function validatePermissions(value: unknown): TeamPermission[] | null {
+  if (!Array.isArray(value)) return null;
+  const valid = value.every(p => (TEAM_PERMISSIONS as readonly string[]).includes(p));
+  return valid ? Array.from(new Set(value as TeamPermission[])) : null;
+}
+
+function formatMember(member: {
+  id: string;
+  title: string | null;
+  permissions: string;
+  acceptedAt: Date | null;
+  createdAt: Date;
+  user: { id: string; username: string | null; avatarUrl: string | null; walletAddress: string };
+}) {
+  return {
+    id: member.id,
+    user: member.user,
+    title: member.title,
+    permissions: parseTeamPermissions(member.permissions),
+    status: member.acceptedAt ? 'active' : 'pending',
+    acceptedAt: member.acceptedAt,
+    invitedAt: member.createdAt,
+  };
+}
+
+const memberUserSelect = {
+  id: true,
+  username: true,
+  avatarUrl: true,
+  walletAddress: true,
+};
+
+// GET - List an artist's team (?artistId=), or the caller's own memberships (?mine=true)
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    if (searchParams.get('mine') === 'true') {
+      const auth = await requireUser(request);
+      if (!auth.ok) return auth.response;
+
+      const memberships = await prisma.artistTeamMember.findMany({
+        where: { userId: auth.user.id },
+        include: { artist: { select: { id: true, name: true, avatarUrl: true } } },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return NextResponse.json({
+        memberships: memberships.map(m => ({
+          id: m.id,
+          artist: m.artist,
+          title: m.title,
+          permissions: parseTeamPermissions(m.permissions),
+          status: m.acceptedAt ? 'active' : 'pending',
+        })),
+      });
+    }
+
+    const auth = await requireArtistAccess(request, searchParams.get('artistId'), 'team');
+    if (!auth.ok) return auth.response;
+
+    const members = await prisma.artistTeamMember.findMany({
+      where: { artistId: auth.artistId },
+      include: { user: { select: memberUserSelect } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      artistId: auth.artistId,
+      members: members.map(formatMember),
+      availablePermissions: TEAM_PERMISSIONS,
+    });
+  } catch (error) {
+    console.error('Get team error:', error);
+    return NextResponse.json({ error: 'Failed to get team' }, { status: 500 });
+  }
+}
+
+// POST - Invite a user (by userId or wallet) to the team
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, walletAddress, title } = body;
+
+    const auth = await requireArtistAccess(request, body.artistId, 'team');
+    if (!auth.ok) return auth.response;
+
+    const permissions = validatePermissions(body.permissions);
+    if (!permissions) {
+      return NextResponse.json({
+        error: `permissions must be an array of: ${TEAM_PERMISSIONS.join(', ')}`,
+      }, { status: 400 });
+    }
+
+    // Only the owner (or an admin) can hand out team management
+    if (permissions.includes('team') && auth.access === 'team') {
+      return forbidden('Only the artist can grant team access');
+    }
+
+    if (!userId && !walletAddress) {
+      return NextResponse.json({ error: 'userId or walletAddress required' }, { status: 400 });
+    }
+
+    const invitee = userId
+      ? await prisma.user.findUnique({ where: { id: userId } })
+      : await findUserByWallet(walletAddress);
+
+    if (!invitee) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const artist = await prisma.artist.findUniqueOrThrow({
+      where: { id: auth.artistId },
+      select: { name: true, userId: true },
+    });
+
+    if (invitee.id === artist.userId) {
+      return NextResponse.json({ error: 'The artist is already the owner' }, { status: 400 });
+    }
+
+    const existing = await prisma.artistTeamMember.findUnique({
+      where: { artistId_userId: { artistId: auth.artistId, userId: invitee.id } },
+    });
+
+    if (existing) {
+      return NextResponse.json({ error: 'User is already on the team' }, { status: 409 });
+    }
+
+    const member = await prisma.artistTeamMember.create({
+      data: {
+        artistId: auth.artistId,
+        userId: invitee.id,
+        title: title?.substring(0, 50),
+        permissions: JSON.stringify(permissions),
+        invitedById: auth.user.id,
+      },
+      include: { user: { select: memberUserSelect } },
+    });
+
+    await prisma.notification.create({
+      data: {
+        userId: invitee.id,
+        type: 'system',
+        title: 'Team invite',
+        message: `${artist.name} invited you to join their team`,
+        data: JSON.stringify({ artistId: auth.artistId, memberId: member.id, actionUrl: '/artist/dashboard' }),
+      },
+    });
+
+    return NextResponse.json({ success: true, member: formatMember(member) });
+  } catch (error) {
+    console.error('Invite team member error:', error);
+    return NextResponse.json({ error: 'Failed to invite team member' }, { status: 500 });
+  }
+}
+
+// PATCH - Accept an invite (invitee), or change a member's title/permissions (team manager)
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { memberId, action } = body;
+
+    if (!memberId) {
+      return NextResponse.json({ error: 'memberId required' }, { status: 400 });
+    }
+
+    const member = await prisma.artistTeamMember.findUnique({ where: { id: memberId } });
+    if (!member) {
+      return NextResponse.json({ error: 'Team member not found' }, { status: 404 });
+    }
+
+    if (action === 'accept') {
+      const auth = await requireUser(request);
+      if (!auth.ok) return auth.response;
+
+      if (member.userId !== auth.user.id) {
+        return forbidden('This invite is for another user');
+      }
+
+      const accepted = await prisma.artistTeamMember.update({
+        where: { id: memberId },
+        data: { acceptedAt: member.acceptedAt ?? new Date() },
+        include: { user: { select: memberUserSelect } },
+      });
+
+      return NextResponse.json({ success: true, member: formatMember(accepted) });
+    }
+
+    const auth = await requireArtistAccess(request, member.artistId, 'team');
+    if (!auth.ok) return auth.response;
+
+    if (member.userId === auth.user.id && auth.access === 'team') {
+      return forbidden('You cannot change your own permissions');
+    }
+
+    const data: { title?: string | null; permissions?: string } = {};
+
+    if (body.permissions !== undefined) {
+      const permissions = validatePermissions(body.permissions);
+      if (!permissions) {
+        return NextResponse.json({
+          error: `permissions must be an array of: ${TEAM_PERMISSIONS.join(', ')}`,
+        }, { status: 400 });
+      }
+      if (permissions.includes('team') && auth.access === 'team') {
+        return forbidden('Only the artist can grant team access');
+      }
+      data.permissions = JSON.stringify(permissions);
+    }
+
+    if (body.title !== undefined) {
+      data.title = body.title ? String(body.title).substring(0, 50) : null;
+    }
+
+    const updated = await prisma.artistTeamMember.update({
+      where: { id: memberId },
+      data,
+      include: { user: { select: memberUserSelect } },
+    });
+
+    return NextResponse.json({ success: true, member: formatMember(updated) });
+  } catch (error) {
+    console.error('Update team member error:', error);
+    return NextResponse.json({ error: 'Failed to update team member' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a member (team manager), or leave / decline an invite (the member)
+export async function DELETE(request: NextRequest) {
+  try {
+    const { memberId } = await request.json();
+
+    if (!memberId) {
+      return NextResponse.json({ error: 'memberId required' }, { status: 400 });
+    }
+
+    const member = await prisma.artistTeamMember.findUnique({ where: { id: memberId } });
+    if (!member) {
+      return NextResponse.json({ error: 'Team member not found' }, { status: 404 });
+    }
+
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    if (member.userId !== auth.user.id) {
+      const access = await requireArtistAccess(request, member.artistId, 'team');
+      if (!access.ok) return access.response;
+    }
+
+    await prisma.artistTeamMember.delete({ where: { id: memberId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Remove team member error:', error);
+    return NextResponse.json({ error: 'Failed to remove team member' }, { status: 500 });
+  }
+}
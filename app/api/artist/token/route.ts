@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireArtist } from '@/lib/authz';
 import { 
   createArtistTokenMint,
   getTokenSupply,
@@ -15,10 +16,13 @@ import {
 // POST - Create new artist token
 export async function POST(request: NextRequest) {
   try {
+    // Minting is owner-only - the artist's own wallet receives the supply
+    const auth = await requireArtist(request);
+    if (!auth.ok) return auth.response;
+
+    const { artistId } = auth;
     const body = await request.json();
     const { 
-      artistId, 
-      artistWallet, 
       tokenName, 
       tokenSymbol, 
       initialSupply = 1000000,
@@ -26,7 +30,7 @@ export async function POST(request: NextRequest) {
       metadata 
     } = body;
 
-    if (!artistId || !artistWallet || !tokenName || !tokenSymbol) {
+    if (!tokenName || !tokenSymbol) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -53,13 +57,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify caller is the artist
-    if (artist.wallet !== artistWallet) {
-      return NextResponse.json(
-        { error: 'Only the artist can create their token' },
-        { status: 403 }
-      );
-    }
+    const artistWallet = artist.wallet || auth.user.walletAddress;
 
     // Check if artist already has a token
     if (artist.tokenMint) {
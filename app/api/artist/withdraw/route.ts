@@ -3,7 +3,14 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { Connection, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { Connection, Transaction, SystemProgram, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { requireArtist, requireArtistAccess, requireSecondFactor } from '@/lib/authz';
+import {
+  WITHDRAWAL_2FA_THRESHOLDS,
+  getPayoutWallet,
+  withWithdrawalLock,
+  withdrawalRequiresSecondFactor,
+} from '@/lib/payouts';
 
 const PLATFORM_WALLET = process.env.PLATFORM_WALLET || '';
 const SOLANA_RPC = process.env.NEXT_PUBLIC_SOLANA_RPC || 'https://api.mainnet-beta.solana.com';
@@ -16,30 +23,31 @@ const MIN_WITHDRAWAL_USDC = 10;
 const WITHDRAWAL_FEE_PERCENT = 2.5;
 
 interface WithdrawalRequest {
-  artistId: string;
   amount: number;
   currency: 'SOL' | 'USDC';
-  destinationWallet: string;
+  destinationWallet?: string; // Optional - must match the payout wallet if sent
+  code?: string;              // TOTP or recovery code, required above the 2FA threshold
 }
 
 // GET - Get withdrawal history and available balance
 export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url);
-  const artistId = searchParams.get('artistId');
+  try {
+    // Own history, or ?artistId= for team members with finance access
+    const auth = await requireArtistAccess(request, new URL(request.url).searchParams.get('artistId'), 'finance');
+    if (!auth.ok) return auth.response;
 
-  if (!artistId) {
-    return NextResponse.json({ error: 'Artist ID required' }, { status: 400 });
-  }
+    const { artistId } = auth;
+    const payoutWallet = await getPayoutWallet(artistId);
 
-  try {
     // Get artist with revenue data
     const artist = await prisma.artist.findUnique({
       where: { id: artistId },
       select: {
         id: true,
         name: true,
-        wallet: true,
         totalRevenue: true,
+        pendingWallet: true,
+        pendingWalletAt: true,
       },
     });
 
@@ -82,7 +90,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       artistId,
-      wallet: artist.wallet,
+      wallet: payoutWallet,
+      pendingWallet: artist.pendingWallet,
+      pendingWalletAt: artist.pendingWalletAt,
       totalRevenue: artist.totalRevenue,
       availableBalance,
       pendingWithdrawals: pendingAmount,
@@ -92,6 +102,7 @@ export async function GET(request: NextRequest) {
         USDC: MIN_WITHDRAWAL_USDC,
       },
       feePercent: WITHDRAWAL_FEE_PERCENT,
+      twoFactorThresholds: WITHDRAWAL_2FA_THRESHOLDS,
       recentEarnings: recentEarnings.map(e => ({
         currency: e.currency,
         amount: e._sum.artistAmount || 0,
@@ -119,12 +130,17 @@ export async function GET(request: NextRequest) {
 // POST - Request withdrawal
 export async function POST(request: NextRequest) {
   try {
+    // Moving money is owner-only
+    const auth = await requireArtist(request);
+    if (!auth.ok) return auth.response;
+
+    const { artistId } = auth;
     const body: WithdrawalRequest = await request.json();
-    const { artistId, amount, currency, destinationWallet } = body;
+    const { amount, currency, code } = body;
 
-    if (!artistId || !amount || !currency || !destinationWallet) {
+    if (!amount || !currency) {
       return NextResponse.json({
-        error: 'Artist ID, amount, currency, and destination wallet required',
+        error: 'Amount and currency required',
       }, { status: 400 });
     }
 
@@ -141,41 +157,16 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Validate wallet address
-    try {
-      new PublicKey(destinationWallet);
-    } catch {
-      return NextResponse.json({ error: 'Invalid wallet address' }, { status: 400 });
-    }
+    // Funds only ever go to the payout wallet - changing it needs 2FA and a cooling-off period
+    const destinationWallet = await getPayoutWallet(artistId);
 
-    // Get artist
-    const artist = await prisma.artist.findUnique({
-      where: { id: artistId },
-    });
-
-    if (!artist) {
-      return NextResponse.json({ error: 'Artist not found' }, { status: 404 });
+    if (!destinationWallet) {
+      return NextResponse.json({ error: 'No payout wallet set' }, { status: 400 });
     }
 
-    // Calculate available balance
-    const [pendingTotal, completedTotal] = await Promise.all([
-      prisma.withdrawal.aggregate({
-        where: { artistId, status: 'pending' },
-        _sum: { amount: true },
-      }),
-      prisma.withdrawal.aggregate({
-        where: { artistId, status: 'completed' },
-        _sum: { amount: true },
-      }),
-    ]);
-
-    const pendingAmount = pendingTotal._sum.amount || 0;
-    const withdrawnAmount = completedTotal._sum.amount || 0;
-    const availableBalance = artist.totalRevenue - pendingAmount - withdrawnAmount;
-
-    if (amount > availableBalance) {
+    if (body.destinationWallet && body.destinationWallet !== destinationWallet) {
       return NextResponse.json({
-        error: `Insufficient balance. Available: ${availableBalance.toFixed(4)} ${currency}`,
+        error: 'Withdrawals can only be sent to your payout wallet. Change it via /api/artist/payout-wallet.',
       }, { status: 400 });
     }
 
@@ -183,19 +174,67 @@ export async function POST(request: NextRequest) {
     const fee = amount * (WITHDRAWAL_FEE_PERCENT / 100);
     const netAmount = amount - fee;
 
-    // Create withdrawal request
-    const withdrawal = await prisma.withdrawal.create({
-      data: {
-        artistId,
-        amount,
-        fee,
-        netAmount,
-        currency,
-        destinationWallet,
-        status: 'pending',
-      },
+    // Balance, 2FA threshold and the new withdrawal under the artist's lock - concurrent requests
+    // can't each pass the checks against totals that don't include the others yet
+    const locked = await withWithdrawalLock(artistId, async (tx) => {
+      // Get artist
+      const artist = await tx.artist.findUnique({
+        where: { id: artistId },
+      });
+
+      if (!artist) {
+        return { response: NextResponse.json({ error: 'Artist not found' }, { status: 404 }) };
+      }
+
+      // Calculate available balance
+      const [pendingTotal, completedTotal] = await Promise.all([
+        tx.withdrawal.aggregate({
+          where: { artistId, status: 'pending' },
+          _sum: { amount: true },
+        }),
+        tx.withdrawal.aggregate({
+          where: { artistId, status: 'completed' },
+          _sum: { amount: true },
+        }),
+      ]);
+
+      const pendingAmount = pendingTotal._sum.amount || 0;
+      const withdrawnAmount = completedTotal._sum.amount || 0;
+      const availableBalance = artist.totalRevenue - pendingAmount - withdrawnAmount;
+
+      if (amount > availableBalance) {
+        return {
+          response: NextResponse.json({
+            error: `Insufficient balance. Available: ${availableBalance.toFixed(4)} ${currency}`,
+          }, { status: 400 }),
+        };
+      }
+
+      // Step-up authentication for large withdrawals
+      if (await withdrawalRequiresSecondFactor(artistId, amount, currency, tx)) {
+        const factor = await requireSecondFactor(auth.user, code);
+        if (!factor.ok) return { response: factor.response };
+      }
+
+      // Create withdrawal request
+      const withdrawal = await tx.withdrawal.create({
+        data: {
+          artistId,
+          amount,
+          fee,
+          netAmount,
+          currency,
+          destinationWallet,
+          status: 'pending',
+        },
+      });
+
+      return { withdrawal };
     });
 
+    if ('response' in locked) return locked.response;
+    const { withdrawal } = locked;
+
     // For demo/testnet: auto-process small withdrawals
     // In production, this would go through a review queue
     if (process.env.NODE_ENV === 'development' || amount < 1) {
@@ -298,12 +337,17 @@ async function processWithdrawal(
 // DELETE - Cancel pending withdrawal
 export async function DELETE(request: NextRequest) {
   try {
+    // Moving money is owner-only
+    const auth = await requireArtist(request);
+    if (!auth.ok) return auth.response;
+
+    const { artistId } = auth;
     const body = await request.json();
-    const { withdrawalId, artistId } = body;
+    const { withdrawalId } = body;
 
-    if (!withdrawalId || !artistId) {
+    if (!withdrawalId) {
       return NextResponse.json({
-        error: 'Withdrawal ID and artist ID required',
+        error: 'Withdrawal ID required',
       }, { status: 400 });
     }
 
@@ -0,0 +1,125 @@
+// app/api/auth/2fa/route.ts
+// Two-factor authentication - TOTP enrollment, recovery codes and disabling
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser, requireSecondFactor } from '@/lib/authz';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  notifySecurityEvent,
+  regenerateRecoveryCodes,
+} from '@/lib/twoFactor';
+
+// GET - Two-factor status for the current user
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    return NextResponse.json(await getTwoFactorStatus(auth.user.id));
+  } catch (error) {
+    console.error('Get 2FA status error:', error);
+    return NextResponse.json({ error: 'Failed to get two-factor status' }, { status: 500 });
+  }
+}
+
+// POST - action "enroll" (get a secret), "confirm" (first code, returns recovery codes)
+// or "recovery_codes" (replace recovery codes, needs a code)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const { user } = auth;
+    const { action, code } = await request.json();
+
+    if (action === 'enroll') {
+      const label = user.email || user.username || user.walletAddress;
+      const result = await beginTwoFactorEnrollment(user.id, label);
+
+      if (!result.started) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        secret: result.secret,
+        otpauthUrl: result.otpauthUrl,
+        message: 'Add this secret to your authenticator app, then confirm with a code',
+      });
+    }
+
+    if (action === 'confirm') {
+      if (!code) {
+        return NextResponse.json({ error: 'code required' }, { status: 400 });
+      }
+
+      const result = await confirmTwoFactorEnrollment(user.id, code);
+      if (!result.enabled) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+
+      await notifySecurityEvent(user, {
+        title: 'Two-factor authentication enabled',
+        message: 'Two-factor authentication was turned on for your account.',
+      });
+
+      return NextResponse.json({
+        success: true,
+        recoveryCodes: result.recoveryCodes,
+        message: 'Store these recovery codes somewhere safe - they will not be shown again',
+      });
+    }
+
+    if (action === 'recovery_codes') {
+      const factor = await requireSecondFactor(user, code);
+      if (!factor.ok) return factor.response;
+
+      const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+      await notifySecurityEvent(user, {
+        title: 'Recovery codes regenerated',
+        message: 'New two-factor recovery codes were generated. Your old codes no longer work.',
+      });
+
+      return NextResponse.json({
+        success: true,
+        recoveryCodes,
+        message: 'Store these recovery codes somewhere safe - they will not be shown again',
+      });
+    }
+
+    return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+  } catch (error) {
+    console.error('2FA update error:', error);
+    return NextResponse.json({ error: 'Failed to update two-factor authentication' }, { status: 500 });
+  }
+}
+
+// DELETE - Turn off two-factor (needs a current code or recovery code)
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const { user } = auth;
+    const { code } = await request.json();
+
+    const factor = await requireSecondFactor(user, code);
+    if (!factor.ok) return factor.response;
+
+    await disableTwoFactor(user.id);
+
+    await notifySecurityEvent(user, {
+      title: 'Two-factor authentication disabled',
+      message: 'Two-factor authentication was turned off for your account.',
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Disable 2FA error:', error);
+    return NextResponse.json({ error: 'Failed to disable two-factor authentication' }, { status: 500 });
+  }
+}
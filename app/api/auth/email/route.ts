@@ -7,8 +7,10 @@ import {
   generateVerificationCode, 
   hashEmail, 
   storeVerificationCode,
-  getVerificationCode 
+  canSendVerificationCode 
 } from '@/lib/auth';
+import { getRequestIP } from '@/lib/session';
+import { sendEmail, loginCodeEmail } from '@/lib/email';
 
 export async function POST(request: NextRequest) {
   try {
@@ -21,13 +23,16 @@ export async function POST(request: NextRequest) {
     const normalizedEmail = email.toLowerCase().trim();
     const emailHash = hashEmail(normalizedEmail);
 
-    // Rate limiting - max 3 codes per email per 10 minutes
-    const existingCode = getVerificationCode(normalizedEmail);
-    if (existingCode && existingCode.expiresAt > Date.now() - 60000) {
-      // Code sent less than 1 minute ago
+    // Rate limiting - one code per minute, none while locked out
+    const sendCheck = await canSendVerificationCode(normalizedEmail, getRequestIP(request));
+    if (!sendCheck.allowed) {
       return NextResponse.json({ 
-        error: 'Please wait before requesting another code' 
-      }, { status: 429 });
+        error: 'Please wait before requesting another code',
+        retryAfter: sendCheck.retryAfter,
+      }, { 
+        status: 429,
+        headers: { 'Retry-After': String(sendCheck.retryAfter) },
+      });
     }
 
     // Check if user exists (for signin vs signup messaging)
@@ -42,18 +47,18 @@ export async function POST(request: NextRequest) {
 
     // Generate and store code
     const code = generateVerificationCode();
-    storeVerificationCode(normalizedEmail, code, action);
+    await storeVerificationCode(normalizedEmail, code, action);
 
-    // In production, send email via SendGrid/Resend/etc
-    // For development, log the code
-    console.log(`[AUTH] Verification code for ${emailHash}: ${code}`);
+    // Send the code - a failed send is queued and retried until the code expires
+    const delivery = await sendEmail(normalizedEmail, loginCodeEmail({ code, action }), {
+      expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+    });
+
+    if (!delivery.sent && !delivery.queued) {
+      return NextResponse.json({ error: 'Failed to send code' }, { status: 502 });
+    }
 
-    // TODO: Send actual email
-    // await sendEmail({
-    //   to: normalizedEmail,
-    //   subject: 'Your IXXXI verification code',
-    //   html: `Your code is: <strong>${code}</strong>. Valid for 10 minutes.`
-    // });
+    console.log(`[AUTH] Verification code ${delivery.sent ? 'sent' : 'queued'} for ${emailHash}`);
 
     return NextResponse.json({ 
       success: true,
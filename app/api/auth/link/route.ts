@@ -0,0 +1,224 @@
+// app/api/auth/link/route.ts
+// Account linking - attach wallets and a verified email to the signed-in account, merging duplicates
+//
+// Merging deletes the other account, so if it has two-factor enabled its code must be sent as sourceCode.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkVerificationCode, consumeWalletNonce, verifyWalletSignature } from '@/lib/auth';
+import { getSessionUser, getRequestIP, unauthorized } from '@/lib/session';
+import { requireSecondFactor } from '@/lib/authz';
+import { isTwoFactorEnabled, notifySecurityEvent } from '@/lib/twoFactor';
+import {
+  findUserByWallet,
+  ensurePrimaryWallet,
+  listUserWallets,
+  linkWallet,
+  setPrimaryWallet,
+  unlinkWallet,
+  mergeUsers,
+} from '@/lib/accounts';
+
+// GET - Linked wallets and email for the current user
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    await ensurePrimaryWallet(user.id, user.walletAddress);
+
+    return NextResponse.json({
+      email: user.email,
+      primaryWallet: user.walletAddress,
+      wallets: await listUserWallets(user.id),
+    });
+  } catch (error) {
+    console.error('Link GET error:', error);
+    return NextResponse.json({ error: 'Failed to get linked accounts' }, { status: 500 });
+  }
+}
+
+// POST - Link a wallet (signed "link" challenge) or an email (code requested with action "link_email")
+// If it already belongs to another account, pass merge: true to fold that account into this one
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const body = await request.json();
+    const { type, merge = false, sourceCode } = body;
+
+    await ensurePrimaryWallet(user.id, user.walletAddress);
+
+    if (type === 'wallet') {
+      const { walletAddress, nonce, signature, label } = body;
+
+      if (!walletAddress || !nonce || !signature) {
+        return NextResponse.json({ error: 'walletAddress, nonce, and signature required' }, { status: 400 });
+      }
+
+      const message = await consumeWalletNonce(walletAddress, nonce, 'link');
+      if (!message) {
+        return NextResponse.json({ error: 'Link challenge expired. Please try again.' }, { status: 401 });
+      }
+
+      if (!verifyWalletSignature(walletAddress, message, signature)) {
+        return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+      }
+
+      const owner = await findUserByWallet(walletAddress);
+
+      if (owner?.id === user.id) {
+        return NextResponse.json({ success: true, alreadyLinked: true });
+      }
+
+      if (owner) {
+        if (!merge) {
+          return NextResponse.json({
+            error: 'This wallet belongs to another account',
+            mergeRequired: true,
+          }, { status: 409 });
+        }
+
+        const factor = await requireSourceSecondFactor(owner, sourceCode);
+        if (!factor.ok) return factor.response;
+
+        const result = await mergeUsers(user.id, owner.id);
+        if (!result.merged) {
+          return NextResponse.json({ error: result.error }, { status: 409 });
+        }
+
+        return NextResponse.json({ success: true, merged: true, moved: result.moved });
+      }
+
+      await linkWallet(user.id, walletAddress, label?.substring(0, 50));
+
+      return NextResponse.json({ success: true, wallets: await listUserWallets(user.id) });
+    }
+
+    if (type === 'email') {
+      const { email, code } = body;
+
+      if (!email || !code) {
+        return NextResponse.json({ error: 'Email and code required' }, { status: 400 });
+      }
+
+      const normalizedEmail = email.toLowerCase().trim();
+      const check = await checkVerificationCode(normalizedEmail, String(code), getRequestIP(request));
+
+      if (!check.valid) {
+        return NextResponse.json(
+          { error: check.error, ...(check.retryAfter && { retryAfter: check.retryAfter }) },
+          {
+            status: check.status,
+            ...(check.retryAfter && { headers: { 'Retry-After': String(check.retryAfter) } }),
+          }
+        );
+      }
+
+      if (check.action !== 'link_email') {
+        return NextResponse.json({ error: 'Code was not issued for linking an email' }, { status: 400 });
+      }
+
+      const owner = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+
+      if (owner?.id === user.id) {
+        return NextResponse.json({ success: true, alreadyLinked: true });
+      }
+
+      if (owner) {
+        if (!merge) {
+          return NextResponse.json({
+            error: 'This email belongs to another account',
+            mergeRequired: true,
+          }, { status: 409 });
+        }
+
+        // The merged account's email only carries over if we don't have one yet
+        const factor = await requireSourceSecondFactor(owner, sourceCode);
+        if (!factor.ok) return factor.response;
+
+        const result = await mergeUsers(user.id, owner.id);
+        if (!result.merged) {
+          return NextResponse.json({ error: result.error }, { status: 409 });
+        }
+
+        return NextResponse.json({ success: true, merged: true, moved: result.moved });
+      }
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { email: normalizedEmail },
+      });
+
+      return NextResponse.json({ success: true, email: normalizedEmail });
+    }
+
+    return NextResponse.json({ error: 'type must be "wallet" or "email"' }, { status: 400 });
+  } catch (error) {
+    console.error('Link POST error:', error);
+    return NextResponse.json({ error: 'Failed to link account' }, { status: 500 });
+  }
+}
+
+// PATCH - Make a linked wallet the primary
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const { walletAddress } = await request.json();
+
+    if (!walletAddress) {
+      return NextResponse.json({ error: 'walletAddress required' }, { status: 400 });
+    }
+
+    await ensurePrimaryWallet(user.id, user.walletAddress);
+
+    if (!await setPrimaryWallet(user.id, walletAddress)) {
+      return NextResponse.json({ error: 'Wallet not linked to this account' }, { status: 404 });
+    }
+
+    if (walletAddress !== user.walletAddress) {
+      await notifySecurityEvent(user, {
+        title: 'Primary wallet changed',
+        message: `Your primary wallet is now ${walletAddress.slice(0, 4)}...${walletAddress.slice(-4)}.${user.artist ? ' Your payout wallet is unchanged.' : ''}`,
+      });
+    }
+
+    return NextResponse.json({ success: true, primaryWallet: walletAddress });
+  } catch (error) {
+    console.error('Link PATCH error:', error);
+    return NextResponse.json({ error: 'Failed to set primary wallet' }, { status: 500 });
+  }
+}
+
+// DELETE - Unlink a secondary wallet
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const { walletAddress } = await request.json();
+
+    if (!walletAddress) {
+      return NextResponse.json({ error: 'walletAddress required' }, { status: 400 });
+    }
+
+    const result = await unlinkWallet(user.id, walletAddress);
+    if (!result.unlinked) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, unlinked: walletAddress });
+  } catch (error) {
+    console.error('Link DELETE error:', error);
+    return NextResponse.json({ error: 'Failed to unlink wallet' }, { status: 500 });
+  }
+}
+
+// The account being merged away keeps its own second factor until the merge deletes it
+async function requireSourceSecondFactor(owner: { id: string; email: string | null }, code: string | undefined) {
+  if (!(await isTwoFactorEnabled(owner.id))) return { ok: true as const };
+  return requireSecondFactor(owner, code);
+}
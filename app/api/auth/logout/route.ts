@@ -0,0 +1,23 @@
+// app/api/auth/logout/route.ts
+// Logout - revoke the current session server-side and clear cookies
+
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookie, getSessionId, revokeSession } from '@/lib/session';
+
+export async function POST(request: NextRequest) {
+  try {
+    const sessionId = await getSessionId(request);
+
+    if (sessionId) {
+      await revokeSession(sessionId);
+    }
+
+    const response = NextResponse.json({ success: true });
+    clearSessionCookie(response);
+    response.cookies.delete('user');
+    return response;
+  } catch (error) {
+    console.error('Logout error:', error);
+    return NextResponse.json({ error: 'Logout failed' }, { status: 500 });
+  }
+}
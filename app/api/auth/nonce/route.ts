@@ -0,0 +1,33 @@
+// app/api/auth/nonce/route.ts
+// Sign-In-With-Solana - issue a single-use challenge for a wallet to sign
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { createWalletNonce } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { walletAddress, purpose = 'signin' } = await request.json();
+
+    if (!walletAddress) {
+      return NextResponse.json({ error: 'Wallet address required' }, { status: 400 });
+    }
+
+    try {
+      new PublicKey(walletAddress);
+    } catch {
+      return NextResponse.json({ error: 'Invalid wallet address' }, { status: 400 });
+    }
+
+    if (purpose !== 'signin' && purpose !== 'link') {
+      return NextResponse.json({ error: 'purpose must be "signin" or "link"' }, { status: 400 });
+    }
+
+    const { nonce, message, expiresAt } = await createWalletNonce(walletAddress, purpose);
+
+    return NextResponse.json({ nonce, message, expiresAt });
+  } catch (error) {
+    console.error('Nonce error:', error);
+    return NextResponse.json({ error: 'Failed to create sign-in challenge' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+// app/api/auth/session/route.ts
+// Current session - who the server thinks the caller is (rotates the token when due)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, rotateSession, setSessionCookie } from '@/lib/session';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+
+    if (!user) {
+      return NextResponse.json({ authenticated: false, user: null });
+    }
+
+    const response = NextResponse.json({
+      authenticated: true,
+      user: {
+        id: user.id,
+        walletAddress: user.walletAddress,
+        username: user.username,
+        email: user.email,
+        avatarUrl: user.avatarUrl,
+        tier: user.tier,
+        role: user.role,
+        isArtist: !!user.artist,
+      },
+    });
+
+    const rotated = await rotateSession(request);
+    if (rotated) {
+      setSessionCookie(response, rotated.token, rotated.expiresAt);
+    }
+
+    return response;
+  } catch (error) {
+    console.error('Session check error:', error);
+    return NextResponse.json({ error: 'Failed to check session' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+// app/api/auth/sessions/route.ts
+// Signed-in devices - list and revoke the caller's sessions
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  getSessionUser,
+  getSessionId,
+  listUserSessions,
+  revokeSession,
+  revokeUserSessions,
+  unauthorized,
+} from '@/lib/session';
+
+// GET - List active sessions for the current user
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const [sessions, currentId] = await Promise.all([
+      listUserSessions(user.id),
+      getSessionId(request),
+    ]);
+
+    return NextResponse.json({
+      sessions: sessions.map(s => ({
+        ...s,
+        current: s.id === currentId,
+      })),
+    });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    return NextResponse.json({ error: 'Failed to list sessions' }, { status: 500 });
+  }
+}
+
+// DELETE - Revoke one session, or all other sessions
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const body = await request.json();
+    const { sessionId, allOthers } = body as { sessionId?: string; allOthers?: boolean };
+    const currentId = await getSessionId(request);
+
+    if (allOthers) {
+      const revoked = await revokeUserSessions(user.id, currentId ?? undefined);
+      return NextResponse.json({ success: true, revoked });
+    }
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'sessionId or allOthers required' }, { status: 400 });
+    }
+
+    // Only allow revoking your own sessions
+    const session = await prisma.session.findFirst({
+      where: { id: sessionId, userId: user.id },
+      select: { id: true },
+    });
+
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    await revokeSession(session.id);
+
+    return NextResponse.json({
+      success: true,
+      revoked: 1,
+      signedOut: session.id === currentId,
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return NextResponse.json({ error: 'Failed to revoke session' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+// app/api/auth/wallet/route.ts
+// Sign-In-With-Solana - verify the signed challenge and start a session
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { consumeWalletNonce, verifyWalletSignature } from '@/lib/auth';
+import { createSession, setSessionCookie } from '@/lib/session';
+import { findUserByWallet, ensurePrimaryWallet } from '@/lib/accounts';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { walletAddress, nonce, signature } = await request.json();
+
+    if (!walletAddress || !nonce || !signature) {
+      return NextResponse.json({ error: 'walletAddress, nonce, and signature required' }, { status: 400 });
+    }
+
+    // Nonce must have been issued to this wallet, unexpired and unused
+    const message = await consumeWalletNonce(walletAddress, nonce);
+    if (!message) {
+      return NextResponse.json({ error: 'Sign-in challenge expired. Please try again.' }, { status: 401 });
+    }
+
+    if (!verifyWalletSignature(walletAddress, message, signature)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    // Ownership proven - find the account this wallet is linked to, or create one
+    let user = await findUserByWallet(walletAddress);
+
+    if (user) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { lastSeenAt: new Date() },
+      });
+      if (user.walletAddress === walletAddress) {
+        await ensurePrimaryWallet(user.id, walletAddress);
+      }
+    } else {
+      user = await prisma.user.create({
+        data: {
+          walletAddress,
+          username: `user_${walletAddress.slice(0, 8)}`,
+          role: 'listener',
+          tier: 'free',
+          wallets: { create: { address: walletAddress, isPrimary: true } },
+        },
+        include: { artist: true },
+      });
+    }
+
+    const { token, expiresAt } = await createSession(user.id, 'wallet', request);
+
+    const response = NextResponse.json({
+      success: true,
+      user: {
+        id: user.id,
+        walletAddress: user.walletAddress,
+        username: user.username,
+        email: user.email,
+        avatarUrl: user.avatarUrl,
+        tier: user.tier,
+        role: user.role,
+        isArtist: !!user.artist,
+      },
+    });
+
+    setSessionCookie(response, token, expiresAt);
+    return response;
+  } catch (error) {
+    console.error('Wallet sign-in error:', error);
+    return NextResponse.json({ error: 'Sign-in failed' }, { status: 500 });
+  }
+}
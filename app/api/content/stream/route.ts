@@ -0,0 +1,81 @@
+// app/api/content/stream/route.ts
+// Mint short-lived signed stream URLs for ProtectedAudioPlayer
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/authz';
+import { checkStreamAccess } from '@/lib/drm/access';
+import { requireStreamingAllowed } from '@/lib/drm/abuse';
+import { URL_EXPIRY_SECONDS, generateSignedUrl } from '@/lib/drm/contentProtection';
+
+const QUALITIES = ['low', 'medium', 'high'] as const;
+type Quality = typeof QUALITIES[number];
+
+// "progressive" for the listener's watermarked MP3 (ranged, plain <audio>), "hls" for the encrypted
+// playlist - its segments are shared by every listener and carry no forensic watermark
+const FORMATS = ['hls', 'progressive'] as const;
+type Format = typeof FORMATS[number];
+
+// Refresh a few seconds before the signed URL expires
+const REFRESH_MARGIN_SECONDS = 5;
+
+// GET - Signed stream URL and refresh cadence for ?trackId= (&quality=, &format=)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const { user } = auth;
+    const { searchParams } = new URL(request.url);
+    const trackId = searchParams.get('trackId');
+    const quality = (searchParams.get('quality') || 'high') as Quality;
+    const format = (searchParams.get('format') || 'progressive') as Format;
+
+    if (!trackId) {
+      return NextResponse.json({ error: 'trackId required' }, { status: 400 });
+    }
+
+    if (!QUALITIES.includes(quality)) {
+      return NextResponse.json({ error: `quality must be one of: ${QUALITIES.join(', ')}` }, { status: 400 });
+    }
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of: ${FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    // Suspension, then the (possibly throttled) rate limit
+    const streaming = await requireStreamingAllowed(user.id);
+    if (!streaming.ok) return streaming.response;
+
+    const access = await checkStreamAccess(user, trackId);
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.error, requirement: access.requirement },
+        { status: access.status }
+      );
+    }
+
+    const signedUrl = generateSignedUrl({
+      contentId: trackId,
+      userId: user.id,
+      contentType: 'audio',
+      quality,
+    });
+
+    return NextResponse.json({
+      streamUrl: format === 'progressive' ? `${signedUrl}?format=progressive` : signedUrl,
+      format,
+      quality,
+      watermarked: format === 'progressive',
+      expiresIn: URL_EXPIRY_SECONDS,
+      // A progressive URL only has to be used once before it expires - its play session
+      // then covers every range request
+      refreshIn: format === 'progressive' ? null : URL_EXPIRY_SECONDS - REFRESH_MARGIN_SECONDS,
+      access: access.reason,
+    }, {
+      headers: { 'Cache-Control': 'no-store, private' },
+    });
+  } catch (error) {
+    console.error('Content stream error:', error);
+    return NextResponse.json({ error: 'Failed to create stream URL' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+// app/api/cron/account-jobs/route.ts
+// Cron job for account requests - data exports, deletions past their grace period and due payout wallet changes
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processDataExports, processAccountDeletions } from '@/lib/privacy';
+import { applyDuePayoutWallets } from '@/lib/payouts';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret in production
+  if (process.env.NODE_ENV === 'production') {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const exports = await processDataExports();
+    const deletions = await processAccountDeletions();
+    const payoutWallets = await applyDuePayoutWallets();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration: `${Date.now() - startTime}ms`,
+      results: { exports, deletions, payoutWallets },
+    });
+  } catch (error) {
+    console.error('Account jobs cron error:', error);
+    return NextResponse.json({ error: 'Account jobs failed' }, { status: 500 });
+  }
+}
@@ -3,6 +3,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { processUploadSessionCleanup } from '@/lib/uploads';
+import { reconcileStorage } from '@/lib/storage/reconcile';
 
 const CRON_SECRET = process.env.CRON_SECRET;
 
@@ -12,7 +14,8 @@ const RETENTION = {
   oldPlays: 90,             // Archive play data older than 90 days
   pendingPurchases: 1,      // Expire pending purchases after 24 hours
   failedTracks: 30,         // Clean up failed track records after 30 days
-  orphanedFiles: 7,         // Flag orphaned storage files after 7 days
+  orphanedFiles: 7,         // Delete orphaned storage files after 7 days in quarantine
+  emailJobs: 7,             // Purge finished email jobs after 7 days
 };
 
 export async function GET(request: NextRequest) {
@@ -138,6 +141,36 @@ export async function GET(request: NextRequest) {
     }
     results.userStatsUpdated = usersUpdated;
 
+    // 8. Remove expired sessions and sign-in challenges
+    const [expiredSessions, expiredNonces] = await Promise.all([
+      prisma.session.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      }),
+      prisma.authNonce.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      }),
+    ]);
+    results.expiredSessions = expiredSessions.count;
+    results.expiredNonces = expiredNonces.count;
+
+    // 9. Purge delivered/dead email jobs (bodies can contain codes and receipts)
+    const emailJobDate = new Date();
+    emailJobDate.setDate(emailJobDate.getDate() - RETENTION.emailJobs);
+
+    const purgedEmailJobs = await prisma.emailJob.deleteMany({
+      where: {
+        status: { in: ['sent', 'failed', 'expired'] },
+        updatedAt: { lt: emailJobDate },
+      },
+    });
+    results.purgedEmailJobs = purgedEmailJobs.count;
+
+    // 10. Abort abandoned resumable uploads (their parts are billed until aborted)
+    results.abortedUploads = await processUploadSessionCleanup();
+
+    // 11. Reconcile storage - quarantine/delete orphaned objects, flag missing ones, measure usage
+    results.storage = await reconcileStorage(RETENTION.orphanedFiles);
+
     // Calculate duration
     const duration = Date.now() - startTime;
 
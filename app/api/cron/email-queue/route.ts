@@ -0,0 +1,33 @@
+// app/api/cron/email-queue/route.ts
+// Cron job to deliver queued and retry failed emails (runs every 5 minutes)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processEmailQueue } from '@/lib/email';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret in production
+  if (process.env.NODE_ENV === 'production') {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const results = await processEmailQueue(100);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration: `${Date.now() - startTime}ms`,
+      results,
+    });
+  } catch (error) {
+    console.error('Email queue cron error:', error);
+    return NextResponse.json({ error: 'Email queue processing failed' }, { status: 500 });
+  }
+}
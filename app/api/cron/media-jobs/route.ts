@@ -0,0 +1,50 @@
+// app/api/cron/media-jobs/route.ts
+// Cron job for media processing - transcode uploads, render queued watermarked copies, package
+// older tracks into encrypted HLS, backfill waveform peaks, tempo/key/energy analysis, loudness,
+// cover art and catalog fingerprints, drop unused watermarked copies
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processHlsPackaging } from '@/lib/drm/hls';
+import { processTranscodeQueue } from '@/lib/media/transcode';
+import { processWaveformBackfill } from '@/lib/media/waveform';
+import { processAnalysisBackfill } from '@/lib/media/analysis';
+import { processLoudnessBackfill } from '@/lib/media/loudness';
+import { processWatermarkCleanup, processWatermarkQueue } from '@/lib/media/watermark';
+import { processFingerprintBackfill } from '@/lib/media/fingerprint';
+import { processArtworkBackfill } from '@/lib/media/artwork';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret in production
+  if (process.env.NODE_ENV === 'production') {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const transcodes = await processTranscodeQueue();
+    const watermarkRenders = await processWatermarkQueue();
+    const hls = await processHlsPackaging();
+    const waveforms = await processWaveformBackfill();
+    const analysis = await processAnalysisBackfill();
+    const loudness = await processLoudnessBackfill();
+    const fingerprints = await processFingerprintBackfill();
+    const artwork = await processArtworkBackfill();
+    const watermarks = await processWatermarkCleanup();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration: `${Date.now() - startTime}ms`,
+      results: { transcodes, watermarkRenders, hls, waveforms, analysis, loudness, artwork, fingerprints, watermarks },
+    });
+  } catch (error) {
+    console.error('Media jobs cron error:', error);
+    return NextResponse.json({ error: 'Media jobs failed' }, { status: 500 });
+  }
+}
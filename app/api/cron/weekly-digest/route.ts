@@ -0,0 +1,111 @@
+// app/api/cron/weekly-digest/route.ts
+// Cron job to queue weekly digest emails (runs Mondays)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { enqueueEmail, weeklyDigestEmail } from '@/lib/email';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+const BATCH_SIZE = 200;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret in production
+  if (process.env.NODE_ENV === 'production') {
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  const startTime = Date.now();
+  const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+  try {
+    // Trending is the same for everyone - compute once
+    const trendingPlays = await prisma.play.groupBy({
+      by: ['trackId'],
+      where: { createdAt: { gte: weekAgo } },
+      _count: true,
+      orderBy: { _count: { trackId: 'desc' } },
+      take: 5,
+    });
+
+    const trendingTrackRows = await prisma.track.findMany({
+      where: { id: { in: trendingPlays.map(p => p.trackId) } },
+      select: { id: true, title: true, artist: { select: { name: true } } },
+    });
+
+    const trendingTracks = trendingPlays
+      .map(p => {
+        const track = trendingTrackRows.find(t => t.id === p.trackId);
+        return track ? { title: track.title, artistName: track.artist.name, playCount: p._count } : null;
+      })
+      .filter(Boolean) as Array<{ title: string; artistName: string; playCount: number }>;
+
+    let queued = 0;
+    let cursor: string | undefined;
+
+    // Page through users with an email address
+    while (true) {
+      const users = await prisma.user.findMany({
+        where: { email: { not: null } },
+        select: { id: true, email: true, username: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      if (users.length === 0) break;
+      cursor = users[users.length - 1].id;
+
+      for (const user of users) {
+        const following = await prisma.follow.findMany({
+          where: { followerId: user.id },
+          select: { followingId: true },
+        });
+
+        const [newTracks, listening] = await Promise.all([
+          following.length > 0
+            ? prisma.track.findMany({
+                where: {
+                  status: 'published',
+                  publishedAt: { gte: weekAgo },
+                  artist: { userId: { in: following.map(f => f.followingId) } },
+                },
+                select: { title: true, artist: { select: { name: true } } },
+                orderBy: { publishedAt: 'desc' },
+                take: 10,
+              })
+            : Promise.resolve([]),
+          prisma.play.aggregate({
+            where: { userId: user.id, createdAt: { gte: weekAgo } },
+            _sum: { duration: true },
+          }),
+        ]);
+
+        const minutesListened = Math.round((listening._sum.duration || 0) / 60);
+
+        // Nothing to say - skip rather than send an empty digest
+        if (newTracks.length === 0 && minutesListened === 0) continue;
+
+        await enqueueEmail(user.email!, weeklyDigestEmail({
+          username: user.username,
+          newTracks: newTracks.map(t => ({ title: t.title, artistName: t.artist.name })),
+          trendingTracks,
+          minutesListened,
+        }));
+        queued++;
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration: `${Date.now() - startTime}ms`,
+      queued,
+    });
+  } catch (error) {
+    console.error('Weekly digest cron error:', error);
+    return NextResponse.json({ error: 'Weekly digest failed' }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireUser, requireArtistAccess, requireArtistOwner } from '@/lib/authz';
 
 // GET /api/crowdfund - List campaigns or get details
 export async function GET(request: NextRequest) {
@@ -144,8 +145,11 @@ export async function POST(request: NextRequest) {
 
     // Create new campaign
     if (action === 'create') {
+      const auth = await requireArtistAccess(request, body.artistId, 'crowdfund');
+      if (!auth.ok) return auth.response;
+
+      const { artistId } = auth;
       const {
-        artistId,
         title,
         description,
         goalAmount,
@@ -157,9 +161,9 @@ export async function POST(request: NextRequest) {
         tiers, // [{ name, amount, description, rewards, maxBackers }]
       } = body;
 
-      if (!artistId || !title || !goalAmount || !endDate) {
+      if (!title || !goalAmount || !endDate) {
         return NextResponse.json({
-          error: 'artistId, title, goalAmount, and endDate required',
+          error: 'title, goalAmount, and endDate required',
         }, { status: 400 });
       }
 
@@ -210,9 +214,12 @@ export async function POST(request: NextRequest) {
 
     // Pledge to campaign
     if (action === 'pledge') {
+      const auth = await requireUser(request);
+      if (!auth.ok) return auth.response;
+
+      const userId = auth.user.id;
       const {
         campaignId,
-        userId,
         tierId,
         amount,
         currency = 'SOL',
@@ -221,9 +228,9 @@ export async function POST(request: NextRequest) {
         message,
       } = body;
 
-      if (!campaignId || !userId || !amount) {
+      if (!campaignId || !amount) {
         return NextResponse.json({
-          error: 'campaignId, userId, and amount required',
+          error: 'campaignId and amount required',
         }, { status: 400 });
       }
 
@@ -329,19 +336,14 @@ export async function POST(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { campaignId, artistId, updates } = body;
+    const { campaignId, updates } = body;
 
-    if (!campaignId || !artistId) {
-      return NextResponse.json({ error: 'campaignId and artistId required' }, { status: 400 });
+    if (!campaignId || !updates) {
+      return NextResponse.json({ error: 'campaignId and updates required' }, { status: 400 });
     }
 
-    const campaign = await prisma.crowdfundCampaign.findUnique({
-      where: { id: campaignId },
-    });
-
-    if (!campaign || campaign.artistId !== artistId) {
-      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
-    }
+    const auth = await requireArtistOwner(request, 'campaign', campaignId);
+    if (!auth.ok) return auth.response;
 
     // Only allow certain updates
     const allowedUpdates: any = {};
@@ -0,0 +1,26 @@
+// app/api/developer/keys/limit/route.ts
+// Internal - lets middleware.ts (edge runtime, no database) look up a key's rate limit
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeyLimit } from '@/lib/apiKeys';
+
+// GET - Rate limit and status for ?keyHash= (SHA-256 of the whole key, hex)
+export async function GET(request: NextRequest) {
+  const secret = process.env.INTERNAL_API_SECRET;
+
+  if (!secret || request.headers.get('x-internal-secret') !== secret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const keyHash = request.nextUrl.searchParams.get('keyHash');
+  if (!keyHash || !/^[a-f0-9]{64}$/.test(keyHash)) {
+    return NextResponse.json({ error: 'keyHash required' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await getApiKeyLimit(keyHash));
+  } catch (error) {
+    console.error('API key limit error:', error);
+    return NextResponse.json({ error: 'Failed to look up key' }, { status: 500 });
+  }
+}
@@ -0,0 +1,194 @@
+// app/api/developer/keys/route.ts
+// Developer API keys - create, rotate and revoke keys for bots and dashboards
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireUser } from '@/lib/authz';
+import {
+  API_KEY_SCOPES,
+  MAX_KEYS_PER_USER,
+  MAX_RATE_LIMIT,
+  clampRateLimit,
+  formatApiKey,
+  generateApiKey,
+  validateScopes,
+} from '@/lib/apiKeys';
+
+// GET - List the current user's keys (hashes and secrets are never returned)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const keys = await prisma.apiKey.findMany({
+      where: { userId: auth.user.id },
+      orderBy: [{ revokedAt: 'asc' }, { createdAt: 'desc' }],
+    });
+
+    return NextResponse.json({
+      keys: keys.map(formatApiKey),
+      availableScopes: API_KEY_SCOPES,
+      maxRateLimit: MAX_RATE_LIMIT,
+    });
+  } catch (error) {
+    console.error('List API keys error:', error);
+    return NextResponse.json({ error: 'Failed to list API keys' }, { status: 500 });
+  }
+}
+
+// POST - Create a key. The plaintext key is only returned in this response.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const { name, scopes, rateLimit, expiresInDays } = await request.json();
+
+    if (!name?.trim()) {
+      return NextResponse.json({ error: 'name required' }, { status: 400 });
+    }
+
+    const validScopes = validateScopes(scopes);
+    if (!validScopes) {
+      return NextResponse.json({
+        error: `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`,
+      }, { status: 400 });
+    }
+
+    const activeKeys = await prisma.apiKey.count({
+      where: { userId: auth.user.id, revokedAt: null },
+    });
+
+    if (activeKeys >= MAX_KEYS_PER_USER) {
+      return NextResponse.json({
+        error: `You can have at most ${MAX_KEYS_PER_USER} active keys - revoke one first`,
+      }, { status: 400 });
+    }
+
+    const { key, keyId, keyHash } = generateApiKey();
+    const days = parseInt(expiresInDays);
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId: auth.user.id,
+        name: name.trim().substring(0, 50),
+        keyId,
+        keyHash,
+        scopes: JSON.stringify(validScopes),
+        rateLimit: clampRateLimit(rateLimit),
+        expiresAt: days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      key,
+      apiKey: formatApiKey(apiKey),
+      message: 'Store this key now - it will not be shown again',
+    });
+  } catch (error) {
+    console.error('Create API key error:', error);
+    return NextResponse.json({ error: 'Failed to create API key' }, { status: 500 });
+  }
+}
+
+// PATCH - Rotate a key (action: "rotate") or change its name, scopes or rate limit
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json();
+    const { id, action } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'id required' }, { status: 400 });
+    }
+
+    const existing = await prisma.apiKey.findUnique({ where: { id } });
+
+    if (!existing || existing.userId !== auth.user.id) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    if (existing.revokedAt) {
+      return NextResponse.json({ error: 'API key has been revoked' }, { status: 400 });
+    }
+
+    if (action === 'rotate') {
+      // New secret and key id - the old key stops working immediately
+      const { key, keyId, keyHash } = generateApiKey();
+
+      const apiKey = await prisma.apiKey.update({
+        where: { id },
+        data: { keyId, keyHash, rotatedAt: new Date() },
+      });
+
+      return NextResponse.json({
+        success: true,
+        key,
+        apiKey: formatApiKey(apiKey),
+        message: 'Store this key now - it will not be shown again',
+      });
+    }
+
+    const data: { name?: string; scopes?: string; rateLimit?: number } = {};
+
+    if (body.name !== undefined) {
+      if (!body.name?.trim()) {
+        return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 });
+      }
+      data.name = body.name.trim().substring(0, 50);
+    }
+
+    if (body.scopes !== undefined) {
+      const validScopes = validateScopes(body.scopes);
+      if (!validScopes) {
+        return NextResponse.json({
+          error: `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`,
+        }, { status: 400 });
+      }
+      data.scopes = JSON.stringify(validScopes);
+    }
+
+    if (body.rateLimit !== undefined) {
+      data.rateLimit = clampRateLimit(body.rateLimit);
+    }
+
+    const apiKey = await prisma.apiKey.update({ where: { id }, data });
+
+    return NextResponse.json({ success: true, apiKey: formatApiKey(apiKey) });
+  } catch (error) {
+    console.error('Update API key error:', error);
+    return NextResponse.json({ error: 'Failed to update API key' }, { status: 500 });
+  }
+}
+
+// DELETE - Revoke a key (kept for the audit trail)
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const { id } = await request.json();
+
+    if (!id) {
+      return NextResponse.json({ error: 'id required' }, { status: 400 });
+    }
+
+    const existing = await prisma.apiKey.findUnique({ where: { id } });
+
+    if (!existing || existing.userId !== auth.user.id) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    const apiKey = existing.revokedAt
+      ? existing
+      : await prisma.apiKey.update({ where: { id }, data: { revokedAt: new Date() } });
+
+    return NextResponse.json({ success: true, apiKey: formatApiKey(apiKey) });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    return NextResponse.json({ error: 'Failed to revoke API key' }, { status: 500 });
+  }
+}
@@ -3,28 +3,28 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { verifyWalletSignature } from '@/lib/auth';
-import { getSignedUrl } from '@/lib/storage';
+import { requireUser } from '@/lib/authz';
+import { getDownloadPresignedUrl } from '@/lib/storage';
+import { getRenditionKey } from '@/lib/media/transcode';
+import { requestWatermarkedCopy } from '@/lib/media/watermark';
 import { checkTokenBalance } from '@/lib/solana/tokenGate';
 
 // Tier requirements for downloads
 const DOWNLOAD_TIER_MINIMUM = 1000; // Premium tier minimum
 const MAX_DOWNLOADS_PER_DAY = 50;
+const WATERMARK_RETRY_SECONDS = 60; // The media-jobs cron renders queued copies
 const DOWNLOAD_QUALITY_MAP = {
   standard: '320kbps',
   lossless: 'FLAC',
 } as const;
 
-// GET - Get user's downloaded tracks list
+// GET - Get the caller's downloaded tracks list
 export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url);
-  const userId = searchParams.get('userId');
-
-  if (!userId) {
-    return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-  }
-
   try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const userId = auth.user.id;
     const downloads = await prisma.download.findMany({
       where: { userId },
       include: {
@@ -79,32 +79,20 @@ export async function GET(request: NextRequest) {
 // POST - Request download URL for a track
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { walletAddress, trackId, quality = 'standard', signature, message } = body;
-
-    if (!walletAddress || !trackId) {
-      return NextResponse.json({ error: 'Wallet address and track ID required' }, { status: 400 });
-    }
-
-    // Verify wallet signature
-    if (signature && message) {
-      const isValid = await verifyWalletSignature(walletAddress, signature, message);
-      if (!isValid) {
-        return NextResponse.json({ error: 'Invalid wallet signature' }, { status: 401 });
-      }
-    }
+    // The download is watermarked for the caller - identity comes from the session only
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
 
-    // Get user
-    const user = await prisma.user.findUnique({
-      where: { walletAddress },
-    });
+    const body = await request.json();
+    const { trackId, quality = 'standard' } = body;
 
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    if (!trackId) {
+      return NextResponse.json({ error: 'Track ID required' }, { status: 400 });
     }
 
     // Verify token balance for premium tier
-    const balance = await checkTokenBalance(walletAddress);
+    const balance = await checkTokenBalance(user.walletAddress);
     
     if (balance < DOWNLOAD_TIER_MINIMUM) {
       return NextResponse.json({ 
@@ -163,22 +151,38 @@ export async function POST(request: NextRequest) {
       }, { status: 403 });
     }
 
-    // Get appropriate audio file URL
-    const audioKey = allowedQuality === 'lossless' && track.losslessUrl 
-      ? track.losslessUrl 
-      : track.audioUrl;
+    // Lossless needs the FLAC master, standard a finished 320kbps MP3 transcode
+    const available = allowedQuality === 'lossless'
+      ? track.losslessKey
+      : await getRenditionKey(track.id, 'mp3', 320);
 
-    if (!audioKey) {
+    if (!available) {
       return NextResponse.json({ error: 'Audio file not available' }, { status: 404 });
     }
 
+    // The file handed out carries the user's forensic watermark - the first request queues its
+    // render, and the client retries until it's ready (nothing is counted until then)
+    const result = await requestWatermarkedCopy({
+      userId: user.id,
+      trackId: track.id,
+      purpose: 'download',
+      format: allowedQuality === 'lossless' ? 'flac' : 'mp3',
+      bitrate: 320,
+    });
+
+    if (result.status === 'pending') {
+      return NextResponse.json({
+        status: 'preparing',
+        message: 'Your download is being prepared',
+        retryAfter: WATERMARK_RETRY_SECONDS,
+      }, { status: 202, headers: { 'Retry-After': String(WATERMARK_RETRY_SECONDS) } });
+    }
+
+    const { copy } = result;
+
     // Generate signed download URL (valid for 24 hours)
     const expiresIn = 24 * 60 * 60; // 24 hours
-    const downloadUrl = await getSignedUrl(audioKey, expiresIn);
-
-    // Calculate estimated file size
-    const bitrate = allowedQuality === 'lossless' ? 1411000 : 320000;
-    const estimatedSize = track.duration ? Math.ceil((track.duration * bitrate) / 8) : 0;
+    const downloadUrl = await getDownloadPresignedUrl(copy.storageKey, expiresIn);
 
     // Record download
     const download = await prisma.download.create({
@@ -186,7 +190,7 @@ export async function POST(request: NextRequest) {
         userId: user.id,
         trackId: track.id,
         quality: DOWNLOAD_QUALITY_MAP[allowedQuality as keyof typeof DOWNLOAD_QUALITY_MAP],
-        fileSize: estimatedSize,
+        fileSize: copy.size,
         expiresAt: new Date(Date.now() + expiresIn * 1000),
       },
     });
@@ -197,8 +201,9 @@ export async function POST(request: NextRequest) {
         id: download.id,
         quality: download.quality,
         expiresAt: download.expiresAt,
-        fileSize: estimatedSize,
-        formattedSize: formatBytes(estimatedSize),
+        fileSize: copy.size,
+        formattedSize: formatBytes(copy.size),
+        watermark: copy.code,
       },
       track: {
         id: track.id,
@@ -218,20 +223,12 @@ export async function POST(request: NextRequest) {
 // DELETE - Remove a downloaded track from history
 export async function DELETE(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { walletAddress, downloadId } = body;
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+    const { user } = auth;
 
-    if (!walletAddress) {
-      return NextResponse.json({ error: 'Wallet address required' }, { status: 400 });
-    }
-
-    const user = await prisma.user.findUnique({
-      where: { walletAddress },
-    });
-
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
+    const body = await request.json();
+    const { downloadId } = body;
 
     if (downloadId) {
       // Delete specific download
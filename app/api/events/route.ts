@@ -3,6 +3,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { sendEmail, ticketEmail } from '@/lib/email';
+import { requireUser, requireArtistAccess, requireArtistOwner, forbidden } from '@/lib/authz';
 import crypto from 'crypto';
 
 // GET /api/events - List events or get details
@@ -68,8 +70,12 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Get user's tickets
+    // Get user's tickets (own tickets only)
     if (userId) {
+      const auth = await requireUser(request);
+      if (!auth.ok) return auth.response;
+      if (auth.user.id !== userId && auth.user.role !== 'admin') return forbidden();
+
       const tickets = await prisma.ticket.findMany({
         where: { userId },
         include: {
@@ -140,10 +146,13 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { action = 'purchase' } = body;
 
-    // Create new event (artist only)
+    // Create new event (artist or team member with events access)
     if (action === 'create') {
+      const auth = await requireArtistAccess(request, body.artistId, 'events');
+      if (!auth.ok) return auth.response;
+
+      const { artistId } = auth;
       const {
-        artistId,
         title,
         description,
         type,
@@ -164,9 +173,9 @@ export async function POST(request: NextRequest) {
         holderDiscount, // percentage
       } = body;
 
-      if (!artistId || !title || !startDate || !type) {
+      if (!title || !startDate || !type) {
         return NextResponse.json({
-          error: 'artistId, title, startDate, and type required',
+          error: 'title, startDate, and type required',
         }, { status: 400 });
       }
 
@@ -211,19 +220,22 @@ export async function POST(request: NextRequest) {
 
     // Purchase ticket
     if (action === 'purchase') {
+      const auth = await requireUser(request);
+      if (!auth.ok) return auth.response;
+
+      const userId = auth.user.id;
       const {
         eventId,
         tierId,
-        userId,
         quantity = 1,
         txSignature,
         attendeeName,
         attendeeEmail,
       } = body;
 
-      if (!eventId || !tierId || !userId) {
+      if (!eventId || !tierId) {
         return NextResponse.json({
-          error: 'eventId, tierId, and userId required',
+          error: 'eventId and tierId required',
         }, { status: 400 });
       }
 
@@ -312,6 +324,20 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      // Email the tickets to the attendee (or the buyer's account email)
+      const ticketRecipient = attendeeEmail || auth.user.email;
+
+      if (ticketRecipient) {
+        await sendEmail(ticketRecipient, ticketEmail({
+          eventTitle: event.title,
+          venue: event.venue,
+          startDate: event.startDate,
+          tierName: tier.name,
+          attendeeName,
+          ticketCodes: tickets.map(t => t.ticketCode),
+        }));
+      }
+
       return NextResponse.json({
         success: true,
         tickets: tickets.map(t => ({
@@ -339,6 +365,10 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'ticketCode and eventId required' }, { status: 400 });
       }
 
+      // Door staff: the artist or a team member with events access
+      const auth = await requireArtistOwner(request, 'event', eventId);
+      if (!auth.ok) return auth.response;
+
       const ticket = await prisma.ticket.findFirst({
         where: { ticketCode, eventId },
         include: {
@@ -392,19 +422,14 @@ export async function POST(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json();
-    const { eventId, artistId, updates } = body;
+    const { eventId, updates } = body;
 
-    if (!eventId || !artistId) {
-      return NextResponse.json({ error: 'eventId and artistId required' }, { status: 400 });
+    if (!eventId || !updates) {
+      return NextResponse.json({ error: 'eventId and updates required' }, { status: 400 });
     }
 
-    const event = await prisma.event.findUnique({
-      where: { id: eventId },
-    });
-
-    if (!event || event.artistId !== artistId) {
-      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
-    }
+    const auth = await requireArtistOwner(request, 'event', eventId);
+    if (!auth.ok) return auth.response;
 
     const allowedUpdates: any = {};
     const allowed = ['title', 'description', 'venue', 'address', 'coverUrl', 'status'];
@@ -5,8 +5,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import nacl from 'tweetnacl';
-import bs58 from 'bs58';
+import { verifyWalletSignature } from '@/lib/auth';
 
 const RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com';
 
@@ -51,23 +50,6 @@ function checkRateLimit(walletAddress: string): boolean {
   return true;
 }
 
-// Verify wallet signature (optional security layer)
-function verifySignature(walletAddress: string, message: string, signature: string): boolean {
-  try {
-    const publicKey = new PublicKey(walletAddress);
-    const messageBytes = new TextEncoder().encode(message);
-    const signatureBytes = bs58.decode(signature);
-    
-    return nacl.sign.detached.verify(
-      messageBytes,
-      signatureBytes,
-      publicKey.toBytes()
-    );
-  } catch {
-    return false;
-  }
-}
-
 async function checkTokenOwnership(
   walletAddress: string,
   requiredTokenMint: string,
@@ -177,7 +159,7 @@ export async function POST(request: NextRequest) {
 
     // Optional: Verify signature if provided (stronger security)
     if (body.signature && body.message) {
-      const isValid = verifySignature(body.walletAddress, body.message, body.signature);
+      const isValid = verifyWalletSignature(body.walletAddress, body.message, body.signature);
       if (!isValid) {
         return NextResponse.json(
           { hasAccess: false, error: 'Invalid signature' },
@@ -3,6 +3,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireRole } from '@/lib/authz';
+import { getStorageDriver, isStorageConfigured } from '@/lib/storage';
 
 interface HealthCheck {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -62,23 +64,20 @@ export async function GET(request: NextRequest) {
     health.status = 'unhealthy';
   }
 
-  // Storage health check (R2)
+  // Storage health check (R2, or the local disk driver)
   try {
     const storageStart = Date.now();
-    // Check if R2 env vars are configured
-    const r2Configured = !!(
-      process.env.R2_ACCESS_KEY_ID &&
-      process.env.R2_SECRET_ACCESS_KEY &&
-      process.env.R2_BUCKET_NAME
-    );
+    const storageConfigured = isStorageConfigured();
+    const storageDriver = storageConfigured ? getStorageDriver().name : null;
     
     health.checks.storage = {
-      status: r2Configured ? 'up' : 'degraded',
+      status: storageConfigured ? 'up' : 'degraded',
       latency: Date.now() - storageStart,
-      message: r2Configured ? undefined : 'R2 not fully configured',
+      message: !storageConfigured ? 'R2 not fully configured'
+        : storageDriver === 'local' ? 'Local disk storage' : undefined,
     };
 
-    if (!r2Configured && health.status === 'healthy') {
+    if (!storageConfigured && health.status === 'healthy') {
       health.status = 'degraded';
     }
   } catch (error: any) {
@@ -130,11 +129,8 @@ export async function GET(request: NextRequest) {
 
 // POST - Run diagnostic checks (admin only)
 export async function POST(request: NextRequest) {
-  const adminKey = request.headers.get('x-admin-key');
-  
-  if (adminKey !== process.env.ADMIN_API_KEY) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const auth = await requireRole(request, 'admin');
+  if (!auth.ok) return auth.response;
 
   try {
     const diagnostics = {
@@ -3,6 +3,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { sendEmail, receiptEmail } from '@/lib/email';
+import { requireUser, requireArtistAccess, requireArtistOwner } from '@/lib/authz';
 
 // GET /api/merch - List merch or get item details
 export async function GET(request: NextRequest) {
@@ -94,10 +96,13 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { action = 'order' } = body;
 
-    // Create new merch item (artist only)
+    // Create new merch item (artist or team member with merch access)
     if (action === 'create') {
+      const auth = await requireArtistAccess(request, body.artistId, 'merch');
+      if (!auth.ok) return auth.response;
+
+      const { artistId } = auth;
       const {
-        artistId,
         name,
         description,
         category,
@@ -113,9 +118,9 @@ export async function POST(request: NextRequest) {
         holderDiscount, // percentage
       } = body;
 
-      if (!artistId || !name || !basePrice || !category) {
+      if (!name || !basePrice || !category) {
         return NextResponse.json({
-          error: 'artistId, name, basePrice, and category required',
+          error: 'name, basePrice, and category required',
         }, { status: 400 });
       }
 
@@ -153,17 +158,20 @@ export async function POST(request: NextRequest) {
 
     // Place order
     if (action === 'order') {
+      const auth = await requireUser(request);
+      if (!auth.ok) return auth.response;
+
+      const userId = auth.user.id;
       const {
-        userId,
         items, // [{ itemId, variantId, quantity }]
         shippingAddress,
         txSignature,
         currency = 'USDC',
       } = body;
 
-      if (!userId || !items?.length) {
+      if (!items?.length) {
         return NextResponse.json({
-          error: 'userId and items required',
+          error: 'items required',
         }, { status: 400 });
       }
 
@@ -258,6 +266,21 @@ export async function POST(request: NextRequest) {
         });
       }
 
+      // Email a receipt if the buyer has an address on file
+      if (auth.user.email) {
+        await sendEmail(auth.user.email, receiptEmail({
+          orderId: order.id,
+          items: order.items.map(i => ({
+            name: `${i.variant.item.name} (${i.variant.name})`,
+            quantity: i.quantity,
+            total: i.total,
+          })),
+          total: order.total,
+          currency: order.currency,
+          txSignature: order.txSignature,
+        }));
+      }
+
       return NextResponse.json({
         success: true,
         order: {
@@ -283,7 +306,14 @@ export async function PATCH(request: NextRequest) {
     const body = await request.json();
     const { type, id, updates } = body;
 
+    if (!id || !updates) {
+      return NextResponse.json({ error: 'id and updates required' }, { status: 400 });
+    }
+
     if (type === 'item') {
+      const auth = await requireArtistOwner(request, 'merch', id);
+      if (!auth.ok) return auth.response;
+
       const item = await prisma.merchItem.update({
         where: { id },
         data: updates,
@@ -292,6 +322,21 @@ export async function PATCH(request: NextRequest) {
     }
 
     if (type === 'order') {
+      // Fulfilment - caller must manage merch for every artist in the order
+      const orderItems = await prisma.merchOrderItem.findMany({
+        where: { orderId: id },
+        select: { variant: { select: { item: { select: { artistId: true } } } } },
+      });
+
+      if (!orderItems.length) {
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+      }
+
+      for (const artistId of new Set(orderItems.map(i => i.variant.item.artistId))) {
+        const auth = await requireArtistAccess(request, artistId, 'merch');
+        if (!auth.ok) return auth.response;
+      }
+
       const order = await prisma.merchOrder.update({
         where: { id },
         data: {
@@ -305,6 +350,18 @@ export async function PATCH(request: NextRequest) {
     }
 
     if (type === 'variant') {
+      const existing = await prisma.merchVariant.findUnique({
+        where: { id },
+        select: { itemId: true },
+      });
+
+      if (!existing) {
+        return NextResponse.json({ error: 'Variant not found' }, { status: 404 });
+      }
+
+      const auth = await requireArtistOwner(request, 'merch', existing.itemId);
+      if (!auth.ok) return auth.response;
+
       const variant = await prisma.merchVariant.update({
         where: { id },
         data: updates,
@@ -323,19 +380,14 @@ export async function PATCH(request: NextRequest) {
 export async function DELETE(request: NextRequest) {
   try {
     const body = await request.json();
-    const { itemId, artistId } = body;
+    const { itemId } = body;
 
-    if (!itemId || !artistId) {
-      return NextResponse.json({ error: 'itemId and artistId required' }, { status: 400 });
+    if (!itemId) {
+      return NextResponse.json({ error: 'itemId required' }, { status: 400 });
     }
 
-    const item = await prisma.merchItem.findUnique({
-      where: { id: itemId },
-    });
-
-    if (!item || item.artistId !== artistId) {
-      return NextResponse.json({ error: 'Item not found' }, { status: 404 });
-    }
+    const auth = await requireArtistOwner(request, 'merch', itemId);
+    if (!auth.ok) return auth.response;
 
     // Soft delete (set status to archived)
     await prisma.merchItem.update({
@@ -3,20 +3,29 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getSessionUser, unauthorized } from '@/lib/session';
 
 // GET - Get conversations/messages
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const userId = searchParams.get('userId');
   const conversationId = searchParams.get('conversationId');
-  const type = searchParams.get('type') || 'inbox'; // 'inbox' | 'sent' | 'conversation'
-
-  if (!userId) {
-    return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-  }
 
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const userId = user.id;
+
     if (conversationId) {
+      // Only participants can read a conversation
+      const participant = await prisma.conversationParticipant.findFirst({
+        where: { conversationId, userId },
+      });
+
+      if (!participant) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+      }
+
       // Get specific conversation messages
       const messages = await prisma.message.findMany({
         where: { conversationId },
@@ -130,12 +139,16 @@ export async function GET(request: NextRequest) {
 // POST - Send a message
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const senderId = user.id;
     const body = await request.json();
-    const { senderId, recipientId, content, type = 'direct' } = body;
+    const { recipientId, content, type = 'direct' } = body;
 
-    if (!senderId || !recipientId || !content) {
+    if (!recipientId || !content) {
       return NextResponse.json({ 
-        error: 'Sender, recipient, and content required' 
+        error: 'Recipient and content required' 
       }, { status: 400 });
     }
 
@@ -218,12 +231,12 @@ export async function POST(request: NextRequest) {
 // PATCH - Mark messages as read
 export async function PATCH(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { userId, conversationId, messageIds } = body;
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
 
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID required' }, { status: 400 });
-    }
+    const userId = user.id;
+    const body = await request.json();
+    const { conversationId, messageIds } = body;
 
     const where: any = {
       recipientId: userId,
@@ -257,12 +270,16 @@ export async function PATCH(request: NextRequest) {
 // DELETE - Delete a message
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const userId = user.id;
     const body = await request.json();
-    const { userId, messageId } = body;
+    const { messageId } = body;
 
-    if (!userId || !messageId) {
+    if (!messageId) {
       return NextResponse.json({ 
-        error: 'User ID and message ID required' 
+        error: 'Message ID required' 
       }, { status: 400 });
     }
 
@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import webpush from 'web-push';
+import { requireRole } from '@/lib/authz';
 
 // Configure web-push with VAPID keys
 // Generate keys: npx web-push generate-vapid-keys
@@ -38,14 +39,10 @@ interface NotificationPayload {
   actions?: Array<{ action: string; title: string }>;
 }
 
-// POST - Send notification (admin/system only)
+// POST - Send notification (admin only)
 export async function POST(request: NextRequest) {
-  const adminKey = request.headers.get('x-admin-key');
-  
-  // Only allow internal calls
-  if (adminKey !== process.env.ADMIN_API_KEY && process.env.NODE_ENV === 'production') {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
+  const auth = await requireRole(request, 'admin');
+  if (!auth.ok) return auth.response;
 
   try {
     const body = await request.json();
@@ -3,6 +3,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getSessionUser } from '@/lib/session';
+import { requireScope } from '@/lib/authz';
 
 // GET - Get playlists or single playlist
 export async function GET(request: NextRequest) {
@@ -57,7 +59,8 @@ export async function GET(request: NextRequest) {
       }
 
       // Check if private playlist is accessible
-      if (!playlist.isPublic && playlist.userId !== userId) {
+      const viewer = playlist.isPublic ? null : await getSessionUser(request);
+      if (!playlist.isPublic && playlist.userId !== viewer?.id) {
         return NextResponse.json({ error: 'Playlist is private' }, { status: 403 });
       }
 
@@ -82,11 +85,12 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Get user's playlists
+    // Get user's playlists (private ones only for their owner)
     if (userId) {
+      const viewer = await getSessionUser(request);
       const where = {
         userId,
-        ...(isPublic && { isPublic: true }),
+        ...((isPublic || viewer?.id !== userId) && { isPublic: true }),
       };
 
       const playlists = await prisma.playlist.findMany({
@@ -159,12 +163,19 @@ export async function GET(request: NextRequest) {
 // POST - Create playlist
 export async function POST(request: NextRequest) {
   try {
+    // Session or an API key with write:playlists
+    const auth = await requireScope(request, 'write:playlists');
+    if (!auth.ok) return auth.response;
+
+    const { user } = auth;
+
+    const userId = user.id;
     const body = await request.json();
-    const { userId, name, description, coverUrl, isPublic = false, trackIds = [] } = body;
+    const { name, description, coverUrl, isPublic = false, trackIds = [] } = body;
 
-    if (!userId || !name) {
+    if (!name) {
       return NextResponse.json(
-        { error: 'userId and name required' },
+        { error: 'name required' },
         { status: 400 }
       );
     }
@@ -221,12 +232,18 @@ export async function POST(request: NextRequest) {
 // PATCH - Update playlist
 export async function PATCH(request: NextRequest) {
   try {
+    // Session or an API key with write:playlists
+    const auth = await requireScope(request, 'write:playlists');
+    if (!auth.ok) return auth.response;
+
+    const { user } = auth;
+
     const body = await request.json();
-    const { playlistId, userId, name, description, coverUrl, isPublic } = body;
+    const { playlistId, name, description, coverUrl, isPublic } = body;
 
-    if (!playlistId || !userId) {
+    if (!playlistId) {
       return NextResponse.json(
-        { error: 'playlistId and userId required' },
+        { error: 'playlistId required' },
         { status: 400 }
       );
     }
@@ -240,7 +257,7 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Playlist not found' }, { status: 404 });
     }
 
-    if (playlist.userId !== userId) {
+    if (playlist.userId !== user.id) {
       return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
     }
 
@@ -276,12 +293,18 @@ export async function PATCH(request: NextRequest) {
 // DELETE - Delete playlist
 export async function DELETE(request: NextRequest) {
   try {
+    // Session or an API key with write:playlists
+    const auth = await requireScope(request, 'write:playlists');
+    if (!auth.ok) return auth.response;
+
+    const { user } = auth;
+
     const body = await request.json();
-    const { playlistId, userId } = body;
+    const { playlistId } = body;
 
-    if (!playlistId || !userId) {
+    if (!playlistId) {
       return NextResponse.json(
-        { error: 'playlistId and userId required' },
+        { error: 'playlistId required' },
         { status: 400 }
       );
     }
@@ -295,7 +318,7 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Playlist not found' }, { status: 404 });
     }
 
-    if (playlist.userId !== userId) {
+    if (playlist.userId !== user.id) {
       return NextResponse.json({ error: 'Not authorized' }, { status: 403 });
     }
 
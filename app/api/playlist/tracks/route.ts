@@ -3,16 +3,22 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireScope } from '@/lib/authz';
 
 // POST - Add track(s) to playlist
 export async function POST(request: NextRequest) {
   try {
+    // Session or an API key with write:playlists
+    const auth = await requireScope(request, 'write:playlists');
+    if (!auth.ok) return auth.response;
+
+    const userId = auth.user.id;
     const body = await request.json();
-    const { playlistId, userId, trackId, trackIds } = body;
+    const { playlistId, trackId, trackIds } = body;
 
-    if (!playlistId || !userId) {
+    if (!playlistId) {
       return NextResponse.json(
-        { error: 'playlistId and userId required' },
+        { error: 'playlistId required' },
         { status: 400 }
       );
     }
@@ -100,12 +106,17 @@ export async function POST(request: NextRequest) {
 // DELETE - Remove track from playlist
 export async function DELETE(request: NextRequest) {
   try {
+    // Session or an API key with write:playlists
+    const auth = await requireScope(request, 'write:playlists');
+    if (!auth.ok) return auth.response;
+
+    const userId = auth.user.id;
     const body = await request.json();
-    const { playlistId, userId, trackId } = body;
+    const { playlistId, trackId } = body;
 
-    if (!playlistId || !userId || !trackId) {
+    if (!playlistId || !trackId) {
       return NextResponse.json(
-        { error: 'playlistId, userId, and trackId required' },
+        { error: 'playlistId and trackId required' },
         { status: 400 }
       );
     }
@@ -165,12 +176,17 @@ export async function DELETE(request: NextRequest) {
 // PATCH - Reorder tracks in playlist
 export async function PATCH(request: NextRequest) {
   try {
+    // Session or an API key with write:playlists
+    const auth = await requireScope(request, 'write:playlists');
+    if (!auth.ok) return auth.response;
+
+    const userId = auth.user.id;
     const body = await request.json();
-    const { playlistId, userId, trackIds } = body;
+    const { playlistId, trackIds } = body;
 
-    if (!playlistId || !userId || !trackIds || !Array.isArray(trackIds)) {
+    if (!playlistId || !trackIds || !Array.isArray(trackIds)) {
       return NextResponse.json(
-        { error: 'playlistId, userId, and trackIds array required' },
+        { error: 'playlistId and trackIds array required' },
         { status: 400 }
       );
     }
@@ -3,6 +3,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getSessionUser } from '@/lib/session';
+import { getEmbeddedSignerAddress, signAndSendWithEmbeddedWallet } from '@/lib/solana/custody';
 import { 
   PublicKey, 
   Connection, 
@@ -26,7 +28,7 @@ const PLATFORM_SHARE = 0.07; // 7% to platform
 const REFERRER_SHARE = 0.03; // 3% to referrer
 
 interface PurchaseRequest {
-  walletAddress: string;
+  walletAddress?: string;   // Defaults to the session user's wallet
   contentId: string;
   contentType: 'track' | 'video' | 'album';
   paymentMethod: 'sol' | 'token';
@@ -72,7 +74,14 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body: PurchaseRequest = await request.json();
-    const { walletAddress, contentId, contentType, paymentMethod, referrerWallet } = body;
+    const { contentId, contentType, paymentMethod, referrerWallet } = body;
+
+    // Email signups have a custodied wallet - the server signs when it is the paying wallet,
+    // otherwise (e.g. an external wallet linked as primary) the client signs
+    const sessionUser = await getSessionUser(request);
+    const walletAddress = body.walletAddress || sessionUser?.walletAddress;
+    const embeddedAddress = sessionUser ? await getEmbeddedSignerAddress(sessionUser.id) : null;
+    const serverSign = !!embeddedAddress && walletAddress === embeddedAddress;
 
     if (!walletAddress || !contentId || !paymentMethod) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
@@ -229,18 +238,32 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Serialize transaction for client signing
-    const serializedTransaction = transaction.serialize({
-      requireAllSignatures: false,
-      verifySignatures: false,
-    });
-
     // Create purchase record (pending)
     const purchaseId = `purchase_${Date.now()}_${Math.random().toString(36).slice(2)}`;
 
+    // Embedded wallet: sign and submit here, the client only has to confirm via PUT
+    let signature: string | null = null;
+    if (serverSign && sessionUser) {
+      try {
+        signature = await signAndSendWithEmbeddedWallet(sessionUser.id, transaction, connection);
+      } catch (err) {
+        console.error('Embedded wallet purchase error:', err);
+        return NextResponse.json({ error: 'Payment failed - check your wallet balance' }, { status: 400 });
+      }
+    }
+
     return NextResponse.json({
       purchaseId,
-      transaction: serializedTransaction.toString('base64'),
+      ...(signature
+        ? { signature, signedBy: 'server' }
+        : {
+            // Serialize transaction for client signing
+            transaction: transaction.serialize({
+              requireAllSignatures: false,
+              verifySignatures: false,
+            }).toString('base64'),
+            signedBy: 'client',
+          }),
       price: paymentMethod === 'sol' ? priceSOL : priceToken,
       paymentMethod,
       breakdown: {
@@ -3,6 +3,20 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { hasApiKey } from '@/lib/apiKeys';
+import { requireScope } from '@/lib/authz';
+import { MusicalFeatures, camelotCode, musicalSimilarity } from '@/lib/media/analysis';
+
+// Mood to BPM window and target energy
+const MOODS: Record<string, { bpm: { min: number; max: number }; energy: number }> = {
+  energetic: { bpm: { min: 120, max: 180 }, energy: 0.75 },
+  chill: { bpm: { min: 60, max: 100 }, energy: 0.25 },
+  focus: { bpm: { min: 90, max: 130 }, energy: 0.45 },
+  party: { bpm: { min: 115, max: 140 }, energy: 0.8 },
+};
+
+// Random share of each track's rank so stations don't replay the same order
+const SHUFFLE_WEIGHT = 0.5;
 
 // GET - Generate radio playlist
 export async function GET(request: NextRequest) {
@@ -15,10 +29,17 @@ export async function GET(request: NextRequest) {
   const excludeIds = searchParams.get('exclude')?.split(',') || [];
 
   try {
+    // Anonymous reads stay open; API keys need the catalog scope
+    if (hasApiKey(request)) {
+      const auth = await requireScope(request, 'read:catalog');
+      if (!auth.ok) return auth.response;
+    }
+
     let seedTrack: any = null;
     let seedArtist: any = null;
     let targetGenre: string | null = genre || null;
     let targetBpmRange: { min: number; max: number } | null = null;
+    let target: MusicalFeatures = {}; // Tempo/key/energy the station is built around
 
     // Get seed data
     if (seedType === 'track' && seedId) {
@@ -28,6 +49,9 @@ export async function GET(request: NextRequest) {
           id: true,
           genre: true,
           bpm: true,
+          musicalKey: true,
+          keyMode: true,
+          energy: true,
           artistId: true,
           artist: {
             select: { name: true },
@@ -37,6 +61,12 @@ export async function GET(request: NextRequest) {
 
       if (seedTrack) {
         targetGenre = seedTrack.genre;
+        target = {
+          bpm: seedTrack.bpm,
+          musicalKey: seedTrack.musicalKey,
+          keyMode: seedTrack.keyMode,
+          energy: seedTrack.energy,
+        };
         if (seedTrack.bpm) {
           targetBpmRange = {
             min: seedTrack.bpm - 20,
@@ -59,22 +89,10 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Mood to BPM mapping
-    if (mood) {
-      switch (mood) {
-        case 'energetic':
-          targetBpmRange = { min: 120, max: 180 };
-          break;
-        case 'chill':
-          targetBpmRange = { min: 60, max: 100 };
-          break;
-        case 'focus':
-          targetBpmRange = { min: 90, max: 130 };
-          break;
-        case 'party':
-          targetBpmRange = { min: 115, max: 140 };
-          break;
-      }
+    // Mood to BPM window and energy
+    if (mood && MOODS[mood]) {
+      targetBpmRange = MOODS[mood].bpm;
+      target = { ...target, energy: MOODS[mood].energy };
     }
 
     // Build query
@@ -111,7 +129,7 @@ export async function GET(request: NextRequest) {
         { playCount: 'desc' },
         { likeCount: 'desc' },
       ],
-      take: limit * 2, // Get extra for shuffling
+      take: limit * 3, // Get extra for ranking and shuffling
     });
 
     // If not enough tracks, relax genre constraint
@@ -139,10 +157,10 @@ export async function GET(request: NextRequest) {
       tracks = [...tracks, ...additionalTracks];
     }
 
-    // Shuffle tracks for variety
+    // Rank by tempo, harmonic (key) compatibility and energy, with a random share for variety
     const shuffled = tracks
-      .map(t => ({ track: t, sort: Math.random() }))
-      .sort((a, b) => a.sort - b.sort)
+      .map(t => ({ track: t, sort: (musicalSimilarity(target, t) ?? 0.5) + Math.random() * SHUFFLE_WEIGHT }))
+      .sort((a, b) => b.sort - a.sort)
       .map(t => t.track)
       .slice(0, limit);
 
@@ -156,6 +174,8 @@ export async function GET(request: NextRequest) {
       duration: t.duration,
       genre: t.genre,
       bpm: t.bpm,
+      key: camelotCode(t.musicalKey, t.keyMode),
+      energy: t.energy,
       artist: t.artist,
     }));
 
@@ -169,6 +189,9 @@ export async function GET(request: NextRequest) {
           id: seedId || null,
           genre: targetGenre,
           mood: mood || null,
+          bpm: target.bpm ?? null,
+          key: camelotCode(target.musicalKey, target.keyMode),
+          energy: target.energy ?? null,
           name: seedTrack?.artist?.name || seedArtist?.name || targetGenre || mood || 'Mixed',
         },
         tracks: radioTracks,
@@ -3,6 +3,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { MusicalFeatures, camelotCode, musicalSimilarity } from '@/lib/media/analysis';
+
+// Similarity above which a pick is explained by sound rather than genre
+const SOUND_MATCH_THRESHOLD = 0.75;
 
 // GET - Get personalized recommendations
 export async function GET(request: NextRequest) {
@@ -36,6 +40,7 @@ export async function GET(request: NextRequest) {
     let userGenres: string[] = [];
     let userArtists: string[] = [];
     let recentTrackIds: string[] = [];
+    let taste: MusicalFeatures = {}; // Typical tempo, key and energy of the user's listens
 
     if (userId) {
       // Get user's most played genres
@@ -47,6 +52,10 @@ export async function GET(request: NextRequest) {
               id: true,
               genre: true,
               artistId: true,
+              bpm: true,
+              musicalKey: true,
+              keyMode: true,
+              energy: true,
             },
           },
         },
@@ -77,6 +86,8 @@ export async function GET(request: NextRequest) {
         .sort((a, b) => b[1] - a[1])
         .slice(0, 10)
         .map(([a]) => a);
+
+      taste = buildTasteProfile(recentPlays.map(p => p.track));
     }
 
     // Exclude recently played and specified tracks
@@ -110,10 +121,10 @@ export async function GET(request: NextRequest) {
               { playCount: 'desc' },
               { likeCount: 'desc' },
             ],
-            take: limit,
+            take: limit * 2, // Extra candidates to re-rank by sound
           });
 
-          recommendations = similar.map(t => ({
+          recommendations = rankByTaste(similar, taste).slice(0, limit).map(({ track: t, similarity }) => ({
             id: t.id,
             title: t.title,
             ticker: t.ticker,
@@ -124,7 +135,10 @@ export async function GET(request: NextRequest) {
             artist: t.artist,
             reason: t.artistId && userArtists.includes(t.artistId) 
               ? 'From an artist you like'
-              : `Based on your ${t.genre} listens`,
+              : similarity !== null && similarity >= SOUND_MATCH_THRESHOLD
+                ? 'Similar tempo, key and energy to your listens'
+                : `Based on your ${t.genre} listens`,
+            score: similarity !== null ? Math.round(similarity * 1000) / 1000 : undefined,
           }));
         }
         break;
@@ -277,8 +291,8 @@ export async function GET(request: NextRequest) {
               },
             },
             orderBy: { playCount: 'desc' },
-            take: Math.ceil(limit / 3),
-          }) : [],
+            take: Math.ceil(limit / 3) * 2,
+          }).then(tracks => rankByTaste(tracks, taste).slice(0, Math.ceil(limit / 3)).map(r => r.track)) : [],
 
           // Trending
           prisma.track.findMany({
@@ -357,6 +371,9 @@ export async function GET(request: NextRequest) {
       userPreferences: userId ? {
         topGenres: userGenres.slice(0, 3),
         totalPlays: recentTrackIds.length,
+        bpm: taste.bpm ?? null,
+        key: camelotCode(taste.musicalKey, taste.keyMode),
+        energy: taste.energy ?? null,
       } : null,
     });
 
@@ -365,3 +382,32 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Failed to get recommendations' }, { status: 500 });
   }
 }
+
+// Median tempo, most played key and mean energy of a listening history
+function buildTasteProfile(tracks: MusicalFeatures[]): MusicalFeatures {
+  const bpms = tracks.map(t => t.bpm).filter((b): b is number => !!b).sort((a, b) => a - b);
+  const energies = tracks.map(t => t.energy).filter((e): e is number => e != null);
+
+  const keyCounts = new Map<string, number>();
+  for (const t of tracks) {
+    if (t.musicalKey && t.keyMode) {
+      const key = `${t.musicalKey}:${t.keyMode}`;
+      keyCounts.set(key, (keyCounts.get(key) || 0) + 1);
+    }
+  }
+  const topKey = Array.from(keyCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  return {
+    bpm: bpms.length ? bpms[Math.floor(bpms.length / 2)] : null,
+    musicalKey: topKey?.split(':')[0] ?? null,
+    keyMode: topKey?.split(':')[1] ?? null,
+    energy: energies.length ? Math.round((energies.reduce((s, e) => s + e, 0) / energies.length) * 1000) / 1000 : null,
+  };
+}
+
+// Order candidates by musical similarity to the taste profile; unknowns keep their popularity order
+function rankByTaste<T extends MusicalFeatures>(tracks: T[], taste: MusicalFeatures) {
+  return tracks
+    .map((track, index) => ({ track, index, similarity: musicalSimilarity(taste, track) }))
+    .sort((a, b) => (b.similarity ?? 0.5) - (a.similarity ?? 0.5) || a.index - b.index);
+}
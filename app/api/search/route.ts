@@ -3,6 +3,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { hasApiKey } from '@/lib/apiKeys';
+import { requireScope } from '@/lib/authz';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -20,6 +22,12 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    // Anonymous reads stay open; API keys need the catalog scope
+    if (hasApiKey(request)) {
+      const auth = await requireScope(request, 'read:catalog');
+      if (!auth.ok) return auth.response;
+    }
+
     const results: {
       tracks: any[];
       artists: any[];
@@ -4,7 +4,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { Keypair } from '@solana/web3.js';
+import { createEmbeddedWallet } from '@/lib/solana/custody';
 
 export async function POST(req: NextRequest) {
   try {
@@ -59,9 +59,8 @@ export async function POST(req: NextRequest) {
         }, { status: 400 });
       }
 
-      // Generate embedded wallet
-      const keypair = Keypair.generate();
-      const embeddedWallet = keypair.publicKey.toBase58();
+      // Generate embedded wallet - the key is stored envelope encrypted
+      const { walletAddress: embeddedWallet, sealed } = createEmbeddedWallet();
 
       const user = await prisma.user.create({
         data: {
@@ -70,10 +69,11 @@ export async function POST(req: NextRequest) {
           username: username || `user_${embeddedWallet.slice(0, 8)}`,
           role: 'listener',
           tier: 'free',
+          embeddedWallet: { create: sealed },
+          wallets: { create: { address: sealed.publicKey, isPrimary: true, label: 'Embedded' } },
         },
       });
 
-      // Note: In production, store encrypted private key securely
       console.log(`[SIGNUP] Created embedded wallet for ${user.id}`);
 
       return NextResponse.json({
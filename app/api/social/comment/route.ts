@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getSessionUser, unauthorized } from '@/lib/session';
 
 // GET - Get comments for a track
 export async function GET(request: NextRequest) {
@@ -89,12 +90,16 @@ export async function GET(request: NextRequest) {
 // POST - Create a comment
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const userId = user.id;
     const body = await request.json();
-    const { userId, trackId, content, timestamp, parentId } = body;
+    const { trackId, content, timestamp, parentId } = body;
 
-    if (!userId || !trackId || !content) {
+    if (!trackId || !content) {
       return NextResponse.json(
-        { error: 'userId, trackId, and content required' },
+        { error: 'trackId and content required' },
         { status: 400 }
       );
     }
@@ -170,12 +175,16 @@ export async function POST(request: NextRequest) {
 // PATCH - Edit a comment
 export async function PATCH(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const userId = user.id;
     const body = await request.json();
-    const { commentId, userId, content } = body;
+    const { commentId, content } = body;
 
-    if (!commentId || !userId || !content) {
+    if (!commentId || !content) {
       return NextResponse.json(
-        { error: 'commentId, userId, and content required' },
+        { error: 'commentId and content required' },
         { status: 400 }
       );
     }
@@ -221,12 +230,16 @@ export async function PATCH(request: NextRequest) {
 // DELETE - Delete a comment
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const userId = user.id;
     const body = await request.json();
-    const { commentId, userId } = body;
+    const { commentId } = body;
 
-    if (!commentId || !userId) {
+    if (!commentId) {
       return NextResponse.json(
-        { error: 'commentId and userId required' },
+        { error: 'commentId required' },
         { status: 400 }
       );
     }
@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getSessionUser, unauthorized } from '@/lib/session';
 
 // GET - Get follow status or followers/following list
 export async function GET(request: NextRequest) {
@@ -144,12 +145,16 @@ export async function GET(request: NextRequest) {
 // POST - Follow a user
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const followerId = user.id;
     const body = await request.json();
-    const { followerId, followingId } = body;
+    const { followingId } = body;
 
-    if (!followerId || !followingId) {
+    if (!followingId) {
       return NextResponse.json(
-        { error: 'followerId and followingId required' },
+        { error: 'followingId required' },
         { status: 400 }
       );
     }
@@ -214,12 +219,16 @@ export async function POST(request: NextRequest) {
 // DELETE - Unfollow a user
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const followerId = user.id;
     const body = await request.json();
-    const { followerId, followingId } = body;
+    const { followingId } = body;
 
-    if (!followerId || !followingId) {
+    if (!followingId) {
       return NextResponse.json(
-        { error: 'followerId and followingId required' },
+        { error: 'followingId required' },
         { status: 400 }
       );
     }
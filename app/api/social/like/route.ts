@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getSessionUser, unauthorized } from '@/lib/session';
 
 // GET - Check like status or get liked tracks
 export async function GET(request: NextRequest) {
@@ -114,12 +115,16 @@ export async function GET(request: NextRequest) {
 // POST - Like a track
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const userId = user.id;
     const body = await request.json();
-    const { userId, trackId } = body;
+    const { trackId } = body;
 
-    if (!userId || !trackId) {
+    if (!trackId) {
       return NextResponse.json(
-        { error: 'userId and trackId required' },
+        { error: 'trackId required' },
         { status: 400 }
       );
     }
@@ -178,12 +183,16 @@ export async function POST(request: NextRequest) {
 // DELETE - Unlike a track
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const userId = user.id;
     const body = await request.json();
-    const { userId, trackId } = body;
+    const { trackId } = body;
 
-    if (!userId || !trackId) {
+    if (!trackId) {
       return NextResponse.json(
-        { error: 'userId and trackId required' },
+        { error: 'trackId required' },
         { status: 400 }
       );
     }
@@ -0,0 +1,102 @@
+// app/api/storage/[...key]/route.ts
+// Serves the local storage driver's signed URLs - the stand-in for R2 presigned/public URLs offline
+
+import { NextRequest, NextResponse } from 'next/server';
+import { contentTypeForKey, getLocalStorageDriver, parseRange } from '@/lib/storage';
+
+// GET - Read an object (op=get), honouring a single byte Range
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  const storage = getLocalStorageDriver();
+  if (!storage) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const key = params.key.join('/');
+  const signed = storage.verify(key, request.nextUrl.searchParams);
+  if (!signed || signed.op !== 'get') {
+    return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 });
+  }
+
+  try {
+    const size = await storage.size(key);
+    if (size === null) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const range = parseRange(request.headers.get('range'), size);
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${size}` },
+      });
+    }
+
+    const start = range?.start ?? 0;
+    const end = range?.end ?? size - 1;
+    const body = size ? await storage.getStream(key, range ?? undefined) : null;
+
+    return new NextResponse(body, {
+      status: range ? 206 : 200,
+      headers: {
+        'Content-Type': contentTypeForKey(key),
+        'Content-Length': String(size ? end - start + 1 : 0),
+        'Accept-Ranges': 'bytes',
+        ...(range && { 'Content-Range': `bytes ${start}-${end}/${size}` }),
+        // Public URLs never expire; temporary ones shouldn't outlive their signature in a cache
+        'Cache-Control': signed.exp === 0 ? 'public, max-age=3600' : 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Storage read error:', error);
+    return NextResponse.json({ error: 'Failed to read file' }, { status: 500 });
+  }
+}
+
+// PUT - Write an object (op=put) or one part of a multipart upload (op=part)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  const storage = getLocalStorageDriver();
+  if (!storage) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const key = params.key.join('/');
+  const signed = storage.verify(key, request.nextUrl.searchParams);
+  if (!signed || signed.op === 'get') {
+    return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 });
+  }
+
+  // Like R2, a presigned PUT is only good for the content type it was signed for
+  const contentType = request.headers.get('content-type') || '';
+  if (signed.ct && contentType !== signed.ct) {
+    return NextResponse.json({ error: 'Content-Type does not match the signed URL' }, { status: 403 });
+  }
+
+  try {
+    const body = Buffer.from(await request.arrayBuffer());
+
+    if (signed.op === 'part') {
+      if (!signed.uploadId || !signed.partNumber) {
+        return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 });
+      }
+
+      try {
+        const etag = await storage.putPart(signed.uploadId, signed.partNumber, body);
+        return new NextResponse(null, { status: 200, headers: { ETag: etag } });
+      } catch {
+        return NextResponse.json({ error: 'No such upload' }, { status: 404 });
+      }
+    }
+
+    await storage.put(key, body, contentType || contentTypeForKey(key));
+    return new NextResponse(null, { status: 200 });
+  } catch (error) {
+    console.error('Storage write error:', error);
+    return NextResponse.json({ error: 'Failed to write file' }, { status: 500 });
+  }
+}
@@ -1,29 +1,42 @@
 // app/api/stream/[token]/route.ts
-// Protected content streaming endpoint with DRM
+// Protected content streaming endpoint with DRM - serves the encrypted HLS master playlist,
+// or (?format=progressive / any Range request) the listener's watermarked MP3 with 206 Partial Content.
+// HLS segments are shared by every listener and carry no forensic watermark - only progressive does.
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getStreamEnforcement, recordAbuseSignal, requireStreamingAllowed } from '@/lib/drm/abuse';
 import { 
   verifySignedUrl, 
-  checkStreamRateLimit, 
+  addPlaySessionBytes,
   detectSuspiciousBehavior,
-  generateWatermark 
+  generateStreamToken,
+  getPlaySession,
+  isBlockedUserAgent,
+  savePlaySession,
+  startPlaySession,
+  PlaySession,
 } from '@/lib/drm/contentProtection';
+import { buildMasterPlaylist } from '@/lib/drm/hls';
+import { getRendition } from '@/lib/media/transcode';
+import { requestWatermarkedCopy } from '@/lib/media/watermark';
+import { getFileStream, parseRange } from '@/lib/storage';
 import { prisma } from '@/lib/prisma';
 
-// Block common ripping tools user agents
-const BLOCKED_USER_AGENTS = [
-  'youtube-dl',
-  'yt-dlp', 
-  'ffmpeg',
-  'wget',
-  'curl',
-  'aria2',
-  'streamripper',
-  'audacity',
-  'freemake',
-  'any-video-converter',
-  'clipgrab',
-];
+// Progressive streams use the MP3 ladder, matching the token's quality
+const PROGRESSIVE_BITRATES = { low: 128, medium: 256, high: 320 } as const;
+
+// Seeking re-fetches ranges, but a session pulling the file this many times over is scraping
+const MAX_SESSION_TRANSFER = 4;
+
+const NO_STORE_HEADERS = {
+  // Prevent caching
+  'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+  'Pragma': 'no-cache',
+  'Expires': '0',
+  
+  // Prevent embedding
+  'X-Frame-Options': 'DENY',
+};
 
 export async function GET(
   request: NextRequest,
@@ -32,92 +45,155 @@ export async function GET(
   const token = params.token;
   
   // 1. Check user agent for known ripping tools
-  const userAgent = request.headers.get('user-agent')?.toLowerCase() || '';
-  for (const blocked of BLOCKED_USER_AGENTS) {
-    if (userAgent.includes(blocked)) {
-      return new NextResponse('Access denied', { status: 403 });
-    }
+  if (isBlockedUserAgent(request.headers.get('user-agent'))) {
+    return new NextResponse('Access denied', { status: 403 });
   }
   
-  // 2. Verify the signed URL
-  const verification = verifySignedUrl(token);
-  if (!verification.valid || !verification.params) {
-    return NextResponse.json(
-      { error: verification.error || 'Invalid access token' },
-      { status: 401 }
-    );
-  }
+  // 2. Follow-up requests (byte ranges, playlist reloads) join the session the token opened
+  let session = await getPlaySession(token);
   
-  const { contentId, userId, contentType, quality } = verification.params;
-  
-  // 3. Rate limiting
-  const rateLimit = checkStreamRateLimit(userId);
-  if (!rateLimit.allowed) {
-    return NextResponse.json(
-      { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
-      { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } }
-    );
+  if (!session) {
+    // 3. Verify the signed URL
+    const verification = verifySignedUrl(token);
+    if (!verification.valid || !verification.params) {
+      return NextResponse.json(
+        { error: verification.error || 'Invalid access token' },
+        { status: 401 }
+      );
+    }
+    
+    // 4. Suspension and rate limiting - once per play session, not per range request
+    const streaming = await requireStreamingAllowed(verification.params.userId);
+    if (!streaming.ok) return streaming.response;
+    
+    session = await startPlaySession(token, {
+      ...verification.params,
+      quality: verification.params.quality || 'high',
+    });
+  } else if ((await getStreamEnforcement(session.userId)).suspendedUntil) {
+    // A suspension also ends sessions already in progress
+    return NextResponse.json({ error: 'Streaming suspended' }, { status: 403 });
   }
   
-  // 4. Get content from database
+  const { contentId, userId, contentType } = session;
+  
+  // 5. Get content from database - access was checked when the URL was signed
   const track = await prisma.track.findUnique({
     where: { id: contentId },
     select: {
       id: true,
-      audioUrl: true,
-      duration: true,
-      gateType: true,
-      gateTokenMint: true,
-      gateTokenAmount: true,
       status: true,
+      renditions: {
+        select: { quality: true, bitrate: true, codec: true },
+      },
     }
   });
   
-  if (!track || track.status !== 'published') {
+  if (!track || track.status === 'archived') {
     return NextResponse.json({ error: 'Content not found' }, { status: 404 });
   }
   
-  // 5. Generate watermark for this user/track combination
-  const watermark = generateWatermark(userId, contentId);
+  const { searchParams } = new URL(request.url);
+  const rangeHeader = request.headers.get('range');
+  if (searchParams.get('format') === 'progressive' || rangeHeader) {
+    return serveProgressive(session, rangeHeader);
+  }
   
-  // 6. Return encrypted HLS manifest or direct stream based on type
-  // In production, this would generate an encrypted HLS stream
-  // For now, we return headers that prevent easy downloading
+  // The original upload is never served - only encrypted renditions
+  if (!track.renditions.length) {
+    return NextResponse.json({ error: 'Stream not ready' }, { status: 409 });
+  }
   
-  const headers = new Headers({
-    // Prevent caching
-    'Cache-Control': 'no-store, no-cache, must-revalidate, private',
-    'Pragma': 'no-cache',
-    'Expires': '0',
-    
-    // Prevent embedding
-    'X-Frame-Options': 'DENY',
-    'Content-Security-Policy': "default-src 'self'",
-    
-    // Watermark header (for logging/tracking)
-    'X-Content-Watermark': watermark,
-    
-    // Prevent range requests (makes downloading harder)
-    // In production, you'd want to carefully manage this
-    'Accept-Ranges': 'none',
+  // 6. Master playlist - each variant gets its own short-lived signed manifest URL
+  const playlist = buildMasterPlaylist(track.renditions, (quality) => {
+    const variantToken = generateStreamToken({
+      contentId,
+      userId,
+      contentType,
+      quality: quality as 'low' | 'medium' | 'high',
+    });
+    return `/api/stream/manifest/${variantToken}`;
+  });
+  
+  return new NextResponse(playlist, {
+    headers: {
+      'Content-Type': 'application/vnd.apple.mpegurl',
+      ...NO_STORE_HEADERS,
+    },
   });
+}
+
+// Bytes of the listener's watermarked MP3 - the whole file, or one range as 206 Partial Content.
+// Until the copy is rendered (queued on the first play) the plain rendition is served instead.
+async function serveProgressive(session: PlaySession, rangeHeader: string | null): Promise<NextResponse> {
+  // Looked up once per session, so every range of one session reads the same file
+  if (!session.file) {
+    const rendition = await getRendition(session.contentId, 'mp3', PROGRESSIVE_BITRATES[session.quality]);
+    if (!rendition) {
+      return NextResponse.json({ error: 'Stream not ready' }, { status: 409 });
+    }
+    
+    try {
+      const result = await requestWatermarkedCopy({
+        userId: session.userId,
+        trackId: session.contentId,
+        purpose: 'stream',
+        format: 'mp3',
+        bitrate: rendition.bitrate,
+      });
+      if (result.status === 'ready') {
+        session.file = { storageKey: result.copy.storageKey, size: result.copy.size };
+        session.watermark = result.copy.code;
+      } else {
+        session.file = { storageKey: rendition.storageKey, size: rendition.size };
+      }
+      await savePlaySession(session);
+    } catch (error) {
+      console.error('Watermarked stream error:', error);
+      return NextResponse.json({ error: 'Stream not available' }, { status: 503 });
+    }
+  }
   
-  // In a real implementation, you would:
-  // 1. Fetch the audio from IPFS/S3
-  // 2. Encrypt it with HLS AES-128
-  // 3. Embed watermark in audio
-  // 4. Stream it chunk by chunk
-  
-  // For demo, redirect to the actual audio URL with short TTL
-  // The frontend player should request new URLs frequently
-  
-  return NextResponse.json({
-    streamUrl: track.audioUrl,
-    watermark,
-    expiresIn: 30,
-    // HLS manifest would go here in production
-    manifest: null,
-  }, { headers });
+  const size = session.file.size;
+  
+  const range = parseRange(rangeHeader, size);
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${size}`, ...NO_STORE_HEADERS },
+    });
+  }
+  
+  const start = range?.start ?? 0;
+  const end = range?.end ?? size - 1;
+  
+  // Counted before sending, so parallel ranges on other instances see it too
+  const servedBefore = await addPlaySessionBytes(session, end - start + 1);
+  if (servedBefore >= size * MAX_SESSION_TRANSFER) {
+    await recordAbuseSignal({
+      userId: session.userId,
+      type: 'transfer_limit',
+      contentId: session.contentId,
+      details: `Session pulled ${servedBefore} bytes of a ${size}-byte file`,
+    });
+    return NextResponse.json({ error: 'Stream session limit reached' }, { status: 429 });
+  }
+  
+  const body = await getFileStream(session.file.storageKey, range ?? undefined);
+  
+  return new NextResponse(body, {
+    status: range ? 206 : 200,
+    headers: {
+      'Content-Type': 'audio/mpeg',
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes',
+      ...(range && { 'Content-Range': `bytes ${start}-${end}/${size}` }),
+      ...NO_STORE_HEADERS,
+      ...(session.watermark
+        ? { 'X-Content-Watermark': session.watermark }
+        : { 'X-Content-Watermark-Status': 'pending' }),
+    },
+  });
 }
 
 // POST for reporting playback duration (anti-rip detection)
@@ -127,23 +203,23 @@ export async function POST(
 ) {
   try {
     const { duration } = await request.json();
-    const verification = verifySignedUrl(params.token);
     
-    if (!verification.valid || !verification.params) {
+    // Reports arrive long after the token expired - accept them while its play session lives
+    const session = await getPlaySession(params.token);
+    const verification = session ? null : verifySignedUrl(params.token);
+    
+    if (!session && (!verification?.valid || !verification.params)) {
       return NextResponse.json({ error: 'Invalid token' }, { status: 401 });
     }
     
-    const { contentId, userId } = verification.params;
+    const { contentId, userId } = session ?? verification!.params!;
     
     // Check for suspicious behavior
-    const behavior = detectSuspiciousBehavior(userId, contentId, duration);
+    const behavior = await detectSuspiciousBehavior(userId, contentId, duration);
     
-    if (behavior.suspicious) {
-      // Log suspicious activity
-      console.warn(`[DRM] Suspicious activity from user ${userId}: ${behavior.reason}`);
-      
-      // Could trigger additional verification, rate limiting, or account review
-      // For now, just log it
+    if (behavior.suspicious && behavior.type) {
+      // Persisted, and escalated per the policy (throttle, re-auth, suspension, review)
+      await recordAbuseSignal({ userId, type: behavior.type, contentId, details: behavior.reason });
     }
     
     return NextResponse.json({ success: true });
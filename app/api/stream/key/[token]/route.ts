@@ -0,0 +1,58 @@
+// app/api/stream/key/[token]/route.ts
+// HLS key delivery - releases a track's AES-128 key only to the session it was issued to
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionId, getSessionUser } from '@/lib/session';
+import { checkStreamAccess } from '@/lib/drm/access';
+import { isBlockedUserAgent, verifyKeyToken } from '@/lib/drm/contentProtection';
+import { getContentKey } from '@/lib/drm/hls';
+
+// GET - Raw 16-byte key for EXT-X-KEY
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    if (isBlockedUserAgent(request.headers.get('user-agent'))) {
+      return new NextResponse('Access denied', { status: 403 });
+    }
+
+    const verification = verifyKeyToken(params.token);
+    if (!verification.valid || !verification.params) {
+      return NextResponse.json(
+        { error: verification.error || 'Invalid key token' },
+        { status: 401 }
+      );
+    }
+
+    const { contentId, userId, sessionId } = verification.params;
+
+    const [user, currentSessionId] = await Promise.all([getSessionUser(request), getSessionId(request)]);
+    if (!user || user.id !== userId || currentSessionId !== sessionId) {
+      return NextResponse.json({ error: 'Key was issued to a different session' }, { status: 403 });
+    }
+
+    // Re-check entitlement - access may have been lost since the playlist was issued
+    const access = await checkStreamAccess(user, contentId);
+    if (!access.allowed) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const key = await getContentKey(contentId);
+    if (!key) {
+      return NextResponse.json({ error: 'Stream not ready' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(key), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(key.length),
+        'Cache-Control': 'no-store, private',
+        'Pragma': 'no-cache',
+      },
+    });
+  } catch (error) {
+    console.error('Stream key error:', error);
+    return NextResponse.json({ error: 'Failed to get key' }, { status: 500 });
+  }
+}
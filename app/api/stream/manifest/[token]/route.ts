@@ -0,0 +1,83 @@
+// app/api/stream/manifest/[token]/route.ts
+// Encrypted HLS media playlist for one rendition - signed segment URLs and a session-bound key URI
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionId, getSessionUser } from '@/lib/session';
+import { getDownloadPresignedUrl } from '@/lib/storage';
+import { requireStreamingAllowed } from '@/lib/drm/abuse';
+import {
+  generateKeyToken,
+  isBlockedUserAgent,
+  verifySignedUrl,
+} from '@/lib/drm/contentProtection';
+import { buildMediaPlaylist, parseSegments } from '@/lib/drm/hls';
+
+// Segment URLs and the key token outlive the track by this much (pauses, seeking back)
+const PLAYBACK_GRACE_SECONDS = 10 * 60;
+
+// GET - Media playlist for the rendition named in the signed token
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    if (isBlockedUserAgent(request.headers.get('user-agent'))) {
+      return new NextResponse('Access denied', { status: 403 });
+    }
+
+    const verification = verifySignedUrl(params.token);
+    if (!verification.valid || !verification.params) {
+      return NextResponse.json(
+        { error: verification.error || 'Invalid access token' },
+        { status: 401 }
+      );
+    }
+
+    const { contentId, userId, quality = 'high' } = verification.params;
+
+    // The key is tied to the session, so the playlist must be fetched by the same signed-in user
+    const [user, sessionId] = await Promise.all([getSessionUser(request), getSessionId(request)]);
+    if (!user || !sessionId || user.id !== userId) {
+      return NextResponse.json({ error: 'Session does not match stream token' }, { status: 401 });
+    }
+
+    const streaming = await requireStreamingAllowed(userId);
+    if (!streaming.ok) return streaming.response;
+
+    const rendition = await prisma.streamRendition.findUnique({
+      where: { trackId_quality: { trackId: contentId, quality } },
+    });
+
+    if (!rendition) {
+      return NextResponse.json({ error: 'Rendition not found' }, { status: 404 });
+    }
+
+    const segments = parseSegments(rendition.segments);
+    const totalDuration = segments.reduce((sum, s) => sum + s.duration, 0);
+    const expiresIn = Math.ceil(totalDuration) + PLAYBACK_GRACE_SECONDS;
+
+    const keyToken = generateKeyToken({ contentId, userId, sessionId, expiresIn });
+
+    const playlist = buildMediaPlaylist({
+      targetDuration: rendition.targetDuration,
+      keyUri: `/api/stream/key/${keyToken}`,
+      segments: await Promise.all(segments.map(async (segment) => ({
+        url: await getDownloadPresignedUrl(segment.key, expiresIn),
+        duration: segment.duration,
+      }))),
+    });
+
+    return new NextResponse(playlist, {
+      headers: {
+        'Content-Type': 'application/vnd.apple.mpegurl',
+        'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+        'Pragma': 'no-cache',
+        'X-Frame-Options': 'DENY',
+      },
+    });
+  } catch (error) {
+    console.error('Stream manifest error:', error);
+    return NextResponse.json({ error: 'Failed to build manifest' }, { status: 500 });
+  }
+}
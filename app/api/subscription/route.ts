@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getSessionUser, unauthorized } from '@/lib/session';
 
 // Subscription tier definitions
 const SUBSCRIPTION_TIERS = {
@@ -94,7 +95,6 @@ const SUBSCRIPTION_TIERS = {
 // GET /api/subscription - Get subscription status or list tiers
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const userId = searchParams.get('userId');
   const action = searchParams.get('action') || 'status';
 
   // List all tiers
@@ -104,12 +104,12 @@ export async function GET(request: NextRequest) {
     });
   }
 
-  // Get user's subscription status
-  if (!userId) {
-    return NextResponse.json({ error: 'userId required' }, { status: 400 });
-  }
-
+  // Get the caller's subscription status
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const userId = user.id;
     const subscription = await prisma.subscription.findFirst({
       where: {
         userId,
@@ -152,11 +152,15 @@ export async function GET(request: NextRequest) {
 // POST /api/subscription - Subscribe to a tier
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const userId = user.id;
     const body = await request.json();
-    const { userId, tier, currency = 'SOL', txSignature } = body;
+    const { tier, currency = 'SOL', txSignature } = body;
 
-    if (!userId || !tier) {
-      return NextResponse.json({ error: 'userId and tier required' }, { status: 400 });
+    if (!tier) {
+      return NextResponse.json({ error: 'tier required' }, { status: 400 });
     }
 
     const tierConfig = SUBSCRIPTION_TIERS[tier as keyof typeof SUBSCRIPTION_TIERS];
@@ -228,11 +232,15 @@ export async function POST(request: NextRequest) {
 // PATCH /api/subscription - Upgrade/downgrade or cancel
 export async function PATCH(request: NextRequest) {
   try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const userId = user.id;
     const body = await request.json();
-    const { userId, action, newTier, txSignature } = body;
+    const { action, newTier, txSignature } = body;
 
-    if (!userId || !action) {
-      return NextResponse.json({ error: 'userId and action required' }, { status: 400 });
+    if (!action) {
+      return NextResponse.json({ error: 'action required' }, { status: 400 });
     }
 
     const subscription = await prisma.subscription.findFirst({
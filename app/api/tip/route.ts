@@ -3,6 +3,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getSessionUser, unauthorized } from '@/lib/session';
+import { createSOLPaymentTransaction, createUSDCPaymentTransaction } from '@/lib/solana/payments';
+import { getEmbeddedSignerAddress, signAndSendWithEmbeddedWallet } from '@/lib/solana/custody';
 
 // GET /api/tip - Get tip history
 export async function GET(request: NextRequest) {
@@ -13,8 +16,11 @@ export async function GET(request: NextRequest) {
   const limit = parseInt(searchParams.get('limit') || '20');
 
   try {
-    // Get tips sent by a user
+    // Get tips sent by a user (only the sender can see their own history)
     if (userId && type === 'sent') {
+      const viewer = await getSessionUser(request);
+      if (viewer?.id !== userId) return unauthorized();
+
       const tips = await prisma.tip.findMany({
         where: { senderId: userId },
         include: {
@@ -121,21 +127,23 @@ export async function GET(request: NextRequest) {
 // POST /api/tip - Send a tip
 export async function POST(request: NextRequest) {
   try {
+    const sender = await getSessionUser(request);
+    if (!sender) return unauthorized();
+
+    const senderId = sender.id;
     const body = await request.json();
     const { 
-      senderId, 
       artistId, 
       amount, 
       currency = 'SOL', 
       message, 
       trackId,
-      txSignature,
       isAnonymous = false,
     } = body;
 
-    if (!senderId || !artistId || !amount) {
+    if (!artistId || !amount) {
       return NextResponse.json({ 
-        error: 'senderId, artistId, and amount required' 
+        error: 'artistId and amount required' 
       }, { status: 400 });
     }
 
@@ -146,7 +154,13 @@ export async function POST(request: NextRequest) {
     // Validate artist exists
     const artist = await prisma.artist.findUnique({
       where: { id: artistId },
-      select: { id: true, name: true, userId: true, totalRevenue: true },
+      select: {
+        id: true,
+        name: true,
+        userId: true,
+        totalRevenue: true,
+        user: { select: { walletAddress: true } },
+      },
     });
 
     if (!artist) {
@@ -154,15 +168,30 @@ export async function POST(request: NextRequest) {
     }
 
     // Can't tip yourself
-    const sender = await prisma.user.findUnique({
-      where: { id: senderId },
-      include: { artist: true },
-    });
-
-    if (sender?.artist?.id === artistId) {
+    if (sender.artist?.id === artistId) {
       return NextResponse.json({ error: 'Cannot tip yourself' }, { status: 400 });
     }
 
+    // Email signups don't hold their keys - pay from the custodied wallet (which may no
+    // longer be the primary wallet once an external one is linked)
+    let txSignature: string | undefined = body.txSignature;
+    const embeddedAddress = txSignature ? null : await getEmbeddedSignerAddress(senderId);
+    if (embeddedAddress) {
+      if (currency !== 'SOL' && currency !== 'USDC') {
+        return NextResponse.json({ error: 'Unsupported currency' }, { status: 400 });
+      }
+
+      try {
+        const { transaction } = currency === 'SOL'
+          ? await createSOLPaymentTransaction(embeddedAddress, artist.user.walletAddress, amount)
+          : await createUSDCPaymentTransaction(embeddedAddress, artist.user.walletAddress, amount);
+        txSignature = await signAndSendWithEmbeddedWallet(senderId, transaction);
+      } catch (err) {
+        console.error('Embedded wallet tip error:', err);
+        return NextResponse.json({ error: 'Payment failed - check your wallet balance' }, { status: 400 });
+      }
+    }
+
     // Platform fee (2.5%)
     const platformFee = amount * 0.025;
     const artistAmount = amount - platformFee;
@@ -199,7 +228,7 @@ export async function POST(request: NextRequest) {
         title: 'You received a tip! 💰',
         message: isAnonymous 
           ? `Someone tipped you ${amount} ${currency}${message ? `: "${message}"` : ''}`
-          : `${sender?.username || 'A fan'} tipped you ${amount} ${currency}${message ? `: "${message}"` : ''}`,
+          : `${sender.username || 'A fan'} tipped you ${amount} ${currency}${message ? `: "${message}"` : ''}`,
         data: JSON.stringify({
           tipId: tip.id,
           amount,
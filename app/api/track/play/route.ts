@@ -3,7 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { PublicKey } from '@solana/web3.js';
+import { getRequestIP, getSessionUser } from '@/lib/session';
 
 // Rate limit map (in production, use Redis)
 const playRateLimit = new Map<string, { count: number; resetAt: number }>();
@@ -12,7 +12,7 @@ const playRateLimit = new Map<string, { count: number; resetAt: number }>();
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { walletAddress, trackId, duration } = body;
+    const { trackId, duration } = body;
 
     if (!trackId || duration === undefined) {
       return NextResponse.json({ error: 'trackId and duration required' }, { status: 400 });
@@ -24,8 +24,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Minimum play duration is 30 seconds' }, { status: 400 });
     }
 
-    // Rate limiting: max 100 plays per hour per IP/wallet
-    const clientId = walletAddress || request.headers.get('x-forwarded-for') || 'anonymous';
+    // Plays are attributed to the signed-in listener, anonymous otherwise
+    const user = await getSessionUser(request);
+    const userId = user?.id ?? null;
+
+    // Rate limiting: max 100 plays per hour per user/IP
+    const clientId = userId || getRequestIP(request) || 'anonymous';
     const now = Date.now();
     const rateLimit = playRateLimit.get(clientId);
     
@@ -51,21 +55,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Track not found' }, { status: 404 });
     }
 
-    // Get user if wallet provided
-    let userId: string | null = null;
-    if (walletAddress) {
-      try {
-        new PublicKey(walletAddress);
-        const user = await prisma.user.findUnique({
-          where: { walletAddress },
-          select: { id: true }
-        });
-        userId = user?.id || null;
-      } catch {
-        // Invalid wallet, continue without user
-      }
-    }
-
     // Create play record
     const play = await prisma.play.create({
       data: {
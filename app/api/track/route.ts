@@ -75,7 +75,6 @@ export async function POST(request: NextRequest) {
       bpm,
       audioUrl,
       coverUrl,
-      waveformData,
       region,
       coordinates,
       duration,
@@ -139,7 +138,6 @@ export async function POST(request: NextRequest) {
         bpm,
         audioUrl,
         coverUrl,
-        waveformData,
         region,
         coordinates,
         duration,
@@ -200,7 +198,7 @@ export async function PATCH(request: NextRequest) {
 
     // Filter allowed updates
     const allowedFields = [
-      'title', 'ticker', 'description', 'genre', 'bpm', 'coverUrl', 'waveformData',
+      'title', 'ticker', 'description', 'genre', 'bpm', 'coverUrl',
       'region', 'coordinates', 'gateType', 'gateTokenMint', 'gateTokenAmount',
       'gateNftCollection', 'priceSOL', 'priceToken', 'status'
     ];
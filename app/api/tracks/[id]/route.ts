@@ -3,6 +3,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { hasApiKey } from '@/lib/apiKeys';
+import { requireScope } from '@/lib/authz';
+import { MODERATED_TRACK_STATUSES } from '@/lib/media/fingerprint';
 
 // GET: Get single track details
 export async function GET(
@@ -10,6 +13,12 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
+    // Anonymous reads stay open; API keys need the catalog scope
+    if (hasApiKey(req)) {
+      const auth = await requireScope(req, 'read:catalog');
+      if (!auth.ok) return auth.response;
+    }
+
     const track = await prisma.track.findUnique({
       where: { id: params.id },
       include: {
@@ -26,6 +35,13 @@ export async function GET(
             },
           },
         },
+        // Album loudness for the player's album-mode normalization, and the release cover as a fallback
+        release: {
+          select: {
+            id: true, title: true, loudness: true, truePeak: true,
+            coverUrl: true, coverVariants: true, coverPalette: true,
+          },
+        },
       },
     });
     
@@ -96,6 +112,17 @@ export async function PATCH(
       }
     }
     
+    // Held/blocked tracks only leave moderation through a content match decision
+    if (
+      safeUpdates.status !== undefined &&
+      (MODERATED_TRACK_STATUSES.includes(track.status) || MODERATED_TRACK_STATUSES.includes(safeUpdates.status))
+    ) {
+      return NextResponse.json(
+        { error: 'Track status is under content match review', reason: track.processingError },
+        { status: 409 }
+      );
+    }
+    
     // Handle publishing
     if (safeUpdates.status === 'published' && track.status !== 'published') {
       safeUpdates.publishedAt = new Date();
@@ -139,6 +166,11 @@ export async function DELETE(
     
     const track = await prisma.track.findUnique({
       where: { id: params.id },
+      include: {
+        renditions: { select: { segments: true } },
+        audioRenditions: { select: { storageKey: true } },
+        forensicWatermarks: { select: { storageKey: true } },
+      },
     });
     
     if (!track) {
@@ -153,11 +185,31 @@ export async function DELETE(
     if (track.audioKey) {
       try {
         const { deleteFile, isStorageConfigured } = await import('@/lib/storage');
+        const { parseSegments } = await import('@/lib/drm/hls');
+        const { coverVariantKeys } = await import('@/lib/media/artwork');
         if (isStorageConfigured()) {
           await deleteFile(track.audioKey);
           if (track.coverKey) {
             await deleteFile(track.coverKey);
           }
+          // Transcodes, listeners' watermarked copies, preview, waveform image, cover variants and
+          // lossless master (a FLAC upload is the master itself)
+          for (const key of [
+            track.previewKey,
+            track.waveformKey,
+            track.losslessKey !== track.audioKey ? track.losslessKey : null,
+            ...track.audioRenditions.map(r => r.storageKey),
+            ...track.forensicWatermarks.map(w => w.storageKey),
+            ...coverVariantKeys(track.coverVariants),
+          ]) {
+            if (key) await deleteFile(key);
+          }
+          // Encrypted HLS segments
+          for (const rendition of track.renditions) {
+            for (const segment of parseSegments(rendition.segments)) {
+              await deleteFile(segment.key);
+            }
+          }
         }
       } catch (e) {
         console.error('Failed to delete files:', e);
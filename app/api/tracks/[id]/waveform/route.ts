@@ -0,0 +1,70 @@
+// app/api/tracks/[id]/waveform/route.ts
+// Server-generated waveform peaks for the player and timestamped comments
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { hasApiKey } from '@/lib/apiKeys';
+import { requireScope } from '@/lib/authz';
+import {
+  DEFAULT_WAVEFORM_RESOLUTION,
+  WAVEFORM_RESOLUTIONS,
+  parseWaveformData,
+  pickResolution,
+} from '@/lib/media/waveform';
+
+// GET - Peaks at ?resolution= (200 | 800 | 1600, default 800) plus the rendered image
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Anonymous reads stay open; API keys need the catalog scope
+    if (hasApiKey(req)) {
+      const auth = await requireScope(req, 'read:catalog');
+      if (!auth.ok) return auth.response;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const requested = parseInt(searchParams.get('resolution') || String(DEFAULT_WAVEFORM_RESOLUTION));
+
+    if (!WAVEFORM_RESOLUTIONS.includes(requested)) {
+      return NextResponse.json(
+        { error: `resolution must be one of: ${WAVEFORM_RESOLUTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const track = await prisma.track.findUnique({
+      where: { id: params.id },
+      select: { id: true, status: true, duration: true, waveformData: true, waveformUrl: true },
+    });
+
+    if (!track) {
+      return NextResponse.json({ error: 'Track not found' }, { status: 404 });
+    }
+
+    const peaks = parseWaveformData(track.waveformData);
+    const resolution = pickResolution(peaks, requested);
+
+    if (!resolution) {
+      return NextResponse.json(
+        { error: 'Waveform not generated yet', status: track.status },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      trackId: track.id,
+      duration: track.duration,
+      resolution,
+      resolutions: Object.keys(peaks).map(Number),
+      peaks: peaks[resolution],
+      imageUrl: track.waveformUrl,
+    }, {
+      headers: { 'Cache-Control': 'public, max-age=300, stale-while-revalidate=3600' },
+    });
+  } catch (error) {
+    console.error('Waveform fetch error:', error);
+    return NextResponse.json({ error: 'Failed to fetch waveform' }, { status: 500 });
+  }
+}
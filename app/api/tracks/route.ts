@@ -3,10 +3,18 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { hasApiKey } from '@/lib/apiKeys';
+import { requireScope } from '@/lib/authz';
 
 // GET: List published tracks
 export async function GET(req: NextRequest) {
   try {
+    // Anonymous reads stay open; API keys need the catalog scope
+    if (hasApiKey(req)) {
+      const auth = await requireScope(req, 'read:catalog');
+      if (!auth.ok) return auth.response;
+    }
+
     const { searchParams } = new URL(req.url);
     
     const page = parseInt(searchParams.get('page') || '1');
@@ -1,9 +1,20 @@
 // app/api/upload/batch/route.ts
 // Batch upload for albums and EPs
+//
+// Each track gets a resumable upload session (see lib/uploads.ts). The client sends the audio
+// through /api/upload/sessions/{id}/parts and /complete, which queues the track for transcoding;
+// the media-jobs cron marks the release ready once all of its tracks are.
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { uploadToR2, generateSignedUrl } from '@/lib/storage';
+import { requireArtistAccess } from '@/lib/authz';
+import { getPublicUrl, isStorageConfigured } from '@/lib/storage';
+import { isArtistCoverKey } from '@/lib/media/artwork';
+import {
+  ALLOWED_AUDIO_TYPES,
+  MAX_MASTER_SIZE,
+  initiateUploadSession,
+} from '@/lib/uploads';
 
 interface TrackUpload {
   title: string;
@@ -11,19 +22,20 @@ interface TrackUpload {
   duration?: number;
   genre?: string;
   bpm?: number;
-  file?: {
+  file: {
     name: string;
     size: number;
     type: string;
+    fileKey?: string; // Identifies the file when it's re-selected to resume
   };
 }
 
 interface BatchUploadRequest {
-  artistId: string;
+  artistId?: string; // Defaults to the caller's own artist profile
   albumTitle: string;
   albumType: 'album' | 'ep' | 'single' | 'compilation';
   releaseDate?: string;
-  coverUrl?: string;
+  coverKey?: string; // From GET /api/upload?type=cover
   genre?: string;
   description?: string;
   tracks: TrackUpload[];
@@ -34,16 +46,15 @@ interface BatchUploadRequest {
   priceSOL?: number;
 }
 
-// POST - Initialize batch upload
+// POST - Create the release and start an upload session for each track
 export async function POST(request: NextRequest) {
   try {
     const body: BatchUploadRequest = await request.json();
     const {
-      artistId,
       albumTitle,
       albumType,
       releaseDate,
-      coverUrl,
+      coverKey,
       genre,
       description,
       tracks,
@@ -53,22 +64,47 @@ export async function POST(request: NextRequest) {
       priceSOL,
     } = body;
 
-    if (!artistId || !albumTitle || !tracks?.length) {
+    const auth = await requireArtistAccess(request, body.artistId, 'catalog');
+    if (!auth.ok) return auth.response;
+    const { artistId } = auth;
+
+    if (!isStorageConfigured()) {
+      return NextResponse.json({ error: 'Storage not configured' }, { status: 503 });
+    }
+
+    if (!albumTitle || !tracks?.length) {
       return NextResponse.json({
-        error: 'Artist ID, album title, and tracks required',
+        error: 'Album title and tracks required',
       }, { status: 400 });
     }
 
-    // Verify artist
-    const artist = await prisma.artist.findUnique({
-      where: { id: artistId },
-    });
+    for (const track of tracks) {
+      if (!track.title || !track.file?.name || !track.file.type) {
+        return NextResponse.json({ error: 'Each track needs a title and file' }, { status: 400 });
+      }
+
+      if (!ALLOWED_AUDIO_TYPES.includes(track.file.type)) {
+        return NextResponse.json(
+          { error: `Invalid audio format for "${track.title}". Allowed: MP3, WAV, FLAC, AAC` },
+          { status: 400 }
+        );
+      }
+
+      if (typeof track.file.size !== 'number' || track.file.size <= 0 || track.file.size > MAX_MASTER_SIZE) {
+        return NextResponse.json(
+          { error: `Audio file for "${track.title}" too large. Maximum: ${MAX_MASTER_SIZE / (1024 * 1024)}MB` },
+          { status: 400 }
+        );
+      }
+    }
 
-    if (!artist) {
-      return NextResponse.json({ error: 'Artist not found' }, { status: 404 });
+    if (coverKey && !isArtistCoverKey(artistId, coverKey)) {
+      return NextResponse.json({ error: 'Invalid cover key' }, { status: 400 });
     }
 
-    // Create album/release record
+    const coverUrl = coverKey ? getPublicUrl(coverKey) : null;
+
+    // Create album/release record - 'processing' until the cron has transcoded every track
     const release = await prisma.release.create({
       data: {
         artistId,
@@ -76,67 +112,60 @@ export async function POST(request: NextRequest) {
         type: albumType,
         description,
         coverUrl,
+        coverKey,
         genre,
         releaseDate: releaseDate ? new Date(releaseDate) : null,
         trackCount: tracks.length,
-        status: 'draft',
+        status: 'processing',
       },
     });
 
-    // Generate upload URLs for each track
-    const uploadUrls = await Promise.all(
-      tracks.map(async (track, index) => {
-        const trackNumber = track.trackNumber || index + 1;
-        const key = `artists/${artistId}/releases/${release.id}/track-${trackNumber}`;
-        
-        // Create track record
-        const dbTrack = await prisma.track.create({
-          data: {
-            artistId,
-            title: track.title,
-            ticker: `$${albumTitle.substring(0, 4).toUpperCase()}-${trackNumber}`,
-            genre: track.genre || genre,
-            bpm: track.bpm,
-            duration: track.duration,
-            releaseId: release.id,
-            trackNumber,
-            status: 'processing',
-            gateType: gateType || 'none',
-            gateTokenMint,
-            gateTokenAmount,
-            priceSOL,
-          },
-        });
+    // One at a time - each session creates a track and a multipart upload
+    const uploads = [];
+    for (let index = 0; index < tracks.length; index++) {
+      const track = tracks[index];
+      const trackNumber = track.trackNumber || index + 1;
 
-        // Generate signed upload URL
-        const uploadUrl = await generateSignedUrl(key, 'PUT', 3600);
-
-        return {
-          trackId: dbTrack.id,
-          trackNumber,
+      const session = await initiateUploadSession({
+        userId: auth.user.id,
+        artistId,
+        filename: track.file.name,
+        contentType: track.file.type,
+        size: track.file.size,
+        fileKey: track.file.fileKey || `${track.file.name}:${track.file.size}`,
+        track: {
           title: track.title,
-          uploadUrl,
-          key,
-        };
-      })
-    );
-
-    // Update artist track count
-    await prisma.artist.update({
-      where: { id: artistId },
-      data: {
-        totalTracks: { increment: tracks.length },
-      },
-    });
+          ticker: `$${albumTitle.substring(0, 4).toUpperCase()}-${trackNumber}`,
+          genre: track.genre || genre || null,
+          bpm: track.bpm ?? null,
+          duration: track.duration ?? null,
+          releaseId: release.id,
+          trackNumber,
+          gateType: gateType || 'none',
+          gateTokenMint: gateTokenMint || null,
+          gateTokenAmount: gateTokenAmount ?? null,
+          priceSOL: priceSOL ?? null,
+          coverKey: coverKey || null,
+          coverUrl,
+        },
+      });
+
+      uploads.push({
+        trackId: session.trackId,
+        trackNumber,
+        title: track.title,
+        session,
+      });
+    }
 
     return NextResponse.json({
       success: true,
       releaseId: release.id,
       albumTitle,
       trackCount: tracks.length,
-      uploads: uploadUrls,
+      uploads,
       message: `Upload ${tracks.length} tracks to complete the release`,
-    });
+    }, { status: 201 });
 
   } catch (error) {
     console.error('Batch upload error:', error);
@@ -144,90 +173,23 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// PATCH - Confirm batch upload completion
-export async function PATCH(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { releaseId, artistId, completedTracks } = body;
-
-    if (!releaseId || !artistId) {
-      return NextResponse.json({
-        error: 'Release ID and artist ID required',
-      }, { status: 400 });
-    }
-
-    // Verify ownership
-    const release = await prisma.release.findFirst({
-      where: { id: releaseId, artistId },
-      include: { tracks: true },
-    });
-
-    if (!release) {
-      return NextResponse.json({ error: 'Release not found' }, { status: 404 });
-    }
-
-    // Update completed tracks
-    if (completedTracks?.length) {
-      await Promise.all(
-        completedTracks.map(async (track: { trackId: string; audioKey: string; audioUrl: string }) => {
-          await prisma.track.update({
-            where: { id: track.trackId },
-            data: {
-              audioKey: track.audioKey,
-              audioUrl: track.audioUrl,
-              status: 'ready',
-            },
-          });
-        })
-      );
-    }
-
-    // Check if all tracks are ready
-    const readyTracks = await prisma.track.count({
-      where: { releaseId, status: 'ready' },
-    });
-
-    const allReady = readyTracks === release.trackCount;
-
-    // Update release status
-    await prisma.release.update({
-      where: { id: releaseId },
-      data: {
-        status: allReady ? 'ready' : 'processing',
-        uploadedAt: allReady ? new Date() : null,
-      },
-    });
-
-    return NextResponse.json({
-      success: true,
-      releaseId,
-      readyTracks,
-      totalTracks: release.trackCount,
-      allReady,
-      status: allReady ? 'ready' : 'processing',
-    });
-
-  } catch (error) {
-    console.error('Batch confirm error:', error);
-    return NextResponse.json({ error: 'Failed to confirm upload' }, { status: 500 });
-  }
-}
-
 // GET - Get batch upload status
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const releaseId = searchParams.get('releaseId');
-  const artistId = searchParams.get('artistId');
 
-  if (!releaseId || !artistId) {
+  if (!releaseId) {
     return NextResponse.json({
-      error: 'Release ID and artist ID required',
+      error: 'Release ID required',
     }, { status: 400 });
   }
 
   try {
+    const auth = await requireArtistAccess(request, searchParams.get('artistId'), 'catalog');
+    if (!auth.ok) return auth.response;
+
     const release = await prisma.release.findFirst({
-      where: { id: releaseId, artistId },
+      where: { id: releaseId, artistId: auth.artistId },
       include: {
         tracks: {
           orderBy: { trackNumber: 'asc' },
@@ -0,0 +1,60 @@
+// app/api/upload/metadata/route.ts
+// Read an audio file's properties and embedded tags so the upload forms can prefill themselves
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/session';
+import { extractAudioMetadata } from '@/lib/media/metadata';
+
+const MAX_AUDIO_SIZE = 100 * 1024 * 1024; // 100MB - same limit as /api/upload
+const MAX_ARTWORK_SIZE = 10 * 1024 * 1024; // Larger embedded covers are left out of the response
+
+// POST - Metadata for the multipart `audio` file (nothing is stored)
+export async function POST(req: NextRequest) {
+  try {
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+
+    if (!user.artist) {
+      return NextResponse.json({ error: 'Must be an artist to upload tracks' }, { status: 403 });
+    }
+
+    const formData = await req.formData();
+    const audioFile = formData.get('audio') as File | null;
+
+    if (!audioFile) {
+      return NextResponse.json({ error: 'Missing required field: audio' }, { status: 400 });
+    }
+
+    if (audioFile.size > MAX_AUDIO_SIZE) {
+      return NextResponse.json({ error: 'Audio file too large. Maximum: 100MB' }, { status: 400 });
+    }
+
+    const metadata = await extractAudioMetadata(Buffer.from(await audioFile.arrayBuffer()), audioFile.type);
+    if (!metadata) {
+      return NextResponse.json({ error: 'Could not read audio file' }, { status: 400 });
+    }
+
+    const { artwork, ...tags } = metadata.tags;
+
+    return NextResponse.json({
+      format: {
+        duration: metadata.duration,
+        audioFormat: metadata.audioFormat,
+        container: metadata.container,
+        codec: metadata.codec,
+        bitrate: metadata.bitrate,
+        sampleRate: metadata.sampleRate,
+        channels: metadata.channels,
+        lossless: metadata.lossless,
+      },
+      tags,
+      // Data URL so the form can preview it and send it back as the cover
+      artwork: artwork && artwork.data.length <= MAX_ARTWORK_SIZE
+        ? `data:${artwork.mimeType};base64,${artwork.data.toString('base64')}`
+        : null,
+    });
+  } catch (error) {
+    console.error('Audio metadata error:', error);
+    return NextResponse.json({ error: 'Failed to read audio metadata' }, { status: 500 });
+  }
+}
@@ -3,19 +3,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { uploadFile, generateStorageKey, isStorageConfigured } from '@/lib/storage';
-
-// Allowed audio formats
-const ALLOWED_AUDIO_TYPES = [
-  'audio/mpeg',      // MP3
-  'audio/mp3',
-  'audio/wav',
-  'audio/x-wav',
-  'audio/flac',
-  'audio/x-flac',
-  'audio/aac',
-  'audio/mp4',
-];
+import { uploadFile, generateStorageKey, getUploadPresignedUrl, isStorageConfigured } from '@/lib/storage';
+import { getSessionUser, unauthorized } from '@/lib/session';
+import { extractAudioMetadata, trackFieldsFromMetadata } from '@/lib/media/metadata';
+import { stripImageMetadata } from '@/lib/media/artwork';
+import { ALLOWED_AUDIO_TYPES } from '@/lib/uploads';
 
 const ALLOWED_IMAGE_TYPES = [
   'image/jpeg',
@@ -23,36 +15,27 @@ const ALLOWED_IMAGE_TYPES = [
   'image/webp',
 ];
 
-const MAX_AUDIO_SIZE = 100 * 1024 * 1024; // 100MB
+const MAX_AUDIO_SIZE = 100 * 1024 * 1024; // 100MB - larger masters go through /api/upload/sessions
 const MAX_IMAGE_SIZE = 10 * 1024 * 1024;  // 10MB
 
 // POST: Upload a new track
 export async function POST(req: NextRequest) {
   try {
-    // Check storage configuration
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+
+    // Check storage configuration (R2 selected without credentials)
     if (!isStorageConfigured()) {
-      // In development, return mock response
-      console.log('Storage not configured, using mock response');
-      return NextResponse.json({
-        success: true,
-        message: 'Track created (storage not configured - dev mode)',
-        track: {
-          id: 'mock-' + Date.now(),
-          status: 'ready',
-        },
-      });
+      return NextResponse.json({ error: 'Storage not configured' }, { status: 503 });
     }
 
     // Get form data
     const formData = await req.formData();
     
-    const walletAddress = formData.get('walletAddress') as string;
     const audioFile = formData.get('audio') as File | null;
     const coverFile = formData.get('cover') as File | null;
-    const title = formData.get('title') as string;
     const ticker = formData.get('ticker') as string;
     const description = formData.get('description') as string | null;
-    const genre = formData.get('genre') as string | null;
     const region = formData.get('region') as string | null;
     const latitude = formData.get('latitude') as string | null;
     const longitude = formData.get('longitude') as string | null;
@@ -61,10 +44,10 @@ export async function POST(req: NextRequest) {
     const gateTokenAmount = formData.get('gateTokenAmount') as string | null;
     const priceSOL = formData.get('priceSOL') as string | null;
 
-    // Validate required fields
-    if (!walletAddress || !audioFile || !title || !ticker) {
+    // Validate required fields (title may come from the file's tags)
+    if (!audioFile || !ticker) {
       return NextResponse.json(
-        { error: 'Missing required fields: walletAddress, audio, title, ticker' },
+        { error: 'Missing required fields: audio, ticker' },
         { status: 400 }
       );
     }
@@ -79,7 +62,7 @@ export async function POST(req: NextRequest) {
 
     if (audioFile.size > MAX_AUDIO_SIZE) {
       return NextResponse.json(
-        { error: `Audio file too large. Maximum: 100MB` },
+        { error: `Audio file too large. Maximum: 100MB (use a resumable upload for larger masters)` },
         { status: 400 }
       );
     }
@@ -99,18 +82,27 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Get user and verify they're an artist
-    const user = await prisma.user.findUnique({
-      where: { walletAddress },
-      include: { artist: true },
-    });
+    // Verify the caller is an artist
+    if (!user.artist) {
+      return NextResponse.json({ error: 'Must be an artist to upload tracks' }, { status: 403 });
+    }
 
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    // Read the container and embedded tags - never trust client-side duration or format
+    const audioBuffer = Buffer.from(await audioFile.arrayBuffer());
+    const metadata = await extractAudioMetadata(audioBuffer, audioFile.type);
+    if (!metadata) {
+      return NextResponse.json({ error: 'Could not read audio file' }, { status: 400 });
     }
 
-    if (!user.artist) {
-      return NextResponse.json({ error: 'Must be an artist to upload tracks' }, { status: 403 });
+    // Form values win over tags
+    const title = (formData.get('title') as string | null) || metadata.tags.title;
+    const genre = (formData.get('genre') as string | null) || metadata.tags.genre;
+
+    if (!title) {
+      return NextResponse.json(
+        { error: 'Missing required field: title (the file has no title tag)' },
+        { status: 400 }
+      );
     }
 
     // Create track record first (status: processing)
@@ -121,6 +113,8 @@ export async function POST(req: NextRequest) {
         ticker: ticker.startsWith('$') ? ticker : `$${ticker}`,
         description,
         genre,
+        bpm: metadata.tags.bpm,
+        lyrics: metadata.tags.lyrics,
         region,
         latitude: latitude ? parseFloat(latitude) : null,
         longitude: longitude ? parseFloat(longitude) : null,
@@ -134,24 +128,28 @@ export async function POST(req: NextRequest) {
 
     try {
       // Upload audio file
-      const audioBuffer = Buffer.from(await audioFile.arrayBuffer());
-      const audioExt = audioFile.type.includes('wav') ? 'wav' 
-        : audioFile.type.includes('flac') ? 'flac' 
-        : 'mp3';
-      
-      const audioKey = generateStorageKey(user.artist.id, track.id, 'audio', audioExt);
+      const audioKey = generateStorageKey(user.artist.id, track.id, 'audio', metadata.audioFormat || 'bin');
       const audioResult = await uploadFile(audioKey, audioBuffer, audioFile.type);
 
-      // Upload cover if provided
+      // Upload cover if provided, otherwise fall back to the embedded artwork (EXIF stripped either way;
+      // resized variants and the palette are rendered with the transcode)
       let coverResult = null;
+      const artwork = metadata.tags.artwork;
       if (coverFile) {
-        const coverBuffer = Buffer.from(await coverFile.arrayBuffer());
+        const coverBuffer = stripImageMetadata(Buffer.from(await coverFile.arrayBuffer()));
         const coverExt = coverFile.type.includes('png') ? 'png' 
           : coverFile.type.includes('webp') ? 'webp' 
           : 'jpg';
         
         const coverKey = generateStorageKey(user.artist.id, track.id, 'cover', coverExt);
         coverResult = await uploadFile(coverKey, coverBuffer, coverFile.type);
+      } else if (artwork && ALLOWED_IMAGE_TYPES.includes(artwork.mimeType) && artwork.data.length <= MAX_IMAGE_SIZE) {
+        const coverExt = artwork.mimeType.includes('png') ? 'png'
+          : artwork.mimeType.includes('webp') ? 'webp'
+          : 'jpg';
+
+        const coverKey = generateStorageKey(user.artist.id, track.id, 'cover', coverExt);
+        coverResult = await uploadFile(coverKey, stripImageMetadata(artwork.data), artwork.mimeType);
       }
 
       // Update track with URLs
@@ -160,11 +158,11 @@ export async function POST(req: NextRequest) {
         data: {
           audioKey: audioResult.key,
           audioUrl: audioResult.url,
-          audioFormat: audioExt,
+          ...trackFieldsFromMetadata(metadata),
           audioSize: audioResult.size,
           coverKey: coverResult?.key,
           coverUrl: coverResult?.url,
-          status: 'ready', // Would be 'processing' if we had transcoding
+          // Stays 'processing' until the media-jobs cron has transcoded it
         },
       });
 
@@ -182,6 +180,8 @@ export async function POST(req: NextRequest) {
           ticker: updatedTrack.ticker,
           audioUrl: updatedTrack.audioUrl,
           coverUrl: updatedTrack.coverUrl,
+          duration: updatedTrack.duration,
+          audioFormat: updatedTrack.audioFormat,
           status: updatedTrack.status,
         },
       });
@@ -207,43 +207,41 @@ export async function POST(req: NextRequest) {
   }
 }
 
-// GET: Get presigned upload URL (for client-side uploads)
+// GET: Get presigned upload URL for a cover (audio goes through /api/upload/sessions)
 export async function GET(req: NextRequest) {
   try {
+    const user = await getSessionUser(req);
+    if (!user) return unauthorized();
+
     const { searchParams } = new URL(req.url);
-    const walletAddress = searchParams.get('walletAddress');
-    const type = searchParams.get('type') as 'audio' | 'cover';
+    const type = searchParams.get('type');
     const filename = searchParams.get('filename');
     const contentType = searchParams.get('contentType');
 
-    if (!walletAddress || !type || !filename || !contentType) {
+    if (!type || !filename || !contentType) {
       return NextResponse.json(
-        { error: 'Missing required params: walletAddress, type, filename, contentType' },
+        { error: 'Missing required params: type, filename, contentType' },
         { status: 400 }
       );
     }
 
-    // Verify user is an artist
-    const user = await prisma.user.findUnique({
-      where: { walletAddress },
-      include: { artist: true },
-    });
+    if (type !== 'cover') {
+      return NextResponse.json(
+        { error: 'Only covers can be uploaded directly - use /api/upload/sessions for audio' },
+        { status: 400 }
+      );
+    }
 
-    if (!user?.artist) {
+    // Verify user is an artist
+    if (!user.artist) {
       return NextResponse.json({ error: 'Must be an artist' }, { status: 403 });
     }
 
-    // In dev mode without storage, return mock
     if (!isStorageConfigured()) {
-      return NextResponse.json({
-        uploadUrl: 'mock://upload',
-        key: `mock-${Date.now()}`,
-        publicUrl: 'https://placehold.co/400x400',
-      });
+      return NextResponse.json({ error: 'Storage not configured' }, { status: 503 });
     }
 
-    // Generate presigned URL
-    const { getUploadPresignedUrl } = await import('@/lib/storage');
+    // Generate presigned URL (a signed /api/storage URL with the local driver)
     const ext = filename.split('.').pop() || 'bin';
     const key = generateStorageKey(user.artist.id, 'pending', type, ext);
     const uploadUrl = await getUploadPresignedUrl(key, contentType);
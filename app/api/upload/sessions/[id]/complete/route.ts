@@ -0,0 +1,41 @@
+// app/api/upload/sessions/[id]/complete/route.ts
+// Finish a resumable upload and queue the track for processing
+
+import { NextRequest, NextResponse } from 'next/server';
+import { completeUploadSession, requireUploadSession } from '@/lib/uploads';
+
+// POST - Assemble the parts; 409 with missingParts if any haven't arrived, 413 (and aborted) if
+// the parts add up to more than the declared size
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireUploadSession(req, params.id);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const result = await completeUploadSession(auth.session);
+
+    if ('tooLarge' in result) {
+      return NextResponse.json(
+        { error: 'Uploaded parts exceed the declared file size - upload discarded' },
+        { status: 413 }
+      );
+    }
+
+    if (!result.completed) {
+      return NextResponse.json(
+        { error: 'Upload incomplete', missingParts: result.missingParts },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      track: { id: auth.session.trackId, status: 'processing' },
+    });
+  } catch (error) {
+    console.error('Complete upload session error:', error);
+    return NextResponse.json({ error: 'Failed to complete upload' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+// app/api/upload/sessions/[id]/parts/route.ts
+// Presigned URLs for uploading parts of a resumable upload
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_PART_URLS, getPartUploadUrls, requireUploadSession } from '@/lib/uploads';
+
+// POST - { partNumbers: [1, 2, ...] } -> a PUT URL per part (up to 100 at a time)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireUploadSession(req, params.id);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { session } = auth;
+    const { partNumbers } = await req.json();
+
+    if (!Array.isArray(partNumbers) || !partNumbers.length || partNumbers.length > MAX_PART_URLS) {
+      return NextResponse.json({ error: `partNumbers must list 1-${MAX_PART_URLS} parts` }, { status: 400 });
+    }
+
+    if (partNumbers.some(n => !Number.isInteger(n) || n < 1 || n > session.partCount)) {
+      return NextResponse.json({ error: `Part numbers must be between 1 and ${session.partCount}` }, { status: 400 });
+    }
+
+    const parts = await getPartUploadUrls(session, partNumbers);
+    return NextResponse.json({ parts });
+  } catch (error) {
+    console.error('Upload part URLs error:', error);
+    return NextResponse.json({ error: 'Failed to sign upload parts' }, { status: 500 });
+  }
+}
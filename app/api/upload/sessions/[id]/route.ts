@@ -0,0 +1,50 @@
+// app/api/upload/sessions/[id]/route.ts
+// One resumable upload - progress from storage, abort
+
+import { NextRequest, NextResponse } from 'next/server';
+import { abortUploadSession, requireUploadSession, syncUploadedParts } from '@/lib/uploads';
+
+// GET - Session with the parts already stored and the ones still missing
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireUploadSession(req, params.id);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { session } = auth;
+    const parts = await syncUploadedParts(session);
+    const stored = new Set(parts.map(p => p.partNumber));
+
+    return NextResponse.json({
+      session: {
+        ...session,
+        uploadedParts: parts.length,
+        uploadedBytes: parts.reduce((sum, p) => sum + p.size, 0),
+      },
+      uploadedParts: parts.map(p => p.partNumber),
+      missingParts: Array.from({ length: session.partCount }, (_, i) => i + 1).filter(n => !stored.has(n)),
+    });
+  } catch (error) {
+    console.error('Get upload session error:', error);
+    return NextResponse.json({ error: 'Failed to get upload session' }, { status: 500 });
+  }
+}
+
+// DELETE - Abort the upload and discard the placeholder track
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const auth = await requireUploadSession(req, params.id);
+  if (!auth.ok) return auth.response;
+
+  try {
+    await abortUploadSession(auth.session);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Abort upload session error:', error);
+    return NextResponse.json({ error: 'Failed to abort upload' }, { status: 500 });
+  }
+}
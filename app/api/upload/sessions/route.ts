@@ -0,0 +1,121 @@
+// app/api/upload/sessions/route.ts
+// Resumable multipart uploads for large audio masters - start a session, list resumable ones
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireArtistAccess } from '@/lib/authz';
+import { getPublicUrl, isStorageConfigured } from '@/lib/storage';
+import { isArtistCoverKey } from '@/lib/media/artwork';
+import {
+  ALLOWED_AUDIO_TYPES,
+  MAX_MASTER_SIZE,
+  initiateUploadSession,
+} from '@/lib/uploads';
+
+// GET - The artist's unfinished uploads (match a re-selected file by fileKey to resume)
+export async function GET(req: NextRequest) {
+  try {
+    const auth = await requireArtistAccess(req, req.nextUrl.searchParams.get('artistId'), 'catalog');
+    if (!auth.ok) return auth.response;
+
+    const sessions = await prisma.uploadSession.findMany({
+      where: { artistId: auth.artistId, status: 'active', expiresAt: { gt: new Date() } },
+      include: { track: { select: { id: true, title: true, ticker: true, genre: true } } },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    // available: false means uploads have to go through POST /api/upload
+    return NextResponse.json({ sessions, available: isStorageConfigured() });
+  } catch (error) {
+    console.error('List upload sessions error:', error);
+    return NextResponse.json({ error: 'Failed to list upload sessions' }, { status: 500 });
+  }
+}
+
+// POST - Create the track and start a multipart upload for its audio
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+
+    const auth = await requireArtistAccess(req, body.artistId, 'catalog');
+    if (!auth.ok) return auth.response;
+    const { artistId } = auth;
+
+    if (!isStorageConfigured()) {
+      return NextResponse.json({ error: 'Storage not configured' }, { status: 503 });
+    }
+
+    const {
+      filename,
+      contentType,
+      size,
+      fileKey,
+      title,
+      ticker,
+      description,
+      genre,
+      region,
+      latitude,
+      longitude,
+      gateType = 'none',
+      gateTokenMint,
+      gateTokenAmount,
+      priceSOL,
+      coverKey, // From GET /api/upload?type=cover
+    } = body;
+
+    if (!filename || !contentType || !size || !fileKey || !title || !ticker) {
+      return NextResponse.json(
+        { error: 'Missing required fields: filename, contentType, size, fileKey, title, ticker' },
+        { status: 400 }
+      );
+    }
+
+    if (!ALLOWED_AUDIO_TYPES.includes(contentType)) {
+      return NextResponse.json(
+        { error: `Invalid audio format. Allowed: MP3, WAV, FLAC, AAC` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof size !== 'number' || size <= 0 || size > MAX_MASTER_SIZE) {
+      return NextResponse.json(
+        { error: `Audio file too large. Maximum: ${MAX_MASTER_SIZE / (1024 * 1024)}MB` },
+        { status: 400 }
+      );
+    }
+
+    if (coverKey && !isArtistCoverKey(artistId, coverKey)) {
+      return NextResponse.json({ error: 'Invalid cover key' }, { status: 400 });
+    }
+
+    const session = await initiateUploadSession({
+      userId: auth.user.id,
+      artistId,
+      filename,
+      contentType,
+      size,
+      fileKey,
+      track: {
+        title,
+        ticker: ticker.startsWith('$') ? ticker : `$${ticker}`,
+        description: description || null,
+        genre: genre || null,
+        region: region || null,
+        latitude: latitude != null ? parseFloat(latitude) : null,
+        longitude: longitude != null ? parseFloat(longitude) : null,
+        gateType,
+        gateTokenMint: gateTokenMint || null,
+        gateTokenAmount: gateTokenAmount ? parseFloat(gateTokenAmount) : null,
+        priceSOL: priceSOL ? parseFloat(priceSOL) : null,
+        coverKey: coverKey || null,
+        coverUrl: coverKey ? getPublicUrl(coverKey) : null,
+      },
+    });
+
+    return NextResponse.json({ success: true, session }, { status: 201 });
+  } catch (error) {
+    console.error('Start upload session error:', error);
+    return NextResponse.json({ error: 'Failed to start upload' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+// app/api/user/delete/route.ts
+// Account deletion - schedule with a grace period, cancel before it runs
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/authz';
+import {
+  DELETION_GRACE_DAYS,
+  getDeletionBlockers,
+  getPendingDeletion,
+  scheduleAccountDeletion,
+  cancelAccountDeletion,
+} from '@/lib/privacy';
+
+// GET - Deletion status and anything blocking it
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const [deletion, blockers] = await Promise.all([
+      getPendingDeletion(auth.user.id),
+      getDeletionBlockers(auth.user.id),
+    ]);
+
+    return NextResponse.json({
+      deletion,
+      blockers,
+      gracePeriodDays: DELETION_GRACE_DAYS,
+    });
+  } catch (error) {
+    console.error('Get deletion status error:', error);
+    return NextResponse.json({ error: 'Failed to get deletion status' }, { status: 500 });
+  }
+}
+
+// POST - Schedule deletion ({ confirm: "DELETE" })
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const { confirm } = await request.json();
+
+    if (confirm !== 'DELETE') {
+      return NextResponse.json({ error: 'Send confirm: "DELETE" to delete your account' }, { status: 400 });
+    }
+
+    const result = await scheduleAccountDeletion(auth.user.id);
+
+    if (!result.scheduled) {
+      return NextResponse.json({ error: result.error, blockers: result.blockers }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      scheduledFor: result.scheduledFor,
+      message: `Your account will be deleted on ${result.scheduledFor.toISOString()}. You can cancel until then.`,
+    });
+  } catch (error) {
+    console.error('Schedule deletion error:', error);
+    return NextResponse.json({ error: 'Failed to schedule deletion' }, { status: 500 });
+  }
+}
+
+// DELETE - Cancel a scheduled deletion
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    if (!await cancelAccountDeletion(auth.user.id)) {
+      return NextResponse.json({ error: 'No scheduled deletion' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Cancel deletion error:', error);
+    return NextResponse.json({ error: 'Failed to cancel deletion' }, { status: 500 });
+  }
+}
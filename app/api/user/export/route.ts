@@ -0,0 +1,63 @@
+// app/api/user/export/route.ts
+// GDPR data export - request a ZIP of everything we hold about the account
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireUser } from '@/lib/authz';
+import { requestDataExport, EXPORT_TTL_DAYS } from '@/lib/privacy';
+import { getDownloadPresignedUrl } from '@/lib/storage';
+
+// GET - List export requests, with a short-lived download link for ready ones
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const exports = await prisma.dataExport.findMany({
+      where: { userId: auth.user.id },
+      orderBy: { createdAt: 'desc' },
+      take: 10,
+    });
+
+    return NextResponse.json({
+      exports: await Promise.all(exports.map(async e => ({
+        id: e.id,
+        status: e.status,
+        sizeBytes: e.sizeBytes,
+        error: e.error,
+        createdAt: e.createdAt,
+        completedAt: e.completedAt,
+        expiresAt: e.expiresAt,
+        downloadUrl: e.status === 'ready' && e.storageKey
+          ? await getDownloadPresignedUrl(e.storageKey, 3600)
+          : null,
+      }))),
+    });
+  } catch (error) {
+    console.error('List exports error:', error);
+    return NextResponse.json({ error: 'Failed to list exports' }, { status: 500 });
+  }
+}
+
+// POST - Queue a new export (built by the account-jobs cron)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireUser(request);
+    if (!auth.ok) return auth.response;
+
+    const result = await requestDataExport(auth.user.id);
+
+    if (!result.queued) {
+      return NextResponse.json({ error: result.error }, { status: 429 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      exportId: result.exportId,
+      message: `Your export is being prepared. It will be available for ${EXPORT_TTL_DAYS} days.`,
+    });
+  } catch (error) {
+    console.error('Request export error:', error);
+    return NextResponse.json({ error: 'Failed to request export' }, { status: 500 });
+  }
+}
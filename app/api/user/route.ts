@@ -4,6 +4,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { PublicKey } from '@solana/web3.js';
+import { getSessionUser, unauthorized } from '@/lib/session';
 
 // Calculate user tier based on token balance
 function calculateTier(tokenBalance: number): string {
@@ -58,22 +59,14 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Create or update user profile (upsert on wallet connect)
+// POST - Update the signed-in user's profile (account is created at sign-in)
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { walletAddress, username, email, avatarUrl, bio } = body;
-
-    if (!walletAddress) {
-      return NextResponse.json({ error: 'Wallet address required' }, { status: 400 });
-    }
+    const sessionUser = await getSessionUser(request);
+    if (!sessionUser) return unauthorized();
 
-    // Validate wallet address
-    try {
-      new PublicKey(walletAddress);
-    } catch {
-      return NextResponse.json({ error: 'Invalid wallet address' }, { status: 400 });
-    }
+    const body = await request.json();
+    const { username, email, avatarUrl, bio } = body;
 
     // Validate username if provided
     if (username) {
@@ -86,30 +79,20 @@ export async function POST(request: NextRequest) {
       
       // Check if username is taken by another user
       const existingUser = await prisma.user.findUnique({ where: { username } });
-      if (existingUser && existingUser.walletAddress !== walletAddress) {
+      if (existingUser && existingUser.id !== sessionUser.id) {
         return NextResponse.json({ error: 'Username already taken' }, { status: 409 });
       }
     }
 
-    // Upsert user
-    const user = await prisma.user.upsert({
-      where: { walletAddress },
-      update: {
+    const user = await prisma.user.update({
+      where: { id: sessionUser.id },
+      data: {
         ...(username && { username }),
         ...(email && { email }),
         ...(avatarUrl && { avatarUrl }),
         ...(bio !== undefined && { bio }),
         lastSeenAt: new Date(),
       },
-      create: {
-        walletAddress,
-        username: username || `user_${walletAddress.slice(0, 8)}`,
-        email,
-        avatarUrl,
-        bio,
-        role: 'listener',
-        tier: 'free',
-      },
       include: {
         artist: true,
       }
@@ -125,18 +108,10 @@ export async function POST(request: NextRequest) {
 // PATCH - Update user profile
 export async function PATCH(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { walletAddress, ...updates } = body;
-
-    if (!walletAddress) {
-      return NextResponse.json({ error: 'Wallet address required' }, { status: 400 });
-    }
+    const sessionUser = await getSessionUser(request);
+    if (!sessionUser) return unauthorized();
 
-    // Check user exists
-    const existingUser = await prisma.user.findUnique({ where: { walletAddress } });
-    if (!existingUser) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
-    }
+    const updates = await request.json();
 
     // Filter allowed updates
     const allowedFields = ['username', 'email', 'avatarUrl', 'bio'];
@@ -148,7 +123,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     const user = await prisma.user.update({
-      where: { walletAddress },
+      where: { id: sessionUser.id },
       data: {
         ...filteredUpdates,
         lastSeenAt: new Date(),
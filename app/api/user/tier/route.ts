@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getSessionUser, unauthorized } from '@/lib/session';
 import { Connection, PublicKey } from '@solana/web3.js';
 import { getAssociatedTokenAddress, getAccount } from '@solana/spl-token';
 
@@ -99,64 +100,30 @@ function getTierFromBalance(balance: number): keyof typeof TIER_THRESHOLDS {
   return 'free';
 }
 
-// GET - Check/refresh user tier
+// GET - Check/refresh the caller's tier
 export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url);
-  const wallet = searchParams.get('wallet');
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
 
-  if (!wallet) {
-    return NextResponse.json(
-      { error: 'Wallet address required' },
-      { status: 400 }
-    );
-  }
+    const wallet = user.walletAddress;
 
-  try {
     // Get on-chain balance
     const balance = await getTokenBalance(wallet);
     const calculatedTier = getTierFromBalance(balance);
 
-    // Get user from DB
-    let user = await prisma.user.findUnique({
-      where: { walletAddress: wallet },
-      select: {
-        id: true,
-        tier: true,
-        tokenBalance: true,
-        updatedAt: true,
-      },
-    });
-
     let tierUpdated = false;
 
-    // Create or update user
-    if (!user) {
-      user = await prisma.user.create({
-        data: {
-          walletAddress: wallet,
-          tier: calculatedTier,
-          tokenBalance: balance,
-        },
-        select: {
-          id: true,
-          tier: true,
-          tokenBalance: true,
-          updatedAt: true,
-        },
-      });
-      tierUpdated = true;
-    } else if (user.tier !== calculatedTier || user.tokenBalance !== balance) {
-      // Update if tier or balance changed
+    // Update if tier or balance changed
+    if (user.tier !== calculatedTier || user.tokenBalance !== balance) {
       await prisma.user.update({
-        where: { walletAddress: wallet },
+        where: { id: user.id },
         data: {
           tier: calculatedTier,
           tokenBalance: balance,
         },
       });
       tierUpdated = user.tier !== calculatedTier;
-      user.tier = calculatedTier;
-      user.tokenBalance = balance;
     }
 
     // Calculate next tier requirements
@@ -204,32 +171,22 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Force refresh tier (e.g., after token purchase)
+// POST - Force refresh the caller's tier (e.g., after token purchase)
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { wallet } = body;
-
-    if (!wallet) {
-      return NextResponse.json(
-        { error: 'Wallet address required' },
-        { status: 400 }
-      );
-    }
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const wallet = user.walletAddress;
 
     // Get fresh on-chain balance
     const balance = await getTokenBalance(wallet);
     const calculatedTier = getTierFromBalance(balance);
 
     // Update user in DB
-    const user = await prisma.user.upsert({
-      where: { walletAddress: wallet },
-      update: {
-        tier: calculatedTier,
-        tokenBalance: balance,
-      },
-      create: {
-        walletAddress: wallet,
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
         tier: calculatedTier,
         tokenBalance: balance,
       },
@@ -0,0 +1,113 @@
+// app/api/user/wallet/route.ts
+// Embedded wallet custody - status, key export and "take custody" for email signups
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { checkVerificationCode } from '@/lib/auth';
+import { getSessionUser, getRequestIP, unauthorized } from '@/lib/session';
+import { exportEmbeddedWallet, releaseEmbeddedWallet } from '@/lib/solana/custody';
+
+// GET - Custody status for the current user
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const wallet = await prisma.embeddedWallet.findUnique({
+      where: { userId: user.id },
+      select: {
+        publicKey: true,
+        status: true,
+        exportedAt: true,
+        releasedAt: true,
+        createdAt: true,
+      },
+    });
+
+    return NextResponse.json({
+      walletAddress: user.walletAddress,
+      embedded: !!wallet,
+      custodial: wallet?.status === 'active',
+      ...(wallet && {
+        publicKey: wallet.publicKey,
+        exportedAt: wallet.exportedAt,
+        releasedAt: wallet.releasedAt,
+        createdAt: wallet.createdAt,
+      }),
+    });
+  } catch (error) {
+    console.error('Wallet custody GET error:', error);
+    return NextResponse.json({ error: 'Failed to get wallet status' }, { status: 500 });
+  }
+}
+
+// POST - Export the key or release custody
+// Both require a fresh email code requested with action "export_wallet"
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) return unauthorized();
+
+    const { action, code } = await request.json();
+
+    if (!['export', 'release'].includes(action)) {
+      return NextResponse.json({ error: 'action must be "export" or "release"' }, { status: 400 });
+    }
+
+    if (!user.email) {
+      return NextResponse.json({ error: 'Account has no email to verify with' }, { status: 400 });
+    }
+
+    if (!code) {
+      return NextResponse.json({ error: 'Verification code required' }, { status: 400 });
+    }
+
+    const check = await checkVerificationCode(user.email, String(code), getRequestIP(request));
+
+    if (!check.valid) {
+      return NextResponse.json(
+        { error: check.error, ...(check.retryAfter && { retryAfter: check.retryAfter }) },
+        {
+          status: check.status,
+          ...(check.retryAfter && { headers: { 'Retry-After': String(check.retryAfter) } }),
+        }
+      );
+    }
+
+    if (check.action !== 'export_wallet') {
+      return NextResponse.json({ error: 'Code was not issued for wallet export' }, { status: 400 });
+    }
+
+    if (action === 'export') {
+      const exported = await exportEmbeddedWallet(user.id);
+      if (!exported) {
+        return NextResponse.json({ error: 'No custodied wallet' }, { status: 404 });
+      }
+
+      console.log(`[CUSTODY] Key exported for ${user.id}`);
+
+      const response = NextResponse.json({
+        success: true,
+        publicKey: exported.publicKey,
+        secretKey: exported.secretKey, // base58, importable into Phantom/Solflare
+      });
+      response.headers.set('Cache-Control', 'no-store');
+      return response;
+    }
+
+    const result = await releaseEmbeddedWallet(user.id);
+    if (!result.released) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    console.log(`[CUSTODY] Custody released for ${user.id}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'The server copy of your key has been destroyed. Sign with your own wallet from now on.',
+    });
+  } catch (error) {
+    console.error('Wallet custody POST error:', error);
+    return NextResponse.json({ error: 'Failed to update wallet custody' }, { status: 500 });
+  }
+}
@@ -39,10 +39,7 @@ export default function ArtistApplyPage() {
       const res = await fetch('/api/artist', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          walletAddress: wallet.publicKey.toBase58(),
-          ...form,
-        }),
+        body: JSON.stringify(form),
       });
 
       if (!res.ok) {
@@ -73,9 +73,7 @@ export default function ArtistDashboard() {
     async function fetchDashboard() {
       setLoading(true);
       try {
-        const res = await fetch(
-          `/api/artist/dashboard?wallet=${wallet.publicKey?.toBase58()}&period=${period}`
-        );
+        const res = await fetch(`/api/artist/dashboard?period=${period}`);
 
         if (!res.ok) {
           if (res.status === 403) {
@@ -9,10 +9,11 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import Header from '@/components/Header';
+import { useResumableUpload } from '@/hooks/useResumableUpload';
 import { 
   Upload, Music, Image, MapPin, Lock, DollarSign, 
   X, Check, AlertCircle, ChevronLeft, Loader2,
-  Play, Pause
+  Play, Pause, RotateCcw
 } from 'lucide-react';
 
 const GENRES = [
@@ -21,6 +22,10 @@ const GENRES = [
   'Classical', 'World', 'Experimental', 'Other'
 ];
 
+const MAX_AUDIO_SIZE = 1024 * 1024 * 1024;     // 1GB with resumable uploads
+const MAX_DIRECT_SIZE = 100 * 1024 * 1024;     // 100MB through POST /api/upload
+const RESUMABLE_THRESHOLD = 20 * 1024 * 1024;  // Larger files upload in parts that survive a refresh
+
 const GATE_TYPES = [
   { id: 'none', label: 'Free Access', description: 'Anyone can stream', icon: '🌍' },
   { id: 'token', label: 'Token Gate', description: 'Require token balance', icon: '🪙' },
@@ -34,6 +39,7 @@ export default function UploadPage() {
   const audioInputRef = useRef<HTMLInputElement>(null);
   const coverInputRef = useRef<HTMLInputElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
+  const resumable = useResumableUpload();
   
   // Form state
   const [step, setStep] = useState(1);
@@ -67,15 +73,16 @@ export default function UploadPage() {
     if (!file) return;
     
     // Validate type
-    const validTypes = ['audio/mpeg', 'audio/wav', 'audio/flac', 'audio/mp3', 'audio/x-wav'];
+    const validTypes = ['audio/mpeg', 'audio/wav', 'audio/flac', 'audio/mp3', 'audio/x-wav', 'audio/aac', 'audio/mp4', 'audio/x-m4a'];
     if (!validTypes.includes(file.type)) {
-      setError('Please select an MP3, WAV, or FLAC file');
+      setError('Please select an MP3, WAV, FLAC, or AAC file');
       return;
     }
     
-    // Validate size (100MB max)
-    if (file.size > 100 * 1024 * 1024) {
-      setError('File too large. Maximum size is 100MB');
+    // Validate size (1GB max, 100MB when resumable uploads aren't available)
+    const maxSize = resumable.available ? MAX_AUDIO_SIZE : MAX_DIRECT_SIZE;
+    if (file.size > maxSize) {
+      setError(`File too large. Maximum size is ${resumable.available ? '1GB' : '100MB'}`);
       return;
     }
     
@@ -97,7 +104,37 @@ export default function UploadPage() {
       const name = file.name.replace(/\.[^/.]+$/, '').replace(/_/g, ' ');
       setTitle(name);
     }
-  }, [title]);
+
+    // Then prefill from the file's embedded tags (title, genre, artwork) - large masters
+    // are read server-side once uploaded
+    if (file.size <= MAX_DIRECT_SIZE) prefillFromTags(file, !title);
+  }, [title, resumable.available]);
+
+  // Prefill empty fields from the server-parsed ID3/Vorbis/MP4 tags
+  const prefillFromTags = async (file: File, replaceTitle: boolean) => {
+    try {
+      const formData = new FormData();
+      formData.append('audio', file);
+      const res = await fetch('/api/upload/metadata', { method: 'POST', body: formData });
+      if (!res.ok) return;
+
+      const { format, tags, artwork } = await res.json();
+      if (format?.duration) setAudioDuration(format.duration);
+      if (replaceTitle && tags?.title) setTitle(tags.title);
+      if (tags?.genre) {
+        const match = GENRES.find(g => g.toLowerCase() === tags.genre.toLowerCase());
+        if (match) setGenre(current => current || match);
+      }
+      if (artwork) {
+        const blob = await (await fetch(artwork)).blob();
+        const ext = blob.type.split('/')[1] || 'jpg';
+        setCoverFile(current => current || new File([blob], `cover.${ext}`, { type: blob.type }));
+        setCoverPreview(current => current || artwork);
+      }
+    } catch (err) {
+      console.error('Failed to read audio tags:', err);
+    }
+  };
 
   // Handle cover file selection
   const handleCoverSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -153,6 +190,46 @@ export default function UploadPage() {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  // Upload in parts straight to storage (a started upload resumes with the details it began with)
+  const uploadResumable = async (file: File) => {
+    let coverKey: string | undefined;
+    if (coverFile && !resumable.findSession(file)) {
+      const params = new URLSearchParams({ type: 'cover', filename: coverFile.name, contentType: coverFile.type });
+      const presign = await fetch(`/api/upload?${params}`);
+      const { uploadUrl, key, error } = await presign.json();
+      if (!presign.ok) throw new Error(error || 'Cover upload failed');
+
+      const put = await fetch(uploadUrl, { method: 'PUT', body: coverFile, headers: { 'Content-Type': coverFile.type } });
+      if (!put.ok) throw new Error('Cover upload failed');
+      coverKey = key;
+    }
+
+    const trackId = await resumable.upload(file, {
+      title,
+      ticker: ticker || generateTicker(title),
+      description,
+      genre,
+      region,
+      gateType,
+      gateTokenMint: gateTokenMint || undefined,
+      gateTokenAmount: gateTokenAmount || undefined,
+      priceSOL: priceSOL || undefined,
+      coverKey,
+    });
+    if (!trackId) throw new Error('Resumable uploads are not available - files must be 100MB or less');
+
+    finishUpload();
+  };
+
+  const finishUpload = () => {
+    setSuccess(true);
+    
+    // Redirect to dashboard after delay
+    setTimeout(() => {
+      router.push('/artist/dashboard');
+    }, 2000);
+  };
+
   // Handle form submission
   const handleSubmit = async () => {
     if (!wallet.publicKey || !audioFile) {
@@ -164,6 +241,11 @@ export default function UploadPage() {
     setError(null);
     
     try {
+      if (resumable.available && (audioFile.size > RESUMABLE_THRESHOLD || resumable.findSession(audioFile))) {
+        await uploadResumable(audioFile);
+        return;
+      }
+
       const formData = new FormData();
       formData.append('walletAddress', wallet.publicKey.toBase58());
       formData.append('audio', audioFile);
@@ -189,12 +271,7 @@ export default function UploadPage() {
         throw new Error(data.error || 'Upload failed');
       }
       
-      setSuccess(true);
-      
-      // Redirect to dashboard after delay
-      setTimeout(() => {
-        router.push('/artist/dashboard');
-      }, 2000);
+      finishUpload();
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Upload failed');
@@ -287,7 +364,7 @@ export default function UploadPage() {
         <input
           ref={audioInputRef}
           type="file"
-          accept="audio/mpeg,audio/wav,audio/flac,audio/mp3"
+          accept="audio/mpeg,audio/wav,audio/flac,audio/mp3,audio/aac,audio/mp4,audio/x-m4a"
           onChange={handleAudioSelect}
           className="hidden"
         />
@@ -370,11 +447,54 @@ export default function UploadPage() {
                 <div>
                   <Upload size={48} className="mx-auto mb-4 text-gray-600" />
                   <p className="text-gray-400 mb-2">Drag & drop or click to select</p>
-                  <p className="text-xs text-gray-600">MP3, WAV, FLAC • Max 100MB</p>
+                  <p className="text-xs text-gray-600">MP3, WAV, FLAC • Max {resumable.available ? '1GB' : '100MB'}</p>
                 </div>
               )}
             </div>
 
+            {/* Unfinished uploads - re-select the same file to pick up where it stopped */}
+            {resumable.sessions.length > 0 && (
+              <div className="mt-6 space-y-2">
+                <h3 className="font-medium">Unfinished Uploads</h3>
+                {resumable.sessions.map(session => {
+                  const matched = !!audioFile && resumable.findSession(audioFile)?.id === session.id;
+                  return (
+                    <div
+                      key={session.id}
+                      className={`p-3 rounded-xl border flex items-center gap-3 ${
+                        matched ? 'border-cyan-500/50 bg-cyan-500/5' : 'border-white/10 bg-white/5'
+                      }`}
+                    >
+                      <RotateCcw size={16} className={matched ? 'text-cyan-400' : 'text-gray-500'} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm truncate">{session.track?.title || session.filename}</p>
+                        <p className="text-xs text-gray-500">
+                          {Math.round((session.uploadedBytes / session.size) * 100)}% of {(session.size / 1024 / 1024).toFixed(0)} MB
+                          {matched ? ' • Ready to resume' : ` • Select ${session.filename} to resume`}
+                        </p>
+                      </div>
+                      {matched ? (
+                        <button
+                          onClick={handleSubmit}
+                          disabled={uploading}
+                          className="px-3 py-1.5 bg-cyan-500 text-black text-sm font-medium rounded-lg hover:bg-cyan-400 transition disabled:opacity-50"
+                        >
+                          {uploading ? `${Math.round((resumable.progress ?? 0) * 100)}%` : 'Resume'}
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => resumable.discard(session.id)}
+                          className="px-3 py-1.5 bg-white/10 text-sm rounded-lg hover:bg-white/20 transition"
+                        >
+                          Discard
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Cover art upload */}
             <div className="mt-6">
               <h3 className="font-medium mb-3">Cover Art (Optional)</h3>
@@ -624,7 +744,7 @@ export default function UploadPage() {
               {uploading ? (
                 <>
                   <Loader2 size={20} className="animate-spin" />
-                  Uploading...
+                  {resumable.progress !== null ? `Uploading ${Math.round(resumable.progress * 100)}%` : 'Uploading...'}
                 </>
               ) : (
                 <>
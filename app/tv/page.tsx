@@ -8,6 +8,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import dynamic from 'next/dynamic';
 import Link from 'next/link';
 import { Play, Pause, SkipForward, SkipBack, Volume2, VolumeX, Radio, Tv2, Wifi, Clock, TrendingUp, Zap, X, Settings, Maximize2, Upload, ListMusic } from 'lucide-react';
+import { CoverPalette, CoverVariants, pickCoverUrl } from '@/lib/artwork';
 
 // Dynamically import the globe to avoid SSR issues
 const GlobeBackground = dynamic(() => import('@/components/GlobeBackground'), { 
@@ -24,6 +25,8 @@ interface Channel {
     title: string;
     artist: string;
     coverUrl: string;
+    coverVariants?: CoverVariants | null;
+    coverPalette?: CoverPalette | null; // Tints the visualizer to the artwork when present
     duration: number; // in seconds
   };
   viewerCount: number;
@@ -227,6 +230,7 @@ export default function TVPage() {
   const [currentTime, setCurrentTime] = useState('');
   const hideUITimeout = useRef<NodeJS.Timeout>();
   const currentChannel = channels[currentChannelIndex];
+  const channelColor = currentChannel.currentTrack.coverPalette?.accent ?? currentChannel.color;
 
   // Time display
   useEffect(() => {
@@ -330,7 +334,7 @@ export default function TVPage() {
       <div className="absolute inset-0">
         <AudioVisualizer 
           type={currentChannel.visualizerType} 
-          color={currentChannel.color}
+          color={channelColor}
           isPlaying={isPlaying}
         />
       </div>
@@ -351,16 +355,16 @@ export default function TVPage() {
           transition={{ duration: 0.5 }}
           className="relative"
         >
-          <div className={`w-48 h-48 md:w-64 md:h-64 rounded-full overflow-hidden shadow-2xl ${isPlaying ? 'animate-spin' : ''}`} style={{ animationDuration: '8s', boxShadow: `0 0 60px ${currentChannel.color}40` }}>
+          <div className={`w-48 h-48 md:w-64 md:h-64 rounded-full overflow-hidden shadow-2xl ${isPlaying ? 'animate-spin' : ''}`} style={{ animationDuration: '8s', boxShadow: `0 0 60px ${channelColor}40` }}>
             <img 
-              src={currentChannel.currentTrack.coverUrl} 
+              src={pickCoverUrl(currentChannel.currentTrack.coverVariants, 320) ?? currentChannel.currentTrack.coverUrl} 
               alt={currentChannel.currentTrack.title}
               className="w-full h-full object-cover"
             />
           </div>
           {/* Center hole */}
           <div className="absolute inset-0 flex items-center justify-center">
-            <div className="w-12 h-12 md:w-16 md:h-16 bg-black rounded-full border-2" style={{ borderColor: currentChannel.color + '60' }} />
+            <div className="w-12 h-12 md:w-16 md:h-16 bg-black rounded-full border-2" style={{ borderColor: channelColor + '60' }} />
           </div>
         </motion.div>
       </div>
@@ -383,8 +387,8 @@ export default function TVPage() {
                     <Tv2 size={20} className="text-white" />
                     <span className="text-white font-bold tracking-wider">IXXXI TV</span>
                   </div>
-                  <div className="flex items-center gap-2 px-3 py-1 rounded-full" style={{ backgroundColor: currentChannel.color + '30' }}>
-                    <div className="w-2 h-2 rounded-full animate-pulse" style={{ backgroundColor: currentChannel.color }} />
+                  <div className="flex items-center gap-2 px-3 py-1 rounded-full" style={{ backgroundColor: channelColor + '30' }}>
+                    <div className="w-2 h-2 rounded-full animate-pulse" style={{ backgroundColor: channelColor }} />
                     <span className="text-white/90 text-sm font-mono">{currentChannel.name}</span>
                   </div>
                   <span className="text-white/50 text-xs hidden md:block">{currentChannel.viewerCount.toLocaleString()} watching</span>
@@ -406,7 +410,7 @@ export default function TVPage() {
             <div className="absolute bottom-0 left-0 right-0 p-4 md:p-8 bg-gradient-to-t from-black via-black/80 to-transparent">
               {/* Progress Bar */}
               <div className="w-full h-1 bg-white/10 rounded-full mb-4 overflow-hidden">
-                <div className="h-full rounded-full transition-all duration-1000" style={{ width: `${progress}%`, backgroundColor: currentChannel.color }} />
+                <div className="h-full rounded-full transition-all duration-1000" style={{ width: `${progress}%`, backgroundColor: channelColor }} />
               </div>
               
               <div className="flex items-end justify-between gap-4">
@@ -414,8 +418,8 @@ export default function TVPage() {
                   {/* Location & Genre */}
                   <div className="flex items-center gap-3 mb-3">
                     <div className="flex items-center gap-2">
-                      <div className="w-2 h-2 rounded-full animate-ping" style={{ backgroundColor: currentChannel.color }} />
-                      <span className="text-sm font-mono" style={{ color: currentChannel.color }}>📍 {currentChannel.location.name}</span>
+                      <div className="w-2 h-2 rounded-full animate-ping" style={{ backgroundColor: channelColor }} />
+                      <span className="text-sm font-mono" style={{ color: channelColor }}>📍 {currentChannel.location.name}</span>
                     </div>
                     <span className="text-white/40 text-xs px-2 py-0.5 bg-white/10 rounded-full">{currentChannel.genre}</span>
                   </div>
@@ -437,7 +441,7 @@ export default function TVPage() {
                     
                     <button
                       onClick={() => setIsPlaying(!isPlaying)}
-                      className="p-3 rounded-full transition" style={{ backgroundColor: currentChannel.color }}
+                      className="p-3 rounded-full transition" style={{ backgroundColor: channelColor }}
                     >
                       {isPlaying ? <Pause size={24} className="text-black" /> : <Play size={24} className="text-black" />}
                     </button>
@@ -1,5 +1,7 @@
 // types/index.ts
 
+import type { CoverPalette, CoverVariants } from '@/lib/artwork';
+
 export type GateType = 'token' | 'nft' | 'none';
 
 export interface AudioAsset {
@@ -20,6 +22,14 @@ export interface AudioAsset {
   requiredTokenAmount?: number;
   collectionAddress?: string;
   isPremium?: boolean;
+  // Loudness (EBU R128) - fetched from /api/tracks/[id] when missing
+  loudness?: number | null;      // Integrated, LUFS
+  truePeak?: number | null;      // dBTP
+  albumLoudness?: number | null;
+  albumPeak?: number | null;
+  // Cover art renders and palette - fetched from /api/tracks/[id] when missing
+  coverVariants?: CoverVariants | null;
+  coverPalette?: CoverPalette | null;
 }
 
 export interface GateStatus {
@@ -3,6 +3,8 @@
 
 import React, { useEffect, useRef, useState, useCallback } from "react";
 import { usePlayer } from "@/context/PlayerContext";
+import { useTheme } from "@/context/ThemeContext";
+import { coverSrcSet, pickCoverUrl } from "@/lib/artwork";
 import { useAudioAnalyzer } from "@/hooks/useAudioAnalyzer";
 import { Play, Pause, SkipForward, SkipBack, Zap, Volume2, VolumeX, Volume1 } from "lucide-react";
 
@@ -14,7 +16,11 @@ function formatTime(seconds: number): string {
 }
 
 export default function BottomPlayer() {
-  const { currentTrack, isPlaying, togglePlay, setAudioIntensity, setFrequencyData, registerAudioElement, audioElement } = usePlayer();
+  const {
+    currentTrack, isPlaying, togglePlay, setAudioIntensity, setFrequencyData, registerAudioElement, audioElement,
+    normalizationMode, normalizationTarget, trackGainDb, setNormalizationMode, trackArtwork,
+  } = usePlayer();
+  const { setArtworkPalette } = useTheme();
   const audioRef = useRef<HTMLAudioElement>(null);
   
   const [progress, setProgress] = useState(0);
@@ -25,7 +31,12 @@ export default function BottomPlayer() {
   const [isHoveringProgress, setIsHoveringProgress] = useState(false);
   
   // Audio analyzer hook - use the registered audio element from context
-  const { intensity, bassLevel, midLevel, highLevel } = useAudioAnalyzer(audioElement);
+  const { intensity, bassLevel, midLevel, highLevel } = useAudioAnalyzer(audioElement, trackGainDb);
+
+  // Let the theme tint itself to the current cover
+  useEffect(() => {
+    setArtworkPalette(trackArtwork?.coverPalette ?? null);
+  }, [trackArtwork, setArtworkPalette]);
 
   // Register audio element with context
   useEffect(() => {
@@ -150,6 +161,11 @@ export default function BottomPlayer() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [currentTrack, togglePlay, duration]);
 
+  // Cycle loudness normalization: track -> album -> off
+  const cycleNormalization = () => {
+    setNormalizationMode(normalizationMode === 'track' ? 'album' : normalizationMode === 'album' ? 'off' : 'track');
+  };
+
   // Volume icon based on level
   const VolumeIcon = isMuted || volume === 0 ? VolumeX : volume < 0.5 ? Volume1 : Volume2;
 
@@ -199,7 +215,15 @@ export default function BottomPlayer() {
         {/* LEFT: ASSET INFO */}
         <div className="flex items-center gap-4 w-1/3">
           <div className="relative h-12 w-12 border border-green-500/30 bg-green-900/10 flex items-center justify-center overflow-hidden">
-             <img src={currentTrack.coverUrl} className="opacity-80 object-cover w-full h-full" alt="cover" />
+             <picture className="w-full h-full">
+               <source type="image/avif" srcSet={coverSrcSet(trackArtwork?.coverVariants, 'avif')} sizes="48px" />
+               <source type="image/webp" srcSet={coverSrcSet(trackArtwork?.coverVariants, 'webp')} sizes="48px" />
+               <img
+                 src={pickCoverUrl(trackArtwork?.coverVariants, 96) ?? currentTrack.coverUrl}
+                 className="opacity-80 object-cover w-full h-full"
+                 alt="cover"
+               />
+             </picture>
              {/* Scanline overlay */}
              <div className="absolute inset-0 bg-[url('https://grainy-gradients.vercel.app/noise.svg')] opacity-20"></div>
           </div>
@@ -278,6 +302,13 @@ export default function BottomPlayer() {
                 className="w-20 h-1 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-green-500"
                 title="Volume (↑↓)"
               />
+              <button
+                onClick={cycleNormalization}
+                className={`text-[10px] px-1 border transition-colors ${normalizationMode === 'off' ? 'border-gray-700 text-gray-600' : 'border-green-700 text-green-500'}`}
+                title={`Loudness normalization: ${normalizationMode}${normalizationMode !== 'off' ? ` (${normalizationTarget} LUFS, ${trackGainDb > 0 ? '+' : ''}${trackGainDb.toFixed(1)} dB)` : ''}`}
+              >
+                {normalizationMode === 'album' ? 'ALB' : normalizationMode === 'track' ? 'TRK' : 'OFF'}
+              </button>
             </div>
             
             <div className="hidden md:block text-right">
@@ -2,7 +2,7 @@
 
 import React, { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Palette, Check, Sun, Moon, Sparkles } from "lucide-react";
+import { Palette, Check, Sun, Moon, Sparkles, Image as ImageIcon } from "lucide-react";
 import { useTheme, ThemeMode } from "@/context/ThemeContext";
 
 const THEME_INFO: Record<ThemeMode, { name: string; icon: React.ElementType; preview: string[] }> = {
@@ -34,7 +34,7 @@ const THEME_INFO: Record<ThemeMode, { name: string; icon: React.ElementType; pre
 };
 
 export default function ThemePicker() {
-  const { theme, setTheme, themes } = useTheme();
+  const { theme, setTheme, themes, artworkTint, setArtworkTint, artworkPalette } = useTheme();
   const [isOpen, setIsOpen] = useState(false);
 
   return (
@@ -112,6 +112,36 @@ export default function ThemePicker() {
                 })}
               </div>
 
+              {/* Tint highlights to the playing track's cover */}
+              <div className="px-2 pb-2">
+                <button
+                  onClick={() => setArtworkTint(!artworkTint)}
+                  className={`w-full flex items-center gap-3 p-2 rounded-lg transition-colors ${
+                    artworkTint
+                      ? "bg-green-500/20 border border-green-500/50"
+                      : "hover:bg-gray-800 border border-transparent"
+                  }`}
+                >
+                  <div className="flex gap-1">
+                    {(artworkPalette?.colors.slice(0, 3) ?? ["#374151", "#4b5563", "#6b7280"]).map((color, i) => (
+                      <div
+                        key={i}
+                        className="w-3 h-3 rounded-full border border-gray-600"
+                        style={{ backgroundColor: color }}
+                      />
+                    ))}
+                  </div>
+                  <span className={`flex-1 text-left text-sm ${artworkTint ? "text-white" : "text-gray-300"}`}>
+                    Match artwork
+                  </span>
+                  {artworkTint ? (
+                    <Check className="w-4 h-4 text-green-400" />
+                  ) : (
+                    <ImageIcon className="w-4 h-4 text-gray-500" />
+                  )}
+                </button>
+              </div>
+
               <div className="p-3 border-t border-gray-800 bg-gray-900/50">
                 <p className="text-xs text-gray-500 text-center">
                   More themes coming soon
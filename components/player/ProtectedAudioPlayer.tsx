@@ -24,13 +24,14 @@ export default function ProtectedAudioPlayer({
   const audioContextRef = useRef<AudioContext | null>(null);
   const [streamUrl, setStreamUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const fetchStreamUrlRef = useRef<(() => Promise<unknown>) | null>(null);
   const lastReportedTime = useRef(0);
   
   // Fetch protected stream URL
   const fetchStreamUrl = useCallback(async () => {
     try {
-      const res = await fetch(`/api/content/stream?trackId=${trackId}`);
+      const res = await fetch(`/api/content/stream?trackId=${trackId}&format=progressive`);
       if (!res.ok) {
         const data = await res.json();
         throw new Error(data.error || 'Failed to load stream');
@@ -40,9 +41,13 @@ export default function ProtectedAudioPlayer({
       setStreamUrl(data.streamUrl);
       setIsLoading(false);
       
-      // Store watermark for reporting
-      if (data.watermark) {
-        sessionStorage.setItem(`watermark_${trackId}`, data.watermark);
+      // Refresh on the server's cadence, before the signed URL expires. Progressive URLs
+      // come without one - the element's first request opens a session that covers seeking.
+      if (refreshTimeoutRef.current) {
+        clearTimeout(refreshTimeoutRef.current);
+      }
+      if (data.refreshIn) {
+        refreshTimeoutRef.current = setTimeout(() => fetchStreamUrlRef.current?.(), data.refreshIn * 1000);
       }
       
       return data;
@@ -53,18 +58,17 @@ export default function ProtectedAudioPlayer({
     }
   }, [trackId, onError]);
   
+  fetchStreamUrlRef.current = fetchStreamUrl;
+  
   // Initialize player with protection measures
   useEffect(() => {
-    // Fetch initial stream URL
+    // Fetch initial stream URL - each response schedules the next refresh
     fetchStreamUrl();
     
-    // Refresh stream URL periodically (every 25 seconds, before 30s expiry)
-    refreshIntervalRef.current = setInterval(fetchStreamUrl, 25000);
-    
     // Cleanup
     return () => {
-      if (refreshIntervalRef.current) {
-        clearInterval(refreshIntervalRef.current);
+      if (refreshTimeoutRef.current) {
+        clearTimeout(refreshTimeoutRef.current);
       }
     };
   }, [fetchStreamUrl]);
@@ -102,26 +106,21 @@ export default function ProtectedAudioPlayer({
     }
   }, [streamUrl, autoPlay]);
   
-  // Report playback duration for anti-rip detection
+  // Report playback duration for anti-rip detection - to the stream URL, whose play session
+  // identifies the listener and track
   const reportPlayback = useCallback(async (duration: number) => {
-    const watermark = sessionStorage.getItem(`watermark_${trackId}`);
-    if (!watermark) return;
+    if (!streamUrl) return;
     
     try {
-      await fetch(`/api/content/report`, {
+      await fetch(streamUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          trackId,
-          watermark,
-          duration,
-          timestamp: Date.now(),
-        }),
+        body: JSON.stringify({ duration }),
       });
     } catch {
       // Silent fail for reporting
     }
-  }, [trackId]);
+  }, [streamUrl]);
   
   // Handle time updates
   const handleTimeUpdate = useCallback(() => {
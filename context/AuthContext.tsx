@@ -5,6 +5,7 @@
 
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
+import bs58 from 'bs58';
 
 interface User {
   id: string;
@@ -52,6 +53,42 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [loading, setLoading] = useState(true);
   const [authMethod, setAuthMethod] = useState<'email' | 'wallet' | null>(null);
 
+  // Keyed on signMessage, not the whole wallet object, so the connect effect doesn't re-prompt
+  const { signMessage } = wallet;
+  const handleWalletAuth = useCallback(async (walletAddress: string) => {
+    try {
+      if (!signMessage) {
+        console.error('Wallet does not support message signing');
+        return;
+      }
+
+      // Sign-In-With-Solana: get a challenge, sign it, exchange it for a session
+      const nonceRes = await fetch('/api/auth/nonce', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ walletAddress }),
+      });
+      if (!nonceRes.ok) return;
+
+      const { nonce, message } = await nonceRes.json();
+      const signature = await signMessage(new TextEncoder().encode(message));
+
+      const res = await fetch('/api/auth/wallet', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ walletAddress, nonce, signature: bs58.encode(signature) }),
+      });
+
+      if (res.ok) {
+        const { user: userData } = await res.json();
+        setUser({ ...userData, authMethod: 'wallet' });
+        setAuthMethod('wallet');
+      }
+    } catch (err) {
+      console.error('Wallet auth error:', err);
+    }
+  }, [signMessage]);
+
   // Check for existing session on mount
   useEffect(() => {
     checkSession();
@@ -67,19 +104,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setUser(null);
       setAuthMethod(null);
     }
-  }, [wallet.connected, wallet.publicKey]);
+  }, [wallet.connected, wallet.publicKey, handleWalletAuth]);
 
   const checkSession = async () => {
     try {
-      // Check for user cookie (set by email auth)
-      const userCookie = document.cookie
-        .split('; ')
-        .find(row => row.startsWith('user='));
-      
-      if (userCookie) {
-        const userData = JSON.parse(decodeURIComponent(userCookie.split('=')[1]));
-        setUser({ ...userData, authMethod: 'email' });
-        setAuthMethod('email');
+      // Ask the server who we are - the session cookie is httpOnly
+      const res = await fetch('/api/auth/session');
+      const data = await res.json();
+
+      if (data.authenticated) {
+        const method = data.user.email ? 'email' : 'wallet';
+        setUser({ ...data.user, authMethod: method });
+        setAuthMethod(method);
       }
     } catch (err) {
       console.error('Session check error:', err);
@@ -88,35 +124,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const handleWalletAuth = async (walletAddress: string) => {
-    try {
-      // Create or fetch user for this wallet
-      const res = await fetch('/api/user', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ walletAddress }),
-      });
-
-      if (res.ok) {
-        const userData = await res.json();
-        setUser({
-          id: userData.id,
-          walletAddress: userData.walletAddress,
-          username: userData.username,
-          email: userData.email,
-          avatarUrl: userData.avatarUrl,
-          tier: userData.tier,
-          role: userData.role,
-          isArtist: !!userData.artist,
-          authMethod: 'wallet',
-        });
-        setAuthMethod('wallet');
-      }
-    } catch (err) {
-      console.error('Wallet auth error:', err);
-    }
-  };
-
   const loginWithEmail = useCallback(async (email: string) => {
     try {
       const res = await fetch('/api/auth/email', {
@@ -177,12 +184,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } catch (err) {
       return { success: false, error: 'Failed to connect wallet' };
     }
-  }, [wallet]);
+  }, [wallet, handleWalletAuth]);
 
   const logout = useCallback(async () => {
-    // Clear cookies
-    document.cookie = 'session=; Path=/; Expires=Thu, 01 Jan 1970 00:00:01 GMT;';
-    document.cookie = 'user=; Path=/; Expires=Thu, 01 Jan 1970 00:00:01 GMT;';
+    // Revoke the session server-side (also clears the httpOnly cookie)
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.error('Logout error:', err);
+    }
     
     // Disconnect wallet if connected
     if (wallet.connected) {
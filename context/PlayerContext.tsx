@@ -1,9 +1,10 @@
 // context/PlayerContext.tsx
 "use client";
 
-import React, { createContext, useContext, useState, useCallback, useRef, useEffect, ReactNode } from "react";
+import React, { createContext, useContext, useState, useCallback, useRef, useEffect, useMemo, ReactNode } from "react";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
 import { checkGate } from "@/lib/solana/tokenGate";
+import { parseCoverPalette, parseCoverVariants } from "@/lib/artwork";
 import type { AudioAsset, GateStatus } from "../app/types";
 
 export interface FrequencyData {
@@ -14,6 +15,15 @@ export interface FrequencyData {
 }
 
 export type RepeatMode = 'off' | 'all' | 'one';
+export type NormalizationMode = 'off' | 'track' | 'album';
+
+type TrackLoudness = Pick<AudioAsset, 'loudness' | 'truePeak' | 'albumLoudness' | 'albumPeak'>;
+export type TrackArtwork = Pick<AudioAsset, 'coverVariants' | 'coverPalette'>;
+
+export const DEFAULT_TARGET_LUFS = -14;
+export const TARGET_LUFS_RANGE = { min: -23, max: -8 };
+const PEAK_CEILING_DBTP = -1; // Boosts stop short of pushing the true peak past this
+const MAX_GAIN_DB = 12;
 
 interface QueueItem {
   track: AudioAsset;
@@ -39,6 +49,14 @@ interface PlayerState {
   repeat: RepeatMode;
   crossfade: number;
   
+  // Loudness normalization
+  normalizationMode: NormalizationMode;
+  normalizationTarget: number; // LUFS
+  trackGainDb: number;         // Gain applied to the current track
+  
+  // Cover variants and palette of the current track (its release's when it has no cover of its own)
+  trackArtwork: TrackArtwork | null;
+  
   // Audio element
   audioElement: HTMLAudioElement | null;
   
@@ -67,6 +85,8 @@ interface PlayerState {
   toggleShuffle: () => void;
   toggleRepeat: () => void;
   setCrossfade: (seconds: number) => void;
+  setNormalizationMode: (mode: NormalizationMode) => void;
+  setNormalizationTarget: (lufs: number) => void;
   
   // Utilities
   setAudioIntensity: (intensity: number) => void;
@@ -89,6 +109,24 @@ const shuffleArray = <T,>(array: T[]): T[] => {
   return shuffled;
 };
 
+// Gain that brings a track (or its album) to the target loudness without clipping
+const normalizationGainDb = (
+  loudness: TrackLoudness | null,
+  mode: NormalizationMode,
+  target: number
+): number => {
+  if (mode === 'off' || !loudness) return 0;
+
+  const useAlbum = mode === 'album' && loudness.albumLoudness != null;
+  const integrated = useAlbum ? loudness.albumLoudness : loudness.loudness;
+  const peak = useAlbum ? loudness.albumPeak : loudness.truePeak;
+  if (integrated == null) return 0;
+
+  let gain = target - integrated;
+  if (peak != null) gain = Math.min(gain, PEAK_CEILING_DBTP - peak);
+  return Math.max(-MAX_GAIN_DB * 2, Math.min(MAX_GAIN_DB, gain));
+};
+
 export const PlayerProvider = ({ children }: { children: ReactNode }) => {
   const [currentTrack, setCurrentTrack] = useState<AudioAsset | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -115,6 +153,10 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
   const [shuffle, setShuffle] = useState(false);
   const [repeat, setRepeat] = useState<RepeatMode>('off');
   const [crossfade, setCrossfadeTime] = useState(0);
+  const [normalizationMode, setNormalizationMode] = useState<NormalizationMode>('track');
+  const [normalizationTarget, setNormalizationTargetLufs] = useState(DEFAULT_TARGET_LUFS);
+  const [trackLoudness, setTrackLoudness] = useState<TrackLoudness | null>(null);
+  const [trackArtwork, setTrackArtwork] = useState<TrackArtwork | null>(null);
   const [currentPlayId, setCurrentPlayId] = useState<string | null>(null);
   const [playDuration, setPlayDuration] = useState(0);
   const playStartTime = useRef<number>(0);
@@ -128,10 +170,14 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     const savedShuffle = localStorage.getItem('player_shuffle');
     const savedRepeat = localStorage.getItem('player_repeat');
     const savedCrossfade = localStorage.getItem('player_crossfade');
+    const savedNormalization = localStorage.getItem('player_normalization');
+    const savedTarget = localStorage.getItem('player_normalization_target');
     
     if (savedShuffle) setShuffle(savedShuffle === 'true');
     if (savedRepeat) setRepeat(savedRepeat as RepeatMode);
     if (savedCrossfade) setCrossfadeTime(parseInt(savedCrossfade, 10));
+    if (savedNormalization) setNormalizationMode(savedNormalization as NormalizationMode);
+    if (savedTarget) setNormalizationTargetLufs(parseFloat(savedTarget));
   }, []);
 
   // Save preferences
@@ -140,7 +186,57 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     localStorage.setItem('player_shuffle', String(shuffle));
     localStorage.setItem('player_repeat', repeat);
     localStorage.setItem('player_crossfade', String(crossfade));
-  }, [shuffle, repeat, crossfade]);
+    localStorage.setItem('player_normalization', normalizationMode);
+    localStorage.setItem('player_normalization_target', String(normalizationTarget));
+  }, [shuffle, repeat, crossfade, normalizationMode, normalizationTarget]);
+
+  // Loudness and artwork of the current track - from the asset, or fetched when the asset doesn't carry them
+  useEffect(() => {
+    if (!currentTrack) {
+      setTrackLoudness(null);
+      setTrackArtwork(null);
+      return;
+    }
+
+    const hasLoudness = currentTrack.loudness !== undefined;
+    const hasArtwork = currentTrack.coverPalette !== undefined;
+    setTrackLoudness(hasLoudness ? currentTrack : null);
+    setTrackArtwork(hasArtwork ? currentTrack : null);
+    if (hasLoudness && hasArtwork) return;
+
+    let cancelled = false;
+
+    fetch(`/api/tracks/${currentTrack.id}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (cancelled || !data?.track) return;
+        const { track } = data;
+        if (!hasLoudness) {
+          setTrackLoudness({
+            loudness: track.loudness,
+            truePeak: track.truePeak,
+            albumLoudness: track.release?.loudness ?? null,
+            albumPeak: track.release?.truePeak ?? null,
+          });
+        }
+        if (!hasArtwork) {
+          setTrackArtwork({
+            coverVariants: parseCoverVariants(track.coverVariants) ?? parseCoverVariants(track.release?.coverVariants),
+            coverPalette: parseCoverPalette(track.coverPalette) ?? parseCoverPalette(track.release?.coverPalette),
+          });
+        }
+      })
+      .catch(error => console.error('Failed to load track details:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentTrack]);
+
+  const trackGainDb = useMemo(
+    () => normalizationGainDb(trackLoudness, normalizationMode, normalizationTarget),
+    [trackLoudness, normalizationMode, normalizationTarget]
+  );
 
   // Record a play to the API
   const recordPlay = useCallback(async (completed = false) => {
@@ -413,6 +509,11 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     setCrossfadeTime(Math.max(0, Math.min(12, seconds)));
   }, []);
 
+  // Set normalization target level
+  const setNormalizationTarget = useCallback((lufs: number) => {
+    setNormalizationTargetLufs(Math.max(TARGET_LUFS_RANGE.min, Math.min(TARGET_LUFS_RANGE.max, lufs)));
+  }, []);
+
   const togglePlay = useCallback(() => {
     setIsPlaying((prev) => !prev);
   }, []);
@@ -438,6 +539,11 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
       repeat,
       crossfade,
       
+      normalizationMode,
+      normalizationTarget,
+      trackGainDb,
+      trackArtwork,
+      
       audioElement,
       currentPlayId,
       playDuration,
@@ -459,6 +565,8 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
       toggleShuffle,
       toggleRepeat,
       setCrossfade,
+      setNormalizationMode,
+      setNormalizationTarget,
       
       setAudioIntensity,
       setFrequencyData,
@@ -1,6 +1,7 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from "react";
+import type { CoverPalette } from "@/lib/artwork";
 
 export type ThemeMode = "dark" | "light" | "neon" | "sunset" | "ocean";
 
@@ -116,31 +117,64 @@ const THEMES: Record<ThemeMode, ThemeColors> = {
   },
 };
 
+// Swap the theme's highlight colors for the artwork's accent (surfaces and text stay put)
+const tintColors = (colors: ThemeColors, palette: CoverPalette): ThemeColors => ({
+  ...colors,
+  primary: palette.accent,
+  secondary: palette.dominant,
+  accent: palette.accent,
+  globe: {
+    ...colors.globe,
+    land: palette.accent,
+    grid: palette.dominant,
+    glow: palette.accent,
+  },
+});
+
 interface ThemeContextType {
   theme: ThemeMode;
   colors: ThemeColors;
   setTheme: (theme: ThemeMode) => void;
   themes: ThemeMode[];
+  // Tint to the current track's artwork
+  artworkTint: boolean;
+  setArtworkTint: (enabled: boolean) => void;
+  artworkPalette: CoverPalette | null;
+  setArtworkPalette: (palette: CoverPalette | null) => void;
 }
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
 export function ThemeProvider({ children }: { children: ReactNode }) {
   const [theme, setThemeState] = useState<ThemeMode>("dark");
+  const [artworkTint, setArtworkTintState] = useState(false);
+  const [artworkPalette, setArtworkPalette] = useState<CoverPalette | null>(null);
 
   useEffect(() => {
     const saved = localStorage.getItem("ixxxi-theme") as ThemeMode;
     if (saved && THEMES[saved]) {
       setThemeState(saved);
     }
+    setArtworkTintState(localStorage.getItem("ixxxi-theme-artwork-tint") === "true");
   }, []);
 
   const setTheme = (newTheme: ThemeMode) => {
     setThemeState(newTheme);
     localStorage.setItem("ixxxi-theme", newTheme);
-    
+  };
+
+  const setArtworkTint = (enabled: boolean) => {
+    setArtworkTintState(enabled);
+    localStorage.setItem("ixxxi-theme-artwork-tint", String(enabled));
+  };
+
+  const colors = useMemo(
+    () => (artworkTint && artworkPalette ? tintColors(THEMES[theme], artworkPalette) : THEMES[theme]),
+    [theme, artworkTint, artworkPalette]
+  );
+
+  useEffect(() => {
     // Apply CSS variables
-    const colors = THEMES[newTheme];
     document.documentElement.style.setProperty("--color-primary", colors.primary);
     document.documentElement.style.setProperty("--color-secondary", colors.secondary);
     document.documentElement.style.setProperty("--color-background", colors.background);
@@ -148,20 +182,19 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
     document.documentElement.style.setProperty("--color-text", colors.text);
     document.documentElement.style.setProperty("--color-text-muted", colors.textMuted);
     document.documentElement.style.setProperty("--color-border", colors.border);
-  };
-
-  useEffect(() => {
-    // Apply theme on mount
-    setTheme(theme);
-  }, []);
+  }, [colors]);
 
   return (
     <ThemeContext.Provider
       value={{
         theme,
-        colors: THEMES[theme],
+        colors,
         setTheme,
         themes: Object.keys(THEMES) as ThemeMode[],
+        artworkTint,
+        setArtworkTint,
+        artworkPalette,
+        setArtworkPalette,
       }}
     >
       {children}
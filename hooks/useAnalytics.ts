@@ -328,8 +328,8 @@ export function useAudienceInsights(artistId?: string) {
   };
 }
 
-// Platform Analytics Hook (Admin)
-export function usePlatformAnalytics(adminKey?: string) {
+// Platform Analytics Hook (Admin - authorized by the session cookie)
+export function usePlatformAnalytics() {
   const [analytics, setAnalytics] = useState<any>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -339,9 +339,7 @@ export function usePlatformAnalytics(adminKey?: string) {
     setError(null);
 
     try {
-      const response = await fetch(`/api/analytics/platform?period=${period}`, {
-        headers: adminKey ? { 'x-admin-key': adminKey } : {},
-      });
+      const response = await fetch(`/api/analytics/platform?period=${period}`);
       const data = await response.json();
 
       if (!response.ok) throw new Error(data.error);
@@ -353,7 +351,7 @@ export function usePlatformAnalytics(adminKey?: string) {
     } finally {
       setLoading(false);
     }
-  }, [adminKey]);
+  }, []);
 
   useEffect(() => {
     fetchAnalytics();
@@ -10,7 +10,17 @@ interface AudioAnalyzerState {
   highLevel: number;
 }
 
-export function useAudioAnalyzer(audioElement: HTMLAudioElement | null) {
+// Smoothing for gain changes between tracks (seconds)
+const GAIN_RAMP_SECONDS = 0.05;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Analyser for the visualizations. `gainDb` is the loudness normalization gain, applied by a
+ * GainNode at the head of the chain (source -> gain -> analyser -> destination) so any
+ * equalizer downstream sees normalized audio.
+ */
+export function useAudioAnalyzer(audioElement: HTMLAudioElement | null, gainDb: number = 0) {
   const [state, setState] = useState<AudioAnalyzerState>({
     intensity: 0,
     frequencyData: null,
@@ -22,6 +32,8 @@ export function useAudioAnalyzer(audioElement: HTMLAudioElement | null) {
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyzerRef = useRef<AnalyserNode | null>(null);
   const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const gainRef = useRef<GainNode | null>(null);
+  const gainDbRef = useRef(gainDb);
   const animationRef = useRef<number | null>(null);
   const connectedElementRef = useRef<HTMLAudioElement | null>(null);
 
@@ -96,9 +108,13 @@ export function useAudioAnalyzer(audioElement: HTMLAudioElement | null) {
         // Only create source if not already connected
         if (!sourceRef.current) {
           const source = audioContext.createMediaElementSource(audioElement);
-          source.connect(analyzer);
+          const gain = audioContext.createGain();
+          gain.gain.value = dbToGain(gainDbRef.current);
+          source.connect(gain);
+          gain.connect(analyzer);
           analyzer.connect(audioContext.destination);
           sourceRef.current = source;
+          gainRef.current = gain;
         }
 
         connectedElementRef.current = audioElement;
@@ -119,6 +135,16 @@ export function useAudioAnalyzer(audioElement: HTMLAudioElement | null) {
     };
   }, [audioElement]);
 
+  // Apply normalization gain changes (new track, mode or target)
+  useEffect(() => {
+    gainDbRef.current = gainDb;
+    const gain = gainRef.current;
+    const audioContext = audioContextRef.current;
+    if (!gain || !audioContext) return;
+
+    gain.gain.setTargetAtTime(dbToGain(gainDb), audioContext.currentTime, GAIN_RAMP_SECONDS);
+  }, [gainDb]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -267,11 +267,7 @@ export function useDownloads() {
       const response = await fetch('/api/download', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          walletAddress: publicKey.toString(),
-          trackId,
-          quality,
-        }),
+        body: JSON.stringify({ trackId, quality }),
       });
 
       const data = await response.json();
@@ -296,10 +292,7 @@ export function useDownloads() {
       await fetch('/api/download', {
         method: 'DELETE',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          walletAddress: publicKey.toString(),
-          downloadId,
-        }),
+        body: JSON.stringify({ downloadId }),
       });
     } catch (err: any) {
       setError(err.message);
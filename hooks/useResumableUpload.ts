@@ -0,0 +1,204 @@
+// hooks/useResumableUpload.ts
+// Resumable multipart uploads for large audio masters (see lib/uploads.ts)
+
+import { useState, useEffect, useCallback } from 'react';
+
+export interface UploadSessionSummary {
+  id: string;
+  trackId: string;
+  filename: string;
+  fileKey: string;
+  size: number;
+  partSize: number;
+  partCount: number;
+  uploadedBytes: number;
+  expiresAt: string;
+  track?: { id: string; title: string; ticker: string; genre?: string | null };
+}
+
+export interface ResumableTrackFields {
+  title: string;
+  ticker: string;
+  description?: string;
+  genre?: string;
+  region?: string;
+  gateType?: string;
+  gateTokenMint?: string;
+  gateTokenAmount?: string;
+  priceSOL?: string;
+  coverKey?: string;
+}
+
+interface PartUrl {
+  partNumber: number;
+  url: string;
+  size: number;
+}
+
+const CONCURRENCY = 3;
+const MAX_ATTEMPTS = 4;
+const PART_URL_BATCH = 20; // Part URLs expire after an hour - sign a few at a time
+
+// Identifies the same file when it's selected again after a refresh
+export function uploadFileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+// JSON request that throws on errors other than the statuses the caller handles
+async function request<T>(url: string, init?: RequestInit, allow: number[] = []): Promise<{ status: number; data: T }> {
+  const res = await fetch(url, init);
+  const data = await res.json();
+  if (!res.ok && !allow.includes(res.status)) {
+    throw new Error(data.error || 'Upload failed');
+  }
+  return { status: res.status, data };
+}
+
+// PUT one part straight to storage, reporting bytes sent
+function putPart(url: string, body: Blob, onProgress: (loaded: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onload = () => (xhr.status >= 200 && xhr.status < 300 ? resolve() : reject(new Error(`Part upload failed (${xhr.status})`)));
+    xhr.onerror = () => reject(new Error('Network error'));
+    xhr.send(body);
+  });
+}
+
+export function useResumableUpload() {
+  const [sessions, setSessions] = useState<UploadSessionSummary[]>([]);
+  const [available, setAvailable] = useState(false); // Server can take resumable uploads
+  const [progress, setProgress] = useState<number | null>(null); // 0-1 while uploading
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await fetch('/api/upload/sessions');
+      if (res.ok) {
+        const data = await res.json();
+        setSessions(data.sessions || []);
+        setAvailable(!!data.available);
+      }
+    } catch (err) {
+      console.error('Failed to load upload sessions:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Session started earlier for this exact file, if any
+  const findSession = useCallback((file: File) => {
+    const key = uploadFileKey(file);
+    return sessions.find(s => s.fileKey === key) || null;
+  }, [sessions]);
+
+  /**
+   * Upload `file`, resuming its session if one exists. Resolves with the track ID,
+   * or null when the server has no storage configured.
+   */
+  const upload = useCallback(async (file: File, fields: ResumableTrackFields): Promise<string | null> => {
+    let session = findSession(file);
+
+    if (!session) {
+      const created = await request<{ session: UploadSessionSummary }>('/api/upload/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...fields,
+          filename: file.name,
+          contentType: file.type,
+          size: file.size,
+          fileKey: uploadFileKey(file),
+        }),
+      }, [503]);
+      if (created.status === 503) return null;
+      session = created.data.session;
+    }
+
+    const { id: sessionId, partSize, trackId } = session;
+    setProgress(0);
+
+    try {
+      // Storage may have more parts than we last recorded - ask before sending anything
+      const state = await request<{ session: UploadSessionSummary; missingParts: number[] }>(
+        `/api/upload/sessions/${sessionId}`
+      );
+      let missing = state.data.missingParts;
+      let doneBytes = state.data.session.uploadedBytes;
+
+      // The complete call re-checks storage; a second round picks up anything that slipped
+      for (let round = 0; round < 2; round++) {
+        const inFlight = new Map<number, number>();
+        const report = () => {
+          const sending = Array.from(inFlight.values()).reduce((sum, n) => sum + n, 0);
+          setProgress(Math.min(1, (doneBytes + sending) / file.size));
+        };
+
+        for (let i = 0; i < missing.length; i += PART_URL_BATCH) {
+          const { data } = await request<{ parts: PartUrl[] }>(`/api/upload/sessions/${sessionId}/parts`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ partNumbers: missing.slice(i, i + PART_URL_BATCH) }),
+          });
+
+          const queue = [...data.parts];
+          const worker = async () => {
+            while (queue.length) {
+              const part = queue.shift()!;
+              const start = (part.partNumber - 1) * partSize;
+              const blob = file.slice(start, start + part.size);
+
+              for (let attempt = 1; ; attempt++) {
+                try {
+                  await putPart(part.url, blob, (loaded) => { inFlight.set(part.partNumber, loaded); report(); });
+                  break;
+                } catch (err) {
+                  if (attempt >= MAX_ATTEMPTS) throw err;
+                  await new Promise(r => setTimeout(r, 1000 * 2 ** attempt));
+                }
+              }
+
+              inFlight.delete(part.partNumber);
+              doneBytes += part.size;
+              report();
+            }
+          };
+          await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+        }
+
+        const completed = await request<{ missingParts?: number[] }>(
+          `/api/upload/sessions/${sessionId}/complete`,
+          { method: 'POST' },
+          [409]
+        );
+        if (completed.status !== 409) {
+          setProgress(1);
+          return trackId;
+        }
+        missing = completed.data.missingParts || [];
+      }
+
+      throw new Error('Upload incomplete - try again to resume');
+    } finally {
+      refresh();
+    }
+  }, [findSession, refresh]);
+
+  // Abort an unfinished upload and drop its placeholder track
+  const discard = useCallback(async (sessionId: string) => {
+    await fetch(`/api/upload/sessions/${sessionId}`, { method: 'DELETE' });
+    setSessions(prev => prev.filter(s => s.id !== sessionId));
+  }, []);
+
+  return {
+    available,
+    sessions,
+    progress,
+    findSession,
+    upload,
+    discard,
+    refresh,
+  };
+}
@@ -0,0 +1,276 @@
+// lib/accounts.ts
+// Account linking - multiple wallets per user (one primary) and merging duplicate accounts
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { revokeUserSessions } from '@/lib/session';
+
+export type MergeResult =
+  | { merged: true; targetId: string; moved: Record<string, number> }
+  | { merged: false; error: string };
+
+/**
+ * Resolve the user that owns a wallet - linked wallets first, then the legacy primary column
+ */
+export async function findUserByWallet(address: string) {
+  const linked = await prisma.userWallet.findUnique({
+    where: { address },
+    include: { user: { include: { artist: true } } },
+  });
+  if (linked) return linked.user;
+
+  return prisma.user.findUnique({
+    where: { walletAddress: address },
+    include: { artist: true },
+  });
+}
+
+/**
+ * Make sure a user's primary wallet has a UserWallet row (accounts created before linking existed)
+ */
+export async function ensurePrimaryWallet(userId: string, walletAddress: string): Promise<void> {
+  const existing = await prisma.userWallet.findUnique({ where: { address: walletAddress } });
+  if (existing) return;
+
+  const hasPrimary = await prisma.userWallet.count({ where: { userId, isPrimary: true } });
+
+  await prisma.userWallet.create({
+    data: { userId, address: walletAddress, isPrimary: hasPrimary === 0 },
+  }).catch(() => {}); // Lost a race with a concurrent request - the row exists
+}
+
+/**
+ * List a user's wallets, primary first
+ */
+export async function listUserWallets(userId: string) {
+  return prisma.userWallet.findMany({
+    where: { userId },
+    select: {
+      address: true,
+      isPrimary: true,
+      label: true,
+      verifiedAt: true,
+    },
+    orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Attach a verified wallet to a user (caller must have checked the signature)
+ */
+export async function linkWallet(userId: string, address: string, label?: string) {
+  return prisma.userWallet.create({
+    data: { userId, address, label, isPrimary: false },
+  });
+}
+
+/**
+ * Switch the primary wallet - keeps User.walletAddress in sync. An artist's payout wallet is
+ * pinned to the old address first, so it only ever changes through the payout wallet flow.
+ */
+export async function setPrimaryWallet(userId: string, address: string): Promise<boolean> {
+  const [wallet, user] = await Promise.all([
+    prisma.userWallet.findUnique({ where: { address } }),
+    prisma.user.findUnique({ where: { id: userId }, select: { walletAddress: true } }),
+  ]);
+  if (!wallet || wallet.userId !== userId || !user) return false;
+
+  await prisma.$transaction([
+    prisma.artist.updateMany({
+      where: { userId, wallet: null },
+      data: { wallet: user.walletAddress },
+    }),
+    prisma.userWallet.updateMany({
+      where: { userId, isPrimary: true },
+      data: { isPrimary: false },
+    }),
+    prisma.userWallet.update({
+      where: { id: wallet.id },
+      data: { isPrimary: true },
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { walletAddress: address },
+    }),
+  ]);
+
+  return true;
+}
+
+/**
+ * Remove a linked wallet. The primary and a still-custodied embedded wallet can't be removed.
+ */
+export async function unlinkWallet(userId: string, address: string): Promise<{ unlinked: boolean; error?: string }> {
+  const wallet = await prisma.userWallet.findUnique({ where: { address } });
+  if (!wallet || wallet.userId !== userId) {
+    return { unlinked: false, error: 'Wallet not linked to this account' };
+  }
+  if (wallet.isPrimary) {
+    return { unlinked: false, error: 'Choose another primary wallet first' };
+  }
+
+  const custodied = await prisma.embeddedWallet.count({
+    where: { userId, publicKey: address, status: 'active' },
+  });
+  if (custodied > 0) {
+    return { unlinked: false, error: 'Export and release your embedded wallet first' };
+  }
+
+  await prisma.userWallet.delete({ where: { id: wallet.id } });
+  return { unlinked: true };
+}
+
+/**
+ * Merge the source account into the target and delete the source.
+ * Rows with per-user unique constraints keep the target's copy on conflict.
+ */
+export async function mergeUsers(targetId: string, sourceId: string): Promise<MergeResult> {
+  if (targetId === sourceId) {
+    return { merged: false, error: 'Cannot merge an account into itself' };
+  }
+
+  const [target, source] = await Promise.all([
+    prisma.user.findUnique({ where: { id: targetId }, include: { artist: true, embeddedWallet: true } }),
+    prisma.user.findUnique({ where: { id: sourceId }, include: { artist: true, embeddedWallet: true } }),
+  ]);
+
+  if (!target || !source) {
+    return { merged: false, error: 'Account not found' };
+  }
+  if (target.artist && source.artist) {
+    return { merged: false, error: 'Both accounts have artist profiles - contact support to merge them' };
+  }
+  if (target.embeddedWallet && source.embeddedWallet) {
+    return { merged: false, error: 'Both accounts have embedded wallets - release one before merging' };
+  }
+
+  // Kill the source's sessions (including cached ones) before its rows move
+  await revokeUserSessions(sourceId);
+  await ensurePrimaryWallet(targetId, target.walletAddress);
+
+  const moved = await prisma.$transaction(async (tx) => {
+    const counts: Record<string, number> = {};
+    const fromSource = { userId: sourceId };
+    const toTarget = { userId: targetId };
+
+    // Listening history and content
+    counts.plays = (await tx.play.updateMany({ where: fromSource, data: toTarget })).count;
+    counts.playlists = (await tx.playlist.updateMany({ where: fromSource, data: toTarget })).count;
+    counts.purchases = (await tx.purchase.updateMany({ where: { buyerId: sourceId }, data: { buyerId: targetId } })).count;
+    counts.comments = (await tx.comment.updateMany({ where: fromSource, data: toTarget })).count;
+    counts.tips = (await tx.tip.updateMany({ where: { senderId: sourceId }, data: { senderId: targetId } })).count;
+    counts.pledges = (await tx.crowdfundPledge.updateMany({ where: fromSource, data: toTarget })).count;
+    counts.merchOrders = (await tx.merchOrder.updateMany({ where: fromSource, data: toTarget })).count;
+    counts.tickets = (await tx.ticket.updateMany({ where: fromSource, data: toTarget })).count;
+    counts.subscriptions = (await tx.subscription.updateMany({ where: fromSource, data: toTarget })).count;
+    counts.downloads = (await tx.download.updateMany({ where: fromSource, data: toTarget })).count;
+    counts.stories = (await tx.story.updateMany({ where: fromSource, data: toTarget })).count;
+    await tx.notification.updateMany({ where: fromSource, data: toTarget });
+    await tx.pushSubscription.updateMany({ where: fromSource, data: toTarget });
+    await tx.message.updateMany({ where: { senderId: sourceId }, data: { senderId: targetId } });
+    await tx.message.updateMany({ where: { recipientId: sourceId }, data: { recipientId: targetId } });
+
+    // Likes - unique per (track, user)
+    const targetLikes = await tx.like.findMany({ where: toTarget, select: { trackId: true } });
+    await tx.like.deleteMany({ where: { ...fromSource, trackId: { in: targetLikes.map(l => l.trackId) } } });
+    counts.likes = (await tx.like.updateMany({ where: fromSource, data: toTarget })).count;
+
+    // Stakes - unique per (track, user), combine amounts on conflict
+    const sourceStakes = await tx.stake.findMany({ where: fromSource });
+    for (const stake of sourceStakes) {
+      const existing = await tx.stake.findUnique({
+        where: { trackId_userId: { trackId: stake.trackId, userId: targetId } },
+      });
+      if (existing) {
+        await tx.stake.update({
+          where: { id: existing.id },
+          data: {
+            amount: { increment: stake.amount },
+            rewardsEarned: { increment: stake.rewardsEarned },
+            rewardsClaimed: { increment: stake.rewardsClaimed },
+          },
+        });
+        await tx.stake.delete({ where: { id: stake.id } });
+      } else {
+        await tx.stake.update({ where: { id: stake.id }, data: toTarget });
+      }
+    }
+    counts.stakes = sourceStakes.length;
+
+    // Follows - unique per pair, and nobody follows themselves
+    const [targetFollowing, targetFollowers] = await Promise.all([
+      tx.follow.findMany({ where: { followerId: targetId }, select: { followingId: true } }),
+      tx.follow.findMany({ where: { followingId: targetId }, select: { followerId: true } }),
+    ]);
+    await tx.follow.deleteMany({
+      where: {
+        followerId: sourceId,
+        followingId: { in: [targetId, ...targetFollowing.map(f => f.followingId)] },
+      },
+    });
+    await tx.follow.deleteMany({
+      where: {
+        followingId: sourceId,
+        followerId: { in: [targetId, ...targetFollowers.map(f => f.followerId)] },
+      },
+    });
+    counts.following = (await tx.follow.updateMany({ where: { followerId: sourceId }, data: { followerId: targetId } })).count;
+    counts.followers = (await tx.follow.updateMany({ where: { followingId: sourceId }, data: { followingId: targetId } })).count;
+
+    // Other per-user unique memberships - keep the target's row on conflict
+    const [conversations, collaborations, earlyAccess, storyViews, teams] = await Promise.all([
+      tx.conversationParticipant.findMany({ where: toTarget, select: { conversationId: true } }),
+      tx.playlistCollaborator.findMany({ where: toTarget, select: { playlistId: true } }),
+      tx.earlyAccess.findMany({ where: toTarget, select: { artistId: true } }),
+      tx.storyView.findMany({ where: { viewerId: targetId }, select: { storyId: true } }),
+      tx.artistTeamMember.findMany({ where: toTarget, select: { artistId: true } }),
+    ]);
+    await tx.conversationParticipant.deleteMany({ where: { ...fromSource, conversationId: { in: conversations.map(c => c.conversationId) } } });
+    await tx.conversationParticipant.updateMany({ where: fromSource, data: toTarget });
+    await tx.playlistCollaborator.deleteMany({ where: { ...fromSource, playlistId: { in: collaborations.map(c => c.playlistId) } } });
+    await tx.playlistCollaborator.updateMany({ where: fromSource, data: toTarget });
+    await tx.earlyAccess.deleteMany({ where: { ...fromSource, artistId: { in: earlyAccess.map(e => e.artistId) } } });
+    await tx.earlyAccess.updateMany({ where: fromSource, data: toTarget });
+    await tx.storyView.deleteMany({ where: { viewerId: sourceId, storyId: { in: storyViews.map(v => v.storyId) } } });
+    await tx.storyView.updateMany({ where: { viewerId: sourceId }, data: { viewerId: targetId } });
+    await tx.artistTeamMember.deleteMany({ where: { ...fromSource, artistId: { in: teams.map(t => t.artistId) } } });
+    await tx.artistTeamMember.updateMany({ where: fromSource, data: toTarget });
+
+    // Artist profile and custodied wallet move over whole - payouts stay on the source's wallet
+    if (source.artist) {
+      await tx.artist.update({
+        where: { id: source.artist.id },
+        data: { ...toTarget, ...(!source.artist.wallet && { wallet: source.walletAddress }) },
+      });
+    }
+    if (source.embeddedWallet) {
+      await tx.embeddedWallet.update({ where: { id: source.embeddedWallet.id }, data: toTarget });
+    }
+
+    // Wallets - the source's become secondary wallets of the target
+    const sourceWallets = await tx.userWallet.findMany({ where: fromSource, select: { address: true } });
+    await tx.userWallet.updateMany({ where: fromSource, data: { userId: targetId, isPrimary: false } });
+    if (!sourceWallets.some(w => w.address === source.walletAddress)) {
+      await tx.userWallet.create({ data: { userId: targetId, address: source.walletAddress, isPrimary: false } });
+    }
+    counts.wallets = Math.max(sourceWallets.length, 1);
+
+    // Source is now empty - delete it, then take over its email and stats
+    await tx.user.delete({ where: { id: sourceId } });
+
+    const data: Prisma.UserUpdateInput = {
+      totalPlays: { increment: source.totalPlays },
+      totalStaked: { increment: source.totalStaked },
+    };
+    if (!target.email && source.email) data.email = source.email;
+    if (source.artist && target.role === 'listener') data.role = 'artist';
+
+    await tx.user.update({ where: { id: targetId }, data });
+
+    return counts;
+  }, { timeout: 30000 });
+
+  console.log(`[ACCOUNTS] Merged ${sourceId} into ${targetId}`);
+
+  return { merged: true, targetId, moved };
+}
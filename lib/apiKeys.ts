@@ -0,0 +1,172 @@
+// lib/apiKeys.ts
+// Developer API keys - scoped, stored hashed, rate limited per key in middleware.ts
+//
+// Key format: ixk_<keyId>_<secret>. keyId is public (shown in the dashboard, used as the
+// rate limit bucket once the whole key has verified); only the SHA-256 of the whole key is stored.
+
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getRequestIP } from '@/lib/session';
+
+export const API_KEY_SCOPES = [
+  'read:catalog',     // Search, tracks, radio
+  'read:analytics',   // Artist analytics (artists and their team)
+  'write:playlists',  // Create and edit the key owner's playlists
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const API_KEY_HEADER = 'x-api-key';
+export const MAX_KEYS_PER_USER = 10;
+export const DEFAULT_RATE_LIMIT = 60;   // Requests per minute
+export const MAX_RATE_LIMIT = 600;
+
+const KEY_PATTERN = /^ixk_([a-f0-9]{12})_[a-f0-9]{48}$/;
+const TOUCH_INTERVAL_MS = 60 * 1000;   // Only record last use once a minute per key
+
+function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new key - the plaintext is only ever returned once, at creation/rotation
+ */
+export function generateApiKey(): { key: string; keyId: string; keyHash: string } {
+  const keyId = crypto.randomBytes(6).toString('hex');
+  const key = `ixk_${keyId}_${crypto.randomBytes(24).toString('hex')}`;
+  return { key, keyId, keyHash: hashApiKey(key) };
+}
+
+/**
+ * Read an API key from the X-API-Key header or an "ixk_" Bearer token
+ */
+export function readApiKey(request: NextRequest): string | null {
+  const header = request.headers.get(API_KEY_HEADER);
+  if (header) return header.trim();
+
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ixk_')) {
+    return authHeader.slice(7).trim();
+  }
+
+  return null;
+}
+
+export function hasApiKey(request: NextRequest): boolean {
+  return readApiKey(request) !== null;
+}
+
+/**
+ * Parse the JSON-encoded scopes column
+ */
+export function parseScopes(value: string | null): ApiKeyScope[] {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed)
+      ? parsed.filter((s): s is ApiKeyScope => (API_KEY_SCOPES as readonly string[]).includes(s))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Validate a scopes list from a request body
+ */
+export function validateScopes(value: unknown): ApiKeyScope[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const valid = value.every(s => (API_KEY_SCOPES as readonly string[]).includes(s));
+  return valid ? Array.from(new Set(value as ApiKeyScope[])) : null;
+}
+
+export function clampRateLimit(value: unknown): number {
+  const limit = parseInt(String(value ?? DEFAULT_RATE_LIMIT));
+  if (isNaN(limit)) return DEFAULT_RATE_LIMIT;
+  return Math.min(Math.max(limit, 1), MAX_RATE_LIMIT);
+}
+
+function isActive(key: { revokedAt: Date | null; expiresAt: Date | null }): boolean {
+  return !key.revokedAt && (!key.expiresAt || key.expiresAt > new Date());
+}
+
+/**
+ * Resolve the key on a request to its owner. Records the last-used audit fields.
+ */
+export async function authenticateApiKey(request: NextRequest) {
+  const key = readApiKey(request);
+  if (!key || !KEY_PATTERN.test(key)) return null;
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: { user: { include: { artist: true } } },
+  });
+
+  if (!apiKey || !isActive(apiKey)) return null;
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: {
+        lastUsedAt: new Date(),
+        lastUsedIp: getRequestIP(request),
+        lastUsedPath: `${request.method} ${request.nextUrl.pathname}`.substring(0, 200),
+      },
+    }).catch(() => {}); // Audit is best-effort - never fail the request on it
+  }
+
+  return {
+    id: apiKey.id,
+    keyId: apiKey.keyId,
+    scopes: parseScopes(apiKey.scopes),
+    user: apiKey.user,
+  };
+}
+
+/**
+ * Rate limit and status for a key's SHA-256 - looked up by middleware.ts through /api/developer/keys/limit,
+ * so only callers holding the whole key are charged to its bucket
+ */
+export async function getApiKeyLimit(keyHash: string): Promise<{ active: boolean; rateLimit: number }> {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash },
+    select: { rateLimit: true, revokedAt: true, expiresAt: true },
+  });
+
+  if (!apiKey) return { active: false, rateLimit: 0 };
+  return { active: isActive(apiKey), rateLimit: apiKey.rateLimit };
+}
+
+/**
+ * Public view of a key - never includes the hash
+ */
+export function formatApiKey(apiKey: {
+  id: string;
+  name: string;
+  keyId: string;
+  scopes: string;
+  rateLimit: number;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  lastUsedPath: string | null;
+  expiresAt: Date | null;
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: `ixk_${apiKey.keyId}_`,
+    scopes: parseScopes(apiKey.scopes),
+    rateLimit: apiKey.rateLimit,
+    status: apiKey.revokedAt ? 'revoked' : isActive(apiKey) ? 'active' : 'expired',
+    lastUsed: apiKey.lastUsedAt
+      ? { at: apiKey.lastUsedAt, ip: apiKey.lastUsedIp, path: apiKey.lastUsedPath }
+      : null,
+    expiresAt: apiKey.expiresAt,
+    rotatedAt: apiKey.rotatedAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
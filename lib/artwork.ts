@@ -0,0 +1,72 @@
+// lib/artwork.ts
+// Cover art variants and palette - shared by the API and the client (no server imports)
+//
+// Track.coverVariants / Release.coverVariants hold the resized WebP and AVIF renders,
+// coverPalette the colors extracted from the artwork (see lib/media/artwork.ts).
+
+export type ArtworkFormat = 'avif' | 'webp';
+
+export const ARTWORK_SIZES = [64, 160, 320, 640, 1200];
+export const ARTWORK_FORMATS: ArtworkFormat[] = ['avif', 'webp'];
+
+export interface CoverVariants {
+  prefix: string;                                  // Storage key prefix - {prefix}/{size}.{format}
+  sizes: number[];                                 // Rendered sizes (never larger than the source)
+  urls: Record<ArtworkFormat, Record<string, string>>; // format -> size -> URL
+}
+
+export interface CoverPalette {
+  dominant: string; // Most common color, #rrggbb
+  accent: string;   // Most vivid color that isn't near-black or near-white
+  colors: string[]; // Up to 5 colors, most common first
+}
+
+function parseJson<T>(value: string | null | undefined): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse Track.coverVariants / Release.coverVariants
+ */
+export function parseCoverVariants(value: string | null | undefined): CoverVariants | null {
+  const variants = parseJson<CoverVariants>(value);
+  return variants?.sizes?.length && variants.urls ? variants : null;
+}
+
+/**
+ * Parse Track.coverPalette / Release.coverPalette
+ */
+export function parseCoverPalette(value: string | null | undefined): CoverPalette | null {
+  const palette = parseJson<CoverPalette>(value);
+  return palette?.dominant && palette.accent ? palette : null;
+}
+
+/**
+ * Smallest variant covering `size` CSS pixels (the largest rendered if none does)
+ */
+export function pickCoverUrl(
+  variants: CoverVariants | null | undefined,
+  size: number,
+  format: ArtworkFormat = 'webp'
+): string | null {
+  if (!variants) return null;
+  const sizes = [...variants.sizes].sort((a, b) => a - b);
+  const chosen = sizes.find(s => s >= size) ?? sizes[sizes.length - 1];
+  return variants.urls[format]?.[chosen] ?? null;
+}
+
+/**
+ * srcset of every rendered size in one format, for <source type="image/avif|webp">
+ */
+export function coverSrcSet(variants: CoverVariants | null | undefined, format: ArtworkFormat): string | undefined {
+  if (!variants) return undefined;
+  const entries = variants.sizes
+    .filter(size => variants.urls[format]?.[size])
+    .map(size => `${variants.urls[format][size]} ${size}w`);
+  return entries.length ? entries.join(', ') : undefined;
+}
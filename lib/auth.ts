@@ -2,18 +2,49 @@
 // Shared authentication utilities
 
 import crypto from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import { prisma } from '@/lib/prisma';
+import { stateStore } from '@/lib/cache';
 
-// In production, use Redis for code storage
-// This is a simple in-memory store for development
-const verificationCodes = new Map<string, { 
-  code: string; 
-  expiresAt: number; 
+// ============ EMAIL VERIFICATION CODES ============
+// Codes live in Redis so they survive restarts and work across instances.
+// Only an HMAC of each code is stored; failed guesses are counted per email and per IP.
+
+const CODE_TTL_SECONDS = 10 * 60;        // Codes valid for 10 minutes
+const RESEND_COOLDOWN_SECONDS = 60;      // One code per email per minute
+const FAILURE_WINDOW_SECONDS = 15 * 60;  // Failed attempts counted over 15 minutes
+const LOCKOUT_SECONDS = 15 * 60;         // Lockout duration once the limit is hit
+const MAX_FAILURES_PER_EMAIL = 5;
+const MAX_FAILURES_PER_IP = 20;
+
+interface StoredCode {
+  codeHash: string;
   action: string;
-}>();
+  expiresAt: number;
+}
+
+interface Lockout {
+  until: number;
+}
+
+export type CodeCheckResult =
+  | { valid: true; action: string }
+  | { valid: false; error: string; status: number; retryAfter?: number };
 
-// Generate random 6-digit code
+const CODE_KEYS = {
+  code: (emailHash: string) => `authcode:${emailHash}`,
+  cooldown: (emailHash: string) => `authcode:cooldown:${emailHash}`,
+  emailFailures: (emailHash: string) => `authcode:fail:email:${emailHash}`,
+  ipFailures: (ip: string) => `authcode:fail:ip:${ip}`,
+  emailLock: (emailHash: string) => `authcode:lock:email:${emailHash}`,
+  ipLock: (ip: string) => `authcode:lock:ip:${ip}`,
+};
+
+// Generate a random 6-digit code from a CSPRNG
 export function generateVerificationCode(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
+  return crypto.randomInt(100000, 1000000).toString();
 }
 
 // Hash email for privacy in logs
@@ -21,31 +52,232 @@ export function hashEmail(email: string): string {
   return crypto.createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 16);
 }
 
-// Store a verification code
-export function storeVerificationCode(email: string, code: string, action: string): void {
-  verificationCodes.set(email, {
-    code,
-    expiresAt: Date.now() + 10 * 60 * 1000, // 10 minutes
+function getCodeSecret(): string {
+  const secret = process.env.AUTH_CODE_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('AUTH_CODE_SECRET is not configured');
+    }
+    return 'dev-auth-code-secret-change-in-prod';
+  }
+  return secret;
+}
+
+// Codes are stored as an HMAC bound to the email they were issued for
+function hashVerificationCode(email: string, code: string): string {
+  return crypto.createHmac('sha256', getCodeSecret()).update(`${email.toLowerCase()}:${code}`).digest('hex');
+}
+
+function secondsUntil(timestamp: number): number {
+  return Math.max(1, Math.ceil((timestamp - Date.now()) / 1000));
+}
+
+async function getLockout(emailHash: string, ip: string | null): Promise<number | null> {
+  const [emailLock, ipLock] = await Promise.all([
+    stateStore.get<Lockout>(CODE_KEYS.emailLock(emailHash)),
+    ip ? stateStore.get<Lockout>(CODE_KEYS.ipLock(ip)) : Promise.resolve(null),
+  ]);
+
+  const until = Math.max(emailLock?.until ?? 0, ipLock?.until ?? 0);
+  return until > Date.now() ? until : null;
+}
+
+// Check whether a new code may be sent (resend cooldown + lockout)
+export async function canSendVerificationCode(
+  email: string,
+  ip: string | null
+): Promise<{ allowed: boolean; retryAfter?: number }> {
+  const emailHash = hashEmail(email);
+
+  const lockedUntil = await getLockout(emailHash, ip);
+  if (lockedUntil) {
+    return { allowed: false, retryAfter: secondsUntil(lockedUntil) };
+  }
+
+  const cooldown = await stateStore.get<Lockout>(CODE_KEYS.cooldown(emailHash));
+  if (cooldown && cooldown.until > Date.now()) {
+    return { allowed: false, retryAfter: secondsUntil(cooldown.until) };
+  }
+
+  return { allowed: true };
+}
+
+// Store a verification code (replaces any previous code for this email)
+export async function storeVerificationCode(email: string, code: string, action: string): Promise<void> {
+  const emailHash = hashEmail(email);
+  const record: StoredCode = {
+    codeHash: hashVerificationCode(email, code),
     action,
-  });
+    expiresAt: Date.now() + CODE_TTL_SECONDS * 1000,
+  };
+
+  const stored = await stateStore.set(CODE_KEYS.code(emailHash), record, CODE_TTL_SECONDS);
+  if (!stored) {
+    throw new Error('Verification code store unavailable');
+  }
+
+  await stateStore.set(
+    CODE_KEYS.cooldown(emailHash),
+    { until: Date.now() + RESEND_COOLDOWN_SECONDS * 1000 },
+    RESEND_COOLDOWN_SECONDS
+  );
+}
+
+// Record a failed guess and lock out the email and/or IP once over the limit
+async function recordFailedAttempt(emailHash: string, ip: string | null): Promise<boolean> {
+  const [emailFailures, ipFailures] = await Promise.all([
+    stateStore.incr(CODE_KEYS.emailFailures(emailHash), FAILURE_WINDOW_SECONDS),
+    ip ? stateStore.incr(CODE_KEYS.ipFailures(ip), FAILURE_WINDOW_SECONDS) : Promise.resolve(0),
+  ]);
+
+  const lock: Lockout = { until: Date.now() + LOCKOUT_SECONDS * 1000 };
+  let locked = false;
+
+  if (emailFailures >= MAX_FAILURES_PER_EMAIL) {
+    await stateStore.set(CODE_KEYS.emailLock(emailHash), lock, LOCKOUT_SECONDS);
+    // Burn the outstanding code so the lockout can't be waited out with it
+    await stateStore.del(CODE_KEYS.code(emailHash));
+    await stateStore.del(CODE_KEYS.emailFailures(emailHash));
+    locked = true;
+  }
+
+  if (ip && ipFailures >= MAX_FAILURES_PER_IP) {
+    await stateStore.set(CODE_KEYS.ipLock(ip), lock, LOCKOUT_SECONDS);
+    await stateStore.del(CODE_KEYS.ipFailures(ip));
+    locked = true;
+  }
+
+  return locked;
+}
+
+// Check a submitted code - single use, attempt-limited
+export async function checkVerificationCode(
+  email: string,
+  code: string,
+  ip: string | null
+): Promise<CodeCheckResult> {
+  const emailHash = hashEmail(email);
+
+  const lockedUntil = await getLockout(emailHash, ip);
+  if (lockedUntil) {
+    return {
+      valid: false,
+      error: 'Too many failed attempts. Please try again later.',
+      status: 429,
+      retryAfter: secondsUntil(lockedUntil),
+    };
+  }
+
+  const stored = await stateStore.get<StoredCode>(CODE_KEYS.code(emailHash));
+  if (!stored || stored.expiresAt < Date.now()) {
+    return { valid: false, error: 'Code expired or not found. Please request a new one.', status: 400 };
+  }
+
+  const expected = Buffer.from(stored.codeHash, 'hex');
+  const actual = Buffer.from(hashVerificationCode(email, String(code)), 'hex');
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    const locked = await recordFailedAttempt(emailHash, ip);
+    return locked
+      ? { valid: false, error: 'Too many failed attempts. Please try again later.', status: 429, retryAfter: LOCKOUT_SECONDS }
+      : { valid: false, error: 'Invalid code', status: 400 };
+  }
+
+  // Success - codes are single use
+  await Promise.all([
+    stateStore.del(CODE_KEYS.code(emailHash)),
+    stateStore.del(CODE_KEYS.emailFailures(emailHash)),
+  ]);
+
+  return { valid: true, action: stored.action };
 }
 
-// Get a verification code
-export function getVerificationCode(email: string): { code: string; expiresAt: number; action: string } | undefined {
-  return verificationCodes.get(email);
+// ============ SIGN-IN WITH SOLANA ============
+
+const SIWS_DOMAIN = process.env.NEXT_PUBLIC_APP_DOMAIN || 'ixxxi.io';
+const NONCE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// A challenge signed for one purpose can't be replayed for another
+export type WalletNoncePurpose = 'signin' | 'link';
+
+const SIWS_STATEMENTS: Record<WalletNoncePurpose, string> = {
+  signin: 'Sign in to IXXXI.',
+  link: 'Link this wallet to your IXXXI account.',
+};
+
+// Build the human-readable message the wallet is asked to sign
+export function buildSignInMessage(
+  walletAddress: string,
+  nonce: string,
+  issuedAt: Date,
+  expiresAt: Date,
+  purpose: WalletNoncePurpose = 'signin'
+): string {
+  return [
+    `${SIWS_DOMAIN} wants you to sign in with your Solana account:`,
+    walletAddress,
+    '',
+    `${SIWS_STATEMENTS[purpose]} This request will not trigger a transaction or cost any fees.`,
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expiresAt.toISOString()}`,
+  ].join('\n');
 }
 
-// Delete a verification code
-export function deleteVerificationCode(email: string): void {
-  verificationCodes.delete(email);
+// Verify an ed25519 signature produced by a Solana wallet
+export function verifyWalletSignature(walletAddress: string, message: string, signature: string): boolean {
+  try {
+    const publicKey = new PublicKey(walletAddress);
+    const messageBytes = new TextEncoder().encode(message);
+    const signatureBytes = bs58.decode(signature);
+
+    return nacl.sign.detached.verify(messageBytes, signatureBytes, publicKey.toBytes());
+  } catch {
+    return false;
+  }
 }
 
-// Clean up expired codes periodically
-export function cleanupExpiredCodes(): void {
-  const now = Date.now();
-  for (const [email, data] of verificationCodes.entries()) {
-    if (now > data.expiresAt) {
-      verificationCodes.delete(email);
-    }
+// Issue a single-use sign-in challenge for a wallet
+export async function createWalletNonce(
+  walletAddress: string,
+  purpose: WalletNoncePurpose = 'signin'
+): Promise<{ nonce: string; message: string; expiresAt: Date }> {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + NONCE_TTL_MS);
+  const message = buildSignInMessage(walletAddress, nonce, issuedAt, expiresAt, purpose);
+
+  await prisma.authNonce.create({
+    data: { walletAddress, nonce, message, purpose, expiresAt },
+  });
+
+  return { nonce, message, expiresAt };
+}
+
+// Consume a challenge - returns the signed message if the nonce is valid for this wallet
+export async function consumeWalletNonce(
+  walletAddress: string,
+  nonce: string,
+  purpose: WalletNoncePurpose = 'signin'
+): Promise<string | null> {
+  const record = await prisma.authNonce.findUnique({ where: { nonce } });
+
+  if (
+    !record ||
+    record.walletAddress !== walletAddress ||
+    record.purpose !== purpose ||
+    record.usedAt ||
+    record.expiresAt < new Date()
+  ) {
+    return null;
   }
+
+  // Mark used atomically so a replayed signature can't win a race
+  const { count } = await prisma.authNonce.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return count === 1 ? record.message : null;
 }
@@ -0,0 +1,292 @@
+// lib/authz.ts
+// Authorization guards - roles, artist ownership and team permissions on top of session identity
+//
+// Usage in a route:
+//   const auth = await requireArtistOwner(request, 'event', eventId);
+//   if (!auth.ok) return auth.response;
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionUser, unauthorized, SessionUser } from '@/lib/session';
+import { ApiKeyScope, authenticateApiKey, hasApiKey } from '@/lib/apiKeys';
+import { isTwoFactorEnabled, notifySecurityEvent, verifySecondFactor } from '@/lib/twoFactor';
+
+export type UserRole = 'listener' | 'artist' | 'admin';
+
+// What a team member can be allowed to manage on an artist's behalf
+export const TEAM_PERMISSIONS = [
+  'profile',    // Edit artist profile
+  'catalog',    // Tracks and uploads
+  'releases',   // Create/schedule/publish releases
+  'events',     // Events, ticket tiers, check-in
+  'merch',      // Merch items, variants, orders
+  'crowdfund',  // Campaigns and tiers
+  'analytics',  // Dashboard and analytics
+  'finance',    // Revenue and withdrawal history (withdrawing stays owner-only)
+  'team',       // Invite and manage other team members
+] as const;
+
+export type TeamPermission = typeof TEAM_PERMISSIONS[number];
+
+export type ArtistResourceType = 'artist' | 'track' | 'release' | 'event' | 'merch' | 'campaign';
+
+export type AccessLevel = 'owner' | 'team' | 'admin';
+
+export type GuardResult<T> = ({ ok: true } & T) | { ok: false; response: NextResponse };
+
+export interface ArtistAccess {
+  user: SessionUser;
+  artistId: string;
+  access: AccessLevel;
+}
+
+export interface ApiCaller {
+  user: SessionUser;
+  apiKey: { id: string; keyId: string; scopes: ApiKeyScope[] } | null;
+}
+
+const ROLE_RANK: Record<UserRole, number> = {
+  listener: 0,
+  artist: 1,
+  admin: 2,
+};
+
+// Permission implied by each resource type when a route doesn't name one
+const RESOURCE_PERMISSION: Record<ArtistResourceType, TeamPermission> = {
+  artist: 'profile',
+  track: 'catalog',
+  release: 'releases',
+  event: 'events',
+  merch: 'merch',
+  campaign: 'crowdfund',
+};
+
+/**
+ * Standard 403 response
+ */
+export function forbidden(message: string = 'Not authorized'): NextResponse {
+  return NextResponse.json({ error: message }, { status: 403 });
+}
+
+function deny(response: NextResponse): { ok: false; response: NextResponse } {
+  return { ok: false, response };
+}
+
+/**
+ * Parse the JSON-encoded permissions column of a team membership
+ */
+export function parseTeamPermissions(value: string | null): TeamPermission[] {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed)
+      ? parsed.filter((p): p is TeamPermission => (TEAM_PERMISSIONS as readonly string[]).includes(p))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Require a signed-in user
+ */
+export async function requireUser(request: NextRequest): Promise<GuardResult<{ user: SessionUser }>> {
+  const user = await getSessionUser(request);
+  if (!user) return deny(unauthorized());
+  return { ok: true, user };
+}
+
+/**
+ * Require a minimum role (listener < artist < admin)
+ */
+export async function requireRole(
+  request: NextRequest,
+  role: UserRole
+): Promise<GuardResult<{ user: SessionUser }>> {
+  const user = await getSessionUser(request);
+  if (!user) return deny(unauthorized());
+
+  const rank = ROLE_RANK[user.role as UserRole] ?? 0;
+  if (rank < ROLE_RANK[role]) {
+    return deny(forbidden(role === 'admin' ? 'Admin access required' : `Must be an ${role}`));
+  }
+
+  return { ok: true, user };
+}
+
+/**
+ * Require the caller's own artist profile (owner-only actions like withdrawals)
+ */
+export async function requireArtist(request: NextRequest): Promise<GuardResult<ArtistAccess>> {
+  const user = await getSessionUser(request);
+  if (!user) return deny(unauthorized());
+
+  if (!user.artist) {
+    return deny(forbidden('Must be an artist'));
+  }
+
+  return { ok: true, user, artistId: user.artist.id, access: 'owner' };
+}
+
+/**
+ * Check an already-identified user (session or API key owner) against an artist
+ */
+export async function checkArtistAccess(
+  user: SessionUser,
+  artistId: string,
+  permission: TeamPermission
+): Promise<GuardResult<ArtistAccess>> {
+  if (user.artist?.id === artistId) {
+    return { ok: true, user, artistId, access: 'owner' };
+  }
+
+  if (user.role === 'admin') {
+    const exists = await prisma.artist.count({ where: { id: artistId } });
+    if (!exists) {
+      return deny(NextResponse.json({ error: 'Artist not found' }, { status: 404 }));
+    }
+    return { ok: true, user, artistId, access: 'admin' };
+  }
+
+  const membership = await prisma.artistTeamMember.findUnique({
+    where: { artistId_userId: { artistId, userId: user.id } },
+  });
+
+  if (membership?.acceptedAt && parseTeamPermissions(membership.permissions).includes(permission)) {
+    return { ok: true, user, artistId, access: 'team' };
+  }
+
+  return deny(forbidden());
+}
+
+/**
+ * Require permission to act for an artist - as its owner, a team member holding
+ * the permission, or an admin. Defaults to the caller's own artist profile.
+ */
+export async function requireArtistAccess(
+  request: NextRequest,
+  artistId: string | null | undefined,
+  permission: TeamPermission
+): Promise<GuardResult<ArtistAccess>> {
+  const user = await getSessionUser(request);
+  if (!user) return deny(unauthorized());
+
+  const targetId = artistId || user.artist?.id;
+  if (!targetId) {
+    return deny(forbidden('Must be an artist'));
+  }
+
+  return checkArtistAccess(user, targetId, permission);
+}
+
+/**
+ * Look up which artist owns a resource
+ */
+export async function getResourceArtistId(type: ArtistResourceType, id: string): Promise<string | null> {
+  const select = { artistId: true };
+
+  switch (type) {
+    case 'artist':
+      return (await prisma.artist.findUnique({ where: { id }, select: { id: true } }))?.id ?? null;
+    case 'track':
+      return (await prisma.track.findUnique({ where: { id }, select }))?.artistId ?? null;
+    case 'release':
+      return (await prisma.release.findUnique({ where: { id }, select }))?.artistId ?? null;
+    case 'event':
+      return (await prisma.event.findUnique({ where: { id }, select }))?.artistId ?? null;
+    case 'merch':
+      return (await prisma.merchItem.findUnique({ where: { id }, select }))?.artistId ?? null;
+    case 'campaign':
+      return (await prisma.crowdfundCampaign.findUnique({ where: { id }, select }))?.artistId ?? null;
+  }
+}
+
+/**
+ * Require access to the artist that owns a resource (release, event, merch item, ...).
+ * The permission defaults to the one matching the resource type.
+ */
+export async function requireArtistOwner(
+  request: NextRequest,
+  type: ArtistResourceType,
+  resourceId: string,
+  permission: TeamPermission = RESOURCE_PERMISSION[type]
+): Promise<GuardResult<ArtistAccess>> {
+  const user = await getSessionUser(request);
+  if (!user) return deny(unauthorized());
+
+  const artistId = await getResourceArtistId(type, resourceId);
+  if (!artistId) {
+    const label = type.charAt(0).toUpperCase() + type.slice(1);
+    return deny(NextResponse.json({ error: `${label} not found` }, { status: 404 }));
+  }
+
+  return checkArtistAccess(user, artistId, permission);
+}
+
+/**
+ * Require a caller for a developer-facing route: an API key holding the scope,
+ * or a signed-in user (sessions carry every scope)
+ */
+export async function requireScope(
+  request: NextRequest,
+  scope: ApiKeyScope
+): Promise<GuardResult<ApiCaller>> {
+  if (hasApiKey(request)) {
+    const apiKey = await authenticateApiKey(request);
+    if (!apiKey) return deny(unauthorized('Invalid or revoked API key'));
+
+    if (!apiKey.scopes.includes(scope)) {
+      return deny(forbidden(`API key is missing the ${scope} scope`));
+    }
+
+    const { user, ...key } = apiKey;
+    return { ok: true, user, apiKey: key };
+  }
+
+  const user = await getSessionUser(request);
+  if (!user) return deny(unauthorized());
+  return { ok: true, user, apiKey: null };
+}
+
+/**
+ * Require a fresh second factor (TOTP or recovery code) for a step-up action.
+ * Responds with twoFactorRequired so clients know to prompt for a code or enroll.
+ */
+export async function requireSecondFactor(
+  user: { id: string; email: string | null },
+  code: string | undefined
+): Promise<GuardResult<{ method: 'totp' | 'recovery' }>> {
+  if (!(await isTwoFactorEnabled(user.id))) {
+    return deny(NextResponse.json({
+      error: 'Two-factor authentication must be enabled for this action',
+      twoFactorRequired: true,
+      enrolled: false,
+    }, { status: 403 }));
+  }
+
+  if (!code) {
+    return deny(NextResponse.json({
+      error: 'Two-factor code required',
+      twoFactorRequired: true,
+      enrolled: true,
+    }, { status: 403 }));
+  }
+
+  const result = await verifySecondFactor(user.id, code);
+  if (!result.valid) {
+    return deny(NextResponse.json({
+      error: result.error,
+      twoFactorRequired: true,
+      enrolled: true,
+      ...(result.retryAfter && { retryAfter: result.retryAfter }),
+    }, { status: result.retryAfter ? 429 : 401 }));
+  }
+
+  if (result.method === 'recovery') {
+    await notifySecurityEvent(user, {
+      title: 'Recovery code used',
+      message: `A two-factor recovery code was used on your account. ${result.recoveryCodesRemaining} recovery codes remain.`,
+    });
+  }
+
+  return { ok: true, method: result.method };
+}
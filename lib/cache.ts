@@ -147,6 +147,145 @@ export const cache = {
       return 0;
     }
   },
+
+  // Add to a counter atomically, returning the new total (the TTL is set when it's created)
+  async incrBy(key: string, amount: number, ttl?: number): Promise<number> {
+    const client = getRedis();
+    if (!client) return 0;
+
+    try {
+      const value = await client.incrby(key, amount);
+      if (ttl && value === amount) {
+        await client.expire(key, ttl);
+      }
+      return value;
+    } catch (err) {
+      console.error('Cache incrBy error:', err);
+      return 0;
+    }
+  },
+
+  // Reset a key's TTL
+  async expire(key: string, ttl: number): Promise<boolean> {
+    const client = getRedis();
+    if (!client) return false;
+
+    try {
+      return (await client.expire(key, ttl)) === 1;
+    } catch (err) {
+      console.error('Cache expire error:', err);
+      return false;
+    }
+  },
+
+  // Append to a list, keeping only the newest maxLength entries
+  async push(key: string, value: unknown, maxLength: number, ttl: number): Promise<boolean> {
+    const client = getRedis();
+    if (!client) return false;
+
+    try {
+      await client
+        .multi()
+        .rpush(key, JSON.stringify(value))
+        .ltrim(key, -maxLength, -1)
+        .expire(key, ttl)
+        .exec();
+      return true;
+    } catch (err) {
+      console.error('Cache push error:', err);
+      return false;
+    }
+  },
+
+  // Read a whole list (oldest first)
+  async list<T>(key: string): Promise<T[]> {
+    const client = getRedis();
+    if (!client) return [];
+
+    try {
+      const values = await client.lrange(key, 0, -1);
+      return values.map(value => JSON.parse(value));
+    } catch (err) {
+      console.error('Cache list error:', err);
+      return [];
+    }
+  },
+};
+
+// State that has to be kept (not just cached): Redis, or process memory in development without
+// REDIS_URL. Production without Redis has no store - `available` is false and writes are dropped,
+// so callers that can't do without it (rate limits) fail closed.
+const memoryStore = new Map<string, { value: unknown; expiresAt: number }>();
+const useMemoryStore = !process.env.REDIS_URL && process.env.NODE_ENV !== 'production';
+
+function memoryEntry(key: string): { value: unknown; expiresAt: number } | null {
+  const entry = memoryStore.get(key);
+  if (!entry || entry.expiresAt < Date.now()) {
+    memoryStore.delete(key);
+    return null;
+  }
+  return entry;
+}
+
+export const stateStore = {
+  available: useMemoryStore || !!process.env.REDIS_URL,
+
+  async get<T>(key: string): Promise<T | null> {
+    if (!useMemoryStore) return cache.get<T>(key);
+    return (memoryEntry(key)?.value as T) ?? null;
+  },
+
+  async set(key: string, value: unknown, ttlSeconds: number): Promise<boolean> {
+    if (!useMemoryStore) return cache.set(key, value, ttlSeconds);
+    memoryStore.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    return true;
+  },
+
+  async del(key: string): Promise<void> {
+    if (!useMemoryStore) {
+      await cache.del(key);
+      return;
+    }
+    memoryStore.delete(key);
+  },
+
+  async expire(key: string, ttlSeconds: number): Promise<void> {
+    if (!useMemoryStore) {
+      await cache.expire(key, ttlSeconds);
+      return;
+    }
+    const entry = memoryEntry(key);
+    if (entry) entry.expiresAt = Date.now() + ttlSeconds * 1000;
+  },
+
+  async incrBy(key: string, amount: number, ttlSeconds: number): Promise<number> {
+    if (!useMemoryStore) return cache.incrBy(key, amount, ttlSeconds);
+    const entry = memoryEntry(key);
+    if (!entry) {
+      memoryStore.set(key, { value: amount, expiresAt: Date.now() + ttlSeconds * 1000 });
+      return amount;
+    }
+    entry.value = (entry.value as number) + amount;
+    return entry.value as number;
+  },
+
+  async incr(key: string, ttlSeconds: number): Promise<number> {
+    return this.incrBy(key, 1, ttlSeconds);
+  },
+
+  async push(key: string, value: unknown, maxLength: number, ttlSeconds: number): Promise<void> {
+    if (!useMemoryStore) {
+      await cache.push(key, value, maxLength, ttlSeconds);
+      return;
+    }
+    const list = [...((memoryEntry(key)?.value as unknown[]) ?? []), value].slice(-maxLength);
+    memoryStore.set(key, { value: list, expiresAt: Date.now() + ttlSeconds * 1000 });
+  },
+
+  async list<T>(key: string): Promise<T[]> {
+    if (!useMemoryStore) return cache.list<T>(key);
+    return (memoryEntry(key)?.value as T[]) ?? [];
+  },
 };
 
 // Track-specific caching
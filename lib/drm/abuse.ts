@@ -0,0 +1,235 @@
+// lib/drm/abuse.ts
+// DRM abuse signals and the escalation policy that acts on them
+//
+// Every detection (rate limit hit, scraping pattern, runaway progressive session) becomes an
+// AbuseSignal row. A user's weighted score over the policy window decides the response:
+// throttle -> force re-auth -> temporarily suspend streaming -> flag for admin review.
+// Throttles and suspensions live in Redis (process memory in development) with a TTL; admins
+// clear them via /api/admin/abuse.
+//
+// Override the policy with DRM_ESCALATION_POLICY (JSON, merged over the defaults below).
+
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { stateStore } from '@/lib/cache';
+import { revokeUserSessions } from '@/lib/session';
+import type { GuardResult } from '@/lib/authz';
+import { STREAM_RATE_LIMIT, checkStreamRateLimit } from '@/lib/drm/contentProtection';
+
+export type AbuseSignalType = 'rate_limit' | 'bulk_access' | 'short_listens' | 'repeated_access' | 'transfer_limit';
+export type EscalationAction = 'throttle' | 'reauth' | 'suspend' | 'review';
+
+export interface EscalationStep {
+  action: EscalationAction;
+  threshold: number;        // Score at which the step fires
+  durationMinutes?: number; // Throttle and suspend only
+}
+
+export interface EscalationPolicy {
+  windowHours: number;      // Open signals older than this no longer count
+  weights: Record<AbuseSignalType, number>;
+  steps: EscalationStep[];
+}
+
+export interface StreamEnforcement {
+  throttledUntil: Date | null;
+  suspendedUntil: Date | null;
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  windowHours: 24,
+  weights: {
+    rate_limit: 1,
+    short_listens: 2,
+    repeated_access: 2,
+    bulk_access: 3,
+    transfer_limit: 3,
+  },
+  steps: [
+    { action: 'throttle', threshold: 2, durationMinutes: 30 },
+    { action: 'reauth', threshold: 4 },
+    { action: 'suspend', threshold: 6, durationMinutes: 60 },
+    { action: 'review', threshold: 9 },
+  ],
+};
+
+const THROTTLED_RATE_LIMIT = Math.ceil(STREAM_RATE_LIMIT / 5);
+const SIGNAL_DEDUPE_SECONDS = 5 * 60; // One signal per user and type in this window
+
+const ENFORCEMENT_KEYS = {
+  throttle: (userId: string) => `drm:throttle:${userId}`,
+  suspend: (userId: string) => `drm:suspend:${userId}`,
+  dedupe: (userId: string, type: AbuseSignalType) => `drm:signal:${userId}:${type}`,
+};
+
+let policyCache: EscalationPolicy | null = null;
+
+/**
+ * The active escalation policy (defaults merged with DRM_ESCALATION_POLICY)
+ */
+export function getEscalationPolicy(): EscalationPolicy {
+  if (policyCache) return policyCache;
+
+  let overrides: Partial<EscalationPolicy> = {};
+  if (process.env.DRM_ESCALATION_POLICY) {
+    try {
+      overrides = JSON.parse(process.env.DRM_ESCALATION_POLICY);
+    } catch (error) {
+      console.error('[DRM] Invalid DRM_ESCALATION_POLICY, using defaults:', error);
+    }
+  }
+
+  policyCache = {
+    windowHours: overrides.windowHours ?? DEFAULT_ESCALATION_POLICY.windowHours,
+    weights: { ...DEFAULT_ESCALATION_POLICY.weights, ...overrides.weights },
+    steps: [...(overrides.steps ?? DEFAULT_ESCALATION_POLICY.steps)].sort((a, b) => a.threshold - b.threshold),
+  };
+  return policyCache;
+}
+
+/**
+ * Weighted score of a user's open signals inside the policy window
+ */
+export async function getAbuseScore(userId: string): Promise<number> {
+  const policy = getEscalationPolicy();
+  const signals = await prisma.abuseSignal.findMany({
+    where: {
+      userId,
+      status: 'open',
+      createdAt: { gte: new Date(Date.now() - policy.windowHours * 60 * 60 * 1000) },
+    },
+    select: { type: true },
+  });
+  return signals.reduce((sum, s) => sum + (policy.weights[s.type as AbuseSignalType] ?? 1), 0);
+}
+
+/**
+ * Current throttle / suspension for a user
+ */
+export async function getStreamEnforcement(userId: string): Promise<StreamEnforcement> {
+  const [throttle, suspend] = await Promise.all([
+    stateStore.get<{ until: number }>(ENFORCEMENT_KEYS.throttle(userId)),
+    stateStore.get<{ until: number }>(ENFORCEMENT_KEYS.suspend(userId)),
+  ]);
+  return {
+    throttledUntil: throttle ? new Date(throttle.until) : null,
+    suspendedUntil: suspend ? new Date(suspend.until) : null,
+  };
+}
+
+async function applyEscalation(userId: string, step: EscalationStep): Promise<void> {
+  const seconds = (step.durationMinutes ?? 60) * 60;
+  const until = Date.now() + seconds * 1000;
+
+  switch (step.action) {
+    case 'throttle':
+      await stateStore.set(ENFORCEMENT_KEYS.throttle(userId), { until }, seconds);
+      break;
+    case 'reauth':
+      await revokeUserSessions(userId);
+      break;
+    case 'suspend':
+      await stateStore.set(ENFORCEMENT_KEYS.suspend(userId), { until }, seconds);
+      break;
+    case 'review':
+      // The signal itself is the flag - it shows up in the admin review queue
+      break;
+  }
+
+  console.warn(`[DRM] Escalated user ${userId}: ${step.action}`);
+}
+
+/**
+ * Persist a detection and apply every policy step its score crosses.
+ * Repeats of the same type within a few minutes are dropped.
+ */
+export async function recordAbuseSignal(params: {
+  userId: string;
+  type: AbuseSignalType;
+  contentId?: string;
+  details?: string;
+}): Promise<{ recorded: boolean; score?: number; action?: EscalationAction | 'none' }> {
+  const { userId, type, contentId, details } = params;
+
+  const seen = await stateStore.incr(ENFORCEMENT_KEYS.dedupe(userId, type), SIGNAL_DEDUPE_SECONDS);
+  if (seen > 1) return { recorded: false };
+
+  const policy = getEscalationPolicy();
+  const previous = await getAbuseScore(userId);
+  const score = previous + (policy.weights[type] ?? 1);
+  const crossed = policy.steps.filter(step => previous < step.threshold && step.threshold <= score);
+
+  for (const step of crossed) {
+    await applyEscalation(userId, step);
+  }
+
+  const action = crossed.length ? crossed[crossed.length - 1].action : 'none';
+  await prisma.abuseSignal.create({
+    data: { userId, type, contentId, details, score, action },
+  });
+
+  console.warn(`[DRM] ${type} from user ${userId}${details ? `: ${details}` : ''} (score ${score})`);
+  return { recorded: true, score, action };
+}
+
+/**
+ * Guard for stream endpoints - a suspension blocks outright, a throttle lowers the rate limit.
+ * The first rejection in a rate-limit window is recorded as a signal.
+ */
+export async function requireStreamingAllowed(userId: string): Promise<GuardResult<StreamEnforcement>> {
+  const enforcement = await getStreamEnforcement(userId);
+
+  if (enforcement.suspendedUntil) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Streaming suspended', suspendedUntil: enforcement.suspendedUntil },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const rateLimit = await checkStreamRateLimit(
+    userId,
+    enforcement.throttledUntil ? THROTTLED_RATE_LIMIT : STREAM_RATE_LIMIT
+  );
+
+  if (rateLimit.unavailable) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: 'Streaming temporarily unavailable' }, { status: 503 }),
+    };
+  }
+
+  if (!rateLimit.allowed) {
+    if (rateLimit.firstRejection) {
+      await recordAbuseSignal({ userId, type: 'rate_limit', details: 'Stream rate limit exceeded' });
+    }
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: 'Rate limit exceeded', retryAfter: rateLimit.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } }
+      ),
+    };
+  }
+
+  return { ok: true, ...enforcement };
+}
+
+/**
+ * Admin review - mark a user's open signals cleared and lift any throttle or suspension
+ */
+export async function clearAbuseFlags(userId: string, reviewerId: string, note?: string): Promise<number> {
+  const cleared = await prisma.abuseSignal.updateMany({
+    where: { userId, status: 'open' },
+    data: { status: 'cleared', reviewedBy: reviewerId, reviewedAt: new Date(), reviewNote: note || null },
+  });
+
+  await Promise.all([
+    stateStore.del(ENFORCEMENT_KEYS.throttle(userId)),
+    stateStore.del(ENFORCEMENT_KEYS.suspend(userId)),
+  ]);
+
+  return cleared.count;
+}
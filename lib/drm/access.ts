@@ -0,0 +1,132 @@
+// lib/drm/access.ts
+// Who may stream a track - gate type, required tier and purchases, checked server-side
+
+import { prisma } from '@/lib/prisma';
+import { cache } from '@/lib/cache';
+import { checkArtistAccess } from '@/lib/authz';
+import { checkGate, GateType } from '@/lib/solana/tokenGate';
+import type { SessionUser } from '@/lib/session';
+
+const TIER_RANK: Record<string, number> = {
+  free: 0,
+  holder: 1,
+  premium: 2,
+  whale: 3,
+};
+
+const GATE_CACHE_TTL = 300; // On-chain gate results are reused for 5 minutes
+
+export type StreamAccessResult =
+  | { allowed: true; reason: 'public' | 'artist' | 'purchased' | 'gate' }
+  | { allowed: false; status: number; error: string; requirement?: Record<string, unknown> };
+
+const streamableTrackSelect = {
+  id: true,
+  artistId: true,
+  status: true,
+  gateType: true,
+  gateTokenMint: true,
+  gateTokenAmount: true,
+  gateNftCollection: true,
+  priceSOL: true,
+  priceToken: true,
+  price: true,
+  isExclusive: true,
+  requiredTier: true,
+} as const;
+
+/**
+ * Check whether a user may stream a track
+ */
+export async function checkStreamAccess(user: SessionUser, trackId: string): Promise<StreamAccessResult> {
+  const track = await prisma.track.findUnique({
+    where: { id: trackId },
+    select: streamableTrackSelect,
+  });
+
+  if (!track) {
+    return { allowed: false, status: 404, error: 'Track not found' };
+  }
+
+  // The artist, their team and admins can always hear their own catalog
+  const artistAccess = await checkArtistAccess(user, track.artistId, 'catalog');
+  if (artistAccess.ok) {
+    return { allowed: true, reason: 'artist' };
+  }
+
+  if (track.status !== 'published') {
+    return { allowed: false, status: 404, error: 'Track not found' };
+  }
+
+  // Tier-exclusive content
+  if (track.isExclusive && track.requiredTier) {
+    const userRank = TIER_RANK[user.tier] ?? 0;
+    const requiredRank = TIER_RANK[track.requiredTier] ?? 0;
+
+    if (userRank < requiredRank) {
+      return {
+        allowed: false,
+        status: 403,
+        error: `${track.requiredTier} tier required`,
+        requirement: { type: 'tier', requiredTier: track.requiredTier, currentTier: user.tier },
+      };
+    }
+  }
+
+  if (track.gateType === 'none') {
+    return { allowed: true, reason: 'public' };
+  }
+
+  if (track.gateType === 'paid') {
+    const purchase = await prisma.purchase.findFirst({
+      where: { buyerId: user.id, trackId, status: 'COMPLETED' },
+      select: { id: true },
+    });
+
+    if (!purchase) {
+      return {
+        allowed: false,
+        status: 402,
+        error: 'Purchase required',
+        requirement: { type: 'paid', price: track.price, priceSOL: track.priceSOL, priceToken: track.priceToken },
+      };
+    }
+
+    return { allowed: true, reason: 'purchased' };
+  }
+
+  // Token / NFT gates are checked on-chain against the user's primary wallet
+  const cacheKey = `gate:${trackId}:${user.walletAddress}`;
+  let hasAccess = await cache.get<boolean>(cacheKey);
+
+  if (hasAccess === null) {
+    const result = await checkGate(user.walletAddress, {
+      gateType: track.gateType as GateType,
+      requiredTokenMint: track.gateTokenMint || undefined,
+      requiredTokenAmount: track.gateTokenAmount || undefined,
+      collectionAddress: track.gateNftCollection || undefined,
+    });
+    hasAccess = result.hasAccess;
+
+    // Don't cache RPC failures as denials
+    if (!result.error) {
+      await cache.set(cacheKey, hasAccess, GATE_CACHE_TTL);
+    }
+  }
+
+  if (!hasAccess) {
+    return {
+      allowed: false,
+      status: 403,
+      error: track.gateType === 'nft' ? 'NFT ownership required' : 'Token ownership required',
+      requirement: {
+        type: track.gateType,
+        tokenMint: track.gateTokenMint,
+        tokenAmount: track.gateTokenAmount,
+        nftCollection: track.gateNftCollection,
+      },
+    };
+  }
+
+  return { allowed: true, reason: 'gate' };
+}
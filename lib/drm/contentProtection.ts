@@ -1,10 +1,38 @@
 // lib/drm/contentProtection.ts
 // Content protection utilities - prevents unauthorized downloading/ripping
+//
+// Rate limits, listening history and play sessions live in Redis so they hold across instances
+// (stateStore - process memory in development). What happens once abuse is detected is lib/drm/abuse.ts.
 
 import crypto from 'crypto';
+import { stateStore } from '@/lib/cache';
+import type { AbuseSignalType } from '@/lib/drm/abuse';
 
 const SIGNING_SECRET = process.env.CONTENT_SIGNING_SECRET || 'dev-secret-change-in-prod';
-const URL_EXPIRY_SECONDS = 30; // URLs expire very quickly
+export const URL_EXPIRY_SECONDS = 30; // URLs expire very quickly
+
+// Block common ripping tools user agents
+const BLOCKED_USER_AGENTS = [
+  'youtube-dl',
+  'yt-dlp', 
+  'ffmpeg',
+  'wget',
+  'curl',
+  'aria2',
+  'streamripper',
+  'audacity',
+  'freemake',
+  'any-video-converter',
+  'clipgrab',
+];
+
+/**
+ * Check a user agent against known ripping tools
+ */
+export function isBlockedUserAgent(userAgent: string | null): boolean {
+  const ua = userAgent?.toLowerCase() || '';
+  return BLOCKED_USER_AGENTS.some(blocked => ua.includes(blocked));
+}
 
 interface SignedUrlParams {
   contentId: string;
@@ -18,6 +46,13 @@ interface SignedUrlParams {
  * These URLs expire quickly and are tied to a specific user
  */
 export function generateSignedUrl(params: SignedUrlParams): string {
+  return `/api/stream/${generateStreamToken(params)}`;
+}
+
+/**
+ * Signed stream token on its own (for routes other than /api/stream/[token])
+ */
+export function generateStreamToken(params: SignedUrlParams): string {
   const { contentId, userId, contentType, quality = 'high' } = params;
   
   const expiresAt = Math.floor(Date.now() / 1000) + URL_EXPIRY_SECONDS;
@@ -31,7 +66,7 @@ export function generateSignedUrl(params: SignedUrlParams): string {
     .digest('hex');
   
   // Encode params
-  const token = Buffer.from(JSON.stringify({
+  return Buffer.from(JSON.stringify({
     c: contentId,    // content ID
     u: userId,       // user ID (for watermarking)
     t: contentType,  // type
@@ -40,8 +75,6 @@ export function generateSignedUrl(params: SignedUrlParams): string {
     n: nonce,        // nonce (prevent replay)
     s: signature,    // signature
   })).toString('base64url');
-  
-  return `/api/stream/${token}`;
 }
 
 /**
@@ -98,69 +131,186 @@ export function generateWatermark(userId: string, trackId: string): string {
  * Rate limiting for stream requests
  * Prevents bulk downloading attempts
  */
-const streamRequests = new Map<string, { count: number; resetAt: number }>();
+export const STREAM_RATE_LIMIT = 30; // Max 30 stream requests per minute (enough for normal use)
+const STREAM_RATE_WINDOW_SECONDS = 60;
 
-export function checkStreamRateLimit(userId: string): { allowed: boolean; retryAfter?: number } {
+export async function checkStreamRateLimit(
+  userId: string,
+  maxRequests: number = STREAM_RATE_LIMIT
+): Promise<{ allowed: boolean; retryAfter?: number; firstRejection?: boolean; unavailable?: boolean }> {
   const now = Date.now();
-  const windowMs = 60000; // 1 minute window
-  const maxRequests = 30; // Max 30 stream requests per minute (enough for normal use)
+  const windowMs = STREAM_RATE_WINDOW_SECONDS * 1000;
+  const window = Math.floor(now / windowMs);
   
-  const userLimit = streamRequests.get(userId);
+  const retryAfter = Math.ceil(((window + 1) * windowMs - now) / 1000);
   
-  if (!userLimit || now > userLimit.resetAt) {
-    streamRequests.set(userId, { count: 1, resetAt: now + windowMs });
-    return { allowed: true };
+  if (!stateStore.available) {
+    console.error('[DRM] REDIS_URL is not set - refusing streams instead of running without a rate limit');
+    return { allowed: false, retryAfter, unavailable: true };
   }
   
-  if (userLimit.count >= maxRequests) {
+  // Fixed one-minute windows
+  const count = await stateStore.incr(`drm:rate:${userId}:${window}`, STREAM_RATE_WINDOW_SECONDS);
+  
+  if (count > maxRequests) {
     return { 
       allowed: false, 
-      retryAfter: Math.ceil((userLimit.resetAt - now) / 1000) 
+      retryAfter,
+      firstRejection: count === maxRequests + 1,
     };
   }
   
-  userLimit.count++;
   return { allowed: true };
 }
 
+/**
+ * Play sessions - every request made with one signed stream token (the playlist, or each
+ * byte range of a progressive stream) belongs to one session. Only the request that opens
+ * it counts against the rate limit, and ranges keep working past the token's expiry
+ * while the session lives. Sessions are shared by all instances and survive restarts.
+ */
+export interface PlaySession {
+  id: string;          // Hash of the token that opened it
+  userId: string;
+  contentId: string;
+  contentType: 'audio' | 'video';
+  quality: 'low' | 'medium' | 'high';
+  watermark: string | null; // Code of the watermarked copy being served - set once there is one
+  startedAt: number;
+  bytesServed: number; // As of loading the session - add to it with addPlaySessionBytes
+  file?: { storageKey: string; size: number }; // Watermarked copy progressive requests read from
+}
+
+type StoredPlaySession = Omit<PlaySession, 'id' | 'bytesServed'>;
+
+const PLAY_SESSION_IDLE_SECONDS = 10 * 60;    // A paused player can resume within this
+const PLAY_SESSION_MAX_SECONDS = 4 * 60 * 60; // Hard cap regardless of activity
+
+const PLAY_SESSION_KEYS = {
+  session: (id: string) => `drm:play:${id}`,
+  bytes: (id: string) => `drm:play:${id}:bytes`,
+};
+
+function playSessionKey(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Seconds a session may live from now - the idle timeout, cut short by the hard cap
+function playSessionTtl(startedAt: number): number {
+  const remaining = Math.floor((startedAt + PLAY_SESSION_MAX_SECONDS * 1000 - Date.now()) / 1000);
+  return Math.min(PLAY_SESSION_IDLE_SECONDS, remaining);
+}
+
+/**
+ * The live session opened by this token, if any (each request extends its idle timeout)
+ */
+export async function getPlaySession(token: string): Promise<PlaySession | null> {
+  const id = playSessionKey(token);
+  const stored = await stateStore.get<StoredPlaySession>(PLAY_SESSION_KEYS.session(id));
+  if (!stored) return null;
+
+  const ttl = playSessionTtl(stored.startedAt);
+  if (ttl <= 0) return null;
+
+  const [bytesServed] = await Promise.all([
+    stateStore.get<number>(PLAY_SESSION_KEYS.bytes(id)),
+    stateStore.expire(PLAY_SESSION_KEYS.session(id), ttl),
+    stateStore.expire(PLAY_SESSION_KEYS.bytes(id), ttl),
+  ]);
+
+  return { ...stored, id, bytesServed: bytesServed ?? 0 };
+}
+
+/**
+ * Save a session's fields (the byte count is kept separately - see addPlaySessionBytes)
+ */
+export async function savePlaySession(session: PlaySession): Promise<void> {
+  const ttl = playSessionTtl(session.startedAt);
+  if (ttl <= 0) return;
+
+  const stored: StoredPlaySession = {
+    userId: session.userId,
+    contentId: session.contentId,
+    contentType: session.contentType,
+    quality: session.quality,
+    watermark: session.watermark,
+    startedAt: session.startedAt,
+    ...(session.file && { file: session.file }),
+  };
+  await stateStore.set(PLAY_SESSION_KEYS.session(session.id), stored, ttl);
+}
+
+/**
+ * Open a session for a freshly verified token
+ */
+export async function startPlaySession(
+  token: string,
+  params: SignedUrlParams & { quality: 'low' | 'medium' | 'high' }
+): Promise<PlaySession> {
+  const session: PlaySession = {
+    id: playSessionKey(token),
+    userId: params.userId,
+    contentId: params.contentId,
+    contentType: params.contentType,
+    quality: params.quality,
+    watermark: null,
+    startedAt: Date.now(),
+    bytesServed: 0,
+  };
+  await savePlaySession(session);
+  return session;
+}
+
+/**
+ * Count bytes about to be sent on a session. Atomic across instances - returns the total
+ * served before these bytes, so concurrent ranges can't all slip under a limit.
+ */
+export async function addPlaySessionBytes(session: PlaySession, bytes: number): Promise<number> {
+  const ttl = Math.max(1, playSessionTtl(session.startedAt));
+  const total = await stateStore.incrBy(PLAY_SESSION_KEYS.bytes(session.id), bytes, ttl);
+  session.bytesServed = total;
+  return total - bytes;
+}
+
 /**
  * Detect suspicious behavior patterns
  */
 interface StreamEvent {
-  userId: string;
   trackId: string;
   timestamp: number;
   duration: number; // How long they listened
 }
 
-const recentStreams = new Map<string, StreamEvent[]>();
+const BEHAVIOR_WINDOW_SECONDS = 300; // Patterns are judged over the last 5 minutes
+const MAX_STREAM_EVENTS = 200;
 
-export function detectSuspiciousBehavior(userId: string, trackId: string, duration: number): {
+export async function detectSuspiciousBehavior(userId: string, trackId: string, duration: number): Promise<{
   suspicious: boolean;
+  type?: AbuseSignalType;
   reason?: string;
-} {
-  const events = recentStreams.get(userId) || [];
+}> {
+  const key = `drm:streams:${userId}`;
   const now = Date.now();
   
   // Add current event
-  events.push({ userId, trackId, timestamp: now, duration });
+  await stateStore.push(key, { trackId, timestamp: now, duration }, MAX_STREAM_EVENTS, BEHAVIOR_WINDOW_SECONDS);
   
   // Keep only last 5 minutes of events
-  const recentEvents = events.filter(e => now - e.timestamp < 300000);
-  recentStreams.set(userId, recentEvents);
+  const recentEvents = (await stateStore.list<StreamEvent>(key))
+    .filter(e => now - e.timestamp < BEHAVIOR_WINDOW_SECONDS * 1000);
   
   // Check for suspicious patterns
   
   // 1. Too many unique tracks in short time (bulk scraping)
   const uniqueTracks = new Set(recentEvents.map(e => e.trackId));
   if (uniqueTracks.size > 20) {
-    return { suspicious: true, reason: 'Too many unique tracks accessed' };
+    return { suspicious: true, type: 'bulk_access', reason: 'Too many unique tracks accessed' };
   }
   
   // 2. Very short listen durations (skipping through to download)
   const shortListens = recentEvents.filter(e => e.duration < 5);
   if (shortListens.length > 10) {
-    return { suspicious: true, reason: 'Abnormal listening pattern' };
+    return { suspicious: true, type: 'short_listens', reason: 'Abnormal listening pattern' };
   }
   
   // 3. Accessing same track too frequently (trying to piece together)
@@ -171,7 +321,7 @@ export function detectSuspiciousBehavior(userId: string, trackId: string, durati
   
   for (const count of Object.values(trackCounts)) {
     if (count > 10) {
-      return { suspicious: true, reason: 'Repeated access pattern detected' };
+      return { suspicious: true, type: 'repeated_access', reason: 'Repeated access pattern detected' };
     }
   }
   
@@ -179,29 +329,62 @@ export function detectSuspiciousBehavior(userId: string, trackId: string, durati
 }
 
 /**
- * Generate HLS encryption key for a content piece
+ * Generate a token for fetching a track's HLS key (EXT-X-KEY URI).
+ * Bound to the user and their session so a leaked playlist can't be replayed elsewhere.
  */
-export function generateHLSKey(contentId: string, userId: string): {
-  key: Buffer;
-  iv: Buffer;
-  keyUri: string;
-} {
-  // Derive key from content + user (so each user gets unique encrypted stream)
-  const keyMaterial = `${contentId}:${userId}:${SIGNING_SECRET}`;
-  const key = crypto.createHash('sha256').update(keyMaterial).digest().slice(0, 16); // AES-128 key
-  
-  // Generate IV from content ID
-  const iv = crypto.createHash('md5').update(contentId).digest();
-  
-  // Key URI for HLS manifest
-  const keyToken = Buffer.from(JSON.stringify({
+export function generateKeyToken(params: {
+  contentId: string;
+  userId: string;
+  sessionId: string;
+  expiresIn: number; // seconds
+}): string {
+  const { contentId, userId, sessionId, expiresIn } = params;
+  const expiresAt = Math.floor(Date.now() / 1000) + expiresIn;
+
+  const payload = `key:${contentId}:${userId}:${sessionId}:${expiresAt}`;
+  const signature = crypto
+    .createHmac('sha256', SIGNING_SECRET)
+    .update(payload)
+    .digest('hex');
+
+  return Buffer.from(JSON.stringify({
     c: contentId,
     u: userId,
+    x: sessionId,
+    e: expiresAt,
+    s: signature,
   })).toString('base64url');
-  
-  return {
-    key,
-    iv,
-    keyUri: `/api/stream/key/${keyToken}`,
-  };
+}
+
+/**
+ * Verify an HLS key token
+ */
+export function verifyKeyToken(token: string): {
+  valid: boolean;
+  params?: { contentId: string; userId: string; sessionId: string; expiresAt: number };
+  error?: string;
+} {
+  try {
+    const decoded = JSON.parse(Buffer.from(token, 'base64url').toString());
+    const { c: contentId, u: userId, x: sessionId, e: expiresAt, s: signature } = decoded;
+
+    if (Date.now() / 1000 > expiresAt) {
+      return { valid: false, error: 'Key token expired' };
+    }
+
+    const payload = `key:${contentId}:${userId}:${sessionId}:${expiresAt}`;
+    const expectedSignature = crypto
+      .createHmac('sha256', SIGNING_SECRET)
+      .update(payload)
+      .digest('hex');
+
+    if (typeof signature !== 'string' || signature.length !== expectedSignature.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))) {
+      return { valid: false, error: 'Invalid signature' };
+    }
+
+    return { valid: true, params: { contentId, userId, sessionId, expiresAt } };
+  } catch {
+    return { valid: false, error: 'Invalid token' };
+  }
 }
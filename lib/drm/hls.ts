@@ -0,0 +1,262 @@
+// lib/drm/hls.ts
+// AES-128 encrypted HLS packaging - segment a track with ffmpeg, encrypt each segment,
+// store it and build playlists on demand
+//
+// Segments are encrypted once per track with a random content key (sealed in Track.hlsKey).
+// The key is only released through /api/stream/key to an authorized session.
+
+import crypto from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { getFile, uploadFile } from '@/lib/storage';
+import { runFfmpeg, withTempDir } from '@/lib/media/ffmpeg';
+
+export const HLS_SEGMENT_SECONDS = 6;
+
+export interface HlsRenditionSpec {
+  quality: 'low' | 'medium' | 'high';
+  bitrate: number; // kbps
+}
+
+// AAC ladder built for every track - players switch between these by bandwidth
+export const HLS_RENDITIONS: HlsRenditionSpec[] = [
+  { quality: 'low', bitrate: 64 },
+  { quality: 'medium', bitrate: 128 },
+  { quality: 'high', bitrate: 256 },
+];
+
+export interface HlsSegment {
+  key: string;
+  duration: number;
+}
+
+function getKeyEncryptionKey(): Buffer {
+  const secret = process.env.CONTENT_KEY_SECRET || process.env.CONTENT_SIGNING_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('CONTENT_KEY_SECRET is not configured');
+    }
+    return crypto.createHash('sha256').update('dev-secret-change-in-prod').digest();
+  }
+  return Buffer.from(crypto.hkdfSync('sha256', secret, Buffer.alloc(0), 'ixxxi:hls-content-key', 32));
+}
+
+// AES-256-GCM bound to the track id, serialized as iv:tag:ciphertext (base64)
+function sealContentKey(key: Buffer, trackId: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKeyEncryptionKey(), iv);
+  cipher.setAAD(Buffer.from(trackId));
+  const ciphertext = Buffer.concat([cipher.update(key), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(b => b.toString('base64')).join(':');
+}
+
+function openContentKey(sealed: string, trackId: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKeyEncryptionKey(), iv);
+  decipher.setAAD(Buffer.from(trackId));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+// Without an IV attribute, HLS clients use the media sequence number as the IV
+function sequenceIv(sequence: number): Buffer {
+  const iv = Buffer.alloc(16);
+  iv.writeUInt32BE(sequence, 12);
+  return iv;
+}
+
+function encryptSegment(data: Buffer, key: Buffer, sequence: number): Buffer {
+  const cipher = crypto.createCipheriv('aes-128-cbc', key, sequenceIv(sequence));
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+// Segment file names and durations from an ffmpeg-written playlist
+function parseMediaPlaylist(playlist: string): { file: string; duration: number }[] {
+  const segments: { file: string; duration: number }[] = [];
+  let duration: number | null = null;
+
+  for (const line of playlist.split('\n').map(l => l.trim())) {
+    if (line.startsWith('#EXTINF:')) {
+      duration = parseFloat(line.slice('#EXTINF:'.length));
+    } else if (line && !line.startsWith('#') && duration !== null) {
+      segments.push({ file: line, duration });
+      duration = null;
+    }
+  }
+
+  return segments;
+}
+
+export function parseSegments(value: string): HlsSegment[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The decrypted AES-128 content key for a track, or null if it hasn't been packaged
+ */
+export async function getContentKey(trackId: string): Promise<Buffer | null> {
+  const track = await prisma.track.findUnique({ where: { id: trackId }, select: { hlsKey: true } });
+  return track?.hlsKey ? openContentKey(track.hlsKey, trackId) : null;
+}
+
+/**
+ * Segment, encrypt and store every rendition of a track from its original upload.
+ * Re-packaging keeps the existing content key so issued key tokens stay valid.
+ * Pass `source` when the caller already has the upload in memory.
+ */
+export async function packageTrackHls(
+  trackId: string,
+  renditions: HlsRenditionSpec[] = HLS_RENDITIONS,
+  source?: Buffer
+): Promise<{ renditions: number; segments: number }> {
+  const track = await prisma.track.findUnique({
+    where: { id: trackId },
+    select: { id: true, artistId: true, audioKey: true, hlsKey: true },
+  });
+
+  if (!track) throw new Error('Track not found');
+  if (!track.audioKey) throw new Error('Track has no source audio');
+
+  const contentKey = track.hlsKey ? openContentKey(track.hlsKey, trackId) : crypto.randomBytes(16);
+  const input = source ?? await getFile(track.audioKey);
+  let segmentCount = 0;
+
+  await withTempDir(async (dir) => {
+    const inputPath = path.join(dir, 'source');
+    await writeFile(inputPath, input);
+
+    for (const rendition of renditions) {
+      const playlistPath = path.join(dir, `${rendition.quality}.m3u8`);
+
+      await runFfmpeg([
+        '-i', inputPath,
+        '-vn',
+        '-c:a', 'aac',
+        '-b:a', `${rendition.bitrate}k`,
+        '-ac', '2',
+        '-f', 'hls',
+        '-hls_time', String(HLS_SEGMENT_SECONDS),
+        '-hls_playlist_type', 'vod',
+        '-hls_segment_filename', path.join(dir, `${rendition.quality}_%04d.ts`),
+        playlistPath,
+      ]);
+
+      const parsed = parseMediaPlaylist(await readFile(playlistPath, 'utf8'));
+      if (!parsed.length) throw new Error(`ffmpeg produced no segments for ${rendition.quality}`);
+
+      const segments: HlsSegment[] = [];
+      for (const [sequence, segment] of parsed.entries()) {
+        const data = await readFile(path.join(dir, segment.file));
+        const key = `hls/${track.artistId}/${trackId}/${rendition.quality}/${String(sequence).padStart(4, '0')}.ts`;
+
+        await uploadFile(key, encryptSegment(data, contentKey, sequence), 'video/mp2t');
+        segments.push({ key, duration: segment.duration });
+      }
+
+      const data = {
+        bitrate: rendition.bitrate,
+        targetDuration: Math.ceil(Math.max(...segments.map(s => s.duration))),
+        segments: JSON.stringify(segments),
+      };
+
+      await prisma.streamRendition.upsert({
+        where: { trackId_quality: { trackId, quality: rendition.quality } },
+        create: { trackId, quality: rendition.quality, ...data },
+        update: data,
+      });
+
+      segmentCount += segments.length;
+    }
+  });
+
+  await prisma.track.update({
+    where: { id: trackId },
+    data: {
+      hlsKey: track.hlsKey || sealContentKey(contentKey, trackId),
+      hlsPackagedAt: new Date(),
+    },
+  });
+
+  return { renditions: renditions.length, segments: segmentCount };
+}
+
+/**
+ * Master playlist listing each rendition
+ */
+export function buildMasterPlaylist(
+  renditions: { quality: string; bitrate: number; codec: string }[],
+  variantUrl: (quality: string) => string
+): string {
+  const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
+
+  for (const rendition of [...renditions].sort((a, b) => a.bitrate - b.bitrate)) {
+    lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bitrate * 1000},CODECS="${rendition.codec}"`);
+    lines.push(variantUrl(rendition.quality));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Media playlist for one rendition with the key URI and signed segment URLs
+ */
+export function buildMediaPlaylist(params: {
+  targetDuration: number;
+  keyUri: string;
+  segments: { url: string; duration: number }[];
+}): string {
+  const { targetDuration, keyUri, segments } = params;
+
+  const lines = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+    `#EXT-X-KEY:METHOD=AES-128,URI="${keyUri}"`,
+  ];
+
+  for (const segment of segments) {
+    lines.push(`#EXTINF:${segment.duration.toFixed(3)},`);
+    lines.push(segment.url);
+  }
+
+  lines.push('#EXT-X-ENDLIST');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Package tracks that have source audio but no HLS renditions yet (called by the media-jobs cron)
+ */
+export async function processHlsPackaging(batchSize: number = 2): Promise<{ packaged: number; failed: number }> {
+  const results = { packaged: 0, failed: 0 };
+
+  const tracks = await prisma.track.findMany({
+    where: {
+      hlsPackagedAt: null,
+      audioKey: { not: null },
+      status: { in: ['ready', 'published', 'scheduled'] },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: batchSize,
+    select: { id: true },
+  });
+
+  for (const track of tracks) {
+    try {
+      await packageTrackHls(track.id);
+      results.packaged++;
+    } catch (error) {
+      console.error(`[HLS] Packaging ${track.id} failed:`, error);
+      results.failed++;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,46 @@
+// lib/email/index.ts
+// Email delivery - send now, fall back to the retry queue on failure
+
+import { getTransport } from './transport';
+import { enqueueEmail } from './queue';
+import type { RenderedEmail } from './templates';
+
+export * from './templates';
+export { enqueueEmail, processEmailQueue } from './queue';
+export { getTransport } from './transport';
+export type { EmailMessage, EmailTransport } from './transport';
+
+/**
+ * Send an email immediately. If the transport fails the message is queued for retry,
+ * so callers never need to fail their own request because of email.
+ */
+export async function sendEmail(
+  to: string,
+  email: RenderedEmail,
+  options: { expiresAt?: Date } = {}
+): Promise<{ sent: boolean; queued: boolean }> {
+  try {
+    await getTransport().send({
+      to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      tags: [email.template],
+    });
+    return { sent: true, queued: false };
+  } catch (error) {
+    console.error(`[EMAIL] ${email.template} send failed, queueing for retry:`, error);
+
+    try {
+      await enqueueEmail(to, email, {
+        expiresAt: options.expiresAt,
+        attempts: 1,
+        lastError: error instanceof Error ? error.message : 'Send failed',
+      });
+      return { sent: false, queued: true };
+    } catch (queueError) {
+      console.error('[EMAIL] Failed to queue email:', queueError);
+      return { sent: false, queued: false };
+    }
+  }
+}
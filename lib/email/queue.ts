@@ -0,0 +1,119 @@
+// lib/email/queue.ts
+// Retry queue for outgoing email - failed and bulk sends are persisted and retried by cron
+
+import { prisma } from '@/lib/prisma';
+import { getTransport } from './transport';
+import type { RenderedEmail } from './templates';
+
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 60 * 1000; // 1m, 2m, 4m, 8m...
+const STALE_SENDING_MS = 10 * 60 * 1000; // Worker died mid-send
+
+function nextAttemptAt(attempts: number): Date {
+  return new Date(Date.now() + BASE_BACKOFF_MS * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+/**
+ * Persist an email for delivery by the queue worker
+ */
+export async function enqueueEmail(
+  to: string,
+  email: RenderedEmail,
+  options: { expiresAt?: Date; lastError?: string; attempts?: number } = {}
+) {
+  const attempts = options.attempts ?? 0;
+
+  return prisma.emailJob.create({
+    data: {
+      to,
+      template: email.template,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      attempts,
+      lastError: options.lastError,
+      nextAttemptAt: attempts > 0 ? nextAttemptAt(attempts) : new Date(),
+      expiresAt: options.expiresAt,
+    },
+  });
+}
+
+/**
+ * Deliver due jobs. Called from the email-queue cron.
+ */
+export async function processEmailQueue(limit: number = 50): Promise<{
+  sent: number;
+  retried: number;
+  failed: number;
+  expired: number;
+}> {
+  const now = new Date();
+  const result = { sent: 0, retried: 0, failed: 0, expired: 0 };
+
+  // Time-sensitive mail (login codes) is useless once expired
+  const expired = await prisma.emailJob.updateMany({
+    where: { status: 'pending', expiresAt: { lt: now } },
+    data: { status: 'expired' },
+  });
+  result.expired = expired.count;
+
+  await prisma.emailJob.updateMany({
+    where: { status: 'sending', updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+    data: { status: 'pending' },
+  });
+
+  const jobs = await prisma.emailJob.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+  });
+
+  const transport = getTransport();
+
+  for (const job of jobs) {
+    // Claim the job so overlapping cron runs don't double-send
+    const { count } = await prisma.emailJob.updateMany({
+      where: { id: job.id, status: 'pending' },
+      data: { status: 'sending' },
+    });
+    if (count === 0) continue;
+
+    try {
+      const { messageId } = await transport.send({
+        to: job.to,
+        subject: job.subject,
+        html: job.html,
+        text: job.text,
+      });
+
+      await prisma.emailJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'sent',
+          attempts: job.attempts + 1,
+          messageId,
+          sentAt: new Date(),
+        },
+      });
+      result.sent++;
+    } catch (error) {
+      const attempts = job.attempts + 1;
+      const giveUp = attempts >= MAX_ATTEMPTS;
+
+      await prisma.emailJob.update({
+        where: { id: job.id },
+        data: {
+          status: giveUp ? 'failed' : 'pending',
+          attempts,
+          lastError: error instanceof Error ? error.message : 'Send failed',
+          nextAttemptAt: nextAttemptAt(attempts),
+        },
+      });
+
+      if (giveUp) result.failed++;
+      else result.retried++;
+    }
+  }
+
+  return result;
+}
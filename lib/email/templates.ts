@@ -0,0 +1,302 @@
+// lib/email/templates.ts
+// Transactional email templates - each returns subject, HTML and plain-text bodies
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://ixxxi.io';
+
+export type EmailTemplateName =
+  | 'login_code'
+  | 'receipt'
+  | 'ticket'
+  | 'new_release'
+  | 'weekly_digest'
+  | 'data_export'
+  | 'account_deletion'
+  | 'security_alert';
+
+export interface RenderedEmail {
+  template: EmailTemplateName;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Shared dark terminal-style wrapper
+function layout(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:0;background:#000;color:#e5e5e5;font-family:'SF Mono',Menlo,monospace;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="padding:32px 16px;">
+    <tr><td align="center">
+      <table width="560" cellpadding="0" cellspacing="0" style="border:1px solid #222;background:#0a0a0a;">
+        <tr><td style="padding:20px 24px;border-bottom:1px solid #222;color:#22c55e;font-weight:bold;letter-spacing:4px;">IXXXI</td></tr>
+        <tr><td style="padding:24px;">${body}</td></tr>
+        <tr><td style="padding:16px 24px;border-top:1px solid #222;font-size:11px;color:#666;">
+          You are receiving this because you have an IXXXI account. <a href="${APP_URL}" style="color:#666;">${APP_URL.replace(/^https?:\/\//, '')}</a>
+        </td></tr>
+      </table>
+    </td></tr>
+  </table>
+</body>
+</html>`;
+}
+
+function button(href: string, label: string): string {
+  return `<a href="${href}" style="display:inline-block;margin-top:16px;padding:10px 18px;background:#22c55e;color:#000;text-decoration:none;font-weight:bold;">${escapeHtml(label)}</a>`;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toFixed(currency === 'SOL' ? 4 : 2)} ${currency}`;
+}
+
+/**
+ * Email verification / sign-in code
+ */
+export function loginCodeEmail(params: { code: string; action?: string; expiresInMinutes?: number }): RenderedEmail {
+  const { code, action = 'signin', expiresInMinutes = 10 } = params;
+  const verb = action === 'signup'
+    ? 'finish creating your account'
+    : action === 'export_wallet' ? 'export your wallet key'
+    : action === 'link_email' ? 'add this email to your account' : 'sign in';
+
+  return {
+    template: 'login_code',
+    subject: `${code} is your IXXXI verification code`,
+    html: layout('Verification code', `
+      <p>Use this code to ${verb}:</p>
+      <p style="font-size:32px;letter-spacing:8px;color:#fff;font-weight:bold;margin:24px 0;">${escapeHtml(code)}</p>
+      <p style="color:#888;">It expires in ${expiresInMinutes} minutes. If you didn't request it, you can ignore this email.</p>
+    `),
+    text: `Your IXXXI verification code is ${code}\n\nUse it to ${verb}. It expires in ${expiresInMinutes} minutes.\nIf you didn't request it, you can ignore this email.`,
+  };
+}
+
+/**
+ * Order receipt (merch orders, purchases)
+ */
+export function receiptEmail(params: {
+  orderId: string;
+  items: Array<{ name: string; quantity: number; total: number }>;
+  total: number;
+  currency: string;
+  txSignature?: string | null;
+}): RenderedEmail {
+  const { orderId, items, total, currency, txSignature } = params;
+
+  const rows = items.map(item => `
+    <tr>
+      <td style="padding:6px 0;">${escapeHtml(item.name)} × ${item.quantity}</td>
+      <td style="padding:6px 0;text-align:right;">${formatAmount(item.total, currency)}</td>
+    </tr>`).join('');
+
+  return {
+    template: 'receipt',
+    subject: `Your IXXXI receipt (#${orderId.slice(-8).toUpperCase()})`,
+    html: layout('Receipt', `
+      <p>Thanks for supporting independent artists. Here's your receipt.</p>
+      <table width="100%" cellpadding="0" cellspacing="0" style="margin:16px 0;border-top:1px solid #222;border-bottom:1px solid #222;">
+        ${rows}
+        <tr><td style="padding:8px 0;font-weight:bold;">Total</td><td style="padding:8px 0;text-align:right;font-weight:bold;">${formatAmount(total, currency)}</td></tr>
+      </table>
+      <p style="color:#888;font-size:12px;">Order ${escapeHtml(orderId)}${txSignature ? `<br>Transaction ${escapeHtml(txSignature)}` : ''}</p>
+    `),
+    text: [
+      'Thanks for supporting independent artists. Here is your receipt.',
+      '',
+      ...items.map(item => `${item.name} x ${item.quantity}: ${formatAmount(item.total, currency)}`),
+      `Total: ${formatAmount(total, currency)}`,
+      '',
+      `Order ${orderId}`,
+      ...(txSignature ? [`Transaction ${txSignature}`] : []),
+    ].join('\n'),
+  };
+}
+
+/**
+ * Event ticket confirmation
+ */
+export function ticketEmail(params: {
+  eventTitle: string;
+  venue?: string | null;
+  startDate: Date;
+  tierName: string;
+  attendeeName?: string | null;
+  ticketCodes: string[];
+}): RenderedEmail {
+  const { eventTitle, venue, startDate, tierName, attendeeName, ticketCodes } = params;
+  const when = startDate.toUTCString();
+
+  return {
+    template: 'ticket',
+    subject: `🎫 Your tickets for ${eventTitle}`,
+    html: layout('Tickets', `
+      <p>${attendeeName ? `${escapeHtml(attendeeName)}, you're` : "You're"} going to <strong style="color:#fff;">${escapeHtml(eventTitle)}</strong>.</p>
+      <p style="color:#888;">${escapeHtml(when)}${venue ? ` · ${escapeHtml(venue)}` : ''}<br>${escapeHtml(tierName)}</p>
+      ${ticketCodes.map(code => `<p style="font-size:18px;letter-spacing:2px;color:#fff;border:1px dashed #333;padding:12px;text-align:center;">${escapeHtml(code)}</p>`).join('')}
+      <p style="color:#888;">Show the ticket code or QR from your account at the door.</p>
+      ${button(`${APP_URL}/profile`, 'View tickets')}
+    `),
+    text: [
+      `You're going to ${eventTitle}.`,
+      `${when}${venue ? ` - ${venue}` : ''}`,
+      tierName,
+      '',
+      'Ticket codes:',
+      ...ticketCodes,
+    ].join('\n'),
+  };
+}
+
+/**
+ * New release from an artist the user follows
+ */
+export function newReleaseEmail(params: {
+  artistName: string;
+  releaseTitle: string;
+  releaseType: string;
+  releaseId: string;
+  coverUrl?: string | null;
+}): RenderedEmail {
+  const { artistName, releaseTitle, releaseType, releaseId, coverUrl } = params;
+  const url = `${APP_URL}/discover?release=${releaseId}`;
+
+  return {
+    template: 'new_release',
+    subject: `New ${releaseType} from ${artistName}: ${releaseTitle}`,
+    html: layout('New release', `
+      ${coverUrl ? `<img src="${coverUrl}" width="200" height="200" alt="" style="display:block;margin-bottom:16px;">` : ''}
+      <p><strong style="color:#fff;">${escapeHtml(artistName)}</strong> just released a new ${escapeHtml(releaseType)}:</p>
+      <p style="font-size:20px;color:#fff;">${escapeHtml(releaseTitle)}</p>
+      ${button(url, 'Listen now')}
+    `),
+    text: `${artistName} just released a new ${releaseType}: ${releaseTitle}\n\nListen now: ${url}`,
+  };
+}
+
+/**
+ * Weekly digest - new music from followed artists and what's trending
+ */
+export function weeklyDigestEmail(params: {
+  username?: string | null;
+  newTracks: Array<{ title: string; artistName: string }>;
+  trendingTracks: Array<{ title: string; artistName: string; playCount: number }>;
+  minutesListened: number;
+}): RenderedEmail {
+  const { username, newTracks, trendingTracks, minutesListened } = params;
+
+  const list = (tracks: Array<{ title: string; artistName: string }>) => tracks
+    .map(t => `<li style="margin:4px 0;">${escapeHtml(t.title)} <span style="color:#888;">— ${escapeHtml(t.artistName)}</span></li>`)
+    .join('');
+
+  return {
+    template: 'weekly_digest',
+    subject: 'Your week on IXXXI',
+    html: layout('Weekly digest', `
+      <p>${username ? `Hey ${escapeHtml(username)}, here's` : "Here's"} your week on IXXXI.</p>
+      <p style="color:#888;">You listened for <strong style="color:#fff;">${minutesListened} minutes</strong>.</p>
+      ${newTracks.length ? `<p style="margin-top:20px;color:#22c55e;">NEW FROM ARTISTS YOU FOLLOW</p><ul style="padding-left:18px;">${list(newTracks)}</ul>` : ''}
+      ${trendingTracks.length ? `<p style="margin-top:20px;color:#22c55e;">TRENDING</p><ul style="padding-left:18px;">${list(trendingTracks)}</ul>` : ''}
+      ${button(`${APP_URL}/discover`, 'Open IXXXI')}
+    `),
+    text: [
+      `Your week on IXXXI - you listened for ${minutesListened} minutes.`,
+      ...(newTracks.length ? ['', 'New from artists you follow:', ...newTracks.map(t => `- ${t.title} - ${t.artistName}`)] : []),
+      ...(trendingTracks.length ? ['', 'Trending:', ...trendingTracks.map(t => `- ${t.title} - ${t.artistName}`)] : []),
+      '',
+      `${APP_URL}/discover`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Data export ready for download
+ */
+export function dataExportEmail(params: { expiresAt: Date }): RenderedEmail {
+  const expires = params.expiresAt.toUTCString();
+  const url = APP_URL;
+
+  return {
+    template: 'data_export',
+    subject: 'Your IXXXI data export is ready',
+    html: layout('Data export', `
+      <p>The export of your account data is ready to download.</p>
+      <p style="color:#888;">Sign in to download it. It is available until ${escapeHtml(expires)}.</p>
+      ${button(url, 'Open IXXXI')}
+    `),
+    text: `The export of your account data is ready. Sign in at ${url} to download it before ${expires}.`,
+  };
+}
+
+/**
+ * Account deletion scheduled / canceled / completed
+ */
+export function accountDeletionEmail(params: {
+  stage: 'scheduled' | 'canceled' | 'completed';
+  scheduledFor?: Date;
+}): RenderedEmail {
+  const { stage, scheduledFor } = params;
+  const url = APP_URL;
+
+  if (stage === 'scheduled') {
+    const when = scheduledFor?.toUTCString() ?? 'the end of the grace period';
+    return {
+      template: 'account_deletion',
+      subject: 'Your IXXXI account is scheduled for deletion',
+      html: layout('Account deletion', `
+        <p>Your account and its data will be permanently deleted on <strong style="color:#fff;">${escapeHtml(when)}</strong>.</p>
+        <p style="color:#888;">Changed your mind? Sign in and cancel the deletion before then.</p>
+        ${button(url, 'Open IXXXI')}
+      `),
+      text: `Your IXXXI account will be permanently deleted on ${when}.\n\nChanged your mind? Sign in at ${url} to cancel.`,
+    };
+  }
+
+  if (stage === 'canceled') {
+    return {
+      template: 'account_deletion',
+      subject: 'Your IXXXI account deletion was canceled',
+      html: layout('Account deletion canceled', `
+        <p>The scheduled deletion of your account was canceled. Nothing has been removed.</p>
+      `),
+      text: 'The scheduled deletion of your IXXXI account was canceled. Nothing has been removed.',
+    };
+  }
+
+  return {
+    template: 'account_deletion',
+    subject: 'Your IXXXI account has been deleted',
+    html: layout('Account deleted', `
+      <p>Your account and personal data have been deleted.</p>
+      <p style="color:#888;">Payment records we are required to keep have been anonymized.</p>
+    `),
+    text: 'Your IXXXI account and personal data have been deleted. Payment records we are required to keep have been anonymized.',
+  };
+}
+
+/**
+ * Security-sensitive account change (2FA, payout wallet)
+ */
+export function securityAlertEmail(params: { title: string; message: string }): RenderedEmail {
+  const { title, message } = params;
+  const url = APP_URL;
+
+  return {
+    template: 'security_alert',
+    subject: `Security alert: ${title}`,
+    html: layout(title, `
+      <p>${escapeHtml(message)}</p>
+      <p style="color:#888;">If this wasn't you, sign in and secure your account right away.</p>
+      ${button(url, 'Open IXXXI')}
+    `),
+    text: `${message}\n\nIf this wasn't you, sign in at ${url} and secure your account right away.`,
+  };
+}
@@ -0,0 +1,103 @@
+// lib/email/transport.ts
+// Email transports - SMTP for production, filesystem outbox for dev/tests
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  from?: string;
+  subject: string;
+  html: string;
+  text: string;
+  tags?: string[];
+}
+
+export interface SendResult {
+  messageId: string;
+}
+
+export interface EmailTransport {
+  name: 'smtp' | 'outbox';
+  send(message: EmailMessage): Promise<SendResult>;
+}
+
+export const DEFAULT_FROM = process.env.EMAIL_FROM || 'IXXXI <no-reply@ixxxi.io>';
+
+/**
+ * SMTP driver (SendGrid, Resend, SES, Postmark... all speak SMTP)
+ */
+export function createSmtpTransport(): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true', // true for port 465
+    auth: process.env.SMTP_USER ? {
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: message.from || DEFAULT_FROM,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+      return { messageId: info.messageId };
+    },
+  };
+}
+
+/**
+ * Outbox driver - writes each message to disk as JSON instead of sending it
+ */
+export function createOutboxTransport(dir: string = process.env.EMAIL_OUTBOX_DIR || '.outbox'): EmailTransport {
+  const outboxDir = path.resolve(dir);
+
+  return {
+    name: 'outbox',
+    async send(message) {
+      const messageId = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+      await fs.mkdir(outboxDir, { recursive: true });
+      await fs.writeFile(
+        path.join(outboxDir, `${messageId}.json`),
+        JSON.stringify({
+          messageId,
+          from: message.from || DEFAULT_FROM,
+          ...message,
+          createdAt: new Date().toISOString(),
+        }, null, 2)
+      );
+      return { messageId };
+    },
+  };
+}
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Pick a transport from EMAIL_TRANSPORT ("smtp" | "outbox").
+ * Defaults to SMTP when SMTP_HOST is set, otherwise the outbox.
+ */
+export function getTransport(): EmailTransport {
+  if (!transport) {
+    const driver = process.env.EMAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'outbox');
+
+    if (driver === 'smtp') {
+      transport = createSmtpTransport();
+    } else {
+      if (process.env.NODE_ENV === 'production') {
+        console.warn('EMAIL_TRANSPORT is "outbox" in production - emails will not be delivered');
+      }
+      transport = createOutboxTransport();
+    }
+  }
+  return transport;
+}
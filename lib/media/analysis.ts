@@ -0,0 +1,375 @@
+// lib/media/analysis.ts
+// Offline tempo, key and energy estimation, plus the similarity helpers radio and
+// recommendations rank with
+//
+// Tempo: autocorrelation of a spectral-flux onset envelope, weighted towards ~120 BPM.
+// Key: chromagram correlated against the Krumhansl-Kessler major/minor profiles.
+// Energy: a 0-1 blend of loudness, onset density and spectral brightness.
+
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { getFile } from '@/lib/storage';
+import { runFfmpeg, withTempDir } from '@/lib/media/ffmpeg';
+
+export type KeyMode = 'major' | 'minor';
+
+export interface AudioAnalysis {
+  bpm: number | null;
+  key: string | null;   // Tonic pitch class, e.g. "F#"
+  mode: KeyMode | null;
+  energy: number;       // 0-1
+}
+
+export interface MusicalFeatures {
+  bpm?: number | null;
+  musicalKey?: string | null;
+  keyMode?: string | null;
+  energy?: number | null;
+}
+
+export const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const SAMPLE_RATE = 11025;
+const ANALYSIS_SECONDS = 120;     // Analyse two minutes, skipping the intro of longer tracks
+const INTRO_SKIP_SECONDS = 30;
+const FLUX_FRAME = 1024;
+const FLUX_HOP = 256;             // ~23ms onset resolution
+const CHROMA_FRAME = 4096;        // ~2.7Hz bins, enough to separate semitones above C2
+const CHROMA_HOP = 2048;
+const CHROMA_MIN_HZ = 65;
+const CHROMA_MAX_HZ = 2100;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;
+
+// Krumhansl-Kessler probe-tone profiles, index 0 = tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/**
+ * In-place iterative radix-2 FFT (also used by the forensic watermark)
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
+
+/**
+ * Magnitude spectrum of each Hann-windowed frame (the buffer is reused between calls)
+ */
+export function forEachSpectrum(
+  samples: Float32Array,
+  frameSize: number,
+  hop: number,
+  fn: (magnitudes: Float64Array) => void
+): void {
+  const window = Float64Array.from({ length: frameSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize));
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const magnitudes = new Float64Array(frameSize / 2);
+
+  for (let start = 0; start + frameSize <= samples.length; start += hop) {
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = samples[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < magnitudes.length; k++) {
+      magnitudes[k] = Math.hypot(re[k], im[k]);
+    }
+    fn(magnitudes);
+  }
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function pearson(a: number[], b: number[]): number {
+  const meanA = a.reduce((s, v) => s + v, 0) / a.length;
+  const meanB = b.reduce((s, v) => s + v, 0) / b.length;
+  let num = 0, denA = 0, denB = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i] - meanA) * (b[i] - meanB);
+    denA += (a[i] - meanA) ** 2;
+    denB += (b[i] - meanB) ** 2;
+  }
+  return denA && denB ? num / Math.sqrt(denA * denB) : 0;
+}
+
+function estimateTempo(envelope: number[], framesPerSecond: number): number | null {
+  if (envelope.length < framesPerSecond * 8) return null;
+
+  const mean = envelope.reduce((s, v) => s + v, 0) / envelope.length;
+  const centered = envelope.map(v => v - mean);
+  const minLag = Math.floor((60 * framesPerSecond) / MAX_BPM);
+  const maxLag = Math.ceil((60 * framesPerSecond) / MIN_BPM);
+
+  const scores: number[] = [];
+  for (let lag = 0; lag <= maxLag + 1; lag++) {
+    if (lag < minLag - 1) {
+      scores.push(0);
+      continue;
+    }
+    let sum = 0;
+    for (let i = 0; i + lag < centered.length; i++) sum += centered[i] * centered[i + lag];
+    // Log-normal prior around PREFERRED_BPM resolves half/double-time ambiguity
+    const bpm = (60 * framesPerSecond) / lag;
+    const weight = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+    scores.push((sum / (centered.length - lag)) * weight);
+  }
+
+  let best = minLag;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    if (scores[lag] > scores[best]) best = lag;
+  }
+  if (scores[best] <= 0) return null;
+
+  // Parabolic interpolation for sub-frame lag precision
+  const [prev, curr, next] = [scores[best - 1], scores[best], scores[best + 1]];
+  const denominator = prev - 2 * curr + next;
+  const offset = denominator ? (0.5 * (prev - next)) / denominator : 0;
+
+  return Math.round((60 * framesPerSecond) / (best + offset));
+}
+
+function estimateKey(samples: Float32Array, sampleRate: number): { key: string; mode: KeyMode } | null {
+  const pitchClassOfBin = Array.from({ length: CHROMA_FRAME / 2 }, (_, k) => {
+    const frequency = (k * sampleRate) / CHROMA_FRAME;
+    if (frequency < CHROMA_MIN_HZ || frequency > CHROMA_MAX_HZ) return -1;
+    const midi = Math.round(69 + 12 * Math.log2(frequency / 440));
+    return ((midi % 12) + 12) % 12;
+  });
+
+  const chroma = new Array<number>(12).fill(0);
+  forEachSpectrum(samples, CHROMA_FRAME, CHROMA_HOP, (magnitudes) => {
+    for (let k = 0; k < magnitudes.length; k++) {
+      const pitchClass = pitchClassOfBin[k];
+      if (pitchClass >= 0) chroma[pitchClass] += magnitudes[k];
+    }
+  });
+  if (!chroma.some(v => v > 0)) return null;
+
+  let best = { key: 'C', mode: 'major' as KeyMode, score: -Infinity };
+  for (let tonic = 0; tonic < 12; tonic++) {
+    for (const [mode, profile] of [['major', MAJOR_PROFILE], ['minor', MINOR_PROFILE]] as const) {
+      const rotated = chroma.map((_, pc) => profile[(pc - tonic + 12) % 12]);
+      const score = pearson(chroma, rotated);
+      if (score > best.score) best = { key: PITCH_CLASSES[tonic], mode, score };
+    }
+  }
+
+  return { key: best.key, mode: best.mode };
+}
+
+/**
+ * Estimate tempo, key and energy from mono PCM
+ */
+export function analyzeSamples(samples: Float32Array, sampleRate: number = SAMPLE_RATE): AudioAnalysis {
+  const envelope: number[] = [];
+  let previous: Float64Array | null = null;
+  let centroidSum = 0;
+
+  forEachSpectrum(samples, FLUX_FRAME, FLUX_HOP, (magnitudes) => {
+    let flux = 0, weighted = 0, total = 0;
+    for (let k = 0; k < magnitudes.length; k++) {
+      const value = Math.log1p(magnitudes[k]);
+      if (previous) flux += Math.max(0, value - previous[k]);
+      weighted += k * magnitudes[k];
+      total += magnitudes[k];
+    }
+    envelope.push(flux);
+    centroidSum += total ? ((weighted / total) * sampleRate) / FLUX_FRAME : 0;
+    previous = Float64Array.from(magnitudes, Math.log1p);
+  });
+
+  const framesPerSecond = sampleRate / FLUX_HOP;
+  const key = estimateKey(samples, sampleRate);
+
+  // Energy: loudness (-30..-6 dBFS), onsets per second (0-4) and spectral centroid (0-2.5kHz)
+  let squares = 0;
+  for (const sample of samples) squares += sample * sample;
+  const rmsDb = 20 * Math.log10(Math.sqrt(squares / Math.max(1, samples.length)) || 1e-9);
+
+  const mean = envelope.reduce((s, v) => s + v, 0) / Math.max(1, envelope.length);
+  const std = Math.sqrt(envelope.reduce((s, v) => s + (v - mean) ** 2, 0) / Math.max(1, envelope.length));
+  let onsets = 0;
+  for (let i = 1; i < envelope.length - 1; i++) {
+    if (envelope[i] > mean + std && envelope[i] >= envelope[i - 1] && envelope[i] > envelope[i + 1]) onsets++;
+  }
+  const seconds = samples.length / sampleRate;
+
+  const energy = 0.5 * clamp01((rmsDb + 30) / 24)
+    + 0.3 * clamp01(seconds ? onsets / seconds / 4 : 0)
+    + 0.2 * clamp01(envelope.length ? centroidSum / envelope.length / 2500 : 0);
+
+  return {
+    bpm: estimateTempo(envelope, framesPerSecond),
+    key: key?.key ?? null,
+    mode: key?.mode ?? null,
+    energy: Math.round(energy * 1000) / 1000,
+  };
+}
+
+/**
+ * Camelot wheel code (C major = 8B, A minor = 8A) - neighbours on the wheel mix harmonically
+ */
+export function camelotCode(key: string | null | undefined, mode: string | null | undefined): string | null {
+  const pitchClass = key ? PITCH_CLASSES.indexOf(key) : -1;
+  if (pitchClass < 0 || (mode !== 'major' && mode !== 'minor')) return null;
+
+  // Minor keys share a number with their relative major (three semitones up)
+  const major = mode === 'major' ? pitchClass : (pitchClass + 3) % 12;
+  const number = (((major * 7) % 12) + 7) % 12 + 1;
+  return `${number}${mode === 'major' ? 'B' : 'A'}`;
+}
+
+/**
+ * How well two keys mix: 1 same key, 0.8 relative or a fifth apart, 0 otherwise.
+ * Null when either key is unknown.
+ */
+export function keyCompatibility(a: MusicalFeatures, b: MusicalFeatures): number | null {
+  const codeA = camelotCode(a.musicalKey, a.keyMode);
+  const codeB = camelotCode(b.musicalKey, b.keyMode);
+  if (!codeA || !codeB) return null;
+  if (codeA === codeB) return 1;
+
+  const [numberA, letterA] = [parseInt(codeA), codeA.slice(-1)];
+  const [numberB, letterB] = [parseInt(codeB), codeB.slice(-1)];
+  const distance = Math.min(Math.abs(numberA - numberB), 12 - Math.abs(numberA - numberB));
+
+  if (numberA === numberB) return 0.8;
+  if (letterA === letterB && distance === 1) return 0.8;
+  return 0;
+}
+
+/**
+ * 0-1 closeness of a candidate to a target on tempo (half/double time allowed),
+ * key compatibility and energy. Only dimensions known on both sides count; null if none are.
+ */
+export function musicalSimilarity(target: MusicalFeatures, candidate: MusicalFeatures): number | null {
+  const parts: { score: number; weight: number }[] = [];
+
+  if (target.bpm && candidate.bpm) {
+    const ratio = Math.log2(candidate.bpm / target.bpm);
+    const distance = Math.min(Math.abs(ratio), Math.abs(ratio - 1), Math.abs(ratio + 1));
+    parts.push({ score: clamp01(1 - distance / Math.log2(1.15)), weight: 0.4 });
+  }
+
+  const key = keyCompatibility(target, candidate);
+  if (key !== null) parts.push({ score: key, weight: 0.3 });
+
+  if (target.energy != null && candidate.energy != null) {
+    parts.push({ score: clamp01(1 - Math.abs(target.energy - candidate.energy) / 0.5), weight: 0.3 });
+  }
+
+  if (!parts.length) return null;
+  const totalWeight = parts.reduce((s, p) => s + p.weight, 0);
+  return parts.reduce((s, p) => s + p.score * p.weight, 0) / totalWeight;
+}
+
+/**
+ * Estimate and store tempo, key and energy for a track. An artist-entered BPM is kept.
+ * Pass `source` when the caller already has the upload in memory.
+ */
+export async function analyzeTrack(trackId: string, source?: Buffer): Promise<AudioAnalysis> {
+  const track = await prisma.track.findUnique({
+    where: { id: trackId },
+    select: { id: true, audioKey: true, duration: true, bpm: true },
+  });
+
+  if (!track) throw new Error('Track not found');
+  if (!track.audioKey) throw new Error('Track has no source audio');
+
+  const input = source ?? await getFile(track.audioKey);
+  const start = track.duration && track.duration > ANALYSIS_SECONDS + INTRO_SKIP_SECONDS ? INTRO_SKIP_SECONDS : 0;
+
+  const analysis = await withTempDir(async (dir) => {
+    const inputPath = path.join(dir, 'source');
+    const pcmPath = path.join(dir, 'mono.f32');
+    await writeFile(inputPath, input);
+
+    await runFfmpeg([
+      '-ss', String(start),
+      '-t', String(ANALYSIS_SECONDS),
+      '-i', inputPath,
+      '-vn', '-ac', '1', '-ar', String(SAMPLE_RATE),
+      '-f', 'f32le', pcmPath,
+    ]);
+
+    const pcm = await readFile(pcmPath);
+    const samples = new Float32Array(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.length - (pcm.length % 4)));
+    return analyzeSamples(samples, SAMPLE_RATE);
+  });
+
+  await prisma.track.update({
+    where: { id: trackId },
+    data: {
+      bpm: track.bpm ?? analysis.bpm,
+      musicalKey: analysis.key,
+      keyMode: analysis.mode,
+      energy: analysis.energy,
+      analyzedAt: new Date(),
+    },
+  });
+
+  return analysis;
+}
+
+/**
+ * Analyse tracks that predate automatic detection (called by the media-jobs cron)
+ */
+export async function processAnalysisBackfill(batchSize: number = 2): Promise<{ analyzed: number; failed: number }> {
+  const results = { analyzed: 0, failed: 0 };
+
+  const tracks = await prisma.track.findMany({
+    where: {
+      analyzedAt: null,
+      audioKey: { not: null },
+      status: { in: ['ready', 'published', 'scheduled'] },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: batchSize,
+    select: { id: true },
+  });
+
+  for (const track of tracks) {
+    try {
+      await analyzeTrack(track.id);
+      results.analyzed++;
+    } catch (error) {
+      console.error(`[ANALYSIS] ${track.id} failed:`, error);
+      results.failed++;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,385 @@
+// lib/media/artwork.ts
+// Cover art processing - metadata stripping, resized WebP/AVIF variants and a color palette
+//
+// Originals are stored with EXIF/XMP/IPTC removed (camera, GPS and editing history leak
+// through artwork more often than you'd think). Variants are square crops at ARTWORK_SIZES
+// so thumbnails don't pull a 10MB original; the palette lets the theme and TV visualizer
+// tint themselves to the artwork.
+
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { deleteFile, getFile, uploadFile } from '@/lib/storage';
+import { runFfmpeg, withTempDir } from '@/lib/media/ffmpeg';
+import {
+  ARTWORK_FORMATS,
+  ARTWORK_SIZES,
+  ArtworkFormat,
+  CoverPalette,
+  CoverVariants,
+  parseCoverVariants,
+} from '@/lib/artwork';
+
+const PALETTE_SAMPLE_SIZE = 48;    // Artwork is scaled to 48x48 before clustering
+const PALETTE_COLORS = 5;
+const PALETTE_ITERATIONS = 8;
+const ACCENT_MIN_SHARE = 0.03;     // Clusters smaller than 3% of the image can't be the accent
+const ACCENT_LIGHTNESS = { min: 0.2, max: 0.85 };
+
+const ENCODER_ARGS: Record<ArtworkFormat, string[]> = {
+  webp: ['-c:v', 'libwebp', '-quality', '82', '-compression_level', '4'],
+  avif: ['-c:v', 'libaom-av1', '-still-picture', '1', '-crf', '30', '-cpu-used', '6'],
+};
+
+const CONTENT_TYPES: Record<ArtworkFormat, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+// JPEG markers that carry metadata: APP1 (EXIF, XMP), APP13 (IPTC/Photoshop), COM
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe]);
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+const WEBP_METADATA_CHUNKS = new Set(['EXIF', 'XMP ']);
+
+/**
+ * MIME type from the file's magic bytes (null if it isn't JPEG, PNG or WebP)
+ */
+export function imageMimeType(buffer: Buffer): string | null {
+  if (buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8) return 'image/jpeg';
+  if (buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47) return 'image/png';
+  if (buffer.length > 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+// Copy JPEG segments up to the scan, skipping metadata ones. ICC profiles (APP2) stay.
+function stripJpeg(buffer: Buffer): Buffer {
+  const parts: Buffer[] = [buffer.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return buffer;
+    const marker = buffer[offset + 1];
+    if (marker === 0xda) break; // Start of scan - entropy-coded data follows
+    const length = buffer.readUInt16BE(offset + 2);
+    if (length < 2 || offset + 2 + length > buffer.length) return buffer;
+    if (!JPEG_METADATA_MARKERS.has(marker)) parts.push(buffer.subarray(offset, offset + 2 + length));
+    offset += 2 + length;
+  }
+
+  parts.push(buffer.subarray(offset));
+  return Buffer.concat(parts);
+}
+
+function stripPng(buffer: Buffer): Buffer {
+  const parts: Buffer[] = [buffer.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const end = offset + 12 + length;
+    if (end > buffer.length) return buffer;
+    if (!PNG_METADATA_CHUNKS.has(buffer.toString('ascii', offset + 4, offset + 8))) {
+      parts.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  return Buffer.concat(parts);
+}
+
+function stripWebp(buffer: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const fourcc = buffer.toString('ascii', offset, offset + 4);
+    const length = buffer.readUInt32LE(offset + 4);
+    const end = offset + 8 + length + (length % 2); // Chunks are padded to an even size
+    if (end > buffer.length) return buffer;
+    if (!WEBP_METADATA_CHUNKS.has(fourcc)) {
+      const chunk = Buffer.from(buffer.subarray(offset, end));
+      if (fourcc === 'VP8X') chunk[8] &= ~0x0c; // Clear the EXIF and XMP flags
+      chunks.push(chunk);
+    }
+    offset = end;
+  }
+
+  const body = Buffer.concat(chunks);
+  const header = Buffer.from(buffer.subarray(0, 12));
+  header.writeUInt32LE(body.length + 4, 4);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Remove EXIF/XMP/IPTC and text metadata without re-encoding. Unknown or malformed
+ * files are returned unchanged.
+ */
+export function stripImageMetadata(buffer: Buffer): Buffer {
+  switch (imageMimeType(buffer)) {
+    case 'image/jpeg':
+      return stripJpeg(buffer);
+    case 'image/png':
+      return stripPng(buffer);
+    case 'image/webp':
+      return stripWebp(buffer);
+    default:
+      return buffer;
+  }
+}
+
+function toHex(rgb: number[]): string {
+  return '#' + rgb.map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+}
+
+// HSL saturation and lightness (0-1)
+function saturationLightness([r, g, b]: number[]): { s: number; l: number } {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const l = (max + min) / 2;
+  const s = max === min ? 0 : (max - min) / (1 - Math.abs(2 * l - 1));
+  return { s, l };
+}
+
+/**
+ * Palette of packed RGB pixels (k-means, seeded from luminance quantiles so it's deterministic)
+ */
+export function extractPalette(pixels: Uint8Array): CoverPalette {
+  const count = Math.floor(pixels.length / 3);
+  if (!count) return { dominant: '#000000', accent: '#000000', colors: ['#000000'] };
+
+  const luminance = (i: number) => 0.299 * pixels[i * 3] + 0.587 * pixels[i * 3 + 1] + 0.114 * pixels[i * 3 + 2];
+  const byLuminance = Array.from({ length: count }, (_, i) => i).sort((a, b) => luminance(a) - luminance(b));
+
+  let centers = Array.from({ length: Math.min(PALETTE_COLORS, count) }, (_, k) => {
+    const i = byLuminance[Math.floor(((k + 0.5) / PALETTE_COLORS) * count)];
+    return [pixels[i * 3], pixels[i * 3 + 1], pixels[i * 3 + 2]];
+  });
+  let sizes: number[] = [];
+
+  for (let iteration = 0; iteration < PALETTE_ITERATIONS; iteration++) {
+    const sums = centers.map(() => [0, 0, 0]);
+    sizes = centers.map(() => 0);
+
+    for (let i = 0; i < count; i++) {
+      const r = pixels[i * 3], g = pixels[i * 3 + 1], b = pixels[i * 3 + 2];
+      let best = 0;
+      let bestDistance = Infinity;
+      centers.forEach((c, k) => {
+        const distance = (r - c[0]) ** 2 + (g - c[1]) ** 2 + (b - c[2]) ** 2;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = k;
+        }
+      });
+      sums[best][0] += r;
+      sums[best][1] += g;
+      sums[best][2] += b;
+      sizes[best]++;
+    }
+
+    centers = centers.map((c, k) => (sizes[k] ? sums[k].map(v => v / sizes[k]) : c));
+  }
+
+  const clusters = centers
+    .map((rgb, k) => ({ rgb, share: sizes[k] / count }))
+    .filter(c => c.share > 0)
+    .sort((a, b) => b.share - a.share);
+
+  const accent = clusters
+    .filter(c => {
+      const { l } = saturationLightness(c.rgb);
+      return c.share >= ACCENT_MIN_SHARE && l >= ACCENT_LIGHTNESS.min && l <= ACCENT_LIGHTNESS.max;
+    })
+    .sort((a, b) => saturationLightness(b.rgb).s * Math.sqrt(b.share) - saturationLightness(a.rgb).s * Math.sqrt(a.share))[0];
+
+  return {
+    dominant: toHex(clusters[0].rgb),
+    accent: toHex((accent ?? clusters[0]).rgb),
+    colors: clusters.map(c => toHex(c.rgb)),
+  };
+}
+
+/**
+ * Render square WebP/AVIF variants (no larger than the source) and extract the palette
+ */
+export async function renderCoverArtwork(
+  source: Buffer,
+  prefix: string
+): Promise<{ variants: CoverVariants; palette: CoverPalette }> {
+  const { files, sizes, palette } = await withTempDir(async (dir) => {
+    const inputPath = path.join(dir, 'source');
+    const pixelsPath = path.join(dir, 'palette.rgb');
+    await writeFile(inputPath, source);
+
+    const log = await runFfmpeg([
+      '-i', inputPath,
+      '-frames:v', '1',
+      '-vf', `scale=${PALETTE_SAMPLE_SIZE}:${PALETTE_SAMPLE_SIZE}:flags=area`,
+      '-f', 'rawvideo', '-pix_fmt', 'rgb24',
+      pixelsPath,
+    ]);
+    const palette = extractPalette(new Uint8Array(await readFile(pixelsPath)));
+
+    // Don't upscale - a 500px cover gets 64/160/320 only
+    const dimensions = log.match(/Video:.*?, (\d+)x(\d+)/);
+    const sourceSize = dimensions ? Math.min(parseInt(dimensions[1]), parseInt(dimensions[2])) : Infinity;
+    const sizes = ARTWORK_SIZES.filter(size => size <= sourceSize);
+    if (!sizes.length) sizes.push(ARTWORK_SIZES[0]);
+
+    const files: { size: number; format: ArtworkFormat; data: Buffer }[] = [];
+    for (const size of sizes) {
+      const filter = `scale=${size}:${size}:force_original_aspect_ratio=increase:flags=lanczos,crop=${size}:${size},format=yuv420p`;
+      await runFfmpeg([
+        '-i', inputPath,
+        ...ARTWORK_FORMATS.flatMap(format => [
+          '-vf', filter,
+          '-frames:v', '1',
+          '-map_metadata', '-1',
+          ...ENCODER_ARGS[format],
+          path.join(dir, `${size}.${format}`),
+        ]),
+      ]);
+      for (const format of ARTWORK_FORMATS) {
+        files.push({ size, format, data: await readFile(path.join(dir, `${size}.${format}`)) });
+      }
+    }
+
+    return { files, sizes, palette };
+  });
+
+  const urls: CoverVariants['urls'] = { avif: {}, webp: {} };
+  for (const file of files) {
+    const stored = await uploadFile(`${prefix}/${file.size}.${file.format}`, file.data, CONTENT_TYPES[file.format]);
+    urls[file.format][file.size] = stored.url;
+  }
+
+  return { variants: { prefix, sizes, urls }, palette };
+}
+
+/**
+ * Storage keys of every rendered variant
+ */
+export function coverVariantKeys(value: string | null | undefined): string[] {
+  const variants = parseCoverVariants(value);
+  if (!variants) return [];
+  return variants.sizes.flatMap(size => ARTWORK_FORMATS.map(format => `${variants.prefix}/${size}.${format}`));
+}
+
+/**
+ * Whether a presigned cover upload belongs to the artist (keys come from GET /api/upload?type=cover)
+ */
+export function isArtistCoverKey(artistId: string, key: string): boolean {
+  return key.startsWith(`cover/${artistId}/`) && !key.includes('..');
+}
+
+// Strip the stored original in place, render variants and swap them in for the previous set
+async function processCover(params: {
+  artistId: string;
+  ownerId: string;
+  coverKey: string;
+  previous: string | null;
+  save: (data: { coverVariants: string; coverPalette: string }) => Promise<unknown>;
+}): Promise<CoverPalette> {
+  const original = await getFile(params.coverKey);
+  const stripped = stripImageMetadata(original);
+  if (stripped.length !== original.length) {
+    await uploadFile(params.coverKey, stripped, imageMimeType(stripped) || 'application/octet-stream');
+  }
+
+  // Prefixes are timestamped, so a re-rendered cover never serves stale CDN copies
+  const prefix = `artwork/${params.artistId}/${params.ownerId}-${Date.now()}`;
+  const { variants, palette } = await renderCoverArtwork(stripped, prefix);
+
+  await params.save({ coverVariants: JSON.stringify(variants), coverPalette: JSON.stringify(palette) });
+
+  for (const key of coverVariantKeys(params.previous)) {
+    if (key.startsWith(`${prefix}/`)) continue;
+    await deleteFile(key).catch(err => console.error('[ARTWORK] Failed to delete old variant:', err));
+  }
+
+  return palette;
+}
+
+/**
+ * Process a track's uploaded cover. Returns null if the track has no stored cover.
+ */
+export async function processTrackArtwork(trackId: string): Promise<CoverPalette | null> {
+  const track = await prisma.track.findUniqueOrThrow({
+    where: { id: trackId },
+    select: { artistId: true, coverKey: true, coverVariants: true },
+  });
+  if (!track.coverKey) return null;
+
+  return processCover({
+    artistId: track.artistId,
+    ownerId: trackId,
+    coverKey: track.coverKey,
+    previous: track.coverVariants,
+    save: (data) => prisma.track.update({ where: { id: trackId }, data }),
+  });
+}
+
+/**
+ * Process a release's uploaded cover. Returns null if the release has no stored cover.
+ */
+export async function processReleaseArtwork(releaseId: string): Promise<CoverPalette | null> {
+  const release = await prisma.release.findUniqueOrThrow({
+    where: { id: releaseId },
+    select: { artistId: true, coverKey: true, coverVariants: true },
+  });
+  if (!release.coverKey) return null;
+
+  return processCover({
+    artistId: release.artistId,
+    ownerId: releaseId,
+    coverKey: release.coverKey,
+    previous: release.coverVariants,
+    save: (data) => prisma.release.update({ where: { id: releaseId }, data }),
+  });
+}
+
+/**
+ * Render variants for covers that predate artwork processing, and for new release
+ * covers (called by the media-jobs cron)
+ */
+export async function processArtworkBackfill(batchSize: number = 4): Promise<{ processed: number; failed: number }> {
+  const results = { processed: 0, failed: 0 };
+
+  const [tracks, releases] = await Promise.all([
+    prisma.track.findMany({
+      where: {
+        coverKey: { not: null },
+        coverVariants: null,
+        status: { in: ['ready', 'published', 'scheduled'] },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: batchSize,
+      select: { id: true },
+    }),
+    prisma.release.findMany({
+      where: { coverKey: { not: null }, coverVariants: null },
+      orderBy: { createdAt: 'asc' },
+      take: batchSize,
+      select: { id: true },
+    }),
+  ]);
+
+  const jobs = [
+    ...tracks.map(t => ({ id: t.id, run: () => processTrackArtwork(t.id) })),
+    ...releases.map(r => ({ id: r.id, run: () => processReleaseArtwork(r.id) })),
+  ].slice(0, batchSize);
+
+  for (const job of jobs) {
+    try {
+      await job.run();
+      results.processed++;
+    } catch (error) {
+      console.error(`[ARTWORK] ${job.id} failed:`, error);
+      results.failed++;
+    }
+  }
+
+  return results;
+}
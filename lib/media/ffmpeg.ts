@@ -0,0 +1,58 @@
+// lib/media/ffmpeg.ts
+// Thin wrapper around the ffmpeg binary for server-side audio processing
+
+import { spawn } from 'child_process';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const STDERR_TAIL = 2000; // Characters of ffmpeg output kept for error messages
+
+/**
+ * Run ffmpeg with the given arguments. Resolves with stderr (ffmpeg logs there), rejects on failure.
+ */
+export function runFfmpeg(args: string[], timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG_PATH, ['-hide_banner', '-nostdin', '-y', ...args], {
+      stdio: ['ignore', 'ignore', 'pipe'],
+    });
+
+    let stderr = '';
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL * 4);
+    });
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`ffmpeg timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    child.on('error', (err) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to start ffmpeg: ${err.message}`));
+    });
+
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(stderr);
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.slice(-STDERR_TAIL)}`));
+      }
+    });
+  });
+}
+
+/**
+ * Run a callback with a scratch directory that is always removed afterwards
+ */
+export async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'ixxxi-media-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
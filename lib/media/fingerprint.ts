@@ -0,0 +1,435 @@
+// lib/media/fingerprint.ts
+// Acoustic fingerprinting - catches uploads of tracks already on the platform under another
+// artist's name (re-uploads, label rips), even re-encoded, trimmed or with a new intro
+//
+// Landmarks: spectrogram peaks paired with their neighbours, each pair hashed as
+// (anchor frequency, frequency delta, time delta). FingerprintHash is the inverted index;
+// a match is many shared hashes lining up at one consistent time offset.
+//
+// New uploads are screened in the transcode pipeline before any rendition is made. Close
+// matches become ContentMatch cases: the upload is held (or blocked outright when it is
+// near-identical) until the original artist grants an exception or an admin decides.
+
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { getFile } from '@/lib/storage';
+import { runFfmpeg, withTempDir } from '@/lib/media/ffmpeg';
+import { forEachSpectrum } from '@/lib/media/analysis';
+
+export interface Landmark {
+  hash: number;
+  offset: number; // Frame the anchor peak is in (~46ms each)
+}
+
+export interface FingerprintMatch {
+  trackId: string;
+  aligned: number;       // Hashes that line up at the best offset
+  score: number;         // aligned / hashes of the shorter fingerprint (0-1)
+  offsetSeconds: number; // Where the upload starts within the matched track
+}
+
+export type ScreeningResult = 'clear' | 'held' | 'blocked';
+export type ExceptionType = 'remaster' | 'remix' | 'license' | 'other';
+
+export const EXCEPTION_TYPES: ExceptionType[] = ['remaster', 'remix', 'license', 'other'];
+
+// Statuses that keep a track out of the catalog until its content match is resolved
+export const MODERATED_TRACK_STATUSES = ['held', 'blocked'];
+
+const SAMPLE_RATE = 11025;
+const FRAME_SIZE = 1024;           // ~93ms
+const HOP = 512;                   // ~46ms
+const MIN_BIN = 24;                // ~260Hz
+const MAX_BIN = 372;               // ~4kHz - the range that survives low-bitrate re-encodes
+const PEAK_TIME_RADIUS = 3;        // A peak is the loudest point within ±3 frames...
+const PEAK_FREQ_RADIUS = 8;        // ...and ±8 bins
+const PEAK_MIN_ABOVE_MEAN = 1.0;   // Natural-log magnitude above the frame mean (~9dB)
+const PEAK_MIN_MAGNITUDE = 0.1;    // Ignore near-silence
+const PEAKS_PER_FRAME = 3;
+const FAN_OUT = 4;                 // Pairs per anchor
+const TARGET_MAX_FRAMES = 40;      // ~1.9s ahead
+const TARGET_MAX_BINS = 63;
+const KEEP_ONE_IN = 4;             // Deterministic hash subsampling - keeps the index small
+const MAX_SECONDS = 600;
+
+const ELIGIBLE_STATUSES = ['ready', 'published', 'scheduled'];
+const MIN_ALIGNED = 20;            // Fewer aligned hashes than this is coincidence
+const HOLD_SCORE = 0.1;            // Share of the shorter track that must line up to hold an upload
+const BLOCK_SCORE = 0.5;           // Near-identical - blocked until an exception is granted
+const QUERY_CHUNK = 1000;
+const INSERT_CHUNK = 5000;
+
+/**
+ * Landmark hashes of mono PCM at 11025Hz
+ */
+export function fingerprintSamples(samples: Float32Array): Landmark[] {
+  const bins = MAX_BIN - MIN_BIN;
+  const frames: Float32Array[] = [];
+  forEachSpectrum(samples, FRAME_SIZE, HOP, (magnitudes) => {
+    const frame = new Float32Array(bins);
+    for (let b = 0; b < bins; b++) frame[b] = Math.log(magnitudes[MIN_BIN + b] + 1e-9);
+    frames.push(frame);
+  });
+
+  // Separable max filter - frequency, then time
+  const freqMax = frames.map(frame => {
+    const out = new Float32Array(bins);
+    for (let b = 0; b < bins; b++) {
+      let max = -Infinity;
+      for (let n = Math.max(0, b - PEAK_FREQ_RADIUS); n <= Math.min(bins - 1, b + PEAK_FREQ_RADIUS); n++) {
+        if (frame[n] > max) max = frame[n];
+      }
+      out[b] = max;
+    }
+    return out;
+  });
+
+  const minLog = Math.log(PEAK_MIN_MAGNITUDE);
+  const peaks: { t: number; f: number }[] = [];
+
+  for (let t = 0; t < frames.length; t++) {
+    const frame = frames[t];
+    const mean = frame.reduce((sum, v) => sum + v, 0) / bins;
+    const candidates: { f: number; value: number }[] = [];
+
+    for (let b = 0; b < bins; b++) {
+      const value = frame[b];
+      if (value < minLog || value < mean + PEAK_MIN_ABOVE_MEAN) continue;
+
+      let isPeak = true;
+      for (let n = Math.max(0, t - PEAK_TIME_RADIUS); n <= Math.min(frames.length - 1, t + PEAK_TIME_RADIUS) && isPeak; n++) {
+        if (freqMax[n][b] > value) isPeak = false;
+      }
+      if (isPeak) candidates.push({ f: b, value });
+    }
+
+    candidates
+      .sort((a, b) => b.value - a.value)
+      .slice(0, PEAKS_PER_FRAME)
+      .forEach(c => peaks.push({ t, f: c.f }));
+  }
+
+  const landmarks: Landmark[] = [];
+  for (let i = 0; i < peaks.length; i++) {
+    const anchor = peaks[i];
+    let paired = 0;
+
+    for (let j = i + 1; j < peaks.length && paired < FAN_OUT; j++) {
+      const target = peaks[j];
+      const dt = target.t - anchor.t;
+      if (dt > TARGET_MAX_FRAMES) break;
+      const df = target.f - anchor.f;
+      if (dt < 1 || Math.abs(df) > TARGET_MAX_BINS) continue;
+
+      paired++;
+      const hash = anchor.f * 8192 + (df + 64) * 64 + dt;
+      if ((Math.imul(hash, 0x9e3779b1) >>> 0) % KEEP_ONE_IN === 0) {
+        landmarks.push({ hash, offset: anchor.t });
+      }
+    }
+  }
+
+  return landmarks;
+}
+
+/**
+ * Best time alignment of the query against each candidate track's indexed hashes
+ */
+export function alignLandmarks(
+  query: Landmark[],
+  rows: { hash: number; trackId: string; offset: number }[]
+): Map<string, { aligned: number; delta: number }> {
+  const queryOffsets = new Map<number, number[]>();
+  for (const landmark of query) {
+    const offsets = queryOffsets.get(landmark.hash);
+    if (offsets) offsets.push(landmark.offset);
+    else queryOffsets.set(landmark.hash, [landmark.offset]);
+  }
+
+  const histograms = new Map<string, Map<number, number>>();
+  for (const row of rows) {
+    const offsets = queryOffsets.get(row.hash);
+    if (!offsets) continue;
+    let histogram = histograms.get(row.trackId);
+    if (!histogram) histograms.set(row.trackId, histogram = new Map());
+    for (const offset of offsets) {
+      const delta = row.offset - offset;
+      histogram.set(delta, (histogram.get(delta) || 0) + 1);
+    }
+  }
+
+  // Neighbouring deltas are merged - frame boundaries rarely line up exactly
+  const best = new Map<string, { aligned: number; delta: number }>();
+  for (const [trackId, histogram] of histograms) {
+    for (const [delta, count] of histogram) {
+      const aligned = count + (histogram.get(delta - 1) || 0) + (histogram.get(delta + 1) || 0);
+      const current = best.get(trackId);
+      if (!current || aligned > current.aligned) best.set(trackId, { aligned, delta });
+    }
+  }
+  return best;
+}
+
+/**
+ * Decode and fingerprint an audio file
+ */
+export async function computeFingerprint(source: Buffer): Promise<Landmark[]> {
+  return withTempDir(async (dir) => {
+    const inputPath = path.join(dir, 'source');
+    const pcmPath = path.join(dir, 'mono.f32');
+    await writeFile(inputPath, source);
+
+    await runFfmpeg([
+      '-t', String(MAX_SECONDS),
+      '-i', inputPath,
+      '-vn', '-ac', '1', '-ar', String(SAMPLE_RATE),
+      '-f', 'f32le', pcmPath,
+    ]);
+
+    const pcm = await readFile(pcmPath);
+    return fingerprintSamples(new Float32Array(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.length - (pcm.length % 4))));
+  });
+}
+
+/**
+ * Replace a track's entry in the fingerprint index
+ */
+export async function indexFingerprint(trackId: string, landmarks: Landmark[]): Promise<void> {
+  // Identical (hash, offset) pairs are one index row
+  const unique = Array.from(new Map(landmarks.map(l => [`${l.hash}:${l.offset}`, l])).values());
+
+  await prisma.fingerprintHash.deleteMany({ where: { trackId } });
+  for (let i = 0; i < unique.length; i += INSERT_CHUNK) {
+    await prisma.fingerprintHash.createMany({
+      data: unique.slice(i, i + INSERT_CHUNK).map(l => ({ trackId, hash: l.hash, offset: l.offset })),
+      skipDuplicates: true,
+    });
+  }
+
+  await prisma.trackFingerprint.upsert({
+    where: { trackId },
+    create: { trackId, hashCount: unique.length },
+    update: { hashCount: unique.length, createdAt: new Date() },
+  });
+}
+
+/**
+ * Catalog tracks by other artists that the landmarks closely match, best first
+ */
+export async function findFingerprintMatches(
+  landmarks: Landmark[],
+  exclude: { trackId: string; artistId: string }
+): Promise<FingerprintMatch[]> {
+  const hashes = Array.from(new Set(landmarks.map(l => l.hash)));
+  const rows: { hash: number; trackId: string; offset: number }[] = [];
+
+  for (let i = 0; i < hashes.length; i += QUERY_CHUNK) {
+    rows.push(...await prisma.fingerprintHash.findMany({
+      where: { hash: { in: hashes.slice(i, i + QUERY_CHUNK) }, trackId: { not: exclude.trackId } },
+      select: { hash: true, trackId: true, offset: true },
+    }));
+  }
+
+  const alignments = Array.from(alignLandmarks(landmarks, rows)).filter(([, a]) => a.aligned >= MIN_ALIGNED);
+  if (!alignments.length) return [];
+
+  const candidates = await prisma.track.findMany({
+    where: {
+      id: { in: alignments.map(([trackId]) => trackId) },
+      artistId: { not: exclude.artistId },
+      status: { in: ELIGIBLE_STATUSES },
+    },
+    select: { id: true, fingerprint: { select: { hashCount: true } } },
+  });
+  const hashCounts = new Map(candidates.map(c => [c.id, c.fingerprint?.hashCount ?? 0]));
+
+  return alignments
+    .filter(([trackId]) => hashCounts.has(trackId))
+    .map(([trackId, { aligned, delta }]) => ({
+      trackId,
+      aligned,
+      score: Math.min(1, aligned / Math.max(1, Math.min(landmarks.length, hashCounts.get(trackId)!))),
+      offsetSeconds: Math.round(((delta * HOP) / SAMPLE_RATE) * 10) / 10,
+    }))
+    .filter(match => match.score >= HOLD_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Screen a new upload against the catalog and index it (called by transcodeTrack).
+ * Matches already granted an exception are let through.
+ */
+export async function screenUpload(trackId: string, source: Buffer): Promise<ScreeningResult> {
+  const track = await prisma.track.findUniqueOrThrow({
+    where: { id: trackId },
+    select: {
+      id: true,
+      title: true,
+      artistId: true,
+      artist: { select: { name: true, userId: true } },
+      contentMatches: { select: { matchedTrackId: true, status: true } },
+    },
+  });
+
+  const landmarks = await computeFingerprint(source);
+  await indexFingerprint(trackId, landmarks);
+
+  const decided = new Map(track.contentMatches.map(m => [m.matchedTrackId, m.status]));
+  const matches = (await findFingerprintMatches(landmarks, { trackId, artistId: track.artistId }))
+    .filter(match => decided.get(match.trackId) !== 'approved');
+
+  if (!matches.length) return 'clear';
+
+  const originals = await prisma.track.findMany({
+    where: { id: { in: matches.map(m => m.trackId) } },
+    select: { id: true, title: true, artist: { select: { name: true, userId: true } } },
+  });
+  const originalsById = new Map(originals.map(o => [o.id, o]));
+
+  for (const match of matches) {
+    const autoBlocked = match.score >= BLOCK_SCORE;
+    const contentMatch = await prisma.contentMatch.upsert({
+      where: { trackId_matchedTrackId: { trackId, matchedTrackId: match.trackId } },
+      create: {
+        trackId,
+        matchedTrackId: match.trackId,
+        score: match.score,
+        offsetSeconds: match.offsetSeconds,
+        autoBlocked,
+      },
+      update: { score: match.score, offsetSeconds: match.offsetSeconds, autoBlocked },
+    });
+
+    // Only new cases notify the original artist
+    const original = originalsById.get(match.trackId);
+    if (original && !decided.has(match.trackId)) {
+      await prisma.notification.create({
+        data: {
+          userId: original.artist.userId,
+          type: 'system',
+          title: 'Possible copy of your track',
+          message: `"${track.title}" by ${track.artist.name} matches your track "${original.title}"`,
+          data: JSON.stringify({ trackId: original.id, matchId: contentMatch.id, actionUrl: '/artist/dashboard' }),
+        },
+      });
+    }
+  }
+
+  const rejected = matches.some(m => decided.get(m.trackId) === 'rejected');
+  const result: ScreeningResult = rejected || matches[0].score >= BLOCK_SCORE ? 'blocked' : 'held';
+  const best = originalsById.get(matches[0].trackId);
+
+  await prisma.track.update({
+    where: { id: trackId },
+    data: {
+      status: result,
+      processingStartedAt: null,
+      processingError: best
+        ? `Matches "${best.title}" by ${best.artist.name} (${Math.round(matches[0].score * 100)}%)`
+        : 'Matches a track already in the catalog',
+    },
+  });
+
+  await prisma.notification.create({
+    data: {
+      userId: track.artist.userId,
+      type: 'system',
+      title: result === 'blocked' ? 'Upload blocked' : 'Upload held for review',
+      message: `"${track.title}" matches a track already on the platform. If it's a licensed remaster or remix, request an exception from the original artist.`,
+      data: JSON.stringify({ trackId, actionUrl: '/artist/dashboard' }),
+    },
+  });
+
+  return result;
+}
+
+/**
+ * Settle a content match - an exception granted by the original artist, or an admin decision.
+ * Once every match on the upload is approved it goes back into the transcode queue;
+ * a rejection blocks it.
+ */
+export async function resolveContentMatch(
+  matchId: string,
+  decision: 'approved' | 'rejected',
+  decidedBy: string,
+  exceptionType?: ExceptionType
+) {
+  const match = await prisma.contentMatch.update({
+    where: { id: matchId },
+    data: {
+      status: decision,
+      decidedBy,
+      decidedAt: new Date(),
+      ...(exceptionType && { exceptionType }),
+    },
+    include: {
+      track: { select: { id: true, title: true, status: true, artist: { select: { userId: true } } } },
+    },
+  });
+
+  const open = await prisma.contentMatch.count({
+    where: { trackId: match.trackId, status: { not: 'approved' } },
+  });
+
+  let trackStatus = match.track.status;
+  if (decision === 'rejected') {
+    trackStatus = 'blocked';
+  } else if (open === 0 && MODERATED_TRACK_STATUSES.includes(match.track.status)) {
+    trackStatus = 'processing';
+  }
+
+  if (trackStatus !== match.track.status) {
+    await prisma.track.update({
+      where: { id: match.trackId },
+      data: {
+        status: trackStatus,
+        ...(trackStatus === 'processing' && { processingError: null, processingStartedAt: null }),
+      },
+    });
+  }
+
+  await prisma.notification.create({
+    data: {
+      userId: match.track.artist.userId,
+      type: 'system',
+      title: decision === 'approved' ? 'Exception granted' : 'Exception denied',
+      message: decision === 'approved'
+        ? `"${match.track.title}" was cleared${trackStatus === 'processing' ? ' and is being processed' : ''}`
+        : `"${match.track.title}" stays blocked`,
+      data: JSON.stringify({ trackId: match.trackId, matchId, actionUrl: '/artist/dashboard' }),
+    },
+  });
+
+  return { match, trackStatus };
+}
+
+/**
+ * Index catalog tracks uploaded before fingerprinting existed (called by the media-jobs cron)
+ */
+export async function processFingerprintBackfill(batchSize: number = 2): Promise<{ indexed: number; failed: number }> {
+  const results = { indexed: 0, failed: 0 };
+
+  const tracks = await prisma.track.findMany({
+    where: {
+      fingerprint: null,
+      audioKey: { not: null },
+      status: { in: ELIGIBLE_STATUSES },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: batchSize,
+    select: { id: true, audioKey: true },
+  });
+
+  for (const track of tracks) {
+    try {
+      await indexFingerprint(track.id, await computeFingerprint(await getFile(track.audioKey!)));
+      results.indexed++;
+    } catch (error) {
+      console.error(`[FINGERPRINT] ${track.id} failed:`, error);
+      results.failed++;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,149 @@
+// lib/media/loudness.ts
+// EBU R128 loudness - integrated loudness, true peak and loudness range per track,
+// plus a duration-weighted album loudness per release for album-mode normalization
+//
+// The player turns these into a per-track gain (see PlayerContext); nothing is re-encoded.
+
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { getFile } from '@/lib/storage';
+import { runFfmpeg, withTempDir } from '@/lib/media/ffmpeg';
+
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS
+  truePeak: number;   // dBTP
+  range: number;      // LU
+}
+
+// Silence measures as -inf; store the R128 absolute gate instead so it isn't re-measured
+const SILENCE_LUFS = -70;
+
+function parseMeasurement(value: unknown): number {
+  const parsed = parseFloat(String(value));
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) / 100 : SILENCE_LUFS;
+}
+
+/**
+ * Read the JSON summary ffmpeg's loudnorm filter prints at the end of its log
+ */
+export function parseLoudnormSummary(log: string): LoudnessMeasurement | null {
+  const match = log.match(/\{[^{}]*"input_i"[^{}]*\}/);
+  if (!match) return null;
+
+  try {
+    const summary = JSON.parse(match[0]);
+    return {
+      integrated: parseMeasurement(summary.input_i),
+      truePeak: parseMeasurement(summary.input_tp),
+      range: Math.max(0, parseMeasurement(summary.input_lra)),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Measure a local audio file
+ */
+export async function measureLoudness(inputPath: string): Promise<LoudnessMeasurement> {
+  const log = await runFfmpeg(['-i', inputPath, '-vn', '-af', 'loudnorm=print_format=json', '-f', 'null', '-']);
+  const measurement = parseLoudnormSummary(log);
+  if (!measurement) throw new Error('ffmpeg printed no loudness summary');
+  return measurement;
+}
+
+/**
+ * Measure and store a track's loudness, then refresh its release's album loudness.
+ * Pass `source` when the caller already has the upload in memory.
+ */
+export async function measureTrackLoudness(trackId: string, source?: Buffer): Promise<LoudnessMeasurement> {
+  const track = await prisma.track.findUnique({
+    where: { id: trackId },
+    select: { id: true, audioKey: true, releaseId: true },
+  });
+
+  if (!track) throw new Error('Track not found');
+  if (!track.audioKey) throw new Error('Track has no source audio');
+
+  const input = source ?? await getFile(track.audioKey);
+
+  const measurement = await withTempDir(async (dir) => {
+    const inputPath = path.join(dir, 'source');
+    await writeFile(inputPath, input);
+    return measureLoudness(inputPath);
+  });
+
+  await prisma.track.update({
+    where: { id: trackId },
+    data: {
+      loudness: measurement.integrated,
+      truePeak: measurement.truePeak,
+      loudnessRange: measurement.range,
+    },
+  });
+
+  await updateReleaseLoudness(track.releaseId);
+  return measurement;
+}
+
+/**
+ * Album loudness is the energy mean of its tracks weighted by duration; album peak is the loudest peak
+ */
+export async function updateReleaseLoudness(releaseId: string | null): Promise<void> {
+  if (!releaseId) return;
+
+  const tracks = await prisma.track.findMany({
+    where: { releaseId, loudness: { not: null } },
+    select: { loudness: true, truePeak: true, duration: true },
+  });
+  if (!tracks.length) return;
+
+  let energy = 0;
+  let totalDuration = 0;
+  for (const track of tracks) {
+    const weight = track.duration || 1;
+    energy += weight * Math.pow(10, track.loudness! / 10);
+    totalDuration += weight;
+  }
+
+  const peaks = tracks.map(t => t.truePeak).filter((p): p is number => p !== null);
+
+  await prisma.release.update({
+    where: { id: releaseId },
+    data: {
+      loudness: Math.round(10 * Math.log10(energy / totalDuration) * 100) / 100,
+      truePeak: peaks.length ? Math.max(...peaks) : null,
+    },
+  });
+}
+
+/**
+ * Measure tracks uploaded before loudness was recorded (called by the media-jobs cron)
+ */
+export async function processLoudnessBackfill(batchSize: number = 2): Promise<{ measured: number; failed: number }> {
+  const results = { measured: 0, failed: 0 };
+
+  const tracks = await prisma.track.findMany({
+    where: {
+      loudness: null,
+      audioKey: { not: null },
+      status: { in: ['ready', 'published', 'scheduled'] },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: batchSize,
+    select: { id: true },
+  });
+
+  for (const track of tracks) {
+    try {
+      await measureTrackLoudness(track.id);
+      results.measured++;
+    } catch (error) {
+      console.error(`[LOUDNESS] ${track.id} failed:`, error);
+      results.failed++;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,135 @@
+// lib/media/metadata.ts
+// Server-side audio metadata - container/codec properties and embedded ID3, Vorbis and MP4 tags
+//
+// Used at upload time so duration, format and technical details never depend on the client,
+// and by /api/upload/metadata to prefill the upload forms from the file's own tags.
+
+import { parseBuffer, selectCover } from 'music-metadata';
+
+export interface AudioArtwork {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface AudioTags {
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  genre: string | null;
+  year: number | null;
+  trackNumber: number | null;
+  bpm: number | null;
+  lyrics: string | null;
+  artwork: AudioArtwork | null;
+}
+
+export interface AudioMetadata {
+  duration: number | null;    // seconds
+  audioFormat: string | null; // File extension we store it under: "mp3" | "wav" | "flac" | "m4a" | "ogg" | ...
+  container: string | null;   // e.g. "MPEG", "FLAC", "M4A/isom"
+  codec: string | null;       // e.g. "MPEG 1 Layer 3", "AAC", "FLAC", "PCM"
+  bitrate: number | null;     // kbps
+  sampleRate: number | null;  // Hz
+  channels: number | null;
+  lossless: boolean;
+  tags: AudioTags;
+}
+
+// Fallback extension when the container can't be identified
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/flac': 'flac',
+  'audio/x-flac': 'flac',
+  'audio/aac': 'aac',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/ogg': 'ogg',
+};
+
+/**
+ * Storage extension for an audio MIME type
+ */
+export function audioExtensionForMime(mimeType: string): string | null {
+  return EXTENSION_BY_MIME[mimeType] || null;
+}
+
+// music-metadata reports containers like "MPEG", "WAVE", "FLAC", "M4A/isom/mp42", "Ogg", "ADTS"
+function extensionForContainer(container: string | undefined, codec: string | undefined): string | null {
+  const value = (container || '').toLowerCase();
+  if (!value) return null;
+  if (value.startsWith('mpeg')) return 'mp3';
+  if (value.startsWith('wave')) return 'wav';
+  if (value.startsWith('flac')) return 'flac';
+  if (value.startsWith('adts')) return 'aac';
+  if (value.startsWith('ogg')) return codec?.toLowerCase().includes('opus') ? 'opus' : 'ogg';
+  if (/^(m4a|m4b|mp4|isom|mp42|3gp)/.test(value)) return 'm4a';
+  if (value.startsWith('aiff')) return 'aiff';
+  return null;
+}
+
+function firstText(value: string | string[] | undefined): string | null {
+  const text = Array.isArray(value) ? value[0] : value;
+  return text?.trim() || null;
+}
+
+/**
+ * Parse an uploaded audio file. Returns null if it isn't a readable audio container.
+ */
+export async function extractAudioMetadata(data: Buffer, mimeType?: string): Promise<AudioMetadata | null> {
+  try {
+    const { format, common } = await parseBuffer(
+      new Uint8Array(data.buffer, data.byteOffset, data.length),
+      { mimeType, size: data.length },
+      { duration: true }
+    );
+
+    if (!format.container && !format.codec) return null;
+
+    const cover = selectCover(common.picture);
+    const lyrics = common.lyrics?.find(l => l.text)?.text
+      || common.lyrics?.find(l => l.syncText?.length)?.syncText.map(line => line.text).join('\n');
+
+    return {
+      duration: format.duration ? Math.round(format.duration) : null,
+      audioFormat: extensionForContainer(format.container, format.codec)
+        || (mimeType ? audioExtensionForMime(mimeType) : null),
+      container: format.container || null,
+      codec: format.codec || null,
+      bitrate: format.bitrate ? Math.round(format.bitrate / 1000) : null,
+      sampleRate: format.sampleRate || null,
+      channels: format.numberOfChannels || null,
+      lossless: format.lossless ?? false,
+      tags: {
+        title: firstText(common.title),
+        artist: firstText(common.artist),
+        album: firstText(common.album),
+        genre: firstText(common.genre),
+        year: common.year || null,
+        trackNumber: common.track?.no || null,
+        bpm: common.bpm ? Math.round(common.bpm) : null,
+        lyrics: lyrics?.trim() || null,
+        artwork: cover ? { data: Buffer.from(cover.data), mimeType: cover.format } : null,
+      },
+    };
+  } catch (error) {
+    console.error('[METADATA] Failed to parse audio:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Technical Track fields from parsed metadata
+ */
+export function trackFieldsFromMetadata(metadata: AudioMetadata) {
+  return {
+    duration: metadata.duration,
+    audioFormat: metadata.audioFormat,
+    audioCodec: metadata.codec,
+    audioBitrate: metadata.bitrate,
+    sampleRate: metadata.sampleRate,
+    channels: metadata.channels,
+  };
+}
@@ -0,0 +1,302 @@
+// lib/media/transcode.ts
+// Background transcoding - bitrate ladders, a 30-second preview, the lossless master,
+// encrypted HLS, waveform peaks, cover art variants, tempo/key/energy and loudness for each uploaded track
+//
+// Tracks enter as status "processing" and leave as "ready" or "failed" (with processingError),
+// or "held"/"blocked" when the fingerprint screen matches another artist's track.
+// Runs from the media-jobs cron; locally it works with FFMPEG_PATH and the local storage driver.
+
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { getFile, uploadFile } from '@/lib/storage';
+import { runFfmpeg, withTempDir } from '@/lib/media/ffmpeg';
+import { extractAudioMetadata, trackFieldsFromMetadata } from '@/lib/media/metadata';
+import { generateTrackWaveform } from '@/lib/media/waveform';
+import { analyzeTrack } from '@/lib/media/analysis';
+import { measureTrackLoudness } from '@/lib/media/loudness';
+import { processTrackArtwork } from '@/lib/media/artwork';
+import { packageTrackHls } from '@/lib/drm/hls';
+import { screenUpload } from '@/lib/media/fingerprint';
+
+export type AudioFormat = 'opus' | 'aac' | 'mp3';
+
+export interface LadderRung {
+  format: AudioFormat;
+  bitrate: number; // kbps
+}
+
+// Matches the subscription tiers (128/256/320kbps) plus efficient Opus/AAC for streaming
+export const TRANSCODE_LADDER: LadderRung[] = [
+  { format: 'opus', bitrate: 96 },
+  { format: 'opus', bitrate: 160 },
+  { format: 'aac', bitrate: 128 },
+  { format: 'aac', bitrate: 256 },
+  { format: 'mp3', bitrate: 128 },
+  { format: 'mp3', bitrate: 256 },
+  { format: 'mp3', bitrate: 320 },
+];
+
+export const PREVIEW_SECONDS = 30;
+const PREVIEW_FADE_SECONDS = 3;
+const PROCESSING_STALE_MS = 30 * 60 * 1000; // A job holding a track longer than this is presumed dead
+const LOSSLESS_SOURCE_FORMATS = ['flac', 'wav'];
+
+const ENCODERS: Record<AudioFormat, { args: string[]; extension: string; contentType: string }> = {
+  opus: { args: ['-c:a', 'libopus', '-vbr', 'on', '-ar', '48000'], extension: 'opus', contentType: 'audio/ogg' },
+  aac: { args: ['-c:a', 'aac', '-movflags', '+faststart'], extension: 'm4a', contentType: 'audio/mp4' },
+  mp3: { args: ['-c:a', 'libmp3lame'], extension: 'mp3', contentType: 'audio/mpeg' },
+};
+
+// "Duration: 00:03:25.12" from ffmpeg's log
+function parseDuration(log: string): number | null {
+  const match = log.match(/Duration:\s*(\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  return Math.round(parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3]));
+}
+
+// Container of the input ("flac", "wav", "mp3", ...) from ffmpeg's log
+function parseInputFormat(log: string): string | null {
+  const match = log.match(/Input #0, ([\w,]+)/);
+  return match ? match[1].split(',')[0] : null;
+}
+
+/**
+ * Best available rendition of a format up to a bitrate (used by downloads and progressive streams)
+ */
+export async function getRendition(trackId: string, format: AudioFormat, maxBitrate?: number) {
+  return prisma.audioRendition.findFirst({
+    where: { trackId, format, ...(maxBitrate && { bitrate: { lte: maxBitrate } }) },
+    orderBy: { bitrate: 'desc' },
+    select: { storageKey: true, bitrate: true, size: true },
+  });
+}
+
+/**
+ * Storage key of the best available rendition for a format
+ */
+export async function getRenditionKey(trackId: string, format: AudioFormat, maxBitrate?: number): Promise<string | null> {
+  const rendition = await getRendition(trackId, format, maxBitrate);
+  return rendition?.storageKey ?? null;
+}
+
+/**
+ * Transcode one track. Returns the resulting status, or null if another job already holds it.
+ */
+export async function transcodeTrack(trackId: string): Promise<'ready' | 'failed' | 'held' | null> {
+  const now = new Date();
+
+  // Claim the track so overlapping cron runs don't transcode it twice
+  const claimed = await prisma.track.updateMany({
+    where: {
+      id: trackId,
+      status: 'processing',
+      audioKey: { not: null },
+      OR: [
+        { processingStartedAt: null },
+        { processingStartedAt: { lt: new Date(now.getTime() - PROCESSING_STALE_MS) } },
+      ],
+    },
+    data: { processingStartedAt: now, processingError: null },
+  });
+  if (claimed.count === 0) return null;
+
+  const track = await prisma.track.findUniqueOrThrow({
+    where: { id: trackId },
+    select: {
+      id: true, artistId: true, releaseId: true, audioKey: true, audioUrl: true,
+      audioFormat: true, duration: true, bpm: true, lyrics: true,
+    },
+  });
+  const base = `${track.artistId}/${trackId}`;
+
+  try {
+    const source = await getFile(track.audioKey!);
+
+    // Re-uploads of someone else's track stop here, before any rendition exists
+    const screening = await screenUpload(trackId, source);
+    if (screening !== 'clear') {
+      console.warn(`[TRANSCODE] Track ${trackId} ${screening} by content match`);
+      return 'held';
+    }
+
+    // Direct (batch) uploads reach us without server-side metadata - read it from the file
+    const metadata = await extractAudioMetadata(source);
+    const output: {
+      duration: number | null;
+      audioFormat: string | null;
+      previewKey?: string;
+      previewUrl?: string;
+      losslessKey?: string;
+      losslessUrl?: string | null;
+    } = {
+      duration: metadata?.duration ?? track.duration,
+      audioFormat: metadata?.audioFormat ?? track.audioFormat,
+    };
+
+    await withTempDir(async (dir) => {
+      const input = path.join(dir, `source.${track.audioFormat || 'audio'}`);
+      await writeFile(input, source);
+
+      // Bitrate ladder
+      for (const rung of TRANSCODE_LADDER) {
+        const encoder = ENCODERS[rung.format];
+        const file = path.join(dir, `${rung.format}_${rung.bitrate}.${encoder.extension}`);
+
+        const log = await runFfmpeg([
+          '-i', input,
+          '-vn', '-map_metadata', '-1', '-ac', '2',
+          ...encoder.args,
+          '-b:a', `${rung.bitrate}k`,
+          file,
+        ]);
+        output.duration = output.duration ?? parseDuration(log);
+        output.audioFormat = output.audioFormat ?? parseInputFormat(log);
+
+        const data = await readFile(file);
+        const key = `transcodes/${base}/${rung.bitrate}k.${encoder.extension}`;
+        await uploadFile(key, data, encoder.contentType);
+
+        await prisma.audioRendition.upsert({
+          where: { trackId_format_bitrate: { trackId, format: rung.format, bitrate: rung.bitrate } },
+          create: { trackId, format: rung.format, bitrate: rung.bitrate, storageKey: key, size: data.length },
+          update: { storageKey: key, size: data.length },
+        });
+      }
+
+      // 30-second preview from a third of the way in, faded out
+      const start = output.duration && output.duration > PREVIEW_SECONDS * 2
+        ? Math.floor(output.duration / 3)
+        : 0;
+      const previewFile = path.join(dir, 'preview.mp3');
+
+      await runFfmpeg([
+        '-ss', String(start),
+        '-t', String(PREVIEW_SECONDS),
+        '-i', input,
+        '-vn', '-map_metadata', '-1', '-ac', '2',
+        '-af', `afade=t=out:st=${PREVIEW_SECONDS - PREVIEW_FADE_SECONDS}:d=${PREVIEW_FADE_SECONDS}`,
+        '-c:a', 'libmp3lame', '-b:a', '128k',
+        previewFile,
+      ]);
+
+      const preview = await uploadFile(`previews/${base}.mp3`, await readFile(previewFile), 'audio/mpeg');
+      output.previewKey = preview.key;
+      output.previewUrl = preview.url;
+
+      // Lossless master - FLAC uploads are kept as-is, WAV is losslessly compressed to FLAC
+      if (output.audioFormat === 'flac') {
+        output.losslessKey = track.audioKey!;
+        output.losslessUrl = track.audioUrl;
+      } else if (output.audioFormat && LOSSLESS_SOURCE_FORMATS.includes(output.audioFormat)) {
+        const flacFile = path.join(dir, 'master.flac');
+        await runFfmpeg(['-i', input, '-vn', '-c:a', 'flac', flacFile]);
+
+        const master = await uploadFile(`lossless/${base}.flac`, await readFile(flacFile), 'audio/flac');
+        output.losslessKey = master.key;
+        output.losslessUrl = master.url;
+      }
+    });
+
+    await packageTrackHls(trackId, undefined, source);
+
+    // Peaks and tempo/key are nice-to-have - a failure here leaves the track for the backfills
+    await generateTrackWaveform(trackId, source).catch(error =>
+      console.error(`[TRANSCODE] Waveform for ${trackId} failed:`, error)
+    );
+
+    await prisma.track.update({
+      where: { id: trackId },
+      data: {
+        status: 'ready',
+        processingError: null,
+        processingStartedAt: null,
+        ...(metadata && trackFieldsFromMetadata(metadata)),
+        ...(metadata && !track.bpm && { bpm: metadata.tags.bpm }),
+        ...(metadata && !track.lyrics && { lyrics: metadata.tags.lyrics }),
+        duration: output.duration,
+        audioFormat: output.audioFormat,
+        previewKey: output.previewKey,
+        previewUrl: output.previewUrl,
+        losslessKey: output.losslessKey,
+        losslessUrl: output.losslessUrl,
+        // Playback always goes through the protected stream endpoint
+        streamUrl: `/api/content/stream?trackId=${trackId}`,
+      },
+    });
+
+    await analyzeTrack(trackId, source).catch(error =>
+      console.error(`[TRANSCODE] Analysis of ${trackId} failed:`, error)
+    );
+    await measureTrackLoudness(trackId, source).catch(error =>
+      console.error(`[TRANSCODE] Loudness of ${trackId} failed:`, error)
+    );
+    await processTrackArtwork(trackId).catch(error =>
+      console.error(`[TRANSCODE] Artwork of ${trackId} failed:`, error)
+    );
+
+    await updateReleaseStatus(track.releaseId);
+    return 'ready';
+  } catch (error) {
+    console.error(`[TRANSCODE] Track ${trackId} failed:`, error);
+
+    await prisma.track.update({
+      where: { id: trackId },
+      data: {
+        status: 'failed',
+        processingStartedAt: null,
+        processingError: error instanceof Error ? error.message.slice(0, 1000) : 'Transcoding failed',
+      },
+    });
+    return 'failed';
+  }
+}
+
+// Mark a release ready once all of its tracks are
+async function updateReleaseStatus(releaseId: string | null): Promise<void> {
+  if (!releaseId) return;
+
+  const release = await prisma.release.findUnique({
+    where: { id: releaseId },
+    select: { status: true, trackCount: true },
+  });
+  if (!release || release.status !== 'processing') return;
+
+  const readyTracks = await prisma.track.count({ where: { releaseId, status: 'ready' } });
+  if (readyTracks >= release.trackCount) {
+    await prisma.release.update({
+      where: { id: releaseId },
+      data: { status: 'ready', uploadedAt: new Date() },
+    });
+  }
+}
+
+/**
+ * Transcode waiting uploads (called by the media-jobs cron)
+ */
+export async function processTranscodeQueue(batchSize: number = 1): Promise<{ processed: number; failed: number; held: number }> {
+  const results = { processed: 0, failed: 0, held: 0 };
+
+  const tracks = await prisma.track.findMany({
+    where: {
+      status: 'processing',
+      audioKey: { not: null },
+      OR: [
+        { processingStartedAt: null },
+        { processingStartedAt: { lt: new Date(Date.now() - PROCESSING_STALE_MS) } },
+      ],
+    },
+    orderBy: { createdAt: 'asc' },
+    take: batchSize,
+    select: { id: true },
+  });
+
+  for (const track of tracks) {
+    const status = await transcodeTrack(track.id);
+    if (status === 'ready') results.processed++;
+    else if (status === 'failed') results.failed++;
+    else if (status === 'held') results.held++;
+  }
+
+  return results;
+}
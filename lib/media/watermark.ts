@@ -0,0 +1,564 @@
+// lib/media/watermark.ts
+// Forensic watermarking - an inaudible per-listener code embedded in every file we hand out
+// (progressive streams and downloads), so a leaked copy can be traced back to its account
+//
+// The 64-bit code is spread over 1.5-7.5kHz as keyed ±0.5dB gain changes per band and frame,
+// behind a 16-bit sync pattern, and repeats every ~15s. Detection is blind - it needs only
+// WATERMARK_SECRET, not the original - and survives re-encoding, trimming and offsets.
+//
+// Each listener gets one watermarked copy per track, purpose and quality. The first request queues
+// it and the media-jobs cron renders it from the lossless master, a few per run - decoding a whole
+// track never happens inside a request. Copies are kept while they are being served; ForensicWatermark
+// rows (code -> user, track, time) are kept after the file is dropped.
+
+import crypto from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { deleteFile, getFile, uploadFile } from '@/lib/storage';
+import { runFfmpeg, withTempDir } from '@/lib/media/ffmpeg';
+import { fft } from '@/lib/media/analysis';
+import { generateWatermark } from '@/lib/drm/contentProtection';
+
+export type WatermarkPurpose = 'stream' | 'download';
+export type WatermarkFormat = 'mp3' | 'flac';
+
+export interface WatermarkedCopy {
+  code: string;
+  storageKey: string;
+  size: number;
+  contentType: string;
+}
+
+export interface WatermarkDetection {
+  code: string;
+  syncScore: number; // -1..1, share of the sync pattern that agrees (1 = clean read)
+}
+
+const EMBED_SAMPLE_RATE = 44100;
+const EMBED_FRAME = 2048;           // ~46ms, 50% overlap
+const DETECT_SAMPLE_RATE = 22050;   // Same frame duration at half the rate - enough for the band, half the work
+const DETECT_FRAME = 1024;
+const DETECT_OFFSETS = 4;           // Sub-hop alignments tried when decoding
+const BAND_MIN_HZ = 1500;
+const BAND_MAX_HZ = 7500;
+const BANDS = 24;
+const FRAMES_PER_BIT = 8;           // ~186ms per bit
+const STRENGTH_DB = 0.5;
+const CODE_BITS = 64;
+const SYNC_PATTERN = [1, 1, 1, 0, 1, 0, 1, 1, 0, 0, 1, 0, 0, 0, 1, 1];
+const CYCLE_BITS = SYNC_PATTERN.length + CODE_BITS;
+const HOST_WINDOW = 4;              // Frames either side averaged to remove the music's own band levels
+
+const MAX_DETECT_SECONDS = 180;
+const MAX_CODE_DISTANCE = 6;        // Bit errors tolerated when matching a read code to an issued one
+const RETAIN_COPY_DAYS = 30;        // Copies not served for this long are deleted (the mapping stays)
+const RENDER_STALE_MS = 30 * 60 * 1000; // A render job holding a copy longer than this is presumed dead
+
+const COPY_ENCODERS: Record<WatermarkFormat, { args: (bitrate: number) => string[]; extension: string; contentType: string }> = {
+  mp3: { args: (bitrate) => ['-c:a', 'libmp3lame', '-b:a', `${bitrate}k`], extension: 'mp3', contentType: 'audio/mpeg' },
+  flac: { args: () => ['-c:a', 'flac'], extension: 'flac', contentType: 'audio/flac' },
+};
+
+function getWatermarkSecret(): string {
+  const secret = process.env.WATERMARK_SECRET || process.env.CONTENT_SIGNING_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('WATERMARK_SECRET is not configured');
+    }
+    return 'dev-secret-change-in-prod';
+  }
+  return secret;
+}
+
+// Keyed ±1 chip per (frame within a bit, band)
+let chipCache: Int8Array | null = null;
+function chips(): Int8Array {
+  if (chipCache) return chipCache;
+
+  chipCache = new Int8Array(FRAMES_PER_BIT * BANDS);
+  for (let j = 0; j < FRAMES_PER_BIT; j++) {
+    const bytes = crypto.createHmac('sha256', getWatermarkSecret()).update(`chips:${j}`).digest();
+    for (let k = 0; k < BANDS; k++) {
+      chipCache[j * BANDS + k] = (bytes[k >> 3] >> (k & 7)) & 1 ? 1 : -1;
+    }
+  }
+  return chipCache;
+}
+
+// FFT bin edges of the log-spaced bands (identical at both rates - the frame duration is the same)
+function bandEdges(frameSize: number, sampleRate: number): number[] {
+  return Array.from({ length: BANDS + 1 }, (_, k) => {
+    const hz = BAND_MIN_HZ * Math.pow(BAND_MAX_HZ / BAND_MIN_HZ, k / BANDS);
+    return Math.round((hz * frameSize) / sampleRate);
+  });
+}
+
+function sqrtHann(size: number): Float64Array {
+  return Float64Array.from({ length: size }, (_, i) => Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size)));
+}
+
+function codeToBits(code: string): number[] {
+  if (!/^[0-9a-f]{16}$/.test(code)) throw new Error(`Invalid watermark code: ${code}`);
+  return code.split('').flatMap(digit => {
+    const value = parseInt(digit, 16);
+    return [3, 2, 1, 0].map(shift => (value >> shift) & 1);
+  });
+}
+
+function bitsToCode(bits: number[]): string {
+  let code = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    code += ((bits[i] << 3) | (bits[i + 1] << 2) | (bits[i + 2] << 1) | bits[i + 3]).toString(16);
+  }
+  return code;
+}
+
+/**
+ * Bits that differ between two codes
+ */
+export function codeDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; diff; diff &= diff - 1) distance++;
+  }
+  return distance;
+}
+
+/**
+ * Embed a code into 44.1kHz PCM channels (in place)
+ */
+export function embedWatermark(channels: Float32Array[], code: string): void {
+  const symbols = [...SYNC_PATTERN, ...codeToBits(code)].map(bit => (bit ? 1 : -1));
+  const chip = chips();
+  const edges = bandEdges(EMBED_FRAME, EMBED_SAMPLE_RATE);
+  const window = sqrtHann(EMBED_FRAME);
+  const hop = EMBED_FRAME / 2;
+  const re = new Float64Array(EMBED_FRAME);
+  const im = new Float64Array(EMBED_FRAME);
+  const bandRe = new Float64Array(EMBED_FRAME);
+  const bandIm = new Float64Array(EMBED_FRAME);
+  const gains = new Float64Array(BANDS);
+
+  for (const samples of channels) {
+    // Only the change is overlap-added, so the untouched signal is reconstructed exactly
+    const delta = new Float32Array(samples.length);
+
+    for (let frame = 0; frame * hop + EMBED_FRAME <= samples.length; frame++) {
+      const start = frame * hop;
+      const symbol = symbols[Math.floor(frame / FRAMES_PER_BIT) % CYCLE_BITS];
+      const j = frame % FRAMES_PER_BIT;
+      for (let k = 0; k < BANDS; k++) {
+        gains[k] = Math.pow(10, (STRENGTH_DB * symbol * chip[j * BANDS + k]) / 20) - 1;
+      }
+
+      for (let i = 0; i < EMBED_FRAME; i++) {
+        re[i] = samples[start + i] * window[i];
+        im[i] = 0;
+      }
+      fft(re, im);
+
+      // Keep only the scaled band bins (mirrored so the result stays real), conjugated for the inverse
+      bandRe.fill(0);
+      bandIm.fill(0);
+      for (let k = 0; k < BANDS; k++) {
+        for (let bin = edges[k]; bin < edges[k + 1]; bin++) {
+          bandRe[bin] = re[bin] * gains[k];
+          bandIm[bin] = -im[bin] * gains[k];
+          bandRe[EMBED_FRAME - bin] = bandRe[bin];
+          bandIm[EMBED_FRAME - bin] = -bandIm[bin];
+        }
+      }
+      fft(bandRe, bandIm);
+
+      for (let i = 0; i < EMBED_FRAME; i++) {
+        delta[start + i] += (bandRe[i] / EMBED_FRAME) * window[i];
+      }
+    }
+
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.max(-1, Math.min(1, samples[i] + delta[i]));
+    }
+  }
+}
+
+// Soft value of every bit slot for one sub-hop offset and each frame phase within a bit
+function readBitSlots(samples: Float32Array, offset: number): Float64Array[] {
+  const chip = chips();
+  const edges = bandEdges(DETECT_FRAME, DETECT_SAMPLE_RATE);
+  const hop = DETECT_FRAME / 2;
+  const frames = Math.floor((samples.length - offset - DETECT_FRAME) / hop) + 1;
+  if (frames <= 0) return [];
+
+  const window = sqrtHann(DETECT_FRAME).map(w => w * w);
+  const re = new Float64Array(DETECT_FRAME);
+  const im = new Float64Array(DETECT_FRAME);
+  const levels = new Float64Array(frames * BANDS);
+
+  for (let frame = 0; frame < frames; frame++) {
+    const start = offset + frame * hop;
+    for (let i = 0; i < DETECT_FRAME; i++) {
+      re[i] = samples[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < BANDS; k++) {
+      let power = 0;
+      for (let bin = edges[k]; bin < edges[k + 1]; bin++) power += re[bin] * re[bin] + im[bin] * im[bin];
+      levels[frame * BANDS + k] = Math.log(power + 1e-12);
+    }
+  }
+
+  // Correlate each frame's host-removed band levels with the chips of every frame position
+  const correlation = new Float64Array(frames * FRAMES_PER_BIT);
+  for (let frame = 0; frame < frames; frame++) {
+    const from = Math.max(0, frame - HOST_WINDOW);
+    const to = Math.min(frames - 1, frame + HOST_WINDOW);
+    for (let k = 0; k < BANDS; k++) {
+      let mean = 0;
+      for (let f = from; f <= to; f++) mean += levels[f * BANDS + k];
+      const residual = levels[frame * BANDS + k] - mean / (to - from + 1);
+      for (let j = 0; j < FRAMES_PER_BIT; j++) {
+        correlation[frame * FRAMES_PER_BIT + j] += residual * chip[j * BANDS + k];
+      }
+    }
+  }
+
+  return Array.from({ length: FRAMES_PER_BIT }, (_, phase) => {
+    const slots = new Float64Array(Math.floor((frames - phase) / FRAMES_PER_BIT));
+    for (let slot = 0; slot < slots.length; slot++) {
+      for (let j = 0; j < FRAMES_PER_BIT; j++) {
+        slots[slot] += correlation[(phase + slot * FRAMES_PER_BIT + j) * FRAMES_PER_BIT + j];
+      }
+    }
+    return slots;
+  });
+}
+
+/**
+ * Read the code from 22.05kHz mono PCM. Null if it is too short to hold a full cycle.
+ */
+export function detectWatermark(samples: Float32Array): WatermarkDetection | null {
+  let best: { folded: Float64Array; energy: number } | null = null;
+
+  // Find the frame alignment where the repeated cycles add up coherently
+  for (let o = 0; o < DETECT_OFFSETS; o++) {
+    const offset = Math.round((o * DETECT_FRAME) / 2 / DETECT_OFFSETS);
+    for (const slots of readBitSlots(samples, offset)) {
+      if (slots.length < CYCLE_BITS) continue;
+
+      const folded = new Float64Array(CYCLE_BITS);
+      slots.forEach((value, slot) => { folded[slot % CYCLE_BITS] += value; });
+      const energy = folded.reduce((sum, value) => sum + value * value, 0);
+      if (!best || energy > best.energy) best = { folded, energy };
+    }
+  }
+
+  if (!best) return null;
+  const { folded } = best;
+
+  // Then where in the cycle the sync pattern starts
+  let cycleStart = 0;
+  let bestSync = -Infinity;
+  for (let start = 0; start < CYCLE_BITS; start++) {
+    let sync = 0;
+    SYNC_PATTERN.forEach((bit, i) => { sync += folded[(start + i) % CYCLE_BITS] * (bit ? 1 : -1); });
+    if (sync > bestSync) {
+      bestSync = sync;
+      cycleStart = start;
+    }
+  }
+
+  let syncMagnitude = 0;
+  SYNC_PATTERN.forEach((_, i) => { syncMagnitude += Math.abs(folded[(cycleStart + i) % CYCLE_BITS]); });
+
+  const bits = Array.from({ length: CODE_BITS }, (_, i) =>
+    folded[(cycleStart + SYNC_PATTERN.length + i) % CYCLE_BITS] > 0 ? 1 : 0
+  );
+
+  return {
+    code: bitsToCode(bits),
+    syncScore: syncMagnitude ? Math.round((bestSync / syncMagnitude) * 1000) / 1000 : 0,
+  };
+}
+
+function deinterleave(pcm: Buffer, channelCount: number): Float32Array[] {
+  const interleaved = new Float32Array(pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.length - (pcm.length % 4)));
+  const frames = Math.floor(interleaved.length / channelCount);
+  return Array.from({ length: channelCount }, (_, c) => {
+    const channel = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) channel[i] = interleaved[i * channelCount + c];
+    return channel;
+  });
+}
+
+function interleave(channels: Float32Array[]): Buffer {
+  const frames = channels[0].length;
+  const interleaved = new Float32Array(frames * channels.length);
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels.length; c++) interleaved[i * channels.length + c] = channels[c][i];
+  }
+  return Buffer.from(interleaved.buffer);
+}
+
+// Decode the best source we have, embed, encode - returns the finished file
+async function renderWatermarkedAudio(source: Buffer, code: string, format: WatermarkFormat, bitrate: number): Promise<Buffer> {
+  return withTempDir(async (dir) => {
+    const inputPath = path.join(dir, 'source');
+    const pcmPath = path.join(dir, 'stereo.f32');
+    const markedPath = path.join(dir, 'marked.f32');
+    const outputPath = path.join(dir, `marked.${COPY_ENCODERS[format].extension}`);
+    await writeFile(inputPath, source);
+
+    await runFfmpeg(['-i', inputPath, '-vn', '-ac', '2', '-ar', String(EMBED_SAMPLE_RATE), '-f', 'f32le', pcmPath]);
+    const channels = deinterleave(await readFile(pcmPath), 2);
+    embedWatermark(channels, code);
+    await writeFile(markedPath, interleave(channels));
+
+    await runFfmpeg([
+      '-f', 'f32le', '-ar', String(EMBED_SAMPLE_RATE), '-ac', '2', '-i', markedPath,
+      ...COPY_ENCODERS[format].args(bitrate),
+      outputPath,
+    ]);
+    return readFile(outputPath);
+  });
+}
+
+export type WatermarkedCopyResult =
+  | { status: 'ready'; copy: WatermarkedCopy }
+  | { status: 'pending' }; // Queued - the media-jobs cron renders it
+
+/**
+ * The listener's watermarked copy of a track, or 'pending' after queuing its render (done by the
+ * media-jobs cron, never in the request). `bitrate` is ignored for FLAC.
+ */
+export async function requestWatermarkedCopy(params: {
+  userId: string;
+  trackId: string;
+  purpose: WatermarkPurpose;
+  format: WatermarkFormat;
+  bitrate?: number;
+}): Promise<WatermarkedCopyResult> {
+  const { userId, trackId, purpose, format } = params;
+  const bitrate = format === 'flac' ? 0 : params.bitrate || 320;
+  const where = { userId_trackId_purpose_format_bitrate: { userId, trackId, purpose, format, bitrate } };
+
+  const existing = await prisma.forensicWatermark.findUnique({ where });
+  if (existing?.storageKey && existing.size) {
+    await prisma.forensicWatermark.update({
+      where: { id: existing.id },
+      data: { servedCount: { increment: 1 }, lastServedAt: new Date() },
+    });
+    return {
+      status: 'ready',
+      copy: {
+        code: existing.code,
+        storageKey: existing.storageKey,
+        size: existing.size,
+        contentType: COPY_ENCODERS[format].contentType,
+      },
+    };
+  }
+
+  if (existing) {
+    // Already queued, or re-queue a copy that failed or was cleaned up (it keeps its code)
+    if (!existing.renderRequestedAt) {
+      await prisma.forensicWatermark.updateMany({
+        where: { id: existing.id, renderRequestedAt: null },
+        data: { renderRequestedAt: new Date(), renderError: null, lastServedAt: new Date() },
+      });
+    }
+    return { status: 'pending' };
+  }
+
+  await prisma.forensicWatermark.upsert({
+    where,
+    create: {
+      code: generateWatermark(userId, trackId),
+      userId, trackId, purpose, format, bitrate,
+      renderRequestedAt: new Date(),
+    },
+    update: {},
+  });
+  return { status: 'pending' };
+}
+
+/**
+ * Render one queued copy. Returns the outcome, or null if another job already holds it.
+ */
+export async function renderWatermarkedCopy(id: string): Promise<'ready' | 'failed' | null> {
+  const now = new Date();
+
+  // Claim the copy so overlapping cron runs don't render it twice
+  const claimed = await prisma.forensicWatermark.updateMany({
+    where: {
+      id,
+      renderRequestedAt: { not: null },
+      OR: [
+        { renderStartedAt: null },
+        { renderStartedAt: { lt: new Date(now.getTime() - RENDER_STALE_MS) } },
+      ],
+    },
+    data: { renderStartedAt: now },
+  });
+  if (claimed.count === 0) return null;
+
+  const copy = await prisma.forensicWatermark.findUniqueOrThrow({
+    where: { id },
+    include: { track: { select: { artistId: true, audioKey: true, losslessKey: true } } },
+  });
+
+  try {
+    const sourceKey = copy.track.losslessKey || copy.track.audioKey;
+    if (!sourceKey) throw new Error('Track has no source audio');
+
+    const format = copy.format as WatermarkFormat;
+    const encoder = COPY_ENCODERS[format];
+    const data = await renderWatermarkedAudio(await getFile(sourceKey), copy.code, format, copy.bitrate);
+    const stored = await uploadFile(
+      `watermarked/${copy.track.artistId}/${copy.trackId}/${copy.userId}-${copy.purpose}-${copy.bitrate || 'lossless'}.${encoder.extension}`,
+      data,
+      encoder.contentType
+    );
+
+    await prisma.forensicWatermark.update({
+      where: { id },
+      data: {
+        storageKey: stored.key,
+        size: data.length,
+        renderRequestedAt: null,
+        renderStartedAt: null,
+        renderError: null,
+      },
+    });
+    return 'ready';
+  } catch (error) {
+    console.error(`[WATERMARK] Render of ${id} failed:`, error);
+
+    // The next request for the copy queues it again
+    await prisma.forensicWatermark.update({
+      where: { id },
+      data: {
+        renderRequestedAt: null,
+        renderStartedAt: null,
+        renderError: error instanceof Error ? error.message.slice(0, 1000) : 'Render failed',
+      },
+    });
+    return 'failed';
+  }
+}
+
+/**
+ * Render queued watermarked copies, oldest request first (called by the media-jobs cron)
+ */
+export async function processWatermarkQueue(batchSize: number = 2): Promise<{ rendered: number; failed: number }> {
+  const results = { rendered: 0, failed: 0 };
+
+  const copies = await prisma.forensicWatermark.findMany({
+    where: {
+      renderRequestedAt: { not: null },
+      OR: [
+        { renderStartedAt: null },
+        { renderStartedAt: { lt: new Date(Date.now() - RENDER_STALE_MS) } },
+      ],
+    },
+    orderBy: { renderRequestedAt: 'asc' },
+    take: batchSize,
+    select: { id: true },
+  });
+
+  for (const copy of copies) {
+    const status = await renderWatermarkedCopy(copy.id);
+    if (status === 'ready') results.rendered++;
+    else if (status === 'failed') results.failed++;
+  }
+
+  return results;
+}
+
+/**
+ * Read the watermark from a (leaked) audio file and find the copy it came from
+ */
+export async function traceWatermark(audio: Buffer) {
+  const samples = await withTempDir(async (dir) => {
+    const inputPath = path.join(dir, 'leak');
+    const pcmPath = path.join(dir, 'mono.f32');
+    await writeFile(inputPath, audio);
+    await runFfmpeg([
+      '-t', String(MAX_DETECT_SECONDS),
+      '-i', inputPath,
+      '-vn', '-ac', '1', '-ar', String(DETECT_SAMPLE_RATE),
+      '-f', 'f32le', pcmPath,
+    ]);
+    return deinterleave(await readFile(pcmPath), 1)[0];
+  });
+
+  const detection = detectWatermark(samples);
+  if (!detection) return { detection: null, match: null };
+
+  // Exact read first, otherwise the nearest issued code within the error budget
+  let match = await prisma.forensicWatermark.findUnique({ where: { code: detection.code } });
+  let bitErrors = 0;
+
+  if (!match) {
+    let cursor: string | undefined;
+    let nearest: { id: string; distance: number } | null = null;
+
+    for (;;) {
+      const batch = await prisma.forensicWatermark.findMany({
+        select: { id: true, code: true },
+        orderBy: { id: 'asc' },
+        take: 5000,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+      for (const candidate of batch) {
+        const distance = codeDistance(detection.code, candidate.code);
+        if (distance <= MAX_CODE_DISTANCE && (!nearest || distance < nearest.distance)) {
+          nearest = { id: candidate.id, distance };
+        }
+      }
+      if (batch.length < 5000) break;
+      cursor = batch[batch.length - 1].id;
+    }
+
+    if (nearest) {
+      match = await prisma.forensicWatermark.findUnique({ where: { id: nearest.id } });
+      bitErrors = nearest.distance;
+    }
+  }
+
+  return { detection, match: match && { watermark: match, bitErrors } };
+}
+
+/**
+ * Delete watermarked files nobody has fetched in a while (called by the media-jobs cron)
+ */
+export async function processWatermarkCleanup(batchSize: number = 50): Promise<{ removed: number; failed: number }> {
+  const results = { removed: 0, failed: 0 };
+
+  const copies = await prisma.forensicWatermark.findMany({
+    where: {
+      storageKey: { not: null },
+      lastServedAt: { lt: new Date(Date.now() - RETAIN_COPY_DAYS * 24 * 60 * 60 * 1000) },
+    },
+    take: batchSize,
+    select: { id: true, storageKey: true },
+  });
+
+  for (const copy of copies) {
+    try {
+      await deleteFile(copy.storageKey!);
+      await prisma.forensicWatermark.update({
+        where: { id: copy.id },
+        data: { storageKey: null, size: null },
+      });
+      results.removed++;
+    } catch (error) {
+      console.error(`[WATERMARK] Cleanup of ${copy.id} failed:`, error);
+      results.failed++;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,158 @@
+// lib/media/waveform.ts
+// Waveform peaks and a PNG render, computed from the decoded upload
+//
+// Track.waveformData holds peaks at several resolutions ({"200": [...], "800": [...], "1600": [...]}),
+// each value the bucket's absolute peak normalized to the loudest sample (0-1).
+
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { deleteFile, generateStorageKey, getFile, uploadFile } from '@/lib/storage';
+import { runFfmpeg, withTempDir } from '@/lib/media/ffmpeg';
+
+export const WAVEFORM_RESOLUTIONS = [200, 800, 1600];
+export const DEFAULT_WAVEFORM_RESOLUTION = 800;
+
+const DECODE_SAMPLE_RATE = 8000; // Plenty for peaks at 1600 buckets, keeps decoded PCM small
+const IMAGE_SIZE = '1600x240';
+const IMAGE_COLOR = '0xFFFFFF';
+
+export type WaveformPeaks = Record<number, number[]>;
+
+/**
+ * Absolute peak per bucket, normalized to the loudest sample
+ */
+export function computePeaks(samples: Int16Array, buckets: number): number[] {
+  const peaks = new Array<number>(buckets).fill(0);
+  if (!samples.length) return peaks;
+
+  const perBucket = samples.length / buckets;
+  let max = 0;
+
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor(bucket * perBucket);
+    const end = Math.max(start + 1, Math.floor((bucket + 1) * perBucket));
+    let peak = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[bucket] = peak;
+    if (peak > max) max = peak;
+  }
+
+  return peaks.map(peak => (max ? Math.round((peak / max) * 1000) / 1000 : 0));
+}
+
+/**
+ * Parse Track.waveformData. Older tracks carry a single client-posted array, which
+ * is returned as its own resolution.
+ */
+export function parseWaveformData(value: string | null): WaveformPeaks {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return { [parsed.length]: parsed };
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Smallest stored resolution that is at least `requested` (or the largest available)
+ */
+export function pickResolution(peaks: WaveformPeaks, requested: number): number | null {
+  const available = Object.keys(peaks).map(Number).sort((a, b) => a - b);
+  if (!available.length) return null;
+  return available.find(r => r >= requested) ?? available[available.length - 1];
+}
+
+/**
+ * Decode a track, store its peaks and a PNG render.
+ * Pass `source` when the caller already has the upload in memory.
+ */
+export async function generateTrackWaveform(trackId: string, source?: Buffer): Promise<WaveformPeaks> {
+  const track = await prisma.track.findUnique({
+    where: { id: trackId },
+    select: { id: true, artistId: true, audioKey: true, waveformKey: true },
+  });
+
+  if (!track) throw new Error('Track not found');
+  if (!track.audioKey) throw new Error('Track has no source audio');
+
+  const input = source ?? await getFile(track.audioKey);
+
+  const { peaks, image } = await withTempDir(async (dir) => {
+    const inputPath = path.join(dir, 'source');
+    const pcmPath = path.join(dir, 'mono.pcm');
+    const imagePath = path.join(dir, 'waveform.png');
+    await writeFile(inputPath, input);
+
+    // Mono 16-bit PCM at a low sample rate
+    await runFfmpeg(['-i', inputPath, '-vn', '-ac', '1', '-ar', String(DECODE_SAMPLE_RATE), '-f', 's16le', pcmPath]);
+    const pcm = await readFile(pcmPath);
+    const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.length / 2));
+
+    const peaks: WaveformPeaks = {};
+    for (const resolution of WAVEFORM_RESOLUTIONS) {
+      peaks[resolution] = computePeaks(samples, resolution);
+    }
+
+    await runFfmpeg([
+      '-i', inputPath,
+      '-filter_complex', `aformat=channel_layouts=mono,showwavespic=s=${IMAGE_SIZE}:colors=${IMAGE_COLOR}`,
+      '-frames:v', '1',
+      imagePath,
+    ]);
+
+    return { peaks, image: await readFile(imagePath) };
+  });
+
+  const stored = await uploadFile(generateStorageKey(track.artistId, trackId, 'waveform', 'png'), image, 'image/png');
+  await prisma.track.update({
+    where: { id: trackId },
+    data: {
+      waveformData: JSON.stringify(peaks),
+      waveformKey: stored.key,
+      waveformUrl: stored.url,
+    },
+  });
+
+  // Keys are timestamped, so a regenerated image doesn't overwrite the old one
+  if (track.waveformKey && track.waveformKey !== stored.key) {
+    await deleteFile(track.waveformKey).catch(err => console.error('[WAVEFORM] Failed to delete old image:', err));
+  }
+
+  return peaks;
+}
+
+/**
+ * Generate waveforms for tracks that predate server-side peaks (called by the media-jobs cron)
+ */
+export async function processWaveformBackfill(batchSize: number = 2): Promise<{ generated: number; failed: number }> {
+  const results = { generated: 0, failed: 0 };
+
+  const tracks = await prisma.track.findMany({
+    where: {
+      waveformKey: null,
+      audioKey: { not: null },
+      status: { in: ['ready', 'published', 'scheduled'] },
+    },
+    orderBy: { createdAt: 'asc' },
+    take: batchSize,
+    select: { id: true },
+  });
+
+  for (const track of tracks) {
+    try {
+      await generateTrackWaveform(track.id);
+      results.generated++;
+    } catch (error) {
+      console.error(`[WAVEFORM] ${track.id} failed:`, error);
+      results.failed++;
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,206 @@
+// lib/payouts.ts
+// Artist payout destination - wallet changes wait out a cooling-off period and notify the owner
+
+import { PublicKey } from '@solana/web3.js';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { notifySecurityEvent } from '@/lib/twoFactor';
+
+export const PAYOUT_WALLET_COOLOFF_HOURS = parseInt(process.env.PAYOUT_WALLET_COOLOFF_HOURS || '48');
+
+// Withdrawals taking the last 24 hours' total above these amounts need a second factor
+export const WITHDRAWAL_2FA_THRESHOLDS: Record<'SOL' | 'USDC', number> = {
+  SOL: parseFloat(process.env.WITHDRAWAL_2FA_THRESHOLD_SOL || '1'),
+  USDC: parseFloat(process.env.WITHDRAWAL_2FA_THRESHOLD_USDC || '100'),
+};
+
+function shortWallet(wallet: string): string {
+  return `${wallet.slice(0, 4)}...${wallet.slice(-4)}`;
+}
+
+/**
+ * Run `fn` in a transaction holding a row lock on the artist - one withdrawal per artist at a time,
+ * so the balance and 2FA checks and the withdrawal they allow can't interleave with another request's
+ */
+export async function withWithdrawalLock<T>(
+  artistId: string,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "Artist" WHERE id = ${artistId} FOR UPDATE`;
+    return fn(tx);
+  });
+}
+
+/**
+ * Whether a withdrawal needs step-up authentication. Counts everything withdrawn (or pending)
+ * in the last 24 hours, so splitting a large amount into small ones doesn't avoid it.
+ * Pass the transaction from withWithdrawalLock so concurrent requests see each other's.
+ */
+export async function withdrawalRequiresSecondFactor(
+  artistId: string,
+  amount: number,
+  currency: 'SOL' | 'USDC',
+  db: Prisma.TransactionClient = prisma
+): Promise<boolean> {
+  const recent = await db.withdrawal.aggregate({
+    where: {
+      artistId,
+      currency,
+      status: { not: 'failed' },
+      createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+    },
+    _sum: { amount: true },
+  });
+
+  return (recent._sum.amount || 0) + amount > WITHDRAWAL_2FA_THRESHOLDS[currency];
+}
+
+/**
+ * Valid Solana address check
+ */
+export function isValidWallet(wallet: string): boolean {
+  try {
+    new PublicKey(wallet);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Apply a pending wallet change once its cooling-off period is over.
+ * Safe to call repeatedly - only the first caller applies and notifies.
+ */
+export async function applyDuePayoutWallet(artistId: string): Promise<boolean> {
+  const artist = await prisma.artist.findUnique({
+    where: { id: artistId },
+    include: { user: { select: { id: true, email: true } } },
+  });
+
+  if (!artist?.pendingWallet || !artist.pendingWalletAt || artist.pendingWalletAt > new Date()) {
+    return false;
+  }
+
+  const now = new Date();
+  const applied = await prisma.artist.updateMany({
+    where: { id: artistId, pendingWallet: artist.pendingWallet, pendingWalletAt: artist.pendingWalletAt },
+    data: { wallet: artist.pendingWallet, pendingWallet: null, pendingWalletAt: null, walletChangedAt: now },
+  });
+  if (applied.count === 0) return false;
+
+  await notifySecurityEvent(artist.user, {
+    title: 'Payout wallet changed',
+    message: `Your payout wallet is now ${shortWallet(artist.pendingWallet)}. Future withdrawals will be sent there.`,
+    data: { artistId, actionUrl: '/artist/dashboard' },
+  });
+
+  return true;
+}
+
+/**
+ * Apply every pending wallet change that is due (called by the account-jobs cron)
+ */
+export async function applyDuePayoutWallets(): Promise<{ applied: number }> {
+  const due = await prisma.artist.findMany({
+    where: { pendingWallet: { not: null }, pendingWalletAt: { lte: new Date() } },
+    select: { id: true },
+  });
+
+  let applied = 0;
+  for (const artist of due) {
+    if (await applyDuePayoutWallet(artist.id)) applied++;
+  }
+
+  return { applied };
+}
+
+/**
+ * Pin the owner's current login wallet as the payout wallet if none is set (artists created
+ * before the wallet was copied at signup). From then on only the payout wallet flow changes it.
+ */
+export async function pinPayoutWallet(artistId: string): Promise<void> {
+  const artist = await prisma.artist.findUnique({
+    where: { id: artistId },
+    select: { wallet: true, user: { select: { walletAddress: true } } },
+  });
+  if (!artist || artist.wallet) return;
+
+  await prisma.artist.updateMany({
+    where: { id: artistId, wallet: null },
+    data: { wallet: artist.user.walletAddress },
+  });
+}
+
+/**
+ * Current payout wallet after applying any due change
+ */
+export async function getPayoutWallet(artistId: string): Promise<string | null> {
+  await pinPayoutWallet(artistId);
+  await applyDuePayoutWallet(artistId);
+
+  const artist = await prisma.artist.findUnique({
+    where: { id: artistId },
+    select: { wallet: true },
+  });
+
+  return artist?.wallet ?? null;
+}
+
+/**
+ * Schedule a payout wallet change. The current wallet stays in use until the cooling-off period ends.
+ */
+export async function requestPayoutWalletChange(
+  artistId: string,
+  wallet: string
+): Promise<{ scheduled: true; effectiveAt: Date } | { scheduled: false; error: string }> {
+  if (!isValidWallet(wallet)) {
+    return { scheduled: false, error: 'Invalid wallet address' };
+  }
+
+  const current = await getPayoutWallet(artistId);
+  if (current === wallet) {
+    return { scheduled: false, error: 'This is already your payout wallet' };
+  }
+
+  const effectiveAt = new Date(Date.now() + PAYOUT_WALLET_COOLOFF_HOURS * 60 * 60 * 1000);
+
+  const artist = await prisma.artist.update({
+    where: { id: artistId },
+    data: { pendingWallet: wallet, pendingWalletAt: effectiveAt },
+    include: { user: { select: { id: true, email: true } } },
+  });
+
+  await notifySecurityEvent(artist.user, {
+    title: 'Payout wallet change requested',
+    message: `A change of your payout wallet to ${shortWallet(wallet)} was requested. It takes effect on ${effectiveAt.toUTCString()} unless you cancel it.`,
+    data: { artistId, actionUrl: '/artist/dashboard' },
+  });
+
+  return { scheduled: true, effectiveAt };
+}
+
+/**
+ * Cancel a pending payout wallet change
+ */
+export async function cancelPayoutWalletChange(artistId: string): Promise<boolean> {
+  const artist = await prisma.artist.findUnique({
+    where: { id: artistId },
+    include: { user: { select: { id: true, email: true } } },
+  });
+
+  if (!artist?.pendingWallet) return false;
+
+  await prisma.artist.update({
+    where: { id: artistId },
+    data: { pendingWallet: null, pendingWalletAt: null },
+  });
+
+  await notifySecurityEvent(artist.user, {
+    title: 'Payout wallet change canceled',
+    message: `The pending change of your payout wallet to ${shortWallet(artist.pendingWallet)} was canceled.`,
+    data: { artistId, actionUrl: '/artist/dashboard' },
+  });
+
+  return true;
+}
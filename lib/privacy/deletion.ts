@@ -0,0 +1,370 @@
+// lib/privacy/deletion.ts
+// Account deletion - scheduled with a grace period, then a hard delete.
+// Financial records (purchases, tips, pledges, orders, tickets, withdrawals) must be kept, so they
+// are re-pointed at an anonymous tombstone user and scrubbed; everything else is removed.
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { revokeUserSessions } from '@/lib/session';
+import { deleteFile, isStorageConfigured } from '@/lib/storage';
+import { parseSegments } from '@/lib/drm/hls';
+import { coverVariantKeys } from '@/lib/media/artwork';
+import { sendEmail, accountDeletionEmail } from '@/lib/email';
+
+export const DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30');
+const DELETION_BATCH_SIZE = 10;
+
+type DeletionResult = { deleted: true; summary: Record<string, number> } | { deleted: false; error: string };
+
+/**
+ * Reasons an account can't be deleted yet (money in flight, or a custodied key that would be lost)
+ */
+export async function getDeletionBlockers(userId: string): Promise<string[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { artist: true, embeddedWallet: true },
+  });
+  if (!user) return ['Account not found'];
+
+  const blockers: string[] = [];
+
+  if (user.embeddedWallet?.status === 'active' && !user.embeddedWallet.exportedAt) {
+    blockers.push('Export your embedded wallet key first - it cannot be recovered after deletion');
+  }
+
+  if (user.artist) {
+    const artistId = user.artist.id;
+    const [withdrawals, campaigns, events] = await Promise.all([
+      prisma.withdrawal.count({ where: { artistId, status: { in: ['pending', 'processing'] } } }),
+      prisma.crowdfundCampaign.count({ where: { artistId, status: 'active', pledges: { some: {} } } }),
+      prisma.event.count({
+        where: { artistId, status: 'published', startDate: { gt: new Date() }, tickets: { some: {} } },
+      }),
+    ]);
+
+    if (withdrawals) blockers.push('Wait for pending withdrawals to complete');
+    if (campaigns) blockers.push('Close or cancel active crowdfunding campaigns with pledges');
+    if (events) blockers.push('Cancel or complete upcoming events with tickets sold');
+  }
+
+  return blockers;
+}
+
+/**
+ * Schedule deletion at the end of the grace period
+ */
+export async function scheduleAccountDeletion(userId: string): Promise<
+  { scheduled: true; scheduledFor: Date } | { scheduled: false; error: string; blockers?: string[] }
+> {
+  const existing = await prisma.accountDeletion.findFirst({
+    where: { userId, status: { in: ['scheduled', 'processing'] } },
+  });
+  if (existing) {
+    return { scheduled: true, scheduledFor: existing.scheduledFor };
+  }
+
+  const blockers = await getDeletionBlockers(userId);
+  if (blockers.length) {
+    return { scheduled: false, error: 'Account cannot be deleted yet', blockers };
+  }
+
+  const scheduledFor = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+  await prisma.accountDeletion.create({ data: { userId, scheduledFor } });
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+  if (user?.email) {
+    await sendEmail(user.email, accountDeletionEmail({ stage: 'scheduled', scheduledFor }));
+  }
+
+  return { scheduled: true, scheduledFor };
+}
+
+/**
+ * Cancel a scheduled deletion during the grace period
+ */
+export async function cancelAccountDeletion(userId: string): Promise<boolean> {
+  const canceled = await prisma.accountDeletion.updateMany({
+    where: { userId, status: 'scheduled' },
+    data: { status: 'canceled', canceledAt: new Date() },
+  });
+
+  if (canceled.count === 0) return false;
+
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+  if (user?.email) {
+    await sendEmail(user.email, accountDeletionEmail({ stage: 'canceled' }));
+  }
+
+  return true;
+}
+
+/**
+ * The active deletion request for a user, if any
+ */
+export async function getPendingDeletion(userId: string) {
+  return prisma.accountDeletion.findFirst({
+    where: { userId, status: { in: ['scheduled', 'processing'] } },
+    select: { id: true, status: true, scheduledFor: true, requestedAt: true },
+  });
+}
+
+/**
+ * Hard-delete an account now. Storage objects are removed after the database commit.
+ */
+export async function deleteAccount(userId: string): Promise<DeletionResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { artist: true, wallets: { select: { address: true } } },
+  });
+
+  if (!user) return { deleted: false, error: 'Account not found' };
+
+  const blockers = await getDeletionBlockers(userId);
+  if (blockers.length) return { deleted: false, error: blockers.join('; ') };
+
+  const wallets = Array.from(new Set([user.walletAddress, ...user.wallets.map(w => w.address)]));
+  const artistId = user.artist?.id;
+
+  // Storage objects to remove once the rows are gone
+  const [exports, watermarked, tracks, releases] = await Promise.all([
+    prisma.dataExport.findMany({ where: { userId, storageKey: { not: null } }, select: { storageKey: true } }),
+    prisma.forensicWatermark.findMany({ where: { userId, storageKey: { not: null } }, select: { storageKey: true } }),
+    artistId
+      ? prisma.track.findMany({
+          where: { artistId },
+          select: {
+            audioKey: true,
+            coverKey: true,
+            coverVariants: true,
+            losslessKey: true,
+            previewKey: true,
+            waveformKey: true,
+            renditions: { select: { segments: true } },
+            audioRenditions: { select: { storageKey: true } },
+            forensicWatermarks: { select: { storageKey: true } },
+          },
+        })
+      : Promise.resolve([]),
+    artistId
+      ? prisma.release.findMany({ where: { artistId }, select: { coverKey: true, coverVariants: true } })
+      : Promise.resolve([]),
+  ]);
+  const storageKeys = [
+    ...exports.map(e => e.storageKey),
+    ...watermarked.map(w => w.storageKey),
+    ...tracks.flatMap(t => [t.audioKey, t.coverKey, t.losslessKey, t.previewKey, t.waveformKey]),
+    ...tracks.flatMap(t => t.audioRenditions.map(r => r.storageKey)),
+    ...tracks.flatMap(t => t.forensicWatermarks.map(w => w.storageKey)),
+    ...tracks.flatMap(t => t.renditions.flatMap(r => parseSegments(r.segments).map(s => s.key))),
+    ...tracks.flatMap(t => coverVariantKeys(t.coverVariants)),
+    ...releases.flatMap(r => [r.coverKey, ...coverVariantKeys(r.coverVariants)]),
+  ].filter((key): key is string => !!key);
+
+  await revokeUserSessions(userId);
+
+  const summary = await prisma.$transaction(async (tx) => {
+    const counts: Record<string, number> = {};
+    const fromUser = { userId };
+
+    // Anonymous owner for records we have to keep - not linkable back to the person
+    const tombstone = await tx.user.create({
+      data: { walletAddress: `deleted_${crypto.randomBytes(16).toString('hex')}`, role: 'deleted' },
+    });
+    const toTombstone = { userId: tombstone.id };
+
+    // Financial records - kept, re-pointed and scrubbed of personal data
+    counts.purchases = (await tx.purchase.updateMany({ where: { buyerId: userId }, data: { buyerId: tombstone.id } })).count;
+    counts.tips = (await tx.tip.updateMany({
+      where: { senderId: userId },
+      data: { senderId: tombstone.id, message: null, isAnonymous: true },
+    })).count;
+    counts.pledges = (await tx.crowdfundPledge.updateMany({
+      where: fromUser,
+      data: { ...toTombstone, message: null, isAnonymous: true },
+    })).count;
+    counts.merchOrders = (await tx.merchOrder.updateMany({
+      where: fromUser,
+      data: { ...toTombstone, shippingAddress: null },
+    })).count;
+    counts.tickets = (await tx.ticket.updateMany({
+      where: fromUser,
+      data: { ...toTombstone, attendeeName: null, attendeeEmail: null },
+    })).count;
+    counts.subscriptions = (await tx.subscription.updateMany({ where: fromUser, data: toTombstone })).count;
+    counts.stakes = (await tx.stake.updateMany({ where: fromUser, data: toTombstone })).count;
+    counts.transactions = (await tx.transaction.updateMany({
+      where: { wallet: { in: wallets } },
+      data: { wallet: tombstone.walletAddress },
+    })).count;
+
+    // Plays feed track stats - keep the count, drop the listener
+    counts.plays = (await tx.play.updateMany({ where: fromUser, data: { userId: null } })).count;
+
+    // Rows keyed by user id without a relation - nothing cascades to them
+    counts.downloads = (await tx.download.deleteMany({ where: fromUser })).count;
+    counts.watermarks = (await tx.forensicWatermark.deleteMany({ where: fromUser })).count;
+    counts.storyViews = (await tx.storyView.deleteMany({ where: { viewerId: userId } })).count;
+    counts.stories = (await tx.story.deleteMany({ where: fromUser })).count;
+    counts.mentions = (await tx.mention.deleteMany({
+      where: { OR: [{ mentionedUserId: userId }, { mentionedById: userId }] },
+    })).count;
+    await tx.authNonce.deleteMany({ where: { walletAddress: { in: wallets } } });
+    if (user.email) {
+      await tx.emailJob.deleteMany({ where: { to: user.email } });
+    }
+
+    if (artistId) {
+      // Content nobody paid for or staked on goes entirely
+      counts.tracksDeleted = (await tx.track.deleteMany({
+        where: { artistId, purchases: { none: {} }, stakes: { none: {} } },
+      })).count;
+
+      // The rest stays as an empty shell so purchase and stake records still resolve
+      counts.tracksArchived = (await tx.track.updateMany({
+        where: { artistId },
+        data: {
+          status: 'archived',
+          description: null,
+          audioUrl: null,
+          audioKey: null,
+          streamUrl: null,
+          previewUrl: null,
+          previewKey: null,
+          coverUrl: null,
+          coverKey: null,
+          coverVariants: null,
+          coverPalette: null,
+          waveformData: null,
+          waveformUrl: null,
+          waveformKey: null,
+          lyrics: null,
+          lyricsData: null,
+          losslessUrl: null,
+          losslessKey: null,
+          hlsKey: null,
+          hlsPackagedAt: null,
+          region: null,
+          coordinates: null,
+          latitude: null,
+          longitude: null,
+        },
+      })).count;
+      await tx.streamRendition.deleteMany({ where: { track: { artistId } } });
+      await tx.audioRendition.deleteMany({ where: { track: { artistId } } });
+      await tx.forensicWatermark.deleteMany({ where: { track: { artistId } } });
+
+      await tx.release.deleteMany({ where: { artistId } });
+      await tx.broadcast.deleteMany({ where: { artistId } });
+      await tx.earlyAccess.deleteMany({ where: { artistId } });
+      await tx.artistTeamMember.deleteMany({ where: { artistId } });
+      await tx.collaboration.deleteMany({
+        where: { status: { not: 'accepted' }, OR: [{ inviterId: artistId }, { inviteeId: artistId }] },
+      });
+
+      // Events, merch and campaigns with sales stay (archived) for the buyers' records
+      await tx.event.deleteMany({ where: { artistId, tickets: { none: {} } } });
+      await tx.event.updateMany({
+        where: { artistId, status: { notIn: ['completed', 'canceled'] } },
+        data: { status: 'canceled' },
+      });
+      await tx.merchItem.deleteMany({ where: { artistId, variants: { none: { orderItems: { some: {} } } } } });
+      await tx.merchItem.updateMany({ where: { artistId }, data: { status: 'archived' } });
+      await tx.crowdfundCampaign.deleteMany({ where: { artistId, pledges: { none: {} } } });
+
+      counts.withdrawals = (await tx.withdrawal.updateMany({
+        where: { artistId },
+        data: { destinationWallet: tombstone.walletAddress },
+      })).count;
+
+      await tx.artist.update({
+        where: { id: artistId },
+        data: {
+          userId: tombstone.id,
+          name: 'Deleted artist',
+          bio: null,
+          avatarUrl: null,
+          bannerUrl: null,
+          location: null,
+          links: null,
+          wallet: null,
+          isVerified: false,
+        },
+      });
+    }
+
+    // Everything with a relation (likes, comments, follows, playlists, messages, wallets, ...) cascades
+    await tx.user.delete({ where: { id: userId } });
+
+    return counts;
+  }, { timeout: 60000 });
+
+  // Storage is outside the transaction - a failure here leaves orphans for the cleanup job, not data
+  let storageDeleted = 0;
+  if (storageKeys.length && isStorageConfigured()) {
+    for (const key of storageKeys) {
+      try {
+        await deleteFile(key);
+        storageDeleted++;
+      } catch (error) {
+        console.error(`[PRIVACY] Failed to delete ${key}:`, error);
+      }
+    }
+  }
+  summary.storageObjects = storageDeleted;
+
+  if (user.email) {
+    await sendEmail(user.email, accountDeletionEmail({ stage: 'completed' }));
+  }
+
+  console.log(`[PRIVACY] Deleted account ${userId}`);
+
+  return { deleted: true, summary };
+}
+
+/**
+ * Run deletions whose grace period has ended (called by the account-jobs cron)
+ */
+export async function processAccountDeletions(): Promise<{ completed: number; failed: number }> {
+  const results = { completed: 0, failed: 0 };
+
+  const due = await prisma.accountDeletion.findMany({
+    where: { status: 'scheduled', scheduledFor: { lte: new Date() } },
+    orderBy: { scheduledFor: 'asc' },
+    take: DELETION_BATCH_SIZE,
+  });
+
+  for (const request of due) {
+    const claimed = await prisma.accountDeletion.updateMany({
+      where: { id: request.id, status: 'scheduled' },
+      data: { status: 'processing' },
+    });
+    if (claimed.count === 0) continue;
+
+    try {
+      const result = await deleteAccount(request.userId);
+
+      if (result.deleted) {
+        await prisma.accountDeletion.update({
+          where: { id: request.id },
+          data: { status: 'completed', completedAt: new Date(), summary: JSON.stringify(result.summary) },
+        });
+        results.completed++;
+      } else {
+        await prisma.accountDeletion.update({
+          where: { id: request.id },
+          data: { status: 'failed', error: result.error },
+        });
+        results.failed++;
+      }
+    } catch (error) {
+      console.error(`[PRIVACY] Deletion ${request.id} failed:`, error);
+      await prisma.accountDeletion.update({
+        where: { id: request.id },
+        data: { status: 'failed', error: error instanceof Error ? error.message : 'Deletion failed' },
+      });
+      results.failed++;
+    }
+  }
+
+  return results;
+}
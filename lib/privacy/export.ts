@@ -0,0 +1,248 @@
+// lib/privacy/export.ts
+// GDPR data export - one JSON file per entity, zipped and stored for a limited time
+
+import JSZip from 'jszip';
+import { prisma } from '@/lib/prisma';
+import { uploadFile, deleteFile, isStorageConfigured } from '@/lib/storage';
+import { sendEmail, dataExportEmail } from '@/lib/email';
+import { formatApiKey } from '@/lib/apiKeys';
+
+export const EXPORT_TTL_DAYS = 7;          // Download window
+const EXPORT_COOLDOWN_MS = 24 * 60 * 60 * 1000; // One export request per day
+const EXPORT_BATCH_SIZE = 5;
+
+/**
+ * Queue an export unless one is already in progress or was requested in the last day
+ */
+export async function requestDataExport(userId: string): Promise<
+  { queued: true; exportId: string } | { queued: false; error: string }
+> {
+  const recent = await prisma.dataExport.findFirst({
+    where: {
+      userId,
+      OR: [
+        { status: { in: ['pending', 'processing'] } },
+        { createdAt: { gt: new Date(Date.now() - EXPORT_COOLDOWN_MS) }, status: { not: 'failed' } },
+      ],
+    },
+  });
+
+  if (recent) {
+    return { queued: false, error: 'An export was already requested in the last 24 hours' };
+  }
+
+  const dataExport = await prisma.dataExport.create({ data: { userId } });
+  return { queued: true, exportId: dataExport.id };
+}
+
+/**
+ * Collect everything we hold about a user, keyed by file name
+ */
+export async function collectUserData(userId: string): Promise<Record<string, unknown>> {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    include: { artist: true, embeddedWallet: true },
+  });
+
+  const [
+    wallets, sessions, apiKeys, plays, likes, comments, following, followers,
+    playlists, collaborations, sentMessages, receivedMessages, notifications,
+    pushSubscriptions, downloads, purchases, tips, pledges, tickets, merchOrders,
+    subscriptions, stakes, stories, storyViews, mentions, earlyAccess, teams,
+  ] = await Promise.all([
+    prisma.userWallet.findMany({ where: { userId } }),
+    prisma.session.findMany({
+      where: { userId },
+      select: { authMethod: true, userAgent: true, ipAddress: true, createdAt: true, lastUsedAt: true, expiresAt: true },
+    }),
+    prisma.apiKey.findMany({ where: { userId } }),
+    prisma.play.findMany({ where: { userId }, include: { track: { select: { title: true } } } }),
+    prisma.like.findMany({ where: { userId }, include: { track: { select: { title: true } } } }),
+    prisma.comment.findMany({ where: { userId } }),
+    prisma.follow.findMany({ where: { followerId: userId } }),
+    prisma.follow.findMany({ where: { followingId: userId } }),
+    prisma.playlist.findMany({ where: { userId }, include: { tracks: true } }),
+    prisma.playlistCollaborator.findMany({ where: { userId } }),
+    prisma.message.findMany({ where: { senderId: userId } }),
+    prisma.message.findMany({ where: { recipientId: userId } }),
+    prisma.notification.findMany({ where: { userId } }),
+    prisma.pushSubscription.findMany({ where: { userId }, select: { endpoint: true, createdAt: true } }),
+    prisma.download.findMany({ where: { userId } }),
+    prisma.purchase.findMany({ where: { buyerId: userId } }),
+    prisma.tip.findMany({ where: { senderId: userId } }),
+    prisma.crowdfundPledge.findMany({ where: { userId } }),
+    prisma.ticket.findMany({ where: { userId } }),
+    prisma.merchOrder.findMany({ where: { userId }, include: { items: true } }),
+    prisma.subscription.findMany({ where: { userId } }),
+    prisma.stake.findMany({ where: { userId } }),
+    prisma.story.findMany({ where: { userId } }),
+    prisma.storyView.findMany({ where: { viewerId: userId } }),
+    prisma.mention.findMany({ where: { OR: [{ mentionedUserId: userId }, { mentionedById: userId }] } }),
+    prisma.earlyAccess.findMany({ where: { userId } }),
+    prisma.artistTeamMember.findMany({ where: { userId } }),
+  ]);
+
+  // Never export key material - the custodied key has its own export flow
+  const { embeddedWallet, artist, ...profile } = user;
+
+  const data: Record<string, unknown> = {
+    'profile.json': profile,
+    'wallets.json': {
+      wallets,
+      embeddedWallet: embeddedWallet && {
+        publicKey: embeddedWallet.publicKey,
+        status: embeddedWallet.status,
+        exportedAt: embeddedWallet.exportedAt,
+        createdAt: embeddedWallet.createdAt,
+      },
+    },
+    'sessions.json': sessions,
+    'api-keys.json': apiKeys.map(formatApiKey),
+    'plays.json': plays,
+    'likes.json': likes,
+    'comments.json': comments,
+    'follows.json': { following, followers },
+    'playlists.json': { playlists, collaborations },
+    'messages.json': { sent: sentMessages, received: receivedMessages },
+    'notifications.json': notifications,
+    'push-subscriptions.json': pushSubscriptions,
+    'downloads.json': downloads,
+    'purchases.json': purchases,
+    'tips.json': tips,
+    'pledges.json': pledges,
+    'tickets.json': tickets,
+    'merch-orders.json': merchOrders,
+    'subscriptions.json': subscriptions,
+    'stakes.json': stakes,
+    'stories.json': { stories, views: storyViews },
+    'mentions.json': mentions,
+    'early-access.json': earlyAccess,
+    'team-memberships.json': teams,
+  };
+
+  if (artist) {
+    const artistId = artist.id;
+    const [tracks, releases, withdrawals, tipsReceived, events, merch, campaigns, broadcasts, team] = await Promise.all([
+      prisma.track.findMany({ where: { artistId } }),
+      prisma.release.findMany({ where: { artistId } }),
+      prisma.withdrawal.findMany({ where: { artistId } }),
+      prisma.tip.findMany({ where: { artistId } }),
+      prisma.event.findMany({ where: { artistId }, include: { ticketTiers: true } }),
+      prisma.merchItem.findMany({ where: { artistId }, include: { variants: true } }),
+      prisma.crowdfundCampaign.findMany({ where: { artistId }, include: { tiers: true } }),
+      prisma.broadcast.findMany({ where: { artistId } }),
+      prisma.artistTeamMember.findMany({ where: { artistId } }),
+    ]);
+
+    data['artist/profile.json'] = artist;
+    data['artist/tracks.json'] = tracks;
+    data['artist/releases.json'] = releases;
+    data['artist/withdrawals.json'] = withdrawals;
+    // Tippers who chose anonymity stay anonymous in the artist's copy
+    data['artist/tips-received.json'] = tipsReceived.map(t => (t.isAnonymous ? { ...t, senderId: null } : t));
+    data['artist/events.json'] = events;
+    data['artist/merch.json'] = merch;
+    data['artist/campaigns.json'] = campaigns;
+    data['artist/broadcasts.json'] = broadcasts;
+    data['artist/team.json'] = team;
+  }
+
+  return data;
+}
+
+/**
+ * Build the ZIP archive for a user
+ */
+export async function buildExportArchive(userId: string): Promise<Buffer> {
+  const data = await collectUserData(userId);
+  const zip = new JSZip();
+
+  zip.file('README.txt', [
+    'IXXXI account data export',
+    `Generated: ${new Date().toISOString()}`,
+    '',
+    'Each file holds one kind of record as JSON. Files under artist/ cover your artist profile.',
+  ].join('\n'));
+
+  for (const [name, value] of Object.entries(data)) {
+    zip.file(name, JSON.stringify(value, null, 2));
+  }
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Build and store pending exports, then expire old ones (called by the account-jobs cron)
+ */
+export async function processDataExports(): Promise<{ completed: number; failed: number; expired: number }> {
+  const results = { completed: 0, failed: 0, expired: 0 };
+
+  const pending = await prisma.dataExport.findMany({
+    where: { status: 'pending' },
+    orderBy: { createdAt: 'asc' },
+    take: EXPORT_BATCH_SIZE,
+    include: { user: { select: { email: true } } },
+  });
+
+  for (const job of pending) {
+    // Claim the job so overlapping cron runs don't build it twice
+    const claimed = await prisma.dataExport.updateMany({
+      where: { id: job.id, status: 'pending' },
+      data: { status: 'processing' },
+    });
+    if (claimed.count === 0) continue;
+
+    try {
+      if (!isStorageConfigured()) {
+        throw new Error('Storage not configured');
+      }
+
+      const archive = await buildExportArchive(job.userId);
+      const key = `exports/${job.userId}/${job.id}.zip`;
+      await uploadFile(key, archive, 'application/zip');
+
+      const expiresAt = new Date(Date.now() + EXPORT_TTL_DAYS * 24 * 60 * 60 * 1000);
+      await prisma.dataExport.update({
+        where: { id: job.id },
+        data: {
+          status: 'ready',
+          storageKey: key,
+          sizeBytes: archive.length,
+          expiresAt,
+          completedAt: new Date(),
+        },
+      });
+
+      if (job.user.email) {
+        await sendEmail(job.user.email, dataExportEmail({ expiresAt }));
+      }
+
+      results.completed++;
+    } catch (error) {
+      console.error(`[PRIVACY] Export ${job.id} failed:`, error);
+      await prisma.dataExport.update({
+        where: { id: job.id },
+        data: { status: 'failed', error: error instanceof Error ? error.message : 'Export failed' },
+      });
+      results.failed++;
+    }
+  }
+
+  // Remove archives past their download window
+  const expired = await prisma.dataExport.findMany({
+    where: { status: 'ready', expiresAt: { lt: new Date() } },
+  });
+
+  for (const job of expired) {
+    if (job.storageKey) {
+      await deleteFile(job.storageKey).catch(err => console.error(`[PRIVACY] Failed to delete ${job.storageKey}:`, err));
+    }
+    await prisma.dataExport.update({
+      where: { id: job.id },
+      data: { status: 'expired', storageKey: null },
+    });
+    results.expired++;
+  }
+
+  return results;
+}
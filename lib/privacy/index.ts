@@ -0,0 +1,19 @@
+// lib/privacy/index.ts
+// GDPR tooling - data export and account deletion
+
+export {
+  EXPORT_TTL_DAYS,
+  requestDataExport,
+  collectUserData,
+  buildExportArchive,
+  processDataExports,
+} from './export';
+export {
+  DELETION_GRACE_DAYS,
+  getDeletionBlockers,
+  scheduleAccountDeletion,
+  cancelAccountDeletion,
+  getPendingDeletion,
+  deleteAccount,
+  processAccountDeletions,
+} from './deletion';
@@ -0,0 +1,302 @@
+// lib/session.ts
+// Server-side sessions - caller identity comes from the session, never from request params
+// Sessions are cached in Redis for the hot path and persisted in Postgres (device list, fallback)
+
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { sessionCache } from '@/lib/cache';
+
+export const SESSION_COOKIE = 'session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;  // 30 days
+const ROTATE_AFTER_MS = 24 * 60 * 60 * 1000;     // Issue a fresh token once a day
+const ROTATION_GRACE_MS = 60 * 1000;             // Old token stays valid for in-flight requests
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;         // Only bump lastUsedAt every 5 minutes
+
+export type AuthMethod = 'wallet' | 'email';
+
+// What we keep in Redis per token hash
+interface CachedSession {
+  sessionId: string;
+  userId: string;
+  expiresAt: number;
+}
+
+// Hash session tokens before they touch Redis or the database
+function hashSessionToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function generateSessionToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+// Read the session token from the cookie, or a Bearer header for non-browser clients
+function readSessionToken(request: NextRequest): string | null {
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value;
+  if (cookie) return cookie;
+
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.slice(7).trim() || null;
+  }
+
+  return null;
+}
+
+export function getRequestIP(request: NextRequest): string | null {
+  return (
+    request.headers.get('cf-connecting-ip') ||
+    request.headers.get('x-real-ip') ||
+    request.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+    null
+  );
+}
+
+async function cacheSession(tokenHash: string, data: CachedSession): Promise<void> {
+  const ttlSeconds = Math.ceil((data.expiresAt - Date.now()) / 1000);
+  if (ttlSeconds > 0) {
+    await sessionCache.set(tokenHash, data, ttlSeconds);
+  }
+}
+
+async function uncacheSession(tokenHashes: Array<string | null>): Promise<void> {
+  await Promise.all(tokenHashes.filter(Boolean).map(hash => sessionCache.del(hash as string)));
+}
+
+/**
+ * Resolve a token to its session, via Redis first and Postgres as the fallback
+ */
+async function resolveSession(token: string): Promise<CachedSession | null> {
+  const tokenHash = hashSessionToken(token);
+
+  const cached = await sessionCache.get(tokenHash) as CachedSession | null;
+  if (cached) {
+    return cached.expiresAt > Date.now() ? cached : null;
+  }
+
+  const session = await prisma.session.findFirst({
+    where: {
+      OR: [{ tokenHash }, { previousTokenHash: tokenHash }],
+    },
+  });
+
+  if (!session) return null;
+
+  // A rotated-out token is only honoured for a short grace window
+  const isPrevious = session.previousTokenHash === tokenHash;
+  const expiresAt = isPrevious
+    ? (session.rotatedAt?.getTime() ?? 0) + ROTATION_GRACE_MS
+    : session.expiresAt.getTime();
+
+  if (expiresAt <= Date.now()) {
+    if (!isPrevious) {
+      await prisma.session.delete({ where: { id: session.id } }).catch(() => {});
+    }
+    return null;
+  }
+
+  const resolved = { sessionId: session.id, userId: session.userId, expiresAt };
+  await cacheSession(tokenHash, resolved);
+  return resolved;
+}
+
+/**
+ * Create a session for a user and return the raw token (only ever sent to the client)
+ */
+export async function createSession(
+  userId: string,
+  authMethod: AuthMethod,
+  request?: NextRequest
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = generateSessionToken();
+  const tokenHash = hashSessionToken(token);
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      tokenHash,
+      authMethod,
+      userAgent: request?.headers.get('user-agent')?.slice(0, 255) || null,
+      ipAddress: request ? getRequestIP(request) : null,
+      expiresAt,
+    },
+  });
+
+  await cacheSession(tokenHash, { sessionId: session.id, userId, expiresAt: expiresAt.getTime() });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Get the current session id for a request (used to mark "this device")
+ */
+export async function getSessionId(request: NextRequest): Promise<string | null> {
+  const token = readSessionToken(request);
+  if (!token) return null;
+
+  const session = await resolveSession(token);
+  return session?.sessionId ?? null;
+}
+
+/**
+ * Resolve the authenticated user for a request, or null if there is no valid session
+ */
+export async function getSessionUser(request: NextRequest) {
+  const token = readSessionToken(request);
+  if (!token) return null;
+
+  const session = await resolveSession(token);
+  if (!session) return null;
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.userId },
+    include: { artist: true },
+  });
+
+  if (!user) {
+    await revokeSession(session.sessionId);
+    return null;
+  }
+
+  // Best-effort activity stamp for the device list
+  await prisma.session.updateMany({
+    where: {
+      id: session.sessionId,
+      lastUsedAt: { lt: new Date(Date.now() - TOUCH_INTERVAL_MS) },
+    },
+    data: { lastUsedAt: new Date(), ipAddress: getRequestIP(request) },
+  }).catch(() => {});
+
+  return user;
+}
+
+export type SessionUser = NonNullable<Awaited<ReturnType<typeof getSessionUser>>>;
+
+/**
+ * Rotate the request's session token if it is due (or when forced, e.g. after a privilege change).
+ * Returns the new token to set on the response, or null if no rotation happened.
+ */
+export async function rotateSession(
+  request: NextRequest,
+  force: boolean = false
+): Promise<{ token: string; expiresAt: Date } | null> {
+  const token = readSessionToken(request);
+  if (!token) return null;
+
+  const tokenHash = hashSessionToken(token);
+  const session = await prisma.session.findUnique({ where: { tokenHash } });
+  if (!session || session.expiresAt < new Date()) return null;
+
+  const issuedAt = (session.rotatedAt ?? session.createdAt).getTime();
+  if (!force && Date.now() - issuedAt < ROTATE_AFTER_MS) return null;
+
+  const newToken = generateSessionToken();
+  const newTokenHash = hashSessionToken(newToken);
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  const rotatedAt = new Date();
+
+  // Only one concurrent request gets to rotate a given token
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, tokenHash },
+    data: {
+      tokenHash: newTokenHash,
+      previousTokenHash: tokenHash,
+      rotatedAt,
+      expiresAt,
+    },
+  });
+  if (count === 0) return null;
+
+  await uncacheSession([tokenHash, session.previousTokenHash]);
+  await cacheSession(newTokenHash, { sessionId: session.id, userId: session.userId, expiresAt: expiresAt.getTime() });
+
+  return { token: newToken, expiresAt };
+}
+
+/**
+ * Revoke a single session (logout, or "sign out this device")
+ */
+export async function revokeSession(sessionId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+  if (!session) return false;
+
+  await prisma.session.delete({ where: { id: sessionId } });
+  await uncacheSession([session.tokenHash, session.previousTokenHash]);
+  return true;
+}
+
+/**
+ * Revoke all of a user's sessions, optionally keeping the current one
+ */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    select: { id: true, tokenHash: true, previousTokenHash: true },
+  });
+
+  if (sessions.length === 0) return 0;
+
+  await prisma.session.deleteMany({
+    where: { id: { in: sessions.map(s => s.id) } },
+  });
+  await uncacheSession(sessions.flatMap(s => [s.tokenHash, s.previousTokenHash]));
+
+  return sessions.length;
+}
+
+/**
+ * List a user's active sessions (devices)
+ */
+export async function listUserSessions(userId: string) {
+  return prisma.session.findMany({
+    where: { userId, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      authMethod: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+}
+
+/**
+ * Attach the session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    expires: expiresAt,
+    path: '/',
+  });
+}
+
+/**
+ * Remove the session cookie from a response
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    expires: new Date(0),
+    path: '/',
+  });
+}
+
+/**
+ * Standard 401 response for routes that require a session
+ */
+export function unauthorized(message: string = 'Authentication required'): NextResponse {
+  return NextResponse.json({ error: message }, { status: 401 });
+}
@@ -0,0 +1,229 @@
+// lib/solana/custody.ts
+// Embedded wallet custody - keys for email signups are envelope encrypted at rest
+//
+// Each wallet's 64-byte secret key is sealed with a random data key (AES-256-GCM),
+// and the data key is sealed with a KEK derived from WALLET_ENCRYPTION_KEY via HKDF
+// with a per-wallet salt. Both layers bind the wallet's public key as AAD so
+// ciphertexts can't be swapped between rows.
+
+import crypto from 'crypto';
+import bs58 from 'bs58';
+import { Connection, Keypair, Transaction } from '@solana/web3.js';
+import { prisma } from '@/lib/prisma';
+
+const RPC_ENDPOINT = process.env.NEXT_PUBLIC_SOLANA_RPC || 'https://api.devnet.solana.com';
+
+const KEY_VERSION = 1;
+const KEK_INFO = 'ixxxi:embedded-wallet:kek';
+
+// Sealed wallet material, shaped to drop straight into an EmbeddedWallet create
+export interface SealedWallet {
+  publicKey: string;
+  salt: string;
+  wrappedKey: string;
+  encryptedSecret: string;
+  keyVersion: number;
+}
+
+function getMasterKey(): Buffer {
+  const secret = process.env.WALLET_ENCRYPTION_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('WALLET_ENCRYPTION_KEY is not configured');
+    }
+    return Buffer.from('dev-key-change-in-prod');
+  }
+  return Buffer.from(secret);
+}
+
+function deriveKek(salt: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', getMasterKey(), salt, KEK_INFO, 32));
+}
+
+// AES-256-GCM, serialized as iv:tag:ciphertext (base64)
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(b => b.toString('base64')).join(':');
+}
+
+function open(key: Buffer, sealed: string, aad: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Seal a keypair for storage
+ */
+export function sealKeypair(keypair: Keypair): SealedWallet {
+  const publicKey = keypair.publicKey.toBase58();
+  const salt = crypto.randomBytes(16);
+  const dataKey = crypto.randomBytes(32);
+
+  try {
+    return {
+      publicKey,
+      salt: salt.toString('base64'),
+      wrappedKey: seal(deriveKek(salt), dataKey, publicKey),
+      encryptedSecret: seal(dataKey, Buffer.from(keypair.secretKey), publicKey),
+      keyVersion: KEY_VERSION,
+    };
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Recover a keypair from its sealed form (throws if anything was tampered with)
+ */
+export function openKeypair(wallet: Omit<SealedWallet, 'keyVersion'>): Keypair {
+  const dataKey = open(deriveKek(Buffer.from(wallet.salt, 'base64')), wallet.wrappedKey, wallet.publicKey);
+
+  try {
+    const secretKey = open(dataKey, wallet.encryptedSecret, wallet.publicKey);
+    const keypair = Keypair.fromSecretKey(new Uint8Array(secretKey));
+    secretKey.fill(0);
+
+    if (keypair.publicKey.toBase58() !== wallet.publicKey) {
+      throw new Error('Embedded wallet key does not match its public key');
+    }
+    return keypair;
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Generate a new embedded wallet for an email signup.
+ * Use as: prisma.user.create({ data: { walletAddress, embeddedWallet: { create: sealed } } })
+ */
+export function createEmbeddedWallet(): { walletAddress: string; sealed: SealedWallet } {
+  const keypair = Keypair.generate();
+  const sealed = sealKeypair(keypair);
+  return { walletAddress: sealed.publicKey, sealed };
+}
+
+/**
+ * Load a user's custodied signer, or null if they have none (external wallet, or custody released)
+ */
+export async function getEmbeddedSigner(userId: string): Promise<Keypair | null> {
+  const wallet = await prisma.embeddedWallet.findUnique({ where: { userId } });
+  if (!wallet || wallet.status !== 'active' || !wallet.wrappedKey || !wallet.encryptedSecret) {
+    return null;
+  }
+
+  const keypair = openKeypair({
+    publicKey: wallet.publicKey,
+    salt: wallet.salt,
+    wrappedKey: wallet.wrappedKey,
+    encryptedSecret: wallet.encryptedSecret,
+  });
+
+  await prisma.embeddedWallet.update({
+    where: { id: wallet.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return keypair;
+}
+
+/**
+ * Address the server can sign for, or null. Not necessarily User.walletAddress - an external
+ * wallet linked as primary takes over that field while the embedded wallet stays in custody.
+ */
+export async function getEmbeddedSignerAddress(userId: string): Promise<string | null> {
+  const wallet = await prisma.embeddedWallet.findFirst({
+    where: { userId, status: 'active', encryptedSecret: { not: null } },
+    select: { publicKey: true },
+  });
+  return wallet?.publicKey ?? null;
+}
+
+/**
+ * Sign a transaction with the user's embedded wallet, submit it and wait for confirmation.
+ * The transaction's fee payer must be the embedded wallet.
+ */
+export async function signAndSendWithEmbeddedWallet(
+  userId: string,
+  transaction: Transaction,
+  connection: Connection = new Connection(RPC_ENDPOINT, 'confirmed')
+): Promise<string> {
+  const signer = await getEmbeddedSigner(userId);
+  if (!signer) {
+    throw new Error('No embedded wallet available for this user');
+  }
+
+  if (!transaction.feePayer || !transaction.feePayer.equals(signer.publicKey)) {
+    throw new Error('Transaction fee payer is not the embedded wallet');
+  }
+
+  // Fresh blockhash - we sign and submit immediately, so there's no reason to reuse the built one
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+  transaction.recentBlockhash = blockhash;
+  transaction.lastValidBlockHeight = lastValidBlockHeight;
+
+  transaction.sign(signer);
+
+  const signature = await connection.sendRawTransaction(transaction.serialize());
+  const confirmation = await connection.confirmTransaction(
+    { signature, blockhash, lastValidBlockHeight },
+    'confirmed'
+  );
+
+  if (confirmation.value.err) {
+    throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+  }
+
+  return signature;
+}
+
+/**
+ * Reveal the embedded wallet's secret key (base58, importable into Phantom/Solflare).
+ * The server keeps custody until the user releases it.
+ */
+export async function exportEmbeddedWallet(userId: string): Promise<{ publicKey: string; secretKey: string } | null> {
+  const signer = await getEmbeddedSigner(userId);
+  if (!signer) return null;
+
+  await prisma.embeddedWallet.update({
+    where: { userId },
+    data: { exportedAt: new Date() },
+  });
+
+  return {
+    publicKey: signer.publicKey.toBase58(),
+    secretKey: bs58.encode(signer.secretKey),
+  };
+}
+
+/**
+ * Take custody - destroy the server's copy of the key. Only allowed after an export,
+ * so the user can't lock themselves out of their funds.
+ */
+export async function releaseEmbeddedWallet(userId: string): Promise<{ released: boolean; error?: string }> {
+  const wallet = await prisma.embeddedWallet.findUnique({ where: { userId } });
+
+  if (!wallet || wallet.status !== 'active') {
+    return { released: false, error: 'No custodied wallet' };
+  }
+  if (!wallet.exportedAt) {
+    return { released: false, error: 'Export your key before releasing custody' };
+  }
+
+  await prisma.embeddedWallet.update({
+    where: { id: wallet.id },
+    data: {
+      status: 'released',
+      wrappedKey: null,
+      encryptedSecret: null,
+      releasedAt: new Date(),
+    },
+  });
+
+  return { released: true };
+}
@@ -1,150 +0,0 @@
-// lib/storage.ts
-// Cloudflare R2 Storage (S3-compatible)
-
-import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-
-// R2 Configuration
-const R2_ACCOUNT_ID = process.env.R2_ACCOUNT_ID!;
-const R2_ACCESS_KEY_ID = process.env.R2_ACCESS_KEY_ID!;
-const R2_SECRET_ACCESS_KEY = process.env.R2_SECRET_ACCESS_KEY!;
-const R2_BUCKET_NAME = process.env.R2_BUCKET_NAME || 'ixxxi-audio';
-const R2_PUBLIC_URL = process.env.R2_PUBLIC_URL; // Optional: Custom domain for public access
-
-// Initialize S3 client for R2
-const s3Client = new S3Client({
-  region: 'auto',
-  endpoint: `https://${R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
-  credentials: {
-    accessKeyId: R2_ACCESS_KEY_ID,
-    secretAccessKey: R2_SECRET_ACCESS_KEY,
-  },
-});
-
-export type UploadType = 'audio' | 'cover' | 'waveform';
-
-interface UploadResult {
-  key: string;
-  url: string;
-  size: number;
-}
-
-/**
- * Generate a unique storage key for a file
- */
-export function generateStorageKey(
-  artistId: string,
-  trackId: string,
-  type: UploadType,
-  extension: string
-): string {
-  const timestamp = Date.now();
-  return `${type}/${artistId}/${trackId}-${timestamp}.${extension}`;
-}
-
-/**
- * Upload a file to R2 storage
- */
-export async function uploadFile(
-  key: string,
-  body: Buffer | Uint8Array,
-  contentType: string
-): Promise<UploadResult> {
-  const command = new PutObjectCommand({
-    Bucket: R2_BUCKET_NAME,
-    Key: key,
-    Body: body,
-    ContentType: contentType,
-  });
-
-  await s3Client.send(command);
-
-  // Generate public URL
-  const url = R2_PUBLIC_URL 
-    ? `${R2_PUBLIC_URL}/${key}`
-    : `https://${R2_BUCKET_NAME}.${R2_ACCOUNT_ID}.r2.cloudflarestorage.com/${key}`;
-
-  return {
-    key,
-    url,
-    size: body.length,
-  };
-}
-
-/**
- * Generate a presigned URL for uploading (client-side uploads)
- */
-export async function getUploadPresignedUrl(
-  key: string,
-  contentType: string,
-  expiresIn: number = 3600 // 1 hour
-): Promise<string> {
-  const command = new PutObjectCommand({
-    Bucket: R2_BUCKET_NAME,
-    Key: key,
-    ContentType: contentType,
-  });
-
-  return getSignedUrl(s3Client, command, { expiresIn });
-}
-
-/**
- * Generate a presigned URL for downloading/streaming (temporary access)
- */
-export async function getDownloadPresignedUrl(
-  key: string,
-  expiresIn: number = 3600 // 1 hour
-): Promise<string> {
-  const command = new GetObjectCommand({
-    Bucket: R2_BUCKET_NAME,
-    Key: key,
-  });
-
-  return getSignedUrl(s3Client, command, { expiresIn });
-}
-
-/**
- * Delete a file from storage
- */
-export async function deleteFile(key: string): Promise<void> {
-  const command = new DeleteObjectCommand({
-    Bucket: R2_BUCKET_NAME,
-    Key: key,
-  });
-
-  await s3Client.send(command);
-}
-
-/**
- * Get file content (for server-side processing)
- */
-export async function getFile(key: string): Promise<Buffer> {
-  const command = new GetObjectCommand({
-    Bucket: R2_BUCKET_NAME,
-    Key: key,
-  });
-
-  const response = await s3Client.send(command);
-  const stream = response.Body;
-  
-  if (!stream) {
-    throw new Error('No file content');
-  }
-
-  // Convert stream to buffer
-  const chunks: Uint8Array[] = [];
-  for await (const chunk of stream as AsyncIterable<Uint8Array>) {
-    chunks.push(chunk);
-  }
-  return Buffer.concat(chunks);
-}
-
-/**
- * Check if storage is configured
- */
-export function isStorageConfigured(): boolean {
-  return !!(R2_ACCOUNT_ID && R2_ACCESS_KEY_ID && R2_SECRET_ACCESS_KEY);
-}
-
-// Export client for advanced usage
-export { s3Client, R2_BUCKET_NAME };
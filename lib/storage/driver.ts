@@ -0,0 +1,43 @@
+// lib/storage/driver.ts
+// Storage driver interface - R2 (S3-compatible) in production, local disk for dev/tests
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StorageDriver {
+  name: 'r2' | 'local';
+
+  put(key: string, body: Buffer | Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  getStream(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>;
+  delete(key: string): Promise<void>;
+  copy(sourceKey: string, destinationKey: string): Promise<void>;
+  list(prefix: string): AsyncGenerator<StoredObject>;
+
+  // URLs handed to browsers and players
+  publicUrl(key: string): string;
+  signedGetUrl(key: string, expiresIn: number): Promise<string>;
+  signedPutUrl(key: string, contentType: string, expiresIn: number): Promise<string>;
+
+  // Multipart uploads - the client PUTs parts to signed URLs, storage tracks what arrived
+  createMultipartUpload(key: string, contentType: string): Promise<string>;
+  signedPartUrl(key: string, uploadId: string, partNumber: number, expiresIn: number): Promise<string>;
+  listParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+  completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<void>;
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
@@ -0,0 +1,223 @@
+// lib/storage/index.ts
+// Object storage - Cloudflare R2 in production, local disk for development and tests
+//
+// STORAGE_DRIVER picks the driver ("r2" | "local"). Without it, development falls back to the
+// local driver when LOCAL_STORAGE_DIR is set or R2 credentials are missing; production always
+// uses R2 and refuses to start storage without credentials rather than writing to this server's
+// disk. The local driver keeps files under LOCAL_STORAGE_DIR (default .storage) and serves them
+// through /api/storage with HMAC-signed URLs.
+
+import { createR2Driver, isR2Configured } from './r2';
+import { createLocalDriver, type LocalStorageDriver } from './local';
+import type { ByteRange, StorageDriver, UploadedPart } from './driver';
+
+export type { ByteRange, StorageDriver, UploadedPart } from './driver';
+export type { LocalStorageDriver } from './local';
+export { contentTypeForKey } from './local';
+
+export type UploadType = 'audio' | 'cover' | 'waveform';
+
+interface UploadResult {
+  key: string;
+  url: string;
+  size: number;
+}
+
+let driver: StorageDriver | null = null;
+
+// Local disk only when asked for, or in development without R2
+function storageDriverName(): 'r2' | 'local' {
+  if (process.env.STORAGE_DRIVER) {
+    return process.env.STORAGE_DRIVER === 'local' ? 'local' : 'r2';
+  }
+  if (process.env.NODE_ENV !== 'production' && (process.env.LOCAL_STORAGE_DIR || !isR2Configured())) {
+    return 'local';
+  }
+  return 'r2';
+}
+
+/**
+ * The configured storage driver. Throws when R2 is selected without credentials.
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!driver) {
+    if (storageDriverName() === 'r2') {
+      if (!isR2Configured()) {
+        throw new Error('R2 credentials are not set - configure R2_* or set STORAGE_DRIVER=local');
+      }
+      driver = createR2Driver();
+    } else {
+      if (process.env.NODE_ENV === 'production') {
+        console.warn('STORAGE_DRIVER is "local" in production - files are kept on this server\'s disk');
+      }
+      driver = createLocalDriver();
+    }
+  }
+  return driver;
+}
+
+/**
+ * The local driver, or null when storage is on R2 (for the /api/storage route)
+ */
+export function getLocalStorageDriver(): LocalStorageDriver | null {
+  if (storageDriverName() !== 'local') return null;
+  return getStorageDriver() as LocalStorageDriver;
+}
+
+/**
+ * Generate a unique storage key for a file
+ */
+export function generateStorageKey(
+  artistId: string,
+  trackId: string,
+  type: UploadType,
+  extension: string
+): string {
+  const timestamp = Date.now();
+  return `${type}/${artistId}/${trackId}-${timestamp}.${extension}`;
+}
+
+/**
+ * Upload a file to storage
+ */
+export async function uploadFile(
+  key: string,
+  body: Buffer | Uint8Array,
+  contentType: string
+): Promise<UploadResult> {
+  const storage = getStorageDriver();
+  await storage.put(key, body, contentType);
+
+  return {
+    key,
+    url: storage.publicUrl(key),
+    size: body.length,
+  };
+}
+
+/**
+ * Public URL of a stored object (for keys written by client-side presigned uploads)
+ */
+export function getPublicUrl(key: string): string {
+  return getStorageDriver().publicUrl(key);
+}
+
+/**
+ * Generate a presigned URL for uploading (client-side uploads)
+ */
+export async function getUploadPresignedUrl(
+  key: string,
+  contentType: string,
+  expiresIn: number = 3600 // 1 hour
+): Promise<string> {
+  return getStorageDriver().signedPutUrl(key, contentType, expiresIn);
+}
+
+/**
+ * Start a multipart upload. Returns its upload id.
+ */
+export async function createMultipartUpload(key: string, contentType: string): Promise<string> {
+  return getStorageDriver().createMultipartUpload(key, contentType);
+}
+
+/**
+ * Presigned URL the client PUTs one part to
+ */
+export async function getUploadPartPresignedUrl(
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  expiresIn: number = 3600 // 1 hour
+): Promise<string> {
+  return getStorageDriver().signedPartUrl(key, uploadId, partNumber, expiresIn);
+}
+
+/**
+ * Parts stored so far for a multipart upload (storage is the source of truth for progress)
+ */
+export async function listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+  return getStorageDriver().listParts(key, uploadId);
+}
+
+/**
+ * Assemble the uploaded parts into the final object
+ */
+export async function completeMultipartUpload(key: string, uploadId: string, parts: UploadedPart[]): Promise<void> {
+  return getStorageDriver().completeMultipartUpload(key, uploadId, parts);
+}
+
+/**
+ * Abort a multipart upload and discard its parts
+ */
+export async function abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+  return getStorageDriver().abortMultipartUpload(key, uploadId);
+}
+
+/**
+ * Generate a presigned URL for downloading/streaming (temporary access)
+ */
+export async function getDownloadPresignedUrl(
+  key: string,
+  expiresIn: number = 3600 // 1 hour
+): Promise<string> {
+  return getStorageDriver().signedGetUrl(key, expiresIn);
+}
+
+/**
+ * Delete a file from storage
+ */
+export async function deleteFile(key: string): Promise<void> {
+  return getStorageDriver().delete(key);
+}
+
+/**
+ * Get file content (for server-side processing)
+ */
+export async function getFile(key: string): Promise<Buffer> {
+  return getStorageDriver().get(key);
+}
+
+/**
+ * Stream a file, or an inclusive byte range of it (for HTTP Range responses)
+ */
+export async function getFileStream(
+  key: string,
+  range?: ByteRange
+): Promise<ReadableStream<Uint8Array>> {
+  return getStorageDriver().getStream(key, range);
+}
+
+/**
+ * A single "bytes=" range: start-end, start- or -suffix. Null serves the whole file
+ * (no header, multiple ranges or other units).
+ */
+export function parseRange(header: string | null, size: number): ByteRange | null | 'unsatisfiable' {
+  if (!header) return null;
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+
+  if (!match[1]) {
+    // Suffix range - the last N bytes
+    const suffix = parseInt(match[2]);
+    if (suffix === 0) return 'unsatisfiable';
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+/**
+ * Check if storage is configured (false when R2 is selected without credentials)
+ */
+export function isStorageConfigured(): boolean {
+  return storageDriverName() === 'local' || isR2Configured();
+}
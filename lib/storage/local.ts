@@ -0,0 +1,279 @@
+// lib/storage/local.ts
+// Local disk driver - files under LOCAL_STORAGE_DIR, served through /api/storage with HMAC-signed URLs
+//
+// URLs look like /api/storage/{key}?op=get&exp=...&sig=... and mirror R2's presigned URLs:
+// op=get reads, op=put writes one object, op=part writes one part of a multipart upload.
+// Public URLs are signed reads that never expire (exp=0), like objects on a public bucket.
+
+import crypto from 'crypto';
+import { createReadStream } from 'fs';
+import { appendFile, copyFile, mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import type { StorageDriver, StoredObject, UploadedPart } from './driver';
+
+const BASE_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+const MULTIPART_DIR = '.multipart'; // {root}/.multipart/{uploadId}/{partNumber}
+
+export type SignedOperation = 'get' | 'put' | 'part';
+
+export interface SignedParams {
+  op: SignedOperation;
+  exp: number;          // Unix seconds, 0 = never expires
+  ct?: string;          // Content type the PUT must send
+  uploadId?: string;
+  partNumber?: number;
+}
+
+export interface LocalStorageDriver extends StorageDriver {
+  name: 'local';
+  root: string;
+  verify(key: string, searchParams: URLSearchParams): SignedParams | null;
+  size(key: string): Promise<number | null>;
+  putPart(uploadId: string, partNumber: number, body: Buffer): Promise<string>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  opus: 'audio/ogg',
+  ogg: 'audio/ogg',
+  m3u8: 'application/vnd.apple.mpegurl',
+  ts: 'video/mp2t',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  json: 'application/json',
+  zip: 'application/zip',
+};
+
+/**
+ * Content type for a stored key, from its extension (local disk keeps no object metadata)
+ */
+export function contentTypeForKey(key: string): string {
+  const ext = key.split('.').pop()?.toLowerCase() || '';
+  return CONTENT_TYPES[ext] || 'application/octet-stream';
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.CONTENT_SIGNING_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('STORAGE_SIGNING_SECRET is not configured');
+    }
+    return 'dev-secret-change-in-prod';
+  }
+  return secret;
+}
+
+function sign(key: string, params: SignedParams): string {
+  const payload = [params.op, key, params.exp, params.ct ?? '', params.uploadId ?? '', params.partNumber ?? ''].join('\n');
+  return crypto.createHmac('sha256', getSigningSecret()).update(payload).digest('hex');
+}
+
+// Absolute URL for the storage route (encodes each key segment, keeps the slashes)
+function signedUrl(key: string, params: SignedParams): string {
+  const query = new URLSearchParams({ op: params.op, exp: String(params.exp) });
+  if (params.ct) query.set('ct', params.ct);
+  if (params.uploadId) query.set('uploadId', params.uploadId);
+  if (params.partNumber) query.set('partNumber', String(params.partNumber));
+  query.set('sig', sign(key, params));
+
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+  return `${BASE_URL}/api/storage/${encodedKey}?${query}`;
+}
+
+function expiry(expiresIn: number): number {
+  return Math.floor(Date.now() / 1000) + expiresIn;
+}
+
+// Part ETag from size and mtime - changes whenever the part is re-uploaded, without reading it
+async function partEtag(file: string): Promise<{ etag: string; size: number }> {
+  const info = await stat(file);
+  return { etag: `"${info.size}-${Math.floor(info.mtimeMs)}"`, size: info.size };
+}
+
+/**
+ * Local disk driver rooted at `dir`
+ */
+export function createLocalDriver(dir: string = process.env.LOCAL_STORAGE_DIR || '.storage'): LocalStorageDriver {
+  const root = path.resolve(dir);
+
+  // Resolve a key inside the root, refusing paths that escape it
+  const localPath = (key: string): string => {
+    const resolved = path.resolve(root, key);
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  };
+
+  const uploadDir = (uploadId: string): string => {
+    if (!/^[a-f0-9]{32}$/.test(uploadId)) {
+      throw new Error(`Invalid upload id: ${uploadId}`);
+    }
+    return path.join(root, MULTIPART_DIR, uploadId);
+  };
+
+  return {
+    name: 'local',
+    root,
+
+    async put(key, body) {
+      const file = localPath(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+    },
+
+    async get(key) {
+      return readFile(localPath(key));
+    },
+
+    async getStream(key, range) {
+      const stream = createReadStream(localPath(key), range);
+      return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+    },
+
+    async delete(key) {
+      await rm(localPath(key), { force: true });
+    },
+
+    async copy(sourceKey, destinationKey) {
+      const file = localPath(destinationKey);
+      await mkdir(path.dirname(file), { recursive: true });
+      await copyFile(localPath(sourceKey), file);
+    },
+
+    async *list(prefix) {
+      // Walk the directory holding the prefix, keeping keys that start with it (in key order, like S3)
+      async function* walk(dir: string): AsyncGenerator<StoredObject> {
+        let entries;
+        try {
+          entries = await readdir(dir, { withFileTypes: true });
+        } catch {
+          return; // Nothing stored under this prefix yet
+        }
+
+        for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+          const file = path.join(dir, entry.name);
+          const key = path.relative(root, file).split(path.sep).join('/');
+          if (key === MULTIPART_DIR) continue;
+
+          if (entry.isDirectory()) {
+            if (key.startsWith(prefix) || prefix.startsWith(`${key}/`)) yield* walk(file);
+          } else if (entry.isFile() && key.startsWith(prefix)) {
+            const info = await stat(file);
+            yield { key, size: info.size, lastModified: info.mtime };
+          }
+        }
+      }
+
+      const dir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+      yield* walk(dir ? localPath(dir) : root);
+    },
+
+    publicUrl(key) {
+      return signedUrl(key, { op: 'get', exp: 0 });
+    },
+
+    async signedGetUrl(key, expiresIn) {
+      return signedUrl(key, { op: 'get', exp: expiry(expiresIn) });
+    },
+
+    async signedPutUrl(key, contentType, expiresIn) {
+      return signedUrl(key, { op: 'put', exp: expiry(expiresIn), ct: contentType });
+    },
+
+    async createMultipartUpload(key, contentType) {
+      localPath(key);
+      const uploadId = crypto.randomBytes(16).toString('hex');
+      const dir = uploadDir(uploadId);
+      await mkdir(dir, { recursive: true });
+      await writeFile(path.join(dir, 'upload.json'), JSON.stringify({ key, contentType }));
+      return uploadId;
+    },
+
+    async signedPartUrl(key, uploadId, partNumber, expiresIn) {
+      return signedUrl(key, { op: 'part', exp: expiry(expiresIn), uploadId, partNumber });
+    },
+
+    async listParts(key, uploadId) {
+      const dir = uploadDir(uploadId);
+      const parts: UploadedPart[] = [];
+
+      for (const name of await readdir(dir)) {
+        if (!/^\d+$/.test(name)) continue;
+        parts.push({ partNumber: parseInt(name), ...(await partEtag(path.join(dir, name))) });
+      }
+
+      return parts.sort((a, b) => a.partNumber - b.partNumber);
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const dir = uploadDir(uploadId);
+      const file = localPath(key);
+      const partial = path.join(dir, 'assembled');
+
+      await rm(partial, { force: true });
+      for (const part of [...parts].sort((a, b) => a.partNumber - b.partNumber)) {
+        const partFile = path.join(dir, String(part.partNumber));
+        if ((await partEtag(partFile)).etag !== part.etag) {
+          throw new Error(`Part ${part.partNumber} does not match its ETag`);
+        }
+        await appendFile(partial, await readFile(partFile));
+      }
+
+      await mkdir(path.dirname(file), { recursive: true });
+      await rename(partial, file);
+      await rm(dir, { recursive: true, force: true });
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      await rm(uploadDir(uploadId), { recursive: true, force: true });
+    },
+
+    verify(key, searchParams) {
+      const op = searchParams.get('op') as SignedOperation | null;
+      const exp = parseInt(searchParams.get('exp') || '');
+      const signature = searchParams.get('sig') || '';
+      if (!op || !['get', 'put', 'part'].includes(op) || isNaN(exp)) return null;
+
+      const params: SignedParams = {
+        op,
+        exp,
+        ct: searchParams.get('ct') || undefined,
+        uploadId: searchParams.get('uploadId') || undefined,
+        partNumber: searchParams.get('partNumber') ? parseInt(searchParams.get('partNumber')!) : undefined,
+      };
+
+      const expected = Buffer.from(sign(key, params));
+      const given = Buffer.from(signature);
+      if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+      if (exp !== 0 && Date.now() / 1000 > exp) return null;
+
+      return params;
+    },
+
+    async size(key) {
+      try {
+        const info = await stat(localPath(key));
+        return info.isFile() ? info.size : null;
+      } catch {
+        return null;
+      }
+    },
+
+    async putPart(uploadId, partNumber, body) {
+      const dir = uploadDir(uploadId);
+      await stat(dir); // Throws once the upload is completed or aborted
+      const file = path.join(dir, String(partNumber));
+      await writeFile(file, body);
+      return (await partEtag(file)).etag;
+    },
+  };
+}
@@ -0,0 +1,210 @@
+// lib/storage/r2.ts
+// Cloudflare R2 driver (S3-compatible)
+
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  CopyObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { StorageDriver, UploadedPart } from './driver';
+
+// R2 Configuration
+const R2_ACCOUNT_ID = process.env.R2_ACCOUNT_ID!;
+const R2_ACCESS_KEY_ID = process.env.R2_ACCESS_KEY_ID!;
+const R2_SECRET_ACCESS_KEY = process.env.R2_SECRET_ACCESS_KEY!;
+const R2_BUCKET_NAME = process.env.R2_BUCKET_NAME || 'ixxxi-audio';
+const R2_PUBLIC_URL = process.env.R2_PUBLIC_URL; // Optional: Custom domain for public access
+
+/**
+ * Whether R2 credentials are set
+ */
+export function isR2Configured(): boolean {
+  return !!(R2_ACCOUNT_ID && R2_ACCESS_KEY_ID && R2_SECRET_ACCESS_KEY);
+}
+
+/**
+ * R2 driver - objects in R2_BUCKET_NAME, public URLs on R2_PUBLIC_URL when set
+ */
+export function createR2Driver(): StorageDriver {
+  const s3Client = new S3Client({
+    region: 'auto',
+    endpoint: `https://${R2_ACCOUNT_ID}.r2.cloudflarestorage.com`,
+    credentials: {
+      accessKeyId: R2_ACCESS_KEY_ID,
+      secretAccessKey: R2_SECRET_ACCESS_KEY,
+    },
+  });
+
+  return {
+    name: 'r2',
+
+    async put(key, body, contentType) {
+      await s3Client.send(new PutObjectCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }));
+    },
+
+    async get(key) {
+      const response = await s3Client.send(new GetObjectCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+      }));
+      const stream = response.Body;
+
+      if (!stream) {
+        throw new Error('No file content');
+      }
+
+      // Convert stream to buffer
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of stream as AsyncIterable<Uint8Array>) {
+        chunks.push(chunk);
+      }
+      return Buffer.concat(chunks);
+    },
+
+    async getStream(key, range) {
+      const response = await s3Client.send(new GetObjectCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+        ...(range && { Range: `bytes=${range.start}-${range.end}` }),
+      }));
+
+      if (!response.Body) {
+        throw new Error('No file content');
+      }
+      return response.Body.transformToWebStream();
+    },
+
+    async delete(key) {
+      await s3Client.send(new DeleteObjectCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+      }));
+    },
+
+    async copy(sourceKey, destinationKey) {
+      await s3Client.send(new CopyObjectCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: destinationKey,
+        CopySource: `${R2_BUCKET_NAME}/${sourceKey.split('/').map(encodeURIComponent).join('/')}`,
+      }));
+    },
+
+    async *list(prefix) {
+      let token: string | undefined;
+
+      do {
+        const response = await s3Client.send(new ListObjectsV2Command({
+          Bucket: R2_BUCKET_NAME,
+          Prefix: prefix,
+          ContinuationToken: token,
+        }));
+
+        for (const object of response.Contents ?? []) {
+          if (object.Key) {
+            yield { key: object.Key, size: object.Size ?? 0, lastModified: object.LastModified ?? new Date() };
+          }
+        }
+        token = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (token);
+    },
+
+    publicUrl(key) {
+      return R2_PUBLIC_URL
+        ? `${R2_PUBLIC_URL}/${key}`
+        : `https://${R2_BUCKET_NAME}.${R2_ACCOUNT_ID}.r2.cloudflarestorage.com/${key}`;
+    },
+
+    signedGetUrl(key, expiresIn) {
+      return getSignedUrl(s3Client, new GetObjectCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+      }), { expiresIn });
+    },
+
+    signedPutUrl(key, contentType, expiresIn) {
+      return getSignedUrl(s3Client, new PutObjectCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+        ContentType: contentType,
+      }), { expiresIn });
+    },
+
+    async createMultipartUpload(key, contentType) {
+      const response = await s3Client.send(new CreateMultipartUploadCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+        ContentType: contentType,
+      }));
+
+      if (!response.UploadId) {
+        throw new Error('No upload id returned');
+      }
+      return response.UploadId;
+    },
+
+    signedPartUrl(key, uploadId, partNumber, expiresIn) {
+      return getSignedUrl(s3Client, new UploadPartCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+      }), { expiresIn });
+    },
+
+    async listParts(key, uploadId) {
+      const parts: UploadedPart[] = [];
+      let marker: string | undefined;
+
+      do {
+        const response = await s3Client.send(new ListPartsCommand({
+          Bucket: R2_BUCKET_NAME,
+          Key: key,
+          UploadId: uploadId,
+          PartNumberMarker: marker,
+        }));
+
+        for (const part of response.Parts ?? []) {
+          if (part.PartNumber && part.ETag) {
+            parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size ?? 0 });
+          }
+        }
+        marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+      } while (marker);
+
+      return parts.sort((a, b) => a.partNumber - b.partNumber);
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      await s3Client.send(new CompleteMultipartUploadCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: parts.map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
+      }));
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      await s3Client.send(new AbortMultipartUploadCommand({
+        Bucket: R2_BUCKET_NAME,
+        Key: key,
+        UploadId: uploadId,
+      }));
+    },
+  };
+}
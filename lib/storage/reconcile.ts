@@ -0,0 +1,218 @@
+// lib/storage/reconcile.ts
+// Storage reconciliation - diff the bucket against the database (run by the cleanup cron)
+//
+// Objects under the reconciled prefixes that nothing references - a Track or Release (including
+// cover variants), an audio or HLS rendition, a watermarked copy or an upload - are moved to
+// quarantine/{key} and deleted once they've sat there for the retention period, or copied back
+// if something references them again in the meantime. Tracks whose keys aren't in storage are
+// flagged with missingObjects, and each artist's usage is recorded on the artist.
+
+import { prisma } from '@/lib/prisma';
+import { coverVariantKeys } from '@/lib/media/artwork';
+import { getStorageDriver } from './index';
+
+// Every prefix keyed {type}/{artistId}/... (exports/ is per user and expires on its own)
+export const RECONCILED_PREFIXES = [
+  'audio/', 'cover/', 'waveform/', 'artwork/', 'previews/', 'lossless/', 'transcodes/', 'hls/', 'watermarked/',
+];
+export const QUARANTINE_PREFIX = 'quarantine/';
+
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000; // Presigned covers and in-flight uploads aren't referenced yet
+const MAX_QUARANTINE_PER_RUN = 1000;         // Caps the damage if the reference query ever comes back short
+
+export interface ReconcileReport {
+  listed: number;
+  bytes: number;
+  quarantined: number;
+  quarantinedBytes: number;
+  restored: number;
+  deleted: number;
+  deletedBytes: number;
+  missingTracks: number;
+  artists: number;
+  failed: number;
+}
+
+// Keys are {type}/{artistId}/... - the owner is the second segment
+function artistIdOf(key: string): string | null {
+  return key.split('/')[1] || null;
+}
+
+function parseKeys(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    return JSON.parse(value);
+  } catch {
+    return [];
+  }
+}
+
+// StreamRendition.segments is [{key, duration}]
+function parseSegmentKeys(value: string): string[] {
+  try {
+    return (JSON.parse(value) as { key: string }[]).map(segment => segment.key);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Reconcile storage against the database. Quarantined orphans are deleted after `retentionDays`.
+ */
+export async function reconcileStorage(retentionDays: number): Promise<ReconcileReport> {
+  const storage = getStorageDriver();
+  const report: ReconcileReport = {
+    listed: 0, bytes: 0, quarantined: 0, quarantinedBytes: 0, restored: 0,
+    deleted: 0, deletedBytes: 0, missingTracks: 0, artists: 0, failed: 0,
+  };
+
+  // 1. Everything the database points at - read before listing, so any object it names already exists
+  const [tracks, releases, audioRenditions, streamRenditions, watermarks, sessions, artists] = await Promise.all([
+    prisma.track.findMany({
+      select: {
+        id: true, audioKey: true, coverKey: true, waveformKey: true, previewKey: true, losslessKey: true,
+        coverVariants: true, missingObjects: true,
+      },
+    }),
+    prisma.release.findMany({
+      where: { OR: [{ coverKey: { not: null } }, { coverVariants: { not: null } }] },
+      select: { coverKey: true, coverVariants: true },
+    }),
+    prisma.audioRendition.findMany({ select: { trackId: true, storageKey: true } }),
+    prisma.streamRendition.findMany({ select: { trackId: true, segments: true } }),
+    prisma.forensicWatermark.findMany({ where: { storageKey: { not: null } }, select: { storageKey: true } }),
+    prisma.uploadSession.findMany({ where: { status: 'active' }, select: { storageKey: true } }),
+    prisma.artist.findMany({ select: { id: true } }),
+  ]);
+
+  // Every key a track points at, directly or through its renditions
+  const trackKeys = new Map<string, string[]>();
+  const addTrackKey = (trackId: string, key: string | null) => {
+    if (!key) return;
+    const keys = trackKeys.get(trackId) ?? [];
+    keys.push(key);
+    trackKeys.set(trackId, keys);
+  };
+
+  for (const track of tracks) {
+    for (const key of [track.audioKey, track.coverKey, track.waveformKey, track.previewKey, track.losslessKey]) {
+      addTrackKey(track.id, key);
+    }
+    for (const key of coverVariantKeys(track.coverVariants)) addTrackKey(track.id, key);
+  }
+  for (const rendition of audioRenditions) addTrackKey(rendition.trackId, rendition.storageKey);
+  for (const rendition of streamRenditions) {
+    for (const key of parseSegmentKeys(rendition.segments)) addTrackKey(rendition.trackId, key);
+  }
+
+  const referenced = new Set<string>();
+  for (const keys of trackKeys.values()) {
+    for (const key of keys) referenced.add(key);
+  }
+  for (const release of releases) {
+    if (release.coverKey) referenced.add(release.coverKey);
+    for (const key of coverVariantKeys(release.coverVariants)) referenced.add(key);
+  }
+  for (const watermark of watermarks) referenced.add(watermark.storageKey!);
+  for (const session of sessions) referenced.add(session.storageKey);
+
+  // 2. List the bucket - referenced and recent objects count toward usage, old orphans go to quarantine
+  const present = new Set<string>();
+  const usage = new Map<string, { bytes: number; objects: number }>();
+  const graceCutoff = Date.now() - ORPHAN_GRACE_MS;
+
+  const keep = (key: string, size: number) => {
+    present.add(key);
+    const artistId = artistIdOf(key);
+    if (!artistId) return;
+    const entry = usage.get(artistId) ?? { bytes: 0, objects: 0 };
+    entry.bytes += size;
+    entry.objects++;
+    usage.set(artistId, entry);
+  };
+
+  for (const prefix of RECONCILED_PREFIXES) {
+    for await (const object of storage.list(prefix)) {
+      report.listed++;
+      report.bytes += object.size;
+
+      if (!referenced.has(object.key) && object.lastModified.getTime() < graceCutoff
+        && report.quarantined < MAX_QUARANTINE_PER_RUN) {
+        try {
+          await storage.copy(object.key, `${QUARANTINE_PREFIX}${object.key}`);
+          await storage.delete(object.key);
+          report.quarantined++;
+          report.quarantinedBytes += object.size;
+          continue;
+        } catch (error) {
+          console.error(`[STORAGE] Quarantine of ${object.key} failed:`, error);
+          report.failed++;
+        }
+      }
+
+      keep(object.key, object.size);
+    }
+  }
+
+  // 3. Quarantine - restore anything referenced again, delete what has outlived the retention
+  const deleteCutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+
+  for await (const object of storage.list(QUARANTINE_PREFIX)) {
+    const originalKey = object.key.slice(QUARANTINE_PREFIX.length);
+
+    try {
+      if (referenced.has(originalKey) && !present.has(originalKey)) {
+        await storage.copy(object.key, originalKey);
+        await storage.delete(object.key);
+        keep(originalKey, object.size);
+        report.restored++;
+      } else if (object.lastModified.getTime() < deleteCutoff) {
+        await storage.delete(object.key);
+        report.deleted++;
+        report.deletedBytes += object.size;
+      }
+    } catch (error) {
+      console.error(`[STORAGE] Quarantine cleanup of ${object.key} failed:`, error);
+      report.failed++;
+    }
+  }
+
+  // 4. Flag tracks pointing at objects that aren't there (keys outside the listed prefixes aren't checked)
+  const now = new Date();
+
+  for (const track of tracks) {
+    const missing = (trackKeys.get(track.id) ?? []).filter(key =>
+      RECONCILED_PREFIXES.some(prefix => key.startsWith(prefix)) && !present.has(key)
+    );
+    if (missing.length) report.missingTracks++;
+
+    const previous = parseKeys(track.missingObjects);
+    if (missing.join() === previous.join()) continue;
+
+    // updateMany - the track may have been deleted since it was read
+    await prisma.track.updateMany({
+      where: { id: track.id },
+      data: missing.length
+        ? { missingObjects: JSON.stringify(missing), ...(!previous.length && { missingObjectsAt: now }) }
+        : { missingObjects: null, missingObjectsAt: null },
+    });
+  }
+
+  // 5. Usage per artist (objects of deleted artists are orphans, not usage)
+  const artistIds = new Set(artists.map(a => a.id));
+
+  await prisma.artist.updateMany({
+    where: { id: { notIn: Array.from(usage.keys()) } },
+    data: { storageBytes: 0, storageObjects: 0, storageUsageAt: now },
+  });
+  for (const [artistId, entry] of usage) {
+    if (!artistIds.has(artistId)) continue;
+    await prisma.artist.updateMany({
+      where: { id: artistId },
+      data: { storageBytes: entry.bytes, storageObjects: entry.objects, storageUsageAt: now },
+    });
+    report.artists++;
+  }
+
+  return report;
+}
@@ -0,0 +1,303 @@
+// lib/twoFactor.ts
+// TOTP second factor (RFC 6238) with single-use recovery codes
+//
+// The shared secret is sealed with AES-256-GCM under a key derived from
+// TWO_FACTOR_ENCRYPTION_KEY; recovery codes are stored as SHA-256 hashes.
+
+import crypto from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { sendEmail, securityAlertEmail } from '@/lib/email';
+
+const ISSUER = 'IXXXI';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const DRIFT_STEPS = 1;              // Accept the previous/next code for clock drift
+const RECOVERY_CODE_COUNT = 10;
+const MAX_FAILURES = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export type SecondFactorResult =
+  | { valid: true; method: 'totp' | 'recovery'; recoveryCodesRemaining: number }
+  | { valid: false; error: string; retryAfter?: number };
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.WALLET_ENCRYPTION_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('TWO_FACTOR_ENCRYPTION_KEY is not configured');
+    }
+    return crypto.createHash('sha256').update('dev-key-change-in-prod').digest();
+  }
+  return Buffer.from(crypto.hkdfSync('sha256', secret, Buffer.alloc(0), 'ixxxi:totp-secret', 32));
+}
+
+// AES-256-GCM bound to the user id, serialized as iv:tag:ciphertext (base64)
+function sealSecret(secret: Buffer, userId: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  cipher.setAAD(Buffer.from(userId));
+  const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(b => b.toString('base64')).join(':');
+}
+
+function openSecret(sealed: string, userId: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAAD(Buffer.from(userId));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+// HOTP (RFC 4226) for one time step
+function generateCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+
+  return binary.toString().padStart(DIGITS, '0');
+}
+
+// Time step of an accepted code, or null
+function matchTotp(secret: Buffer, code: string, lastUsedStep: number | null): number | null {
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    // Each code works once - replaying an accepted step is rejected
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+
+    const expected = generateCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+function parseCodeHashes(value: string): string[] {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether the user has a confirmed second factor
+ */
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const record = await prisma.twoFactor.findUnique({ where: { userId }, select: { enabledAt: true } });
+  return !!record?.enabledAt;
+}
+
+/**
+ * Enrollment status for settings screens
+ */
+export async function getTwoFactorStatus(userId: string) {
+  const record = await prisma.twoFactor.findUnique({ where: { userId } });
+
+  return {
+    enabled: !!record?.enabledAt,
+    enabledAt: record?.enabledAt ?? null,
+    pendingEnrollment: !!record && !record.enabledAt,
+    recoveryCodesRemaining: record?.enabledAt ? parseCodeHashes(record.recoveryCodes).length : 0,
+  };
+}
+
+/**
+ * Start (or restart) enrollment - returns the secret for the authenticator app.
+ * Not active until confirmed with a code.
+ */
+export async function beginTwoFactorEnrollment(
+  userId: string,
+  accountLabel: string
+): Promise<{ started: true; secret: string; otpauthUrl: string } | { started: false; error: string }> {
+  if (await isTwoFactorEnabled(userId)) {
+    return { started: false, error: 'Two-factor authentication is already enabled' };
+  }
+
+  const secret = crypto.randomBytes(20);
+  const sealed = sealSecret(secret, userId);
+
+  await prisma.twoFactor.upsert({
+    where: { userId },
+    create: { userId, secret: sealed },
+    update: { secret: sealed, lastUsedStep: null, failedAttempts: 0, lockedUntil: null },
+  });
+
+  const encoded = base32Encode(secret);
+  const label = encodeURIComponent(`${ISSUER}:${accountLabel}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${encoded}&issuer=${ISSUER}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+  return { started: true, secret: encoded, otpauthUrl };
+}
+
+/**
+ * Confirm enrollment with a first code. Returns the recovery codes (shown once).
+ */
+export async function confirmTwoFactorEnrollment(
+  userId: string,
+  code: string
+): Promise<{ enabled: true; recoveryCodes: string[] } | { enabled: false; error: string }> {
+  const record = await prisma.twoFactor.findUnique({ where: { userId } });
+
+  if (!record) return { enabled: false, error: 'Start enrollment first' };
+  if (record.enabledAt) return { enabled: false, error: 'Two-factor authentication is already enabled' };
+
+  const normalized = String(code).replace(/\s/g, '');
+  const step = /^\d{6}$/.test(normalized)
+    ? matchTotp(openSecret(record.secret, userId), normalized, null)
+    : null;
+
+  if (step === null) return { enabled: false, error: 'Invalid code' };
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.twoFactor.update({
+    where: { userId },
+    data: {
+      enabledAt: new Date(),
+      lastUsedStep: step,
+      recoveryCodes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)),
+    },
+  });
+
+  return { enabled: true, recoveryCodes };
+}
+
+/**
+ * Check a TOTP or recovery code for a step-up action. Recovery codes are consumed.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<SecondFactorResult> {
+  const record = await prisma.twoFactor.findUnique({ where: { userId } });
+
+  if (!record?.enabledAt) {
+    return { valid: false, error: 'Two-factor authentication is not enabled' };
+  }
+
+  if (record.lockedUntil && record.lockedUntil > new Date()) {
+    return {
+      valid: false,
+      error: 'Too many failed attempts. Try again later.',
+      retryAfter: Math.ceil((record.lockedUntil.getTime() - Date.now()) / 1000),
+    };
+  }
+
+  const normalized = String(code).replace(/\s/g, '');
+  const hashes = parseCodeHashes(record.recoveryCodes);
+
+  // Codes are consumed with a compare-and-set on the values read above - of two concurrent
+  // requests with the same code, only the first write matches
+  if (/^\d{6}$/.test(normalized)) {
+    const step = matchTotp(openSecret(record.secret, userId), normalized, record.lastUsedStep);
+    if (step !== null) {
+      const consumed = await prisma.twoFactor.updateMany({
+        where: { userId, lastUsedStep: record.lastUsedStep },
+        data: { lastUsedStep: step, failedAttempts: 0, lockedUntil: null },
+      });
+      if (consumed.count === 0) return { valid: false, error: 'Code already used' };
+      return { valid: true, method: 'totp', recoveryCodesRemaining: hashes.length };
+    }
+  } else {
+    const hash = hashRecoveryCode(normalized);
+    if (hashes.includes(hash)) {
+      const remaining = hashes.filter(h => h !== hash);
+      const consumed = await prisma.twoFactor.updateMany({
+        where: { userId, recoveryCodes: record.recoveryCodes },
+        data: { recoveryCodes: JSON.stringify(remaining), failedAttempts: 0, lockedUntil: null },
+      });
+      if (consumed.count === 0) return { valid: false, error: 'Code already used' };
+      return { valid: true, method: 'recovery', recoveryCodesRemaining: remaining.length };
+    }
+  }
+
+  const failures = record.failedAttempts + 1;
+  await prisma.twoFactor.update({
+    where: { userId },
+    data: failures >= MAX_FAILURES
+      ? { failedAttempts: 0, lockedUntil: new Date(Date.now() + LOCKOUT_MS) }
+      : { failedAttempts: failures },
+  });
+
+  return { valid: false, error: 'Invalid code' };
+}
+
+/**
+ * Replace the recovery codes (caller must have verified a second factor)
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.twoFactor.update({
+    where: { userId },
+    data: { recoveryCodes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)) },
+  });
+
+  return recoveryCodes;
+}
+
+/**
+ * Turn off two-factor (caller must have verified a second factor)
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.twoFactor.deleteMany({ where: { userId } });
+}
+
+/**
+ * In-app notification plus email for security-sensitive account changes
+ */
+export async function notifySecurityEvent(
+  user: { id: string; email: string | null },
+  event: { title: string; message: string; data?: Record<string, unknown> }
+): Promise<void> {
+  await prisma.notification.create({
+    data: {
+      userId: user.id,
+      type: 'system',
+      title: event.title,
+      message: event.message,
+      data: event.data ? JSON.stringify(event.data) : null,
+    },
+  });
+
+  if (user.email) {
+    await sendEmail(user.email, securityAlertEmail({ title: event.title, message: event.message }));
+  }
+}
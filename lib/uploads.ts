@@ -0,0 +1,261 @@
+// lib/uploads.ts
+// Resumable multipart uploads for audio masters
+//
+// The track is created up front (status "uploading") so the storage key belongs to it from the
+// start. The browser PUTs parts straight to storage with presigned URLs; storage's part list is
+// the source of truth for progress, so a refreshed page re-selects the file and sends only the
+// missing parts. Completing the session hands the track to the transcode queue.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getSessionUser, unauthorized } from '@/lib/session';
+import {
+  UploadedPart,
+  abortMultipartUpload,
+  completeMultipartUpload,
+  createMultipartUpload,
+  generateStorageKey,
+  getPublicUrl,
+  getUploadPartPresignedUrl,
+  listUploadedParts,
+} from '@/lib/storage';
+import { checkArtistAccess, type GuardResult } from '@/lib/authz';
+import type { UploadSession } from '@prisma/client';
+
+// Accepted audio content types and the extension stored with each
+export const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/flac': 'flac',
+  'audio/x-flac': 'flac',
+  'audio/aac': 'aac',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+};
+export const ALLOWED_AUDIO_TYPES = Object.keys(AUDIO_EXTENSIONS);
+
+export const MULTIPART_PART_SIZE = 8 * 1024 * 1024;     // 8MB - S3 needs >= 5MB for all but the last part
+export const MAX_MASTER_SIZE = 1024 * 1024 * 1024;       // 1GB
+export const MAX_PART_URLS = 100;                        // Per request
+const PART_URL_EXPIRY_SECONDS = 60 * 60;
+const SESSION_TTL_DAYS = 7;
+
+export interface UploadTrackFields {
+  title: string;
+  ticker: string;
+  description?: string | null;
+  genre?: string | null;
+  region?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  gateType?: string;
+  gateTokenMint?: string | null;
+  gateTokenAmount?: number | null;
+  priceSOL?: number | null;
+  coverKey?: string | null;
+  coverUrl?: string | null;
+  bpm?: number | null;
+  duration?: number | null;
+  releaseId?: string | null;    // Album/EP tracks from /api/upload/batch
+  trackNumber?: number | null;
+}
+
+/**
+ * Create the track and start its multipart upload
+ */
+export async function initiateUploadSession(params: {
+  userId: string;
+  artistId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  fileKey: string;
+  track: UploadTrackFields;
+}): Promise<UploadSession> {
+  const partCount = Math.max(1, Math.ceil(params.size / MULTIPART_PART_SIZE));
+
+  const track = await prisma.track.create({
+    data: {
+      artistId: params.artistId,
+      ...params.track,
+      gateType: params.track.gateType || 'none',
+      status: 'uploading',
+    },
+  });
+
+  try {
+    const storageKey = generateStorageKey(params.artistId, track.id, 'audio', AUDIO_EXTENSIONS[params.contentType]);
+    const uploadId = await createMultipartUpload(storageKey, params.contentType);
+
+    return await prisma.uploadSession.create({
+      data: {
+        userId: params.userId,
+        artistId: params.artistId,
+        trackId: track.id,
+        storageKey,
+        uploadId,
+        filename: params.filename,
+        contentType: params.contentType,
+        fileKey: params.fileKey,
+        size: params.size,
+        partSize: MULTIPART_PART_SIZE,
+        partCount,
+        expiresAt: new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000),
+      },
+    });
+  } catch (error) {
+    await prisma.track.delete({ where: { id: track.id } });
+    throw error;
+  }
+}
+
+/**
+ * Read the stored parts from storage and record the progress on the session
+ */
+export async function syncUploadedParts(session: UploadSession): Promise<UploadedPart[]> {
+  const parts = (await listUploadedParts(session.storageKey, session.uploadId))
+    .filter(part => part.partNumber <= session.partCount);
+  const uploadedBytes = parts.reduce((sum, part) => sum + part.size, 0);
+
+  if (parts.length !== session.uploadedParts || uploadedBytes !== session.uploadedBytes) {
+    await prisma.uploadSession.update({
+      where: { id: session.id },
+      data: { uploadedParts: parts.length, uploadedBytes },
+    });
+  }
+
+  return parts;
+}
+
+/**
+ * Presigned PUT URLs for the requested parts
+ */
+export async function getPartUploadUrls(
+  session: UploadSession,
+  partNumbers: number[]
+): Promise<{ partNumber: number; url: string; size: number }[]> {
+  return Promise.all(partNumbers.map(async (partNumber) => ({
+    partNumber,
+    url: await getUploadPartPresignedUrl(session.storageKey, session.uploadId, partNumber, PART_URL_EXPIRY_SECONDS),
+    // The last part carries the remainder
+    size: partNumber === session.partCount
+      ? session.size - (session.partCount - 1) * session.partSize
+      : session.partSize,
+  })));
+}
+
+/**
+ * Assemble the parts and queue the track for transcoding. Returns the missing part numbers
+ * instead if the upload isn't finished, and aborts it if the parts add up to more than was declared.
+ */
+export async function completeUploadSession(
+  session: UploadSession
+): Promise<
+  | { completed: true }
+  | { completed: false; missingParts: number[] }
+  | { completed: false; tooLarge: true }
+> {
+  const parts = await syncUploadedParts(session);
+  const stored = new Set(parts.map(part => part.partNumber));
+  const missingParts = Array.from({ length: session.partCount }, (_, i) => i + 1).filter(n => !stored.has(n));
+
+  if (missingParts.length) return { completed: false, missingParts };
+
+  // Presigned part URLs don't bind a length - the stored parts are what actually arrived
+  const totalSize = parts.reduce((sum, part) => sum + part.size, 0);
+  if (totalSize > session.size || totalSize > MAX_MASTER_SIZE) {
+    await abortUploadSession(session);
+    return { completed: false, tooLarge: true };
+  }
+
+  await completeMultipartUpload(session.storageKey, session.uploadId, parts);
+
+  await prisma.$transaction([
+    prisma.uploadSession.update({
+      where: { id: session.id },
+      data: { status: 'completed', completedAt: new Date(), uploadedBytes: totalSize },
+    }),
+    // Stays 'processing' until the media-jobs cron has transcoded it
+    prisma.track.update({
+      where: { id: session.trackId },
+      data: {
+        audioKey: session.storageKey,
+        audioUrl: getPublicUrl(session.storageKey),
+        audioSize: totalSize,
+        audioFormat: AUDIO_EXTENSIONS[session.contentType],
+        status: 'processing',
+      },
+    }),
+    prisma.artist.update({
+      where: { id: session.artistId },
+      data: { totalTracks: { increment: 1 } },
+    }),
+  ]);
+
+  return { completed: true };
+}
+
+/**
+ * Abort the upload and remove the placeholder track (the session goes with it)
+ */
+export async function abortUploadSession(session: UploadSession): Promise<void> {
+  await abortMultipartUpload(session.storageKey, session.uploadId).catch(error =>
+    console.error(`[UPLOAD] Abort of ${session.id} failed:`, error)
+  );
+  await prisma.track.delete({ where: { id: session.trackId } });
+}
+
+/**
+ * Require an active, unexpired upload session on an artist profile the caller can manage the catalog of
+ */
+export async function requireUploadSession(
+  request: NextRequest,
+  sessionId: string
+): Promise<GuardResult<{ session: UploadSession }>> {
+  const user = await getSessionUser(request);
+  if (!user) return { ok: false, response: unauthorized() };
+
+  const session = await prisma.uploadSession.findUnique({ where: { id: sessionId } });
+  const access = session && await checkArtistAccess(user, session.artistId, 'catalog');
+  if (!session || !access?.ok) {
+    return { ok: false, response: NextResponse.json({ error: 'Upload session not found' }, { status: 404 }) };
+  }
+
+  if (session.status !== 'active') {
+    return { ok: false, response: NextResponse.json({ error: `Upload session ${session.status}` }, { status: 409 }) };
+  }
+
+  // The cleanup cron aborts it shortly - its part URLs mustn't be signed again until then
+  if (session.expiresAt < new Date()) {
+    return { ok: false, response: NextResponse.json({ error: 'Upload session expired' }, { status: 410 }) };
+  }
+
+  return { ok: true, session };
+}
+
+/**
+ * Abort sessions abandoned past their expiry (called by the cleanup cron)
+ */
+export async function processUploadSessionCleanup(batchSize: number = 50): Promise<{ aborted: number; failed: number }> {
+  const results = { aborted: 0, failed: 0 };
+
+  const sessions = await prisma.uploadSession.findMany({
+    where: { status: 'active', expiresAt: { lt: new Date() } },
+    orderBy: { expiresAt: 'asc' },
+    take: batchSize,
+  });
+
+  for (const session of sessions) {
+    try {
+      await abortUploadSession(session);
+      results.aborted++;
+    } catch (error) {
+      console.error(`[UPLOAD] Cleanup of ${session.id} failed:`, error);
+      results.failed++;
+    }
+  }
+
+  return results;
+}
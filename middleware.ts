@@ -13,8 +13,16 @@ const RATE_LIMITS = {
   upload: { requests: 5, windowMs: 60000 },         // 5 req/min for uploads
   api: { requests: 60, windowMs: 60000 },           // 60 req/min for API calls
   stream: { requests: 200, windowMs: 60000 },       // 200 req/min for streaming
+  apiKey: { requests: 60, windowMs: 60000 },        // Per IP for developer keys that haven't verified
 };
 
+type RateLimitConfig = { requests: number; windowMs: number };
+
+// Developer API keys (ixk_<keyId>_<secret>) - limits are per key, cached from the database by key hash
+const API_KEY_PATTERN = /^ixk_([a-f0-9]{12})_[a-f0-9]{48}$/;
+const API_KEY_LOOKUP_TTL_MS = 60000;
+const apiKeyLimitCache = new Map<string, { active: boolean; rateLimit: number; cachedAt: number }>();
+
 // Security headers
 const securityHeaders = {
   'X-Frame-Options': 'DENY',
@@ -36,7 +44,7 @@ const BLOCKED_USER_AGENTS = [
   'FacebookExternalHit',
 ];
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
   const ip = getClientIP(request);
   const userAgent = request.headers.get('user-agent') || '';
@@ -60,14 +68,37 @@ export function middleware(request: NextRequest) {
         headers: {
           'Access-Control-Allow-Origin': getAllowedOrigin(request),
           'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Admin-Key',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key',
           'Access-Control-Max-Age': '86400',
         },
       });
     }
 
-    // Apply rate limiting
-    const rateLimitResult = checkRateLimit(ip, pathname);
+    // Developer API keys are rate limited per key instead of per IP - once the whole key verifies,
+    // so knowing a key id isn't enough to spend its owner's quota
+    const apiKey = readApiKey(request);
+    let rateLimitResult: ReturnType<typeof checkRateLimit>;
+
+    if (apiKey) {
+      const keyId = API_KEY_PATTERN.exec(apiKey)?.[1];
+      const keyLimit = keyId ? await getApiKeyLimit(request, await sha256Hex(apiKey)) : null;
+
+      if (keyLimit?.active) {
+        rateLimitResult = checkRateLimit(`key:${keyId}`, { requests: keyLimit.rateLimit, windowMs: 60000 });
+      } else {
+        // Unverified keys count against the caller's IP (the route still authenticates the key)
+        rateLimitResult = checkRateLimit(`${ip}:apiKey`, RATE_LIMITS.apiKey);
+
+        if (rateLimitResult.allowed && (!keyId || keyLimit)) {
+          return new NextResponse(
+            JSON.stringify({ error: 'Invalid or revoked API key' }),
+            { status: 401, headers: { 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+    } else {
+      rateLimitResult = checkRateLimit(`${ip}:${getPathCategory(pathname)}`, getRateLimitConfig(pathname));
+    }
     if (!rateLimitResult.allowed) {
       return new NextResponse(
         JSON.stringify({ 
@@ -144,26 +175,70 @@ function getAllowedOrigin(request: NextRequest): string {
   return allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
 }
 
-function checkRateLimit(ip: string, pathname: string): {
-  allowed: boolean;
-  limit: number;
-  remaining: number;
-  resetAt: number;
-} {
+function readApiKey(request: NextRequest): string | null {
+  const header = request.headers.get('x-api-key');
+  if (header) return header.trim();
+
+  const authHeader = request.headers.get('authorization');
+  return authHeader?.startsWith('Bearer ixk_') ? authHeader.slice(7).trim() : null;
+}
+
+// Web Crypto SHA-256 (edge runtime has no Node crypto) - matches the hash stored for the key
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value) as BufferSource);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Edge runtime has no database access - ask the app for the key's limit, cached briefly
+async function getApiKeyLimit(
+  request: NextRequest,
+  keyHash: string
+): Promise<{ active: boolean; rateLimit: number } | null> {
+  const cached = apiKeyLimitCache.get(keyHash);
+  if (cached && Date.now() - cached.cachedAt < API_KEY_LOOKUP_TTL_MS) {
+    return cached;
+  }
+
+  const secret = process.env.INTERNAL_API_SECRET;
+  if (!secret) return null;
+
+  try {
+    const res = await fetch(new URL(`/api/developer/keys/limit?keyHash=${keyHash}`, request.nextUrl.origin), {
+      headers: { 'x-internal-secret': secret },
+    });
+    if (!res.ok) return null;
+
+    const { active, rateLimit } = await res.json();
+    const entry = { active, rateLimit, cachedAt: Date.now() };
+    apiKeyLimitCache.set(keyHash, entry);
+    return entry;
+  } catch {
+    return null; // Fall back to the per-IP key limit; the route still authenticates the key
+  }
+}
+
+function getRateLimitConfig(pathname: string): RateLimitConfig {
   // Determine rate limit tier based on path
-  let limitConfig = RATE_LIMITS.default;
-  
   if (pathname.includes('/auth') || pathname.includes('/login') || pathname.includes('/signup')) {
-    limitConfig = RATE_LIMITS.auth;
+    return RATE_LIMITS.auth;
+  } else if (pathname.startsWith('/api/upload/sessions/')) {
+    return RATE_LIMITS.api; // Part URLs, progress and completion of one resumable upload
   } else if (pathname.includes('/upload')) {
-    limitConfig = RATE_LIMITS.upload;
-  } else if (pathname.includes('/stream')) {
-    limitConfig = RATE_LIMITS.stream;
+    return RATE_LIMITS.upload;
+  } else if (pathname.includes('/stream') || pathname.startsWith('/api/storage/')) {
+    return RATE_LIMITS.stream;
   } else if (pathname.startsWith('/api')) {
-    limitConfig = RATE_LIMITS.api;
+    return RATE_LIMITS.api;
   }
+  return RATE_LIMITS.default;
+}
 
-  const key = `${ip}:${getPathCategory(pathname)}`;
+function checkRateLimit(key: string, limitConfig: RateLimitConfig): {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+} {
   const now = Date.now();
 
   let record = rateLimitMap.get(key);
@@ -196,8 +271,9 @@ function getPathCategory(pathname: string): string {
   if (pathname.includes('/auth') || pathname.includes('/login') || pathname.includes('/signup')) {
     return 'auth';
   }
+  if (pathname.startsWith('/api/upload/sessions/')) return 'api';
   if (pathname.includes('/upload')) return 'upload';
-  if (pathname.includes('/stream')) return 'stream';
+  if (pathname.includes('/stream') || pathname.startsWith('/api/storage/')) return 'stream';
   if (pathname.startsWith('/api')) return 'api';
   return 'default';
 }
@@ -209,6 +285,11 @@ function cleanupRateLimitMap() {
       rateLimitMap.delete(key);
     }
   }
+  for (const [keyHash, entry] of apiKeyLimitCache.entries()) {
+    if (now - entry.cachedAt > API_KEY_LOOKUP_TTL_MS) {
+      apiKeyLimitCache.delete(keyHash);
+    }
+  }
 }
 
 // Only apply middleware to specific paths